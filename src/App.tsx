@@ -22,7 +22,6 @@ const App: React.FC = () => {
   const profiles = useDirectoryStore((state) => state.profiles);
   const closePlayerProfile = useDirectoryStore((state) => state.closePlayerProfile);
   const favoritePlanet = useDirectoryStore((state) => state.favoritePlanet);
-  const initializeDirectory = useDirectoryStore((state) => state.initialize);
   const ensureDirectRoom = useMessageStore((state) => state.ensureDirectRoom);
   const openRoom = useMessageStore((state) => state.openRoom);
   const addNote = useAllianceStore((state) => state.addNote);
@@ -30,9 +29,8 @@ const App: React.FC = () => {
   const profile = openProfileId ? profiles[openProfileId] : undefined;
 
   useEffect(() => {
-    initializeDirectory().catch(() => undefined);
     initializeAlliance().catch(() => undefined);
-  }, [initializeAlliance, initializeDirectory]);
+  }, [initializeAlliance]);
 
   return (
     <div className="min-h-screen bg-gray-950 text-white">
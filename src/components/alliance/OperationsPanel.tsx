@@ -0,0 +1,227 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { AllianceOperation, MissionType } from '@/types';
+import { useAllianceStore } from '@/store/allianceStore';
+import { useDirectoryStore } from '@/store/directoryStore';
+import { useMissionStore } from '@/store/missionStore';
+import { countShips } from '@/lib/fleet';
+import { getParticipantReadiness, getReadinessLabel, ParticipantReadiness } from '@/lib/operations';
+import { FOCUS_OUTLINE } from '@/styles/tokens';
+import FleetDispatchModal from '@/components/galaxy/FleetDispatchModal';
+
+const MINUTE = 60 * 1000;
+
+const READINESS_COLORS: Record<ParticipantReadiness, string> = {
+  ready: 'text-emerald-300',
+  launched: 'text-sky-300',
+  offSchedule: 'text-amber-300',
+  withdrawn: 'text-red-300',
+};
+
+const toInputValue = (timestamp: number) =>
+  new Date(timestamp - new Date(timestamp).getTimezoneOffset() * MINUTE).toISOString().slice(0, 16);
+
+const formatTimestamp = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('de-DE', { dateStyle: 'short', timeStyle: 'short' });
+
+/**
+ * Aufstellung einer Operation: jede Zusage mit Startplanet, Schiffen, Startzeit und Bereitschaft;
+ * Mitglieder ohne Zusage erscheinen am Ende.
+ */
+const OperationRoster: React.FC<{ operation: AllianceOperation; memberIds: string[]; now: number }> = ({
+  operation,
+  memberIds,
+  now,
+}) => {
+  const players = useDirectoryStore((state) => state.players);
+  const missions = useMissionStore((state) => state.missions);
+  const playerName = (playerId: string) => players.find((player) => player.id === playerId)?.name ?? playerId;
+  const absentIds = memberIds.filter(
+    (memberId) => !operation.participants.some((participant) => participant.playerId === memberId),
+  );
+
+  return (
+    <table className="w-full text-left text-xs text-gray-300">
+      <thead className="text-[0.65rem] uppercase tracking-wide text-yellow-300">
+        <tr>
+          <th className="py-1 font-normal">Mitglied</th>
+          <th className="py-1 font-normal">Startplanet</th>
+          <th className="py-1 text-right font-normal">Schiffe</th>
+          <th className="py-1 text-right font-normal">Start</th>
+          <th className="py-1 text-right font-normal">Status</th>
+        </tr>
+      </thead>
+      <tbody>
+        {operation.participants.map((participant) => {
+          const mission = missions.find((entry) => entry.id === participant.missionId);
+          const readiness = getParticipantReadiness(participant, operation.arrivalAt, mission, now);
+          return (
+            <tr key={participant.missionId ?? participant.playerId} className="border-t border-yellow-800/20">
+              <td className="py-1 text-yellow-100">{playerName(participant.playerId)}</td>
+              <td className="py-1">{participant.originPlanetName}</td>
+              <td className="py-1 text-right font-mono">{countShips(mission?.fleet ?? participant.fleet)}</td>
+              <td className="py-1 text-right">{formatTimestamp(mission?.launchAt ?? participant.launchAt)}</td>
+              <td className={`py-1 text-right ${READINESS_COLORS[readiness]}`}>{getReadinessLabel(readiness)}</td>
+            </tr>
+          );
+        })}
+        {absentIds.map((memberId) => (
+          <tr key={memberId} className="border-t border-yellow-800/20 text-gray-500">
+            <td className="py-1">{playerName(memberId)}</td>
+            <td className="py-1" colSpan={4}>
+              Keine Zusage
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
+
+/**
+ * Gemeinsame Angriffe der Bande: Ziel und Ankunftszeit festlegen, eigene Flotten beisteuern und die
+ * Bereitschaft aller Teilnehmer verfolgen. Jede Flotte startet so, dass alle gleichzeitig eintreffen.
+ */
+const OperationsPanel: React.FC = () => {
+  const alliances = useAllianceStore((state) => state.alliances);
+  const myAllianceId = useAllianceStore((state) => state.myAllianceId);
+  const operations = useAllianceStore((state) => state.operations);
+  const createOperation = useAllianceStore((state) => state.createOperation);
+  const favorites = useDirectoryStore((state) => state.favorites);
+  const getPlanetById = useDirectoryStore((state) => state.getPlanetById);
+  const currentPlayerId = useDirectoryStore((state) => state.currentPlayerId);
+  const [now, setNow] = useState(() => Date.now());
+  const [targetPlanetId, setTargetPlanetId] = useState('');
+  const [arrivalAt, setArrivalAt] = useState(() => Math.ceil((Date.now() + 60 * MINUTE) / MINUTE) * MINUTE);
+  const [joiningOperationId, setJoiningOperationId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const interval = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(interval);
+  }, []);
+
+  const myAlliance = useMemo(() => alliances.find((alliance) => alliance.id === myAllianceId), [alliances, myAllianceId]);
+  const allianceOperations = useMemo(
+    () =>
+      operations
+        .filter((operation) => operation.allianceId === myAllianceId)
+        .sort((a, b) => a.arrivalAt - b.arrivalAt),
+    [myAllianceId, operations],
+  );
+  const targets = useMemo(
+    () =>
+      favorites
+        .map((planetId) => getPlanetById(planetId))
+        .filter((planet): planet is NonNullable<typeof planet> => Boolean(planet && planet.ownerId !== currentPlayerId)),
+    [currentPlayerId, favorites, getPlanetById],
+  );
+  const joiningOperation = allianceOperations.find((operation) => operation.id === joiningOperationId);
+
+  if (!myAlliance) {
+    return null;
+  }
+
+  return (
+    <section className="space-y-4 rounded-2xl border border-yellow-800/40 bg-black/45 p-5 text-sm">
+      <header className="space-y-1">
+        <h3 className="text-[clamp(1.2rem,1vw+1rem,1.6rem)] font-cinzel text-yellow-200">Operationen</h3>
+        <p className="text-xs text-gray-400">
+          Gemeinsame Angriffe mit festem Ankunftszeitpunkt. Jede Flotte startet so, dass alle zugleich eintreffen.
+        </p>
+      </header>
+
+      <form
+        className="flex flex-wrap items-end gap-3 rounded-xl border border-yellow-800/30 bg-black/40 p-3 text-xs"
+        onSubmit={(event) => {
+          event.preventDefault();
+          if (targetPlanetId && createOperation({ targetPlanetId, arrivalAt })) {
+            setTargetPlanetId('');
+          }
+        }}
+      >
+        <label className="flex flex-col gap-1 uppercase tracking-wide text-yellow-300">
+          Ziel
+          <select
+            value={targetPlanetId}
+            onChange={(event) => setTargetPlanetId(event.target.value)}
+            className={`min-w-[12rem] rounded-md border border-yellow-800/40 bg-black/40 px-2 py-1 text-sm normal-case text-yellow-100 ${FOCUS_OUTLINE.className}`}
+          >
+            <option value="">Favorit wählen</option>
+            {targets.map((planet) => (
+              <option key={planet.id} value={planet.id}>
+                {planet.name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 uppercase tracking-wide text-yellow-300">
+          Ankunft
+          <input
+            type="datetime-local"
+            value={toInputValue(arrivalAt)}
+            onChange={(event) => {
+              const value = new Date(event.target.value).getTime();
+              if (!Number.isNaN(value)) {
+                setArrivalAt(value);
+              }
+            }}
+            className={`rounded-md border border-yellow-800/40 bg-black/40 px-2 py-1 text-sm text-yellow-100 ${FOCUS_OUTLINE.className}`}
+          />
+        </label>
+        <button
+          type="submit"
+          disabled={!targetPlanetId}
+          className={`rounded-md border border-yellow-800/40 bg-yellow-800/20 px-3 py-2 text-yellow-100 disabled:opacity-50 ${FOCUS_OUTLINE.className}`}
+        >
+          Operation planen
+        </button>
+        {targets.length === 0 && (
+          <p className="w-full text-gray-500">Markiere fremde Planeten in der Galaxie als Favoriten, um sie hier anzuwählen.</p>
+        )}
+      </form>
+
+      {allianceOperations.length > 0 ? (
+        <ul className="space-y-3">
+          {allianceOperations.map((operation) => {
+            const isOpen = now < operation.arrivalAt;
+            return (
+              <li key={operation.id} className="space-y-2 rounded-xl border border-yellow-800/30 bg-black/40 p-3">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div>
+                    <p className="font-cinzel text-yellow-100">⚔️ {operation.targetPlanetName}</p>
+                    <p className="text-xs text-gray-400">
+                      Ankunft {formatTimestamp(operation.arrivalAt)}
+                      {isOpen ? ` · in ${Math.ceil((operation.arrivalAt - now) / MINUTE)} Min.` : ' · abgeschlossen'}
+                    </p>
+                  </div>
+                  {isOpen && (
+                    <button
+                      type="button"
+                      onClick={() => setJoiningOperationId(operation.id)}
+                      className={`rounded-md border border-yellow-800/40 px-3 py-1 text-xs text-yellow-100 hover:bg-yellow-800/20 ${FOCUS_OUTLINE.className}`}
+                    >
+                      Flotte beisteuern
+                    </button>
+                  )}
+                </div>
+                <OperationRoster operation={operation} memberIds={myAlliance.members} now={now} />
+              </li>
+            );
+          })}
+        </ul>
+      ) : (
+        <p className="text-xs text-gray-500">Noch keine Operationen geplant.</p>
+      )}
+
+      {joiningOperation && (
+        <FleetDispatchModal
+          targetPlanetId={joiningOperation.targetPlanetId}
+          missionType={MissionType.Angriff}
+          operationId={joiningOperation.id}
+          onClose={() => setJoiningOperationId(null)}
+        />
+      )}
+    </section>
+  );
+};
+
+export default OperationsPanel;
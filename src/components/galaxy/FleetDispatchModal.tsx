@@ -0,0 +1,272 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { MISSION_ROLE_RULES, SHIP_BLUEPRINTS } from '@/constants';
+import { FleetComposition, MissionTiming, MissionType, Resources, ResourceType } from '@/types';
+import { useShipyardStore } from '@/store/shipyardStore';
+import { useMissionStore } from '@/store/missionStore';
+import { useDirectoryStore } from '@/store/directoryStore';
+import { useAllianceStore } from '@/store/allianceStore';
+import { useGameStore } from '@/store/gameStore';
+import { calculateFleetCargo, countShips, sumResources, validateCargo, validateFleet } from '@/lib/fleet';
+import { getMissionTypeLabel, resolveLaunchAt, validateLaunchAt } from '@/lib/missions';
+import { resolvePlanetRelation, validateStationTarget, validateTransportTarget } from '@/lib/diplomacy';
+import { calculateColonyLimit, countPendingColonizations, validateColonization } from '@/lib/colonization';
+import { FOCUS_OUTLINE } from '@/styles/tokens';
+import MissionTimingFields from '@/components/galaxy/MissionTimingFields';
+
+interface FleetDispatchModalProps {
+  targetPlanetId: string;
+  missionType: MissionType;
+  /** Tritt mit der Flotte einer Bandenoperation bei; Start und Ankunft gibt die Operation vor. */
+  operationId?: string;
+  onClose: () => void;
+}
+
+const EMPTY_CARGO: Resources = {
+  [ResourceType.Orichalkum]: 0,
+  [ResourceType.Fokuskristalle]: 0,
+  [ResourceType.Vitriol]: 0,
+};
+
+const toCount = (value: string, max: number) => Math.min(max, Math.max(0, Math.floor(Number(value) || 0)));
+
+/**
+ * Dialog zum Zusammenstellen der Flotte einer Mission. Prüft Rollen, Hangarbestand und Laderaum,
+ * bevor die Schiffe den Hangar verlassen.
+ */
+const FleetDispatchModal: React.FC<FleetDispatchModalProps> = ({ targetPlanetId, missionType, operationId, onClose }) => {
+  const inventory = useShipyardStore((state) => state.inventory);
+  const planMission = useMissionStore((state) => state.planMission);
+  const estimateTravelDuration = useMissionStore((state) => state.estimateTravelDuration);
+  const getPlanetById = useDirectoryStore((state) => state.getPlanetById);
+  const currentPlayerId = useDirectoryStore((state) => state.currentPlayerId);
+  const alliances = useAllianceStore((state) => state.alliances);
+  const myAllianceId = useAllianceStore((state) => state.myAllianceId);
+  const colonies = useGameStore((state) => state.colonies);
+  const research = useGameStore((state) => state.research);
+  const missions = useMissionStore((state) => state.missions);
+  const defaultOriginPlanetId = useMissionStore((state) => state.originPlanetId);
+  const systems = useDirectoryStore((state) => state.systems);
+  const operation = useAllianceStore((state) => state.operations.find((entry) => entry.id === operationId));
+  const joinOperation = useAllianceStore((state) => state.joinOperation);
+  const [fleet, setFleet] = useState<FleetComposition>({});
+  const [cargo, setCargo] = useState<Resources>(EMPTY_CARGO);
+  const [requestedTiming, setRequestedTiming] = useState<MissionTiming | undefined>();
+  const [originPlanetId, setOriginPlanetId] = useState(defaultOriginPlanetId);
+  const timing = useMemo<MissionTiming | undefined>(
+    () => (operation ? { mode: 'arrival', at: operation.arrivalAt } : requestedTiming),
+    [operation, requestedTiming],
+  );
+  const ownPlanets = useMemo(
+    () => systems.flatMap((system) => system.planets).filter((planet) => planet.ownerId === currentPlayerId),
+    [currentPlayerId, systems],
+  );
+
+  useEffect(() => {
+    const handleKey = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        onClose();
+      }
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [onClose]);
+
+  const label = getMissionTypeLabel(missionType);
+  const rules = MISSION_ROLE_RULES[missionType];
+  const acceptsCargo = missionType === MissionType.Transport;
+  const cargoCapacity = calculateFleetCargo(fleet);
+  const targetPlanet = getPlanetById(targetPlanetId);
+  const travelDuration = useMemo(
+    () => estimateTravelDuration(targetPlanetId, missionType, originPlanetId),
+    [estimateTravelDuration, missionType, originPlanetId, targetPlanetId],
+  );
+  const targetIssues = useMemo(() => {
+    if (!targetPlanet) {
+      return [];
+    }
+    const relation = resolvePlanetRelation(targetPlanet, currentPlayerId, myAllianceId, alliances);
+    if (missionType === MissionType.Transport) {
+      return validateTransportTarget(relation);
+    }
+    if (missionType === MissionType.Kolonisierung) {
+      return validateColonization(
+        targetPlanet.ownerId,
+        Object.keys(colonies).length,
+        countPendingColonizations(missions),
+        calculateColonyLimit(research.himmelsmechanik ?? 0),
+      );
+    }
+    return missionType === MissionType.Stationierung ? validateStationTarget(relation) : [];
+  }, [alliances, colonies, currentPlayerId, missionType, missions, myAllianceId, research, targetPlanet]);
+  const issues = useMemo(
+    () => [
+      ...targetIssues,
+      ...(timing && travelDuration !== null
+        ? validateLaunchAt(resolveLaunchAt(Date.now(), travelDuration, timing), Date.now())
+        : []),
+      ...validateFleet(missionType, fleet, inventory),
+      ...validateCargo(missionType, fleet, cargo),
+    ],
+    [cargo, fleet, inventory, missionType, targetIssues, timing, travelDuration],
+  );
+  const availableShips = SHIP_BLUEPRINTS.filter((ship) => (inventory[ship.id] ?? 0) > 0);
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (operationId) {
+      if (joinOperation(operationId, { originPlanetId, fleet })) {
+        onClose();
+      }
+      return;
+    }
+    if (planMission({ targetPlanetId, missionType, fleet, cargo: acceptsCargo ? cargo : undefined, timing })) {
+      onClose();
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 px-4 py-6"
+      role="dialog"
+      aria-modal="true"
+      aria-label={`${label} zusammenstellen`}
+    >
+      <form
+        onSubmit={handleSubmit}
+        className="max-h-[85vh] w-full max-w-xl space-y-5 overflow-y-auto rounded-2xl border border-yellow-800/40 bg-black/85 p-6 text-sm shadow-2xl"
+      >
+        <header className="border-b border-yellow-800/40 pb-4">
+          <p className="text-xs uppercase tracking-wide text-yellow-300">{label}</p>
+          <h2 className="text-[clamp(1.4rem,1vw+1.1rem,1.9rem)] font-cinzel text-yellow-200">
+            Ziel {targetPlanet?.name ?? targetPlanetId}
+          </h2>
+          {rules.required.length > 0 && (
+            <p className="text-xs text-gray-400">Benötigt: {rules.required.join(' oder ')}</p>
+          )}
+        </header>
+
+        <fieldset className="space-y-2">
+          <legend className="text-xs uppercase tracking-wide text-yellow-300">Flotte</legend>
+          {availableShips.length > 0 ? (
+            availableShips.map((ship) => {
+              const available = inventory[ship.id] ?? 0;
+              return (
+                <label
+                  key={ship.id}
+                  className="flex items-center justify-between gap-3 rounded-lg bg-black/40 px-3 py-2 text-gray-200"
+                >
+                  <span>
+                    {ship.name} <span className="text-xs text-gray-400">({ship.role})</span>
+                  </span>
+                  <span className="flex items-center gap-2 text-xs text-gray-400">
+                    <input
+                      type="number"
+                      min={0}
+                      max={available}
+                      value={fleet[ship.id] ?? 0}
+                      onChange={(event) =>
+                        setFleet((current) => ({ ...current, [ship.id]: toCount(event.target.value, available) }))
+                      }
+                      className={`w-16 rounded-md border border-yellow-800/40 bg-black/40 px-2 py-1 text-sm text-yellow-100 ${FOCUS_OUTLINE.className}`}
+                    />
+                    / {available}
+                  </span>
+                </label>
+              );
+            })
+          ) : (
+            <p className="text-gray-400">Keine Schiffe im Hangar.</p>
+          )}
+        </fieldset>
+
+        {acceptsCargo && (
+          <fieldset className="space-y-2">
+            <legend className="text-xs uppercase tracking-wide text-yellow-300">
+              Ladung {sumResources(cargo).toLocaleString('de-DE')} / {cargoCapacity.toLocaleString('de-DE')}
+            </legend>
+            {(Object.values(ResourceType) as ResourceType[]).map((resource) => (
+              <label
+                key={resource}
+                className="flex items-center justify-between gap-3 rounded-lg bg-black/40 px-3 py-2 text-gray-200"
+              >
+                {resource}
+                <input
+                  type="number"
+                  min={0}
+                  value={cargo[resource]}
+                  onChange={(event) =>
+                    setCargo((current) => ({
+                      ...current,
+                      [resource]: toCount(event.target.value, Number.MAX_SAFE_INTEGER),
+                    }))
+                  }
+                  className={`w-28 rounded-md border border-yellow-800/40 bg-black/40 px-2 py-1 text-sm text-yellow-100 ${FOCUS_OUTLINE.className}`}
+                />
+              </label>
+            ))}
+          </fieldset>
+        )}
+
+        {operation ? (
+          <fieldset className="space-y-2">
+            <legend className="text-xs uppercase tracking-wide text-yellow-300">Operation</legend>
+            <label className="flex items-center justify-between gap-3 rounded-lg bg-black/40 px-3 py-2 text-gray-200">
+              Startplanet
+              <select
+                value={originPlanetId}
+                onChange={(event) => setOriginPlanetId(event.target.value)}
+                className={`rounded-md border border-yellow-800/40 bg-black/40 px-2 py-1 text-sm text-yellow-100 ${FOCUS_OUTLINE.className}`}
+              >
+                {ownPlanets.map((planet) => (
+                  <option key={planet.id} value={planet.id}>
+                    {planet.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+            {travelDuration !== null && (
+              <p className="text-xs text-gray-400">
+                Start {new Date(operation.arrivalAt - travelDuration).toLocaleString('de-DE')} · gemeinsame Ankunft{' '}
+                {new Date(operation.arrivalAt).toLocaleString('de-DE')}
+              </p>
+            )}
+          </fieldset>
+        ) : (
+          <MissionTimingFields
+            timing={timing}
+            onChange={setRequestedTiming}
+            travelDuration={travelDuration}
+            allowImmediate
+          />
+        )}
+
+        {issues.length > 0 && (countShips(fleet) > 0 || targetIssues.length > 0) && (
+          <ul className="space-y-1 text-xs text-red-300">
+            {issues.map((issue) => (
+              <li key={issue}>{issue}</li>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={onClose}
+            className={`rounded-md border border-yellow-800/40 bg-black/40 px-3 py-2 text-xs text-gray-300 hover:text-white ${FOCUS_OUTLINE.className}`}
+          >
+            Abbrechen
+          </button>
+          <button
+            type="submit"
+            disabled={issues.length > 0}
+            className="steampunk-button rounded-md px-4 py-2 font-cinzel text-xs uppercase tracking-wide disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            Flotte entsenden
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default FleetDispatchModal;
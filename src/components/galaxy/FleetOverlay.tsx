@@ -0,0 +1,127 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { MISSION_STYLES } from '@/constants';
+import { AxialCoordinates, Mission, MissionStatus } from '@/types';
+import { calculateRouteProgress, getMissionTypeLabel, getNextMissionEventAt } from '@/lib/missions';
+import { interpolateRoute } from '@/lib/pathfinding';
+
+interface FleetOverlayProps {
+  missions: Mission[];
+  resolveAxial: (systemId: string) => AxialCoordinates | undefined;
+  toMapPoint: (axial: AxialCoordinates) => { x: number; y: number };
+  onSelectMission?: (missionId: string) => void;
+}
+
+const ETA_PREFIX: Partial<Record<MissionStatus, string>> = {
+  [MissionStatus.Geplant]: 'Start in',
+  [MissionStatus.Unterwegs]: 'Ankunft in',
+  [MissionStatus.Rueckkehr]: 'Rückkehr in',
+};
+
+const formatEta = (ms: number) => {
+  const totalMinutes = Math.max(0, Math.ceil(ms / 60000));
+  const hours = Math.floor(totalMinutes / 60);
+  return hours > 0 ? `${hours} Std. ${totalMinutes % 60} Min.` : `${totalMinutes} Min.`;
+};
+
+const isVisible = (mission: Mission) =>
+  mission.status === MissionStatus.Geplant ||
+  mission.status === MissionStatus.Unterwegs ||
+  mission.status === MissionStatus.Rueckkehr;
+
+/**
+ * Animierte Ebene der Hex-Map mit den Routen aller aktiven Missionen und einer Markierung je Flotte.
+ * Die Positionen werden pro Frame aus Start-, Ankunfts- und Rückkehrzeit interpoliert.
+ */
+const FleetOverlay: React.FC<FleetOverlayProps> = ({ missions, resolveAxial, toMapPoint, onSelectMission }) => {
+  const [now, setNow] = useState(() => Date.now());
+
+  const activeMissions = useMemo(() => missions.filter(isVisible), [missions]);
+  const isMoving = activeMissions.some((mission) => mission.status !== MissionStatus.Geplant);
+
+  useEffect(() => {
+    if (!isMoving) {
+      return undefined;
+    }
+    let frame = requestAnimationFrame(function animate() {
+      setNow(Date.now());
+      frame = requestAnimationFrame(animate);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [isMoving]);
+
+  return (
+    <g aria-label="Flottenbewegungen">
+      {activeMissions.map((mission) => {
+        // Missions planned before routes existed fly the straight line between both systems.
+        const path =
+          mission.route?.path ??
+          [resolveAxial(mission.origin.systemId), resolveAxial(mission.target.systemId)].filter(
+            (axial): axial is AxialCoordinates => Boolean(axial),
+          );
+        if (path.length === 0) {
+          return null;
+        }
+        const { icon, color } = MISSION_STYLES[mission.type];
+        const progress = calculateRouteProgress(mission, now);
+        const marker = progress === null ? null : toMapPoint(interpolateRoute(path, progress));
+        const nextEventAt = getNextMissionEventAt(mission);
+        const label = [
+          `${getMissionTypeLabel(mission.type)} nach ${mission.target.planetName}`,
+          nextEventAt === null ? undefined : `${ETA_PREFIX[mission.status]} ${formatEta(nextEventAt - now)}`,
+        ]
+          .filter(Boolean)
+          .join(' · ');
+        return (
+          <g key={mission.id}>
+            <polyline
+              points={path
+                .map(toMapPoint)
+                .map((point) => `${point.x},${point.y}`)
+                .join(' ')}
+              fill="none"
+              stroke={color}
+              strokeWidth={3}
+              strokeDasharray="8 6"
+              strokeLinecap="round"
+              opacity={marker ? 0.7 : 0.35}
+              pointerEvents="none"
+            />
+            {marker && (
+              <g
+                transform={`translate(${marker.x}, ${marker.y})`}
+                role="button"
+                tabIndex={0}
+                aria-label={label}
+                className="cursor-pointer focus:outline-none"
+                onClick={(event) => {
+                  event.stopPropagation();
+                  onSelectMission?.(mission.id);
+                }}
+                onKeyDown={(event) => {
+                  if (event.key === 'Enter' || event.key === ' ') {
+                    event.preventDefault();
+                    onSelectMission?.(mission.id);
+                  }
+                }}
+              >
+                <title>{label}</title>
+                <circle
+                  r={11}
+                  fill="#1c1208"
+                  stroke={color}
+                  strokeWidth={3}
+                  strokeDasharray={mission.status === MissionStatus.Rueckkehr ? '4 3' : undefined}
+                />
+                <text textAnchor="middle" dominantBaseline="central" className="text-[0.7rem]">
+                  {icon}
+                </text>
+              </g>
+            )}
+          </g>
+        );
+      })}
+    </g>
+  );
+};
+
+export default FleetOverlay;
@@ -1,5 +1,5 @@
 import React, { useEffect, useMemo, useRef, useState } from 'react';
-import { Alliance, GalaxySystem, Player } from '@/types';
+import { Alliance, AxialCoordinates, GalaxySystem, Mission, Player } from '@/types';
 import {
   axialToPixel,
   buildHexPath,
@@ -10,6 +10,7 @@ import {
   getHexHeight,
 } from '@/lib/hex';
 import OwnerChips from '@/components/galaxy/OwnerChips';
+import FleetOverlay from '@/components/galaxy/FleetOverlay';
 
 interface HexMapProps {
   systems: GalaxySystem[];
@@ -19,6 +20,8 @@ interface HexMapProps {
   onSelect: (system: GalaxySystem) => void;
   zoom: number;
   onZoomChange: (value: number) => void;
+  missions?: Mission[];
+  onSelectMission?: (missionId: string) => void;
 }
 
 const HEX_SIZE = 42;
@@ -56,7 +59,17 @@ const aggregateOwners = (system: GalaxySystem, players: Player[], alliances: All
 /**
  * Interactive hex map with aggregated owner chips for each rendered system.
  */
-const HexMap: React.FC<HexMapProps> = ({ systems, players, alliances, selectedSystemId, onSelect, zoom, onZoomChange }) => {
+const HexMap: React.FC<HexMapProps> = ({
+  systems,
+  players,
+  alliances,
+  selectedSystemId,
+  onSelect,
+  zoom,
+  onZoomChange,
+  missions = [],
+  onSelectMission,
+}) => {
   const [offset, setOffset] = useState({ x: 0, y: 0 });
   const dragStart = useRef<{ x: number; y: number } | null>(null);
   const [center, setCenter] = useState({ q: 0, r: 0 });
@@ -68,8 +81,12 @@ const HexMap: React.FC<HexMapProps> = ({ systems, players, alliances, selectedSy
     }
   }, [selectedSystemId, systems]);
 
-  const bounds = useMemo(() => computeVisibleAxialBounds(center, Math.max(6, Math.round(14 / zoom))), [center, zoom]);
-  const visibleSystems = useMemo(() => filterSystemsByBounds(systems, bounds), [systems, bounds]);
+  const axialBounds = useMemo(
+    () => computeVisibleAxialBounds(center, Math.max(6, Math.round(14 / zoom))),
+    [center, zoom],
+  );
+  const visibleSystems = useMemo(() => filterSystemsByBounds(systems, axialBounds), [systems, axialBounds]);
+  const systemAxials = useMemo(() => new Map(systems.map((system) => [system.id, system.axial])), [systems]);
 
   const positioned = useMemo(
     () =>
@@ -113,6 +130,10 @@ const HexMap: React.FC<HexMapProps> = ({ systems, players, alliances, selectedSy
   const padding = HEX_SIZE * 2.5;
   const width = bounds.maxX - bounds.minX + padding * 2;
   const height = bounds.maxY - bounds.minY + padding * 2;
+  const toMapPoint = (axial: AxialCoordinates) => {
+    const { x, y } = axialToPixel(axial, HEX_SIZE);
+    return { x: x - bounds.minX + padding, y: y - bounds.minY + padding };
+  };
 
   const handleWheel = (event: React.WheelEvent<SVGSVGElement>) => {
     event.preventDefault();
@@ -189,6 +210,12 @@ const HexMap: React.FC<HexMapProps> = ({ systems, players, alliances, selectedSy
               </g>
             );
           })}
+          <FleetOverlay
+            missions={missions}
+            resolveAxial={(systemId) => systemAxials.get(systemId)}
+            toMapPoint={toMapPoint}
+            onSelectMission={onSelectMission}
+          />
         </g>
       </svg>
     </div>
@@ -0,0 +1,111 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { MISSION_STYLES } from '@/constants';
+import { useIncomingStore } from '@/store/incomingStore';
+import { useGameStore } from '@/store/gameStore';
+import { useDirectoryStore } from '@/store/directoryStore';
+import { calculateSensorRange, isMissionTypeRevealed } from '@/lib/incoming';
+import { getMissionTypeLabel } from '@/lib/missions';
+import { countShips } from '@/lib/fleet';
+import { FOCUS_OUTLINE } from '@/styles/tokens';
+
+const MINUTE = 60 * 1000;
+
+const formatEta = (ms: number) => {
+  const totalMinutes = Math.max(0, Math.ceil(ms / MINUTE));
+  const hours = Math.floor(totalMinutes / 60);
+  return hours > 0 ? `${hours} Std. ${totalMinutes % 60} Min.` : `${totalMinutes} Min.`;
+};
+
+const formatThresholds = (thresholds: number[]) => thresholds.map((threshold) => threshold / MINUTE).join(', ');
+
+/**
+ * Liste der feindlichen Flotten, die die Sensoren erfasst haben, mit Herkunft, Missionstyp (ab
+ * ausreichender Observatoriumsnetz-Stufe) und Ankunftszeit. Die Warnstufen lassen sich anpassen.
+ */
+const IncomingFeed: React.FC = () => {
+  const incoming = useIncomingStore((state) => state.incoming);
+  const warningThresholds = useIncomingStore((state) => state.warningThresholds);
+  const setWarningThresholds = useIncomingStore((state) => state.setWarningThresholds);
+  const sensorLevel = useGameStore((state) => state.research.observatoriumsnetz ?? 0);
+  const players = useDirectoryStore((state) => state.players);
+  const [now, setNow] = useState(() => Date.now());
+  const [thresholdInput, setThresholdInput] = useState(() => formatThresholds(warningThresholds));
+
+  useEffect(() => {
+    const interval = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(interval);
+  }, []);
+
+  useEffect(() => setThresholdInput(formatThresholds(warningThresholds)), [warningThresholds]);
+
+  const detected = useMemo(
+    () => incoming.filter((mission) => mission.detected).sort((a, b) => a.arrivalAt - b.arrivalAt),
+    [incoming],
+  );
+  const typeKnown = isMissionTypeRevealed(sensorLevel);
+
+  return (
+    <div className="rounded-2xl border border-red-900/40 bg-black/50 p-6 shadow-xl">
+      <div className="flex flex-wrap items-baseline justify-between gap-2">
+        <h3 className="text-[clamp(1.2rem,1vw+1rem,1.6rem)] font-cinzel text-red-300">Feindliche Flotten</h3>
+        <span className="text-xs text-gray-400">
+          Sensorreichweite {calculateSensorRange(sensorLevel)} Felder · Observatoriumsnetz Stufe {sensorLevel}
+        </span>
+      </div>
+      {detected.length > 0 ? (
+        <ul className="mt-3 space-y-2 text-sm text-gray-200" aria-live="polite">
+          {detected.map((mission) => {
+            const attacker = players.find((player) => player.id === mission.attackerId);
+            return (
+              <li key={mission.id} className="flex items-center justify-between gap-3 rounded-lg bg-red-950/40 px-3 py-2">
+                <div className="flex items-center gap-2">
+                  <span aria-hidden className="text-lg">
+                    {typeKnown ? MISSION_STYLES[mission.type].icon : '❔'}
+                  </span>
+                  <div>
+                    <p className="text-xs uppercase tracking-wide text-red-300">
+                      {typeKnown ? getMissionTypeLabel(mission.type) : 'Unbekannte Mission'} → {mission.target.planetName}
+                    </p>
+                    <p>
+                      {attacker?.name ?? mission.attackerId} · {mission.origin.planetName}
+                      {typeKnown && ` · ${countShips(mission.fleet)} Schiffe`}
+                    </p>
+                  </div>
+                </div>
+                <span className="text-right text-xs font-semibold text-red-200">
+                  Ankunft in {formatEta(mission.arrivalAt - now)}
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      ) : (
+        <p className="mt-3 text-xs text-gray-400">Keine feindlichen Flotten in Sensorreichweite.</p>
+      )}
+      <form
+        className="mt-4 flex flex-wrap items-center gap-2 border-t border-red-900/40 pt-3 text-xs text-gray-300"
+        onSubmit={(event) => {
+          event.preventDefault();
+          setWarningThresholds(thresholdInput.split(',').map((entry) => Number(entry.trim()) * MINUTE));
+        }}
+      >
+        <label htmlFor="incoming-thresholds">Warnungen (Min. vor Ankunft)</label>
+        <input
+          id="incoming-thresholds"
+          type="text"
+          value={thresholdInput}
+          onChange={(event) => setThresholdInput(event.target.value)}
+          className={`w-32 rounded-md border border-red-900/50 bg-black/40 px-2 py-1 text-yellow-100 ${FOCUS_OUTLINE.className}`}
+        />
+        <button
+          type="submit"
+          className={`rounded-md border border-red-900/50 px-2 py-1 text-red-100 hover:bg-red-900/30 ${FOCUS_OUTLINE.className}`}
+        >
+          Übernehmen
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default IncomingFeed;
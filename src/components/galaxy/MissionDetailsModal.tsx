@@ -0,0 +1,137 @@
+import React, { useEffect } from 'react';
+import { MISSION_STYLES } from '@/constants';
+import { MissionStatus, ResourceType } from '@/types';
+import { useMissionStore } from '@/store/missionStore';
+import { getMissionStatusLabel, getMissionTypeLabel } from '@/lib/missions';
+import { findBlueprint } from '@/lib/shipyard';
+import { FOCUS_OUTLINE } from '@/styles/tokens';
+
+interface MissionDetailsModalProps {
+  missionId: string;
+  onClose: () => void;
+}
+
+const formatTimestamp = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('de-DE', { dateStyle: 'short', timeStyle: 'medium' });
+
+/**
+ * Detailansicht einer Mission mit Zeitplan, Route, Flotte und Ladung; Flotten auf dem Hinflug
+ * lassen sich hier zurückrufen.
+ */
+const MissionDetailsModal: React.FC<MissionDetailsModalProps> = ({ missionId, onClose }) => {
+  const mission = useMissionStore((state) => state.missions.find((entry) => entry.id === missionId));
+  const recallMission = useMissionStore((state) => state.recallMission);
+
+  useEffect(() => {
+    const handleKey = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        onClose();
+      }
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [onClose]);
+
+  if (!mission) {
+    return null;
+  }
+
+  const label = getMissionTypeLabel(mission.type);
+  const timeline: [string, number | undefined][] = [
+    ['Start', mission.launchAt],
+    ['Ankunft', mission.arrivalAt],
+    ['Zurückgerufen', mission.recalledAt],
+    ['Rückkehr', mission.returnArrivalAt],
+  ];
+  const canRecall = mission.status === MissionStatus.Unterwegs && !mission.withdrawal;
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 px-4 py-6"
+      role="dialog"
+      aria-modal="true"
+      aria-label={`${label} nach ${mission.target.planetName}`}
+    >
+      <div className="max-h-[85vh] w-full max-w-lg space-y-5 overflow-y-auto rounded-2xl border border-yellow-800/40 bg-black/85 p-6 text-sm shadow-2xl">
+        <header className="border-b border-yellow-800/40 pb-4">
+          <p className="text-xs uppercase tracking-wide" style={{ color: MISSION_STYLES[mission.type].color }}>
+            {MISSION_STYLES[mission.type].icon} {label} · {getMissionStatusLabel(mission.status)}
+          </p>
+          <h2 className="text-[clamp(1.4rem,1vw+1.1rem,1.9rem)] font-cinzel text-yellow-200">
+            {mission.origin.planetName} → {mission.target.planetName}
+          </h2>
+          {mission.route && (
+            <p className="text-xs text-gray-400">
+              Route über {mission.route.path.length - 1} Felder · Flugstrecke{' '}
+              {mission.route.cost.toLocaleString('de-DE', { maximumFractionDigits: 1 })}
+            </p>
+          )}
+        </header>
+
+        <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-xs text-gray-300">
+          {timeline
+            .filter((entry): entry is [string, number] => entry[1] !== undefined)
+            .map(([title, timestamp]) => (
+              <React.Fragment key={title}>
+                <dt className="uppercase tracking-wide text-yellow-300">{title}</dt>
+                <dd>{formatTimestamp(timestamp)}</dd>
+              </React.Fragment>
+            ))}
+        </dl>
+
+        <section className="space-y-2">
+          <h3 className="text-xs uppercase tracking-wide text-yellow-300">Flotte</h3>
+          {Object.keys(mission.fleet).length > 0 ? (
+            <ul className="space-y-1 text-xs text-gray-200">
+              {Object.entries(mission.fleet).map(([blueprintId, count]) => (
+                <li key={blueprintId} className="flex justify-between rounded bg-black/40 px-2 py-1">
+                  <span>{findBlueprint(blueprintId)?.name ?? blueprintId}</span>
+                  <span className="font-mono text-yellow-100">{count}</span>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-xs text-gray-400">Keine Schiffe mehr an Bord.</p>
+          )}
+        </section>
+
+        {mission.cargo && (
+          <section className="space-y-2">
+            <h3 className="text-xs uppercase tracking-wide text-yellow-300">Ladung</h3>
+            <ul className="space-y-1 text-xs text-gray-200">
+              {(Object.values(ResourceType) as ResourceType[]).map((resource) => (
+                <li key={resource} className="flex justify-between rounded bg-black/40 px-2 py-1">
+                  <span>{resource}</span>
+                  <span className="font-mono text-yellow-100">
+                    {Math.floor(mission.cargo?.[resource] ?? 0).toLocaleString('de-DE')}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+
+        <div className="flex justify-end gap-2">
+          {canRecall && (
+            <button
+              type="button"
+              onClick={() => recallMission(mission.id)}
+              className={`rounded-md border border-yellow-800/40 px-3 py-2 text-xs text-yellow-100 hover:bg-yellow-800/20 ${FOCUS_OUTLINE.className}`}
+            >
+              Zurückrufen
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={onClose}
+            className={`rounded-md border border-yellow-800/40 bg-black/40 px-3 py-2 text-xs text-gray-300 hover:text-white ${FOCUS_OUTLINE.className}`}
+          >
+            Schließen
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MissionDetailsModal;
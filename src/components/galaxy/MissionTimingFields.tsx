@@ -0,0 +1,101 @@
+import React from 'react';
+import { MISSION_PREPARATION_TIME } from '@/constants';
+import { MissionTiming } from '@/types';
+import { resolveLaunchAt } from '@/lib/missions';
+import { FOCUS_OUTLINE } from '@/styles/tokens';
+
+interface MissionTimingFieldsProps {
+  timing?: MissionTiming;
+  onChange: (timing: MissionTiming | undefined) => void;
+  travelDuration: number | null;
+  /** Bietet zusätzlich den sofortigen Start nach der Vorbereitung an. */
+  allowImmediate?: boolean;
+}
+
+type TimingMode = 'immediate' | MissionTiming['mode'];
+
+const MODE_LABELS: Record<TimingMode, string> = {
+  immediate: 'Sofort',
+  launch: 'Start um',
+  arrival: 'Ankunft um',
+};
+
+const MINUTE = 60 * 1000;
+
+const toInputValue = (timestamp: number) => {
+  const local = new Date(timestamp - new Date(timestamp).getTimezoneOffset() * MINUTE);
+  return local.toISOString().slice(0, 16);
+};
+
+const formatTimestamp = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('de-DE', { dateStyle: 'short', timeStyle: 'short' });
+
+/**
+ * Eingabe für den Abflugzeitpunkt einer Mission: sofort, zu einer festen Startzeit oder rückwärts
+ * gerechnet von einer gewünschten Ankunftszeit. Zeigt Start und Ankunft anhand der Flugzeit an.
+ */
+const MissionTimingFields: React.FC<MissionTimingFieldsProps> = ({
+  timing,
+  onChange,
+  travelDuration,
+  allowImmediate = false,
+}) => {
+  const mode: TimingMode = timing?.mode ?? 'immediate';
+  const modes = (Object.keys(MODE_LABELS) as TimingMode[]).filter((entry) => allowImmediate || entry !== 'immediate');
+
+  const handleModeChange = (next: TimingMode) => {
+    if (next === 'immediate') {
+      onChange(undefined);
+      return;
+    }
+    // New requests start at the next full minute after preparation, or arrive one flight later.
+    const earliestLaunch = Math.ceil((Date.now() + MISSION_PREPARATION_TIME) / MINUTE) * MINUTE + MINUTE;
+    onChange({ mode: next, at: next === 'launch' ? earliestLaunch : earliestLaunch + (travelDuration ?? 0) });
+  };
+
+  const launchAt = travelDuration === null ? null : resolveLaunchAt(Date.now(), travelDuration, timing);
+
+  return (
+    <fieldset className="space-y-2">
+      <legend className="text-xs uppercase tracking-wide text-yellow-300">Zeitplan</legend>
+      <div className="flex flex-wrap gap-2" role="radiogroup" aria-label="Abflugmodus">
+        {modes.map((entry) => (
+          <button
+            key={entry}
+            type="button"
+            role="radio"
+            aria-checked={mode === entry}
+            onClick={() => handleModeChange(entry)}
+            className={`rounded-md border px-3 py-1 text-xs ${
+              mode === entry ? 'border-yellow-500 bg-yellow-800/30 text-yellow-100' : 'border-yellow-800/40 text-gray-300'
+            } ${FOCUS_OUTLINE.className}`}
+          >
+            {MODE_LABELS[entry]}
+          </button>
+        ))}
+      </div>
+      {timing && (
+        <input
+          type="datetime-local"
+          aria-label={MODE_LABELS[timing.mode]}
+          value={toInputValue(timing.at)}
+          onChange={(event) => {
+            const at = new Date(event.target.value).getTime();
+            if (!Number.isNaN(at)) {
+              onChange({ ...timing, at });
+            }
+          }}
+          className={`rounded-md border border-yellow-800/40 bg-black/40 px-2 py-1 text-sm text-yellow-100 ${FOCUS_OUTLINE.className}`}
+        />
+      )}
+      {launchAt !== null && travelDuration !== null && (
+        <p className="text-xs text-gray-400">
+          Start {formatTimestamp(launchAt)} · Ankunft {formatTimestamp(launchAt + travelDuration)} · Flugzeit{' '}
+          {Math.ceil(travelDuration / MINUTE)} Min.
+        </p>
+      )}
+    </fieldset>
+  );
+};
+
+export default MissionTimingFields;
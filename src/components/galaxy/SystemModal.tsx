@@ -1,6 +1,7 @@
 import React, { useEffect } from 'react';
-import { GalaxySystem, MissionType } from '@/types';
+import { EspionageReport, FleetComposition, GalaxySystem, MissionType, ResourceType } from '@/types';
 import { formatSystemCoordinate } from '@/lib/hex';
+import { findBlueprint } from '@/lib/shipyard';
 import { FOCUS_OUTLINE } from '@/styles/tokens';
 
 interface SystemModalProps {
@@ -15,8 +16,74 @@ interface SystemModalProps {
   favorites: string[];
   currentPlayerId: string;
   currentAllianceId?: string;
+  intelByPlanet: Record<string, EspionageReport>;
+  stationedByPlanet: Record<string, FleetComposition>;
+  onWithdrawFleet: (planetId: string) => void;
 }
 
+const formatAge = (ms: number) => {
+  const minutes = Math.max(0, Math.floor(ms / 60000));
+  if (minutes < 60) {
+    return `vor ${minutes} Min.`;
+  }
+  const hours = Math.floor(minutes / 60);
+  return hours < 24 ? `vor ${hours} Std.` : `vor ${Math.floor(hours / 24)} T.`;
+};
+
+const RESOURCE_SHORT_LABELS: Record<ResourceType, string> = {
+  [ResourceType.Orichalkum]: 'Or',
+  [ResourceType.Fokuskristalle]: 'Kr',
+  [ResourceType.Vitriol]: 'Vt',
+};
+
+/**
+ * Kurzfassung des jüngsten Spionageberichts zu einem Planeten samt Alter.
+ */
+const IntelSummary: React.FC<{ report: EspionageReport }> = ({ report }) => {
+  const { resources, fleet, defences } = report.snapshot;
+  const sumUnits = (units?: Record<string, number>) =>
+    units ? Object.values(units).reduce((acc, count) => acc + count, 0).toString() : '?';
+  return (
+    <div className="mt-3 rounded-lg border border-purple-800/30 bg-purple-950/20 px-3 py-2 text-xs text-gray-300">
+      <p className="uppercase tracking-wide text-purple-200">
+        Spionage {formatAge(Date.now() - report.createdAt)}
+        {report.detected && ' · entdeckt'}
+      </p>
+      <p className="mt-1 flex flex-wrap gap-x-3">
+        {resources &&
+          (Object.values(ResourceType) as ResourceType[]).map((resource) => (
+            <span key={resource}>
+              {RESOURCE_SHORT_LABELS[resource]} {Math.floor(resources[resource]).toLocaleString('de-DE')}
+            </span>
+          ))}
+        <span>Schiffe {sumUnits(fleet)}</span>
+        <span>Verteidigung {sumUnits(defences)}</span>
+      </p>
+    </div>
+  );
+};
+
+/**
+ * Eigene Schiffe, die einen Planeten mitverteidigen, samt Abzugsbefehl.
+ */
+const StationedSummary: React.FC<{ fleet: FleetComposition; onWithdraw: () => void }> = ({ fleet, onWithdraw }) => (
+  <div className="mt-3 flex flex-wrap items-center justify-between gap-2 rounded-lg border border-amber-800/30 bg-amber-950/20 px-3 py-2 text-xs text-gray-300">
+    <p>
+      <span className="uppercase tracking-wide text-amber-200">Stationiert</span>{' '}
+      {Object.entries(fleet)
+        .map(([blueprintId, count]) => `${count}× ${findBlueprint(blueprintId)?.name ?? blueprintId}`)
+        .join(', ')}
+    </p>
+    <button
+      type="button"
+      onClick={onWithdraw}
+      className={`rounded-md border border-amber-800/40 px-2 py-1 text-[0.7rem] text-amber-200 ${FOCUS_OUTLINE.className}`}
+    >
+      Abziehen
+    </button>
+  </div>
+);
+
 /**
  * Detailed modal for a galaxy system, listing every slot and contextual actions.
  */
@@ -32,6 +99,9 @@ const SystemModal: React.FC<SystemModalProps> = ({
   favorites,
   currentPlayerId,
   currentAllianceId,
+  intelByPlanet,
+  stationedByPlanet,
+  onWithdrawFleet,
 }) => {
   useEffect(() => {
     const handleKey = (event: KeyboardEvent) => {
@@ -183,6 +253,13 @@ const SystemModal: React.FC<SystemModalProps> = ({
                     </div>
                   </div>
                 </div>
+                {intelByPlanet[planet.id] && <IntelSummary report={intelByPlanet[planet.id]} />}
+                {stationedByPlanet[planet.id] && (
+                  <StationedSummary
+                    fleet={stationedByPlanet[planet.id]}
+                    onWithdraw={() => onWithdrawFleet(planet.id)}
+                  />
+                )}
               </li>
             );
           })}
@@ -3,7 +3,7 @@ import { afterEach, describe, expect, it } from 'vitest';
 import { act } from 'react-dom/test-utils';
 import { createRoot, Root } from 'react-dom/client';
 import HexMap from '@/components/galaxy/HexMap';
-import { Alliance, GalaxySystem, Player } from '@/types';
+import { Alliance, GalaxySystem, Mission, MissionStatus, MissionType, Player } from '@/types';
 
 describe('HexMap', () => {
   let container: HTMLDivElement | null = null;
@@ -73,4 +73,37 @@ describe('HexMap', () => {
     expect(viewBox).not.toContain('Infinity');
     expect(target.textContent).toContain('Keine Systeme sichtbar');
   });
+
+  it('marks fleets under way with their mission icon and ETA', () => {
+    const now = Date.now();
+    const location = (systemId: string, planetName: string) => ({
+      systemId,
+      planetId: `${systemId}-p`,
+      slot: 1,
+      planetName,
+    });
+    const mission: Mission = {
+      id: 'mission-1',
+      type: MissionType.Angriff,
+      commanderId: 'player-1',
+      origin: location('sys-1', 'Heimat'),
+      target: location('sys-2', 'Ziel'),
+      status: MissionStatus.Unterwegs,
+      plannedAt: now - 60000,
+      launchAt: now - 30000,
+      arrivalAt: now + 30 * 60000,
+      travelDuration: 30 * 60000 + 30000,
+      fleet: { sturmfregatte: 1 },
+    };
+    const target = renderComponent({
+      systems: [
+        { id: 'sys-1', displayName: 'A', sectorQ: 0, sectorR: 0, sysIndex: 0, axial: { q: 0, r: 0 }, planets: [] },
+        { id: 'sys-2', displayName: 'B', sectorQ: 0, sectorR: 0, sysIndex: 1, axial: { q: 2, r: 0 }, planets: [] },
+      ],
+      missions: [mission],
+    });
+    const marker = target.querySelector('[role="button"]');
+    expect(marker?.getAttribute('aria-label')).toContain('Angriff nach Ziel · Ankunft in 30 Min.');
+    expect(marker?.textContent).toContain('⚔️');
+  });
 });
@@ -0,0 +1,49 @@
+import React, { useMemo } from 'react';
+import { useGameStore } from '@/store/gameStore';
+import { useDirectoryStore } from '@/store/directoryStore';
+import { formatSystemCoordinate } from '@/lib/hex';
+import { FOCUS_OUTLINE } from '@/styles/tokens';
+
+/**
+ * Auswahl der aktiven Kolonie. Ressourcen, Gebäude und Bauaufträge aller Ansichten
+ * beziehen sich auf den hier gewählten Planeten.
+ */
+const ColonySwitcher: React.FC = () => {
+  const colonies = useGameStore((state) => state.colonies);
+  const activePlanetId = useGameStore((state) => state.activePlanetId);
+  const setActivePlanet = useGameStore((state) => state.setActivePlanet);
+  const getPlanetById = useDirectoryStore((state) => state.getPlanetById);
+  const getSystemById = useDirectoryStore((state) => state.getSystemById);
+
+  const options = useMemo(
+    () =>
+      Object.keys(colonies).map((planetId) => {
+        const planet = getPlanetById(planetId);
+        const system = planet ? getSystemById(planet.systemId) : undefined;
+        const label = planet && system ? `${planet.name} [${formatSystemCoordinate(system)}:${planet.slot}]` : planetId;
+        return { planetId, label };
+      }),
+    [colonies, getPlanetById, getSystemById],
+  );
+
+  return (
+    <label className="flex items-center gap-2 text-xs uppercase tracking-wide text-gray-300">
+      Kolonie
+      <select
+        value={activePlanetId}
+        onChange={(event) => setActivePlanet(event.target.value)}
+        className={`max-w-[260px] rounded-md border border-yellow-800/40 bg-black/40 px-2 py-1 text-sm normal-case text-yellow-100 ${FOCUS_OUTLINE.className}`}
+        aria-label="Aktive Kolonie wählen"
+      >
+        {options.map(({ planetId, label }) => (
+          <option key={planetId} value={planetId}>
+            {label}
+          </option>
+        ))}
+      </select>
+      <span className="text-gray-500">{options.length}</span>
+    </label>
+  );
+};
+
+export default ColonySwitcher;
@@ -1,5 +1,9 @@
-import React from 'react';
+import React, { useMemo, useRef } from 'react';
 import { useGameStore } from '@/store/gameStore';
+import { useReportStore } from '@/store/reportStore';
+import { countUnreadReports } from '@/lib/reports';
+import { useSaveGame } from '@/hooks/useSaveGame';
+import { FOCUS_OUTLINE } from '@/styles/tokens';
 import { View } from '@/types';
 
 export interface NavLinkProps {
@@ -17,6 +21,8 @@ export const NAV_LINKS: NavLinkProps[] = [
   { view: View.Forschung, label: 'Forschung', icon: '🔬' },
   { view: View.Werft, label: 'Werft', icon: '🚀' },
   { view: View.Galaxie, label: 'Galaxie', icon: '🌌' },
+  { view: View.Berichte, label: 'Berichte', icon: '📜' },
+  { view: View.Zeitplan, label: 'Zeitplan', icon: '🗓️' },
   { view: View.Bande, label: 'Bande', icon: '🤝' },
 ];
 
@@ -27,6 +33,18 @@ export const NAV_LINKS: NavLinkProps[] = [
 const LeftNav: React.FC = () => {
   const activeView = useGameStore((state) => state.activeView);
   const setView = useGameStore((state) => state.setView);
+  const reports = useReportStore((state) => state.reports);
+  const unreadReports = useMemo(() => countUnreadReports(reports), [reports]);
+  const { exportSave, importSave } = useSaveGame();
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+  const handleImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (file) {
+      importSave(file).catch(() => undefined);
+    }
+  };
 
   return (
     <nav className="hidden h-full w-64 shrink-0 flex-col gap-6 rounded-xl bg-black/30 p-5 shadow-lg backdrop-blur-xl lg:flex">
@@ -50,11 +68,40 @@ const LeftNav: React.FC = () => {
                 {icon}
               </span>
               <span>{label}</span>
+              {view === View.Berichte && unreadReports > 0 && (
+                <span className="ml-2 rounded-full bg-yellow-500 px-2 text-xs text-black" aria-label="ungelesen">
+                  {unreadReports}
+                </span>
+              )}
             </button>
           </li>
         ))}
       </ul>
-      <div className="mt-auto text-center text-xs text-gray-500">
+      <div className="mt-auto space-y-2 text-center text-xs text-gray-500">
+        <p className="uppercase tracking-wide text-yellow-600">Spielstand</p>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={exportSave}
+            className={`flex-1 rounded-md border border-yellow-800/40 px-2 py-1 text-yellow-100 hover:bg-yellow-800/20 ${FOCUS_OUTLINE.className}`}
+          >
+            Exportieren
+          </button>
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            className={`flex-1 rounded-md border border-yellow-800/40 px-2 py-1 text-yellow-100 hover:bg-yellow-800/20 ${FOCUS_OUTLINE.className}`}
+          >
+            Importieren
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={handleImport}
+          />
+        </div>
         <p>Version 0.1.0-mvp</p>
       </div>
     </nav>
@@ -7,6 +7,8 @@ import ResearchView from '@/components/views/ResearchView';
 import GalaxyView from '@/components/views/GalaxyView';
 import WerftView from '@/components/views/WerftView';
 import AllianceView from '@/components/views/AllianceView';
+import ReportsView from '@/components/views/ReportsView';
+import TimelineView from '@/components/views/TimelineView';
 
 /**
  * Routet den aktiven View-Zustand auf die jeweilige Bildschirmkomponente.
@@ -25,6 +27,10 @@ const MainView: React.FC = () => {
       return <WerftView />;
     case View.Galaxie:
       return <GalaxyView />;
+    case View.Berichte:
+      return <ReportsView />;
+    case View.Zeitplan:
+      return <TimelineView />;
     case View.Bande:
       return <AllianceView />;
     default:
@@ -1,6 +1,9 @@
-import React from 'react';
+import React, { useMemo } from 'react';
 import { NAV_LINKS } from '@/components/layout/LeftNav';
 import { useGameStore } from '@/store/gameStore';
+import { useReportStore } from '@/store/reportStore';
+import { countUnreadReports } from '@/lib/reports';
+import { View } from '@/types';
 
 /**
  * Bottom navigation bar for small screens that mirrors the desktop navigation items.
@@ -8,6 +11,8 @@ import { useGameStore } from '@/store/gameStore';
 const MobileNav: React.FC = () => {
   const activeView = useGameStore((state) => state.activeView);
   const setView = useGameStore((state) => state.setView);
+  const reports = useReportStore((state) => state.reports);
+  const unreadReports = useMemo(() => countUnreadReports(reports), [reports]);
 
   return (
     <nav className="fixed inset-x-0 bottom-0 z-40 flex justify-center bg-black/80 py-2 shadow-2xl backdrop-blur-xl lg:hidden">
@@ -28,6 +33,14 @@ const MobileNav: React.FC = () => {
                   {icon}
                 </span>
                 <span>{label}</span>
+                {view === View.Berichte && unreadReports > 0 && (
+                  <span
+                    className="absolute -top-1 right-0 rounded-full bg-yellow-500 px-1.5 text-[0.6rem] text-black"
+                    aria-label="ungelesen"
+                  >
+                    {unreadReports}
+                  </span>
+                )}
                 <span
                   className={`absolute inset-x-1 bottom-0 h-0.5 rounded-full bg-yellow-400 transition-opacity ${
                     isActive ? 'opacity-100' : 'opacity-0'
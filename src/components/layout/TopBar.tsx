@@ -1,7 +1,13 @@
-import React from 'react';
-import { useGameStore } from '@/store/gameStore';
-import { ResourceType } from '@/types';
+import React, { useEffect, useMemo, useState } from 'react';
+import { selectActiveColony, useGameStore } from '@/store/gameStore';
+import { useIncomingStore } from '@/store/incomingStore';
+import { ResourceType, View } from '@/types';
 import ProgressBar from '@/components/ui/ProgressBar';
+import { calculateStorageCapacity } from '@/lib/economy';
+import { projectQueuedLevels } from '@/lib/buildQueue';
+import ColonySwitcher from '@/components/layout/ColonySwitcher';
+import { useModifiers } from '@/hooks/useModifiers';
+import { useColonyResources } from '@/hooks/useColonyResources';
 
 const formatNumber = (num: number) => Math.floor(num).toLocaleString('de-DE');
 
@@ -9,13 +15,14 @@ interface ResourceDisplayProps {
   type: ResourceType;
   current: number;
   capacity: number;
+  upcomingCapacity?: number;
 }
 
 /**
  * Eine Komponente zur Anzeige einer einzelnen Ressource mit ihrem aktuellen Wert,
  * ihrer Kapazität und einem Fortschrittsbalken.
  */
-const ResourceDisplay: React.FC<ResourceDisplayProps> = ({ type, current, capacity }) => {
+const ResourceDisplay: React.FC<ResourceDisplayProps> = ({ type, current, capacity, upcomingCapacity }) => {
   const fillPercent = capacity > 0 ? Math.min(100, (current / capacity) * 100) : 0;
   const isNearlyFull = capacity > 0 && current >= capacity * 0.95;
   const textColor = isNearlyFull ? 'text-red-400' : 'text-yellow-200';
@@ -32,7 +39,15 @@ const ResourceDisplay: React.FC<ResourceDisplayProps> = ({ type, current, capaci
       </div>
       <ProgressBar progress={fillPercent} />
       <div className="flex items-center justify-between text-xs text-gray-300">
-        <span>Lager</span>
+        <span>
+          Lager
+          {upcomingCapacity !== undefined && upcomingCapacity > capacity && (
+            <span className="text-emerald-300" title="Kapazität nach Abschluss der Lagerausbauten">
+              {' '}
+              → {formatNumber(upcomingCapacity)}
+            </span>
+          )}
+        </span>
         <span>{fillPercent.toFixed(0)}%</span>
       </div>
     </div>
@@ -40,7 +55,7 @@ const ResourceDisplay: React.FC<ResourceDisplayProps> = ({ type, current, capaci
 };
 
 const KesseldruckDisplay: React.FC = () => {
-  const { capacity, consumption, net, efficiency } = useGameStore((state) => state.kesseldruck);
+  const { capacity, consumption, net, efficiency } = useGameStore((state) => selectActiveColony(state).kesseldruck);
   const demandRatio = capacity > 0 ? (consumption / capacity) * 100 : 0;
   const statusColor = net >= 0 ? 'text-emerald-300' : 'text-red-400';
   const gaugePercent = Math.min(100, Math.max(0, demandRatio));
@@ -69,32 +84,83 @@ const KesseldruckDisplay: React.FC = () => {
   );
 };
 
+/**
+ * Rote Dauerwarnung, solange entdeckte feindliche Flotten im Anflug sind. Führt zur Übersicht mit der
+ * Liste der Flotten.
+ */
+const IncomingAlert: React.FC = () => {
+  const incoming = useIncomingStore((state) => state.incoming);
+  const setView = useGameStore((state) => state.setView);
+  const [now, setNow] = useState(() => Date.now());
+  const detected = useMemo(() => incoming.filter((mission) => mission.detected), [incoming]);
+
+  useEffect(() => {
+    if (detected.length === 0) {
+      return undefined;
+    }
+    const interval = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(interval);
+  }, [detected.length]);
+
+  if (detected.length === 0) {
+    return null;
+  }
+  const nextArrivalAt = Math.min(...detected.map((mission) => mission.arrivalAt));
+  const minutes = Math.max(0, Math.ceil((nextArrivalAt - now) / 60000));
+
+  return (
+    <button
+      type="button"
+      role="alert"
+      onClick={() => setView(View.Uebersicht)}
+      className="flex items-center gap-2 rounded-md border border-red-500 bg-red-900/60 px-3 py-1 text-xs font-semibold text-red-100 shadow-lg shadow-red-900/40"
+    >
+      <span aria-hidden className="h-2 w-2 animate-pulse rounded-full bg-red-400" />
+      {detected.length} feindliche {detected.length === 1 ? 'Flotte' : 'Flotten'} · nächste in {minutes} Min.
+    </button>
+  );
+};
+
 /**
  * Die obere Leiste der Benutzeroberfläche.
- * Zeigt die aktuellen Ressourcen des Spielers und den Kesseldruck an.
+ * Zeigt die Ressourcen und den Kesseldruck der aktiven Kolonie, den Kolonie-Wechsler und Angriffswarnungen an.
  */
 const TopBar: React.FC = () => {
-  const resources = useGameStore((state) => state.resources);
-  const storage = useGameStore((state) => state.storage);
+  const { storage, buildings, buildQueue } = useGameStore(selectActiveColony);
+  const resources = useColonyResources();
+  const modifiers = useModifiers();
+  const upcomingStorage = useMemo(
+    () => calculateStorageCapacity(projectQueuedLevels(buildings, buildQueue), modifiers),
+    [buildings, buildQueue, modifiers],
+  );
 
   return (
-    <div className="flex flex-wrap justify-center gap-3">
-      <ResourceDisplay
-        type={ResourceType.Orichalkum}
-        current={resources[ResourceType.Orichalkum]}
-        capacity={storage[ResourceType.Orichalkum]}
-      />
-      <ResourceDisplay
-        type={ResourceType.Fokuskristalle}
-        current={resources[ResourceType.Fokuskristalle]}
-        capacity={storage[ResourceType.Fokuskristalle]}
-      />
-      <ResourceDisplay
-        type={ResourceType.Vitriol}
-        current={resources[ResourceType.Vitriol]}
-        capacity={storage[ResourceType.Vitriol]}
-      />
-      <KesseldruckDisplay />
+    <div className="flex flex-col gap-2">
+      <div className="flex flex-wrap items-center justify-end gap-3">
+        <IncomingAlert />
+        <ColonySwitcher />
+      </div>
+      <div className="flex flex-wrap justify-center gap-3">
+        <ResourceDisplay
+          type={ResourceType.Orichalkum}
+          current={resources[ResourceType.Orichalkum]}
+          capacity={storage[ResourceType.Orichalkum]}
+          upcomingCapacity={upcomingStorage[ResourceType.Orichalkum]}
+        />
+        <ResourceDisplay
+          type={ResourceType.Fokuskristalle}
+          current={resources[ResourceType.Fokuskristalle]}
+          capacity={storage[ResourceType.Fokuskristalle]}
+          upcomingCapacity={upcomingStorage[ResourceType.Fokuskristalle]}
+        />
+        <ResourceDisplay
+          type={ResourceType.Vitriol}
+          current={resources[ResourceType.Vitriol]}
+          capacity={storage[ResourceType.Vitriol]}
+          upcomingCapacity={upcomingStorage[ResourceType.Vitriol]}
+        />
+        <KesseldruckDisplay />
+      </div>
     </div>
   );
 };
@@ -0,0 +1,250 @@
+import React, { useMemo, useState } from 'react';
+import { BUILDINGS, RESEARCH } from '@/constants';
+import { Building, Requirement, Research, ResourceType } from '@/types';
+import { useGameStore } from '@/store/gameStore';
+import { useRequirementLevels } from '@/hooks/useRequirementLevels';
+import { calculateUpgradeCost } from '@/lib/progression';
+import {
+  TechTreeNode,
+  collectPrerequisiteKeys,
+  collectTechTreeNodes,
+  computeTechTreeLayers,
+  findMissingRequirements,
+  formatRequirement,
+  planMissingSteps,
+  toNodeKey,
+} from '@/lib/techTree';
+
+const NODE_WIDTH = 200;
+const NODE_HEIGHT = 64;
+const COLUMN_GAP = 80;
+const ROW_GAP = 20;
+const PADDING = 16;
+
+type GraphNodeKind = Requirement['kind'];
+
+interface PositionedNode {
+  key: string;
+  kind: GraphNodeKind;
+  entity: Building | Research;
+  requirements: Requirement[];
+  x: number;
+  y: number;
+}
+
+const resolveEntity = (kind: GraphNodeKind, id: string): Building | Research | undefined =>
+  kind === 'building' ? BUILDINGS[id] : RESEARCH[id];
+
+const formatCost = (value: number) => value.toLocaleString('de-DE');
+
+/**
+ * Ordnet Gebäude und Forschungen spaltenweise nach Abhängigkeitstiefe an.
+ */
+const layoutNodes = (): { nodes: PositionedNode[]; width: number; height: number } => {
+  const treeNodes = collectTechTreeNodes().filter(
+    (node): node is TechTreeNode & { kind: GraphNodeKind } => node.kind !== 'ship',
+  );
+  const layers = computeTechTreeLayers(treeNodes);
+  const columns: PositionedNode[][] = [];
+  treeNodes.forEach((node) => {
+    const entity = resolveEntity(node.kind, node.id);
+    if (!entity) {
+      return;
+    }
+    const key = toNodeKey(node.kind, node.id);
+    const layer = layers.get(key) ?? 0;
+    columns[layer] = columns[layer] ?? [];
+    columns[layer].push({ key, kind: node.kind, entity, requirements: node.requirements, x: 0, y: 0 });
+  });
+  const nodes: PositionedNode[] = [];
+  let maxRows = 0;
+  columns.forEach((column, layer) => {
+    column
+      .sort((a, b) => a.kind.localeCompare(b.kind) || a.entity.name.localeCompare(b.entity.name, 'de'))
+      .forEach((node, row) => {
+        nodes.push({
+          ...node,
+          x: PADDING + layer * (NODE_WIDTH + COLUMN_GAP),
+          y: PADDING + row * (NODE_HEIGHT + ROW_GAP),
+        });
+      });
+    maxRows = Math.max(maxRows, column.length);
+  });
+  return {
+    nodes,
+    width: PADDING * 2 + columns.length * (NODE_WIDTH + COLUMN_GAP) - COLUMN_GAP,
+    height: PADDING * 2 + maxRows * (NODE_HEIGHT + ROW_GAP) - ROW_GAP,
+  };
+};
+
+/**
+ * Abhängigkeitsgraph aller Gebäude und Forschungen als SVG. Ein Klick auf einen Knoten hebt den
+ * vollständigen Pfad hervor und bietet an, alle fehlenden Schritte in die Bauschleife einzureihen.
+ */
+const TechTreeGraph: React.FC = () => {
+  const startUpgrade = useGameStore((state) => state.startUpgrade);
+  const currentLevels = useRequirementLevels(false);
+  const projectedLevels = useRequirementLevels();
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+
+  const layout = useMemo(() => layoutNodes(), []);
+  const nodesByKey = useMemo(() => new Map(layout.nodes.map((node) => [node.key, node])), [layout]);
+
+  const highlighted = useMemo(
+    () =>
+      selectedKey
+        ? collectPrerequisiteKeys(
+            selectedKey,
+            layout.nodes.map((node) => ({ kind: node.kind, id: node.entity.id, requirements: node.requirements })),
+          )
+        : new Set<string>(),
+    [layout, selectedKey],
+  );
+
+  const selectedNode = selectedKey ? nodesByKey.get(selectedKey) : undefined;
+  const missingSteps = useMemo(() => {
+    if (!selectedNode) {
+      return [];
+    }
+    const nextLevel = (projectedLevels[selectedNode.kind][selectedNode.entity.id] ?? 0) + 1;
+    return planMissingSteps({ kind: selectedNode.kind, id: selectedNode.entity.id, level: nextLevel }, projectedLevels);
+  }, [projectedLevels, selectedNode]);
+
+  const enqueueMissingSteps = () => {
+    for (const step of missingSteps) {
+      const entity = resolveEntity(step.kind, step.id);
+      // Stop at the first rejected step; later steps would depend on it.
+      if (!entity || !startUpgrade(entity, step.kind)) {
+        break;
+      }
+    }
+  };
+
+  const toggleNode = (key: string) => setSelectedKey((current) => (current === key ? null : key));
+
+  return (
+    <div className="grid gap-6 xl:grid-cols-[minmax(0,1fr)_320px]">
+      <div className="overflow-auto rounded-2xl border border-yellow-800/30 bg-black/45 shadow-xl">
+        <svg
+          width={layout.width}
+          height={layout.height}
+          viewBox={`0 0 ${layout.width} ${layout.height}`}
+          role="img"
+          aria-label="Technologiebaum"
+        >
+          {layout.nodes.flatMap((node) =>
+            node.requirements.map((requirement) => {
+              const source = nodesByKey.get(toNodeKey(requirement.kind, requirement.id));
+              if (!source) {
+                return null;
+              }
+              const isActive = highlighted.has(node.key) && highlighted.has(source.key);
+              const startX = source.x + NODE_WIDTH;
+              const startY = source.y + NODE_HEIGHT / 2;
+              const endX = node.x;
+              const endY = node.y + NODE_HEIGHT / 2;
+              const bend = COLUMN_GAP / 2;
+              return (
+                <path
+                  key={`${source.key}->${node.key}`}
+                  d={`M ${startX} ${startY} C ${startX + bend} ${startY}, ${endX - bend} ${endY}, ${endX} ${endY}`}
+                  fill="none"
+                  stroke={isActive ? '#6ee7b7' : 'rgba(202, 138, 4, 0.35)'}
+                  strokeWidth={isActive ? 2.5 : 1.2}
+                />
+              );
+            }),
+          )}
+          {layout.nodes.map((node) => {
+            const level = currentLevels[node.kind][node.entity.id] ?? 0;
+            const projected = projectedLevels[node.kind][node.entity.id] ?? 0;
+            const cost = calculateUpgradeCost(node.entity, projected + 1);
+            const isLocked = findMissingRequirements(node.requirements, projectedLevels).length > 0;
+            const isSelected = node.key === selectedKey;
+            const isOnPath = highlighted.has(node.key);
+            let stroke = isLocked ? '#4b5563' : '#ca8a04';
+            if (isOnPath) {
+              stroke = '#6ee7b7';
+            }
+            return (
+              <g
+                key={node.key}
+                transform={`translate(${node.x}, ${node.y})`}
+                role="button"
+                tabIndex={0}
+                aria-pressed={isSelected}
+                aria-label={`${node.entity.name}, Stufe ${level}${isLocked ? ', gesperrt' : ''}`}
+                onClick={() => toggleNode(node.key)}
+                onKeyDown={(event) => {
+                  if (event.key === 'Enter' || event.key === ' ') {
+                    event.preventDefault();
+                    toggleNode(node.key);
+                  }
+                }}
+                className="cursor-pointer focus:outline-none"
+              >
+                <rect
+                  width={NODE_WIDTH}
+                  height={NODE_HEIGHT}
+                  rx={10}
+                  fill={isLocked ? 'rgba(17, 24, 39, 0.85)' : 'rgba(0, 0, 0, 0.6)'}
+                  stroke={stroke}
+                  strokeWidth={isSelected ? 3 : 1.5}
+                />
+                <text x={12} y={22} fill={isLocked ? '#9ca3af' : '#fde68a'} fontSize={13} fontWeight={600}>
+                  {isLocked ? '🔒 ' : ''}
+                  {node.entity.name}
+                </text>
+                <text x={12} y={40} fill="#d1d5db" fontSize={11}>
+                  {node.kind === 'building' ? 'Gebäude' : 'Forschung'} · Stufe {level}
+                  {projected > level ? ` → ${projected}` : ''}
+                </text>
+                <text x={12} y={55} fill="#9ca3af" fontSize={10}>
+                  Or {formatCost(cost[ResourceType.Orichalkum])} · Kr {formatCost(cost[ResourceType.Fokuskristalle])} · Vt{' '}
+                  {formatCost(cost[ResourceType.Vitriol])}
+                </text>
+              </g>
+            );
+          })}
+        </svg>
+      </div>
+      <aside className="space-y-4 rounded-2xl border border-yellow-800/30 bg-black/50 p-6 text-sm text-gray-200 shadow-xl">
+        {selectedNode ? (
+          <>
+            <header className="space-y-1">
+              <h3 className="text-[clamp(1.1rem,1vw+0.9rem,1.5rem)] font-cinzel text-yellow-200">
+                {selectedNode.entity.name}
+              </h3>
+              <p className="text-xs text-gray-400">{selectedNode.entity.description}</p>
+            </header>
+            <div>
+              <p className="text-xs uppercase tracking-wide text-yellow-300">Fehlende Schritte</p>
+              <ol className="mt-2 space-y-1 text-xs">
+                {missingSteps.map((step) => (
+                  <li key={`${step.kind}-${step.id}-${step.level}`} className="rounded-lg bg-black/40 px-3 py-2">
+                    {formatRequirement(step)}
+                  </li>
+                ))}
+              </ol>
+            </div>
+            <button
+              type="button"
+              onClick={enqueueMissingSteps}
+              disabled={missingSteps.length === 0}
+              className="steampunk-button w-full rounded-md px-4 py-2 font-cinzel text-sm uppercase tracking-wide disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              {missingSteps.length === 1 ? 'Schritt einreihen' : `Alle ${missingSteps.length} Schritte einreihen`}
+            </button>
+            <p className="text-xs text-gray-400">
+              Schritte werden der Reihe nach eingeplant, bis die Warteschlange voll ist oder Ressourcen fehlen.
+            </p>
+          </>
+        ) : (
+          <p className="text-gray-400">Wähle einen Knoten, um den Pfad dorthin hervorzuheben.</p>
+        )}
+      </aside>
+    </div>
+  );
+};
+
+export default TechTreeGraph;
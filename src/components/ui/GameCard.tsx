@@ -13,6 +13,8 @@ interface GameCardProps {
   onUpgrade: () => void;
   isUpgrading: boolean;
   queueLength: number;
+  queueCapacity?: number;
+  isLocked?: boolean;
   meta?: React.ReactNode;
 }
 
@@ -64,9 +66,12 @@ const GameCard: React.FC<GameCardProps> = ({
   onUpgrade,
   isUpgrading,
   queueLength,
+  queueCapacity = MAX_BUILD_QUEUE_LENGTH,
+  isLocked = false,
   meta,
 }) => {
-  const queueIsFull = queueLength >= MAX_BUILD_QUEUE_LENGTH;
+  const queueIsFull = queueLength >= queueCapacity;
+  const isDisabled = queueIsFull || isLocked;
   const showResourceWarning = !canAfford;
 
   let buttonLabel = 'Ausbauen';
@@ -74,7 +79,10 @@ const GameCard: React.FC<GameCardProps> = ({
     buttonLabel = 'Weiter ausbauen';
   }
   if (queueIsFull) {
-    buttonLabel = `Warteschlange voll (${MAX_BUILD_QUEUE_LENGTH})`;
+    buttonLabel = `Warteschlange voll (${queueCapacity})`;
+  }
+  if (isLocked) {
+    buttonLabel = 'Voraussetzungen fehlen';
   }
 
   return (
@@ -104,9 +112,9 @@ const GameCard: React.FC<GameCardProps> = ({
         <button
           type="button"
           onClick={onUpgrade}
-          disabled={queueIsFull}
+          disabled={isDisabled}
           className={`w-full rounded-md px-4 py-2 font-cinzel text-sm uppercase tracking-wide transition-colors ${
-            queueIsFull
+            isDisabled
               ? 'cursor-not-allowed bg-gray-700 text-gray-400'
               : 'steampunk-button'
           }`}
@@ -0,0 +1,38 @@
+import React from 'react';
+import { Requirement } from '@/types';
+import { RequirementLevels, formatRequirement } from '@/lib/techTree';
+
+interface RequirementListProps {
+  requirements?: Requirement[];
+  levels: RequirementLevels;
+  children?: React.ReactNode;
+}
+
+/**
+ * Listet die Voraussetzungen eines Gebäudes, einer Forschung oder eines Bauplans als Chips.
+ * Erfüllte Voraussetzungen erscheinen gedämpft, fehlende rot hervorgehoben.
+ */
+const RequirementList: React.FC<RequirementListProps> = ({ requirements = [], levels, children }) => {
+  if (requirements.length === 0 && !children) {
+    return null;
+  }
+  return (
+    <ul className="flex flex-wrap gap-2 text-xs">
+      {requirements.map((requirement) => {
+        const isMet = (levels[requirement.kind][requirement.id] ?? 0) >= requirement.level;
+        return (
+          <li
+            key={`${requirement.kind}-${requirement.id}`}
+            className={`rounded-full px-3 py-1 ${isMet ? 'bg-yellow-900/40 text-yellow-200' : 'bg-red-900/50 text-red-200'}`}
+            title={isMet ? 'Voraussetzung erfüllt' : 'Voraussetzung fehlt'}
+          >
+            {isMet ? '✔' : '✖'} {formatRequirement(requirement)}
+          </li>
+        );
+      })}
+      {children}
+    </ul>
+  );
+};
+
+export default RequirementList;
@@ -1,5 +1,6 @@
 import React from 'react';
 import AlliancePanel from '@/components/alliance/AlliancePanel';
+import OperationsPanel from '@/components/alliance/OperationsPanel';
 import ChatSidebar from '@/components/messaging/ChatSidebar';
 import { useDirectoryStore } from '@/store/directoryStore';
 
@@ -16,7 +17,10 @@ const AllianceView: React.FC = () => {
 
   return (
     <section className="grid gap-6 pb-16 lg:grid-cols-[minmax(0,1.5fr)_minmax(0,0.8fr)]">
-      <AlliancePanel />
+      <div className="flex flex-col gap-6">
+        <AlliancePanel />
+        <OperationsPanel />
+      </div>
       <div className="flex flex-col gap-4">
         <ChatSidebar onShareCoordinate={handleShareCoordinate} />
         <aside className="rounded-2xl border border-yellow-800/40 bg-black/45 p-4 text-sm text-gray-200">
@@ -1,18 +1,58 @@
 import React from 'react';
-import { useGameStore } from '@/store/gameStore';
+import { selectActiveColony, useGameStore } from '@/store/gameStore';
 import { BUILDINGS } from '@/constants';
 import GameCard from '@/components/ui/GameCard';
+import { calculateStorageCapacity } from '@/lib/economy';
+import { Building, ResourceType } from '@/types';
+import { Modifiers } from '@/lib/modifiers';
+import { useModifiers } from '@/hooks/useModifiers';
+import { useRequirementLevels } from '@/hooks/useRequirementLevels';
+import { useColonyResources } from '@/hooks/useColonyResources';
+import RequirementList from '@/components/ui/RequirementList';
+import { findMissingRequirements } from '@/lib/techTree';
+import { findMissingResources } from '@/lib/progression';
+
+const formatNumber = (value: number) => Math.floor(value).toLocaleString('de-DE');
+
+/**
+ * Zeigt für Lagergebäude die Kapazität der aktuellen und der nächsten Stufe.
+ */
+const StorageMeta: React.FC<{ building: Building; level: number; nextLevel: number; modifiers: Modifiers }> = ({
+  building,
+  level,
+  nextLevel,
+  modifiers,
+}) => {
+  const resources = (Object.values(ResourceType) as ResourceType[]).filter(
+    (resource) => (building.baseStorageCapacity?.[resource] ?? 0) > 0,
+  );
+  const current = calculateStorageCapacity({ [building.id]: level }, modifiers);
+  const next = calculateStorageCapacity({ [building.id]: nextLevel }, modifiers);
+  return (
+    <ul className="space-y-1 text-xs text-gray-300">
+      {resources.map((resource) => (
+        <li key={resource} className="flex items-center justify-between rounded-lg bg-black/40 px-3 py-2">
+          <span className="uppercase tracking-wide text-yellow-300">Lager {resource}</span>
+          <span>
+            {formatNumber(current[resource])} <span className="text-emerald-300">→ {formatNumber(next[resource])}</span>
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+};
 
 /**
  * Übersicht aller ausbaubaren Gebäude inklusive Upgrade-Kosten und Bauzeit.
  */
 const BuildingsView: React.FC = () => {
-  const buildings = useGameStore((state) => state.buildings);
-  const buildQueue = useGameStore((state) => state.buildQueue);
-  const canAfford = useGameStore((state) => state.canAfford);
+  const { buildings, buildQueue } = useGameStore(selectActiveColony);
+  const resources = useColonyResources();
   const getUpgradeCost = useGameStore((state) => state.getUpgradeCost);
   const getBuildTime = useGameStore((state) => state.getBuildTime);
   const startUpgrade = useGameStore((state) => state.startUpgrade);
+  const modifiers = useModifiers();
+  const requirementLevels = useRequirementLevels();
 
   return (
     <section className="space-y-8 pb-16">
@@ -31,7 +71,8 @@ const BuildingsView: React.FC = () => {
           const costForNextUpgrade = getUpgradeCost(building, nextLevel);
           const buildTime = getBuildTime(costForNextUpgrade);
           const isUpgrading = buildQueue.some((item) => item.entityId === building.id);
-          const affordable = canAfford(costForNextUpgrade);
+          const affordable = findMissingResources(resources, costForNextUpgrade).length === 0;
+          const isLocked = findMissingRequirements(building.requirements, requirementLevels).length > 0;
 
           return (
             <GameCard
@@ -43,9 +84,18 @@ const BuildingsView: React.FC = () => {
               upgradeCost={costForNextUpgrade}
               buildTime={buildTime}
               canAfford={affordable}
-              onUpgrade={() => startUpgrade(building)}
+              onUpgrade={() => startUpgrade(building, 'building')}
               isUpgrading={isUpgrading}
               queueLength={buildQueue.length}
+              isLocked={isLocked}
+              meta={
+                <>
+                  <RequirementList requirements={building.requirements} levels={requirementLevels} />
+                  {building.baseStorageCapacity && (
+                    <StorageMeta building={building} level={targetLevel} nextLevel={nextLevel} modifiers={modifiers} />
+                  )}
+                </>
+              }
             />
           );
         })}
@@ -3,15 +3,20 @@ import { BIOME_STYLES } from '@/constants';
 import { Alliance, GalaxyPlanet, GalaxySystem, MissionType, PlanetBiome, Player } from '@/types';
 import { useDirectoryStore } from '@/store/directoryStore';
 import { useAllianceStore } from '@/store/allianceStore';
+import { useReportStore } from '@/store/reportStore';
+import { useMissionStore } from '@/store/missionStore';
 import HexMap from '@/components/galaxy/HexMap';
 import SystemModal from '@/components/galaxy/SystemModal';
+import FleetDispatchModal from '@/components/galaxy/FleetDispatchModal';
+import MissionDetailsModal from '@/components/galaxy/MissionDetailsModal';
 import GalaxyLegend from '@/components/galaxy/GalaxyLegend';
 import VirtualList from '@/lib/virtualList';
 import { formatSystemCoordinate, parseSystemCoordinate } from '@/lib/hex';
+import { collectLatestIntel } from '@/lib/espionage';
+import { collectStationedFleets } from '@/lib/fleet';
 import OwnerChips, { OwnerChipEntry } from '@/components/galaxy/OwnerChips';
 import ChatSidebar from '@/components/messaging/ChatSidebar';
 import { FOCUS_OUTLINE } from '@/styles/tokens';
-import { useMissionStore } from '@/store/missionStore';
 
 const ROW_HEIGHT = 76;
 
@@ -68,7 +73,9 @@ const GalaxyView: React.FC = () => {
   const favoritePlanet = useDirectoryStore((state) => state.favoritePlanet);
   const favorites = useDirectoryStore((state) => state.favorites);
   const alliances = useAllianceStore((state) => state.alliances);
-  const planMission = useMissionStore((state) => state.planMission);
+  const reports = useReportStore((state) => state.reports);
+  const missions = useMissionStore((state) => state.missions);
+  const withdrawStationedFleet = useMissionStore((state) => state.withdrawStationedFleet);
 
   const [searchTerm, setSearchTerm] = useState('');
   const [onlyMine, setOnlyMine] = useState(false);
@@ -76,8 +83,13 @@ const GalaxyView: React.FC = () => {
   const [biomeFilter, setBiomeFilter] = useState<PlanetBiome | 'all'>('all');
   const [selectedSystemId, setSelectedSystemId] = useState<string | null>(null);
   const [modalSystemId, setModalSystemId] = useState<string | null>(null);
+  const [dispatch, setDispatch] = useState<{ planetId: string; type: MissionType } | null>(null);
+  const [detailMissionId, setDetailMissionId] = useState<string | null>(null);
   const [zoom, setZoom] = useState(1.1);
 
+  const intelByPlanet = useMemo(() => collectLatestIntel(reports), [reports]);
+  const stationedByPlanet = useMemo(() => collectStationedFleets(missions), [missions]);
+
   const selectedSystem = useMemo(
     () => systems.find((system) => system.id === selectedSystemId) ?? null,
     [selectedSystemId, systems],
@@ -188,7 +200,8 @@ const GalaxyView: React.FC = () => {
     if (!planet || !selectedSystem) {
       return;
     }
-    planMission({ targetPlanetId: planet.id, missionType: type });
+    setModalSystemId(null);
+    setDispatch({ planetId: planet.id, type });
   };
 
   return (
@@ -291,6 +304,8 @@ const GalaxyView: React.FC = () => {
               onSelect={handleMapSelect}
               zoom={zoom}
               onZoomChange={setZoom}
+              missions={missions}
+              onSelectMission={setDetailMissionId}
             />
             <div className="pointer-events-none absolute inset-0 flex items-end justify-end p-4">
               <div className="pointer-events-auto inline-flex flex-col gap-2 rounded-xl border border-yellow-800/30 bg-black/60 p-2 shadow-lg">
@@ -340,6 +355,19 @@ const GalaxyView: React.FC = () => {
           favorites={favorites}
           currentPlayerId={currentPlayerId}
           currentAllianceId={currentAllianceId}
+          intelByPlanet={intelByPlanet}
+          stationedByPlanet={stationedByPlanet}
+          onWithdrawFleet={withdrawStationedFleet}
+        />
+      )}
+      {detailMissionId && (
+        <MissionDetailsModal missionId={detailMissionId} onClose={() => setDetailMissionId(null)} />
+      )}
+      {dispatch && (
+        <FleetDispatchModal
+          targetPlanetId={dispatch.planetId}
+          missionType={dispatch.type}
+          onClose={() => setDispatch(null)}
         />
       )}
     </section>
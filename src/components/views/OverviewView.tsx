@@ -1,13 +1,29 @@
-import React, { useMemo } from 'react';
-import { useGameStore } from '@/store/gameStore';
-import { BUILDINGS, RESEARCH, SERVER_SPEED } from '@/constants';
+import React, { useMemo, useState } from 'react';
+import { selectActiveColony, useGameStore } from '@/store/gameStore';
+import {
+  BUILDINGS,
+  MAX_BUILD_QUEUE_LENGTH,
+  MAX_RESEARCH_QUEUE_LENGTH,
+  MISSION_STYLES,
+  QUEUE_CANCEL_REFUND_RATIO,
+  RESEARCH,
+  SERVER_SPEED,
+} from '@/constants';
 import ProgressBar from '@/components/ui/ProgressBar';
-import { BuildQueueItem, MissionStatus, MissionType, ResourceType } from '@/types';
+import IncomingFeed from '@/components/galaxy/IncomingFeed';
+import { BuildQueueItem, MissionStatus, ResourceType, UpgradeKind } from '@/types';
 import { useDirectoryStore } from '@/store/directoryStore';
 import { CARD_MIN_HEIGHT, FOCUS_OUTLINE, SECTION_SPACING } from '@/styles/tokens';
 import { useMissionStore } from '@/store/missionStore';
 import { formatSystemCoordinate } from '@/lib/hex';
-import { calculateResourceProductionPerTick } from '@/lib/economy';
+import { getMissionStatusLabel } from '@/lib/missions';
+import { collectStationedFleets } from '@/lib/fleet';
+import { findBlueprint } from '@/lib/shipyard';
+import { calculateResourceProductionPerTick, calculateStorageCapacity } from '@/lib/economy';
+import { projectQueuedLevels } from '@/lib/buildQueue';
+import { useModifiers } from '@/hooks/useModifiers';
+import { useColonyResources } from '@/hooks/useColonyResources';
+import { useDisplayClock } from '@/hooks/useDisplayClock';
 
 const formatDuration = (ms: number) => {
   if (ms < 0) {
@@ -38,20 +54,6 @@ const QUEUE_ICONS: Record<'building' | 'research', string> = {
   research: '🔬',
 };
 
-const MISSION_ICONS: Record<MissionType, string> = {
-  [MissionType.Angriff]: '⚔️',
-  [MissionType.Transport]: '🚚',
-  [MissionType.Spionage]: '🛰️',
-  [MissionType.Stationierung]: '🛡️',
-  [MissionType.Kolonisierung]: '🚩',
-};
-
-const MISSION_STATUS_LABELS: Record<MissionStatus, string> = {
-  [MissionStatus.Geplant]: 'Vorbereitung',
-  [MissionStatus.Unterwegs]: 'Unterwegs',
-  [MissionStatus.Abgeschlossen]: 'Abgeschlossen',
-};
-
 const RESOURCE_DETAILS: Record<ResourceType, { label: string; icon: string }> = {
   [ResourceType.Orichalkum]: { label: 'Orichalkum', icon: '⛏️' },
   [ResourceType.Fokuskristalle]: { label: 'Fokuskristalle', icon: '🔮' },
@@ -73,18 +75,23 @@ const formatHourlyRate = (value: number) => {
 };
 
 const ResourceSummaryCard: React.FC = () => {
-  const resources = useGameStore((state) => state.resources);
-  const storage = useGameStore((state) => state.storage);
-  const buildings = useGameStore((state) => state.buildings);
-  const efficiency = useGameStore((state) => state.kesseldruck.efficiency);
+  const { storage, buildings, buildQueue } = useGameStore(selectActiveColony);
+  const resources = useColonyResources();
+  const efficiency = useGameStore((state) => selectActiveColony(state).kesseldruck.efficiency);
+  const modifiers = useModifiers();
+
+  const upcomingStorage = useMemo(
+    () => calculateStorageCapacity(projectQueuedLevels(buildings, buildQueue), modifiers),
+    [buildings, buildQueue, modifiers],
+  );
 
   const productionPerHour = useMemo(() => {
-    const perSecond = calculateResourceProductionPerTick(buildings, SERVER_SPEED, efficiency);
+    const perSecond = calculateResourceProductionPerTick(buildings, SERVER_SPEED, efficiency, modifiers);
     return (Object.values(ResourceType) as ResourceType[]).reduce<Record<ResourceType, number>>((acc, resource) => {
       acc[resource] = perSecond[resource] * 3600;
       return acc;
     }, {} as Record<ResourceType, number>);
-  }, [buildings, efficiency]);
+  }, [buildings, efficiency, modifiers]);
 
   return (
     <div className="rounded-2xl border border-yellow-800/30 bg-black/50 p-6 shadow-xl" style={{ minHeight: CARD_MIN_HEIGHT.sm }}>
@@ -94,6 +101,7 @@ const ResourceSummaryCard: React.FC = () => {
           const { icon, label } = RESOURCE_DETAILS[resource];
           const amount = resources[resource];
           const capacity = storage[resource];
+          const upcomingCapacity = upcomingStorage[resource];
           const ratePerHour = productionPerHour[resource] ?? 0;
           const remaining = Math.max(0, capacity - amount);
           const secondsToFull = ratePerHour <= 0 ? null : (remaining / ratePerHour) * 3600;
@@ -121,6 +129,9 @@ const ResourceSummaryCard: React.FC = () => {
                   <p className="text-xs uppercase tracking-wide text-yellow-300">{label}</p>
                   <p className="font-mono text-sm text-gray-100">
                     {numberFormatter.format(Math.floor(amount))} / {numberFormatter.format(Math.floor(capacity))}
+                    {upcomingCapacity > capacity && (
+                      <span className="text-emerald-300"> → {numberFormatter.format(Math.floor(upcomingCapacity))}</span>
+                    )}
                   </p>
                 </div>
               </div>
@@ -137,67 +148,147 @@ const ResourceSummaryCard: React.FC = () => {
 };
 
 interface QueueCardProps {
-  entityId: string;
-  items: BuildQueueItem[];
+  item: BuildQueueItem;
+  isDragging: boolean;
+  isDropTarget: boolean;
+  onCancel: () => void;
+  onDragStart: () => void;
+  onDragEnter: () => void;
+  onDragEnd: () => void;
+  onDrop: () => void;
 }
 
-const QueueCard: React.FC<QueueCardProps> = ({ entityId, items }) => {
-  const now = Date.now();
-  const entity = BUILDINGS[entityId] || RESEARCH[entityId];
+const QueueCard: React.FC<QueueCardProps> = ({
+  item,
+  isDragging,
+  isDropTarget,
+  onCancel,
+  onDragStart,
+  onDragEnter,
+  onDragEnd,
+  onDrop,
+}) => {
+  const now = useDisplayClock();
+  const entity = item.kind === 'building' ? BUILDINGS[item.entityId] : RESEARCH[item.entityId];
   if (!entity) {
     return null;
   }
-  const isBuilding = Boolean(BUILDINGS[entityId]);
-  const icon = isBuilding ? QUEUE_ICONS.building : QUEUE_ICONS.research;
-  const activeItem = items.find((item) => now >= item.startTime && now < item.endTime) ?? null;
+  const isActive = now >= item.startTime && now < item.endTime;
 
   return (
-    <li className="rounded-xl border border-yellow-800/30 bg-black/45 p-4 shadow-lg">
+    <li
+      draggable={!isActive}
+      onDragStart={onDragStart}
+      onDragEnter={onDragEnter}
+      onDragOver={(event) => event.preventDefault()}
+      onDragEnd={onDragEnd}
+      onDrop={(event) => {
+        event.preventDefault();
+        onDrop();
+      }}
+      className={`rounded-xl border bg-black/45 p-4 shadow-lg ${
+        isDropTarget ? 'border-emerald-400/70' : 'border-yellow-800/30'
+      } ${isDragging ? 'opacity-50' : ''} ${isActive ? '' : 'cursor-grab'}`}
+    >
       <div className="flex items-center justify-between gap-3">
         <div className="flex items-center gap-3 text-left">
           <span className="text-2xl" aria-hidden>
-            {icon}
+            {QUEUE_ICONS[item.kind]}
           </span>
           <div>
             <p className="font-cinzel text-sm uppercase tracking-wide text-yellow-200">{entity.name}</p>
-            <p className="text-xs text-gray-300">{items.length} Auftrag{items.length > 1 ? 'e' : ''}</p>
+            <p className="text-xs text-gray-300">
+              Stufe {item.level - 1} → {item.level}
+            </p>
           </div>
         </div>
-        {activeItem ? (
-          <span className="font-mono text-sm text-yellow-100">{formatDuration(activeItem.endTime - now)}</span>
-        ) : (
-          <span className="text-xs text-gray-400">Wartet</span>
-        )}
+        <div className="flex items-center gap-3">
+          {isActive ? (
+            <span className="font-mono text-sm text-yellow-100">{formatDuration(item.endTime - now)}</span>
+          ) : (
+            <span className="text-xs text-gray-400">Wartet · {formatDuration(item.endTime - item.startTime)}</span>
+          )}
+          <button
+            type="button"
+            onClick={onCancel}
+            className={`rounded-md border border-red-500/40 px-2 py-1 text-xs text-red-200 hover:bg-red-500/10 ${FOCUS_OUTLINE.className}`}
+            aria-label={`${entity.name} Stufe ${item.level} abbrechen`}
+            title={`${Math.round(QUEUE_CANCEL_REFUND_RATIO * 100)} % Erstattung, spätere Stufen entfallen ebenfalls`}
+          >
+            Abbrechen
+          </button>
+        </div>
       </div>
-      {activeItem && (
+      {isActive && (
         <div className="mt-3">
-          <ProgressBar
-            progress={((now - activeItem.startTime) / (activeItem.endTime - activeItem.startTime)) * 100}
-          />
-          <p className="mt-1 text-xs text-gray-300">
-            Stufe {activeItem.level - 1} → {activeItem.level}
-          </p>
+          <ProgressBar progress={((now - item.startTime) / (item.endTime - item.startTime)) * 100} />
         </div>
       )}
-      <ul className="mt-4 space-y-2 text-xs text-gray-300">
-        {items.map((item) => {
-          const statusLabel = now >= item.endTime ? 'Abgeschlossen' : now >= item.startTime ? 'In Arbeit' : 'Wartet';
-          return (
-            <li key={`${entityId}-${item.level}`} className="flex items-center justify-between">
-              <span>{statusLabel}</span>
-              <span className="font-mono">{formatDuration((item.endTime - now) > 0 ? item.endTime - now : item.endTime - item.startTime)}</span>
-            </li>
-          );
-        })}
-      </ul>
     </li>
   );
 };
 
+interface QueueLaneProps {
+  title: string;
+  kind: UpgradeKind;
+  queue: BuildQueueItem[];
+  capacity: number;
+}
+
+/**
+ * Eine Spur der Bauschleife; Gebäude und Forschung laufen unabhängig voneinander.
+ * Wartende Aufträge lassen sich per Ziehen umsortieren.
+ */
+const QueueLane: React.FC<QueueLaneProps> = ({ title, kind, queue, capacity }) => {
+  const cancelUpgrade = useGameStore((state) => state.cancelUpgrade);
+  const moveUpgrade = useGameStore((state) => state.moveUpgrade);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  const resetDrag = () => {
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
+  return (
+    <section className="mt-4">
+      <div className="flex items-center justify-between">
+        <h4 className="font-cinzel text-sm uppercase tracking-wide text-yellow-300">{title}</h4>
+        <span className="text-xs text-gray-400">
+          {queue.length}/{capacity} Aufträge
+        </span>
+      </div>
+      {queue.length > 0 ? (
+        <ul className="mt-3 space-y-3">
+          {queue.map((item: BuildQueueItem, index: number) => (
+            <QueueCard
+              key={`${item.entityId}-${item.level}`}
+              item={item}
+              isDragging={dragIndex === index}
+              isDropTarget={dragIndex !== null && dropIndex === index && dragIndex !== index}
+              onCancel={() => cancelUpgrade(kind, item.entityId, item.level)}
+              onDragStart={() => setDragIndex(index)}
+              onDragEnter={() => setDropIndex(index)}
+              onDragEnd={resetDrag}
+              onDrop={() => {
+                if (dragIndex !== null) {
+                  moveUpgrade(kind, dragIndex, index);
+                }
+                resetDrag();
+              }}
+            />
+          ))}
+        </ul>
+      ) : (
+        <p className="mt-3 text-center text-sm text-gray-400">Keine Aufträge in der Warteschlange.</p>
+      )}
+    </section>
+  );
+};
+
 const useBottleneck = () => {
-  const resources = useGameStore((state) => state.resources);
-  const storage = useGameStore((state) => state.storage);
-  const kesseldruck = useGameStore((state) => state.kesseldruck);
+  const { storage, kesseldruck } = useGameStore(selectActiveColony);
+  const resources = useColonyResources();
 
   return useMemo(() => {
     if (kesseldruck.net < 0) {
@@ -220,9 +311,10 @@ const useBottleneck = () => {
  * Übersicht mit Fokus auf Warteschlangen, Engpässen und Planetenstatus.
  */
 const OverviewView: React.FC = () => {
-  const buildQueue = useGameStore((state) => state.buildQueue);
-  const buildings = useGameStore((state) => state.buildings);
+  const { buildQueue, buildings } = useGameStore(selectActiveColony);
   const research = useGameStore((state) => state.research);
+  const researchQueue = useGameStore((state) => state.researchQueue);
+  const activePlanetId = useGameStore((state) => state.activePlanetId);
   const bottleneck = useBottleneck();
   const favorites = useDirectoryStore((state) => state.favorites);
   const getPlanetById = useDirectoryStore((state) => state.getPlanetById);
@@ -230,16 +322,18 @@ const OverviewView: React.FC = () => {
   const openProfile = useDirectoryStore((state) => state.openPlayerProfile);
   const favoritePlanet = useDirectoryStore((state) => state.favoritePlanet);
   const missions = useMissionStore((state) => state.missions);
+  const recallMission = useMissionStore((state) => state.recallMission);
+  const cancelMission = useMissionStore((state) => state.cancelMission);
+  const withdrawStationedFleet = useMissionStore((state) => state.withdrawStationedFleet);
 
-  const groupedQueue = useMemo(() => {
-    return buildQueue.reduce<Record<string, BuildQueueItem[]>>((acc, item) => {
-      if (!acc[item.entityId]) {
-        acc[item.entityId] = [];
-      }
-      acc[item.entityId].push(item);
-      return acc;
-    }, {});
-  }, [buildQueue]);
+  const activePlanet = useMemo(() => {
+    const planet = getPlanetById(activePlanetId);
+    const system = planet ? getSystemById(planet.systemId) : undefined;
+    return {
+      name: planet?.name ?? activePlanetId,
+      coordinates: planet && system ? `${formatSystemCoordinate(system)}:${planet.slot}` : '?',
+    };
+  }, [activePlanetId, getPlanetById, getSystemById]);
 
   const favoriteEntries = useMemo(() => {
     return favorites
@@ -277,6 +371,10 @@ const OverviewView: React.FC = () => {
       } else if (mission.status === MissionStatus.Rueckkehr) {
         const eta = mission.returnArrivalAt ? mission.returnArrivalAt - now : 0;
         timingLabel = `Rückkehr in ${formatDuration(eta)}`;
+      } else if (mission.status === MissionStatus.Zurueckgekehrt) {
+        timingLabel = 'Im Hangar';
+      } else if (mission.status === MissionStatus.Stationiert) {
+        timingLabel = 'Verteidigt das Ziel';
       } else if (mission.status === MissionStatus.Abgebrochen) {
         timingLabel = mission.cancelledAt ? `Abbruch vor ${formatDuration(now - mission.cancelledAt)}` : 'Abgebrochen';
       }
@@ -290,11 +388,29 @@ const OverviewView: React.FC = () => {
         canCancel: mission.status === MissionStatus.Geplant,
         canRecall: mission.status === MissionStatus.Unterwegs,
         isReturning: mission.status === MissionStatus.Rueckkehr,
+        isRecalled: mission.recalledAt !== undefined,
         isCancelled: mission.status === MissionStatus.Abgebrochen,
       };
     });
   }, [getSystemById, missions]);
 
+  const stationedEntries = useMemo(
+    () =>
+      Object.entries(collectStationedFleets(missions)).map(([planetId, fleet]) => {
+        const planet = getPlanetById(planetId);
+        const system = planet ? getSystemById(planet.systemId) : undefined;
+        return {
+          planetId,
+          name: planet?.name ?? planetId,
+          coordinate: planet && system ? `${formatSystemCoordinate(system)}:${planet.slot}` : '?',
+          ships: Object.entries(fleet)
+            .map(([blueprintId, count]) => `${count}× ${findBlueprint(blueprintId)?.name ?? blueprintId}`)
+            .join(', '),
+        };
+      }),
+    [getPlanetById, getSystemById, missions],
+  );
+
   return (
     <section className="space-y-8 pb-16">
       <header className="space-y-2" style={{ marginTop: SECTION_SPACING.headingTop }}>
@@ -308,12 +424,12 @@ const OverviewView: React.FC = () => {
         >
           <img
             src="https://picsum.photos/seed/steampunkplanet/500/300"
-            alt="Planet Chronos Prime"
+            alt={`Planet ${activePlanet.name}`}
             className="mx-auto h-48 w-48 rounded-full border-4 border-yellow-600/50 object-cover shadow-lg"
           />
           <div className="space-y-1">
-            <h3 className="text-[clamp(1.3rem,1vw+1.1rem,1.8rem)] font-cinzel">Heimatplanet &quot;Chronos Prime&quot;</h3>
-            <p className="text-sm text-gray-400">Koordinaten: [1:1:1]</p>
+            <h3 className="text-[clamp(1.3rem,1vw+1.1rem,1.8rem)] font-cinzel">Kolonie &quot;{activePlanet.name}&quot;</h3>
+            <p className="text-sm text-gray-400">Koordinaten: [{activePlanet.coordinates}]</p>
             <p className="text-xs uppercase tracking-wide text-yellow-200">{bottleneck}</p>
           </div>
         </div>
@@ -324,17 +440,10 @@ const OverviewView: React.FC = () => {
           >
             <div className="flex items-center justify-between">
               <h3 className="text-[clamp(1.2rem,1vw+1rem,1.6rem)] font-cinzel text-yellow-200">Bauschleife</h3>
-              <span className="text-xs text-gray-400">{buildQueue.length} aktive Aufträge</span>
+              <span className="text-xs text-gray-400">{buildQueue.length + researchQueue.length} aktive Aufträge</span>
             </div>
-            {buildQueue.length > 0 ? (
-              <ul className="mt-4 space-y-3">
-                {Object.entries(groupedQueue).map(([entityId, items]) => (
-                  <QueueCard key={entityId} entityId={entityId} items={items} />
-                ))}
-              </ul>
-            ) : (
-              <p className="mt-6 text-center text-sm text-gray-400">Keine Aufträge in der Warteschlange.</p>
-            )}
+            <QueueLane title="Gebäude" kind="building" queue={buildQueue} capacity={MAX_BUILD_QUEUE_LENGTH} />
+            <QueueLane title="Forschung" kind="research" queue={researchQueue} capacity={MAX_RESEARCH_QUEUE_LENGTH} />
           </div>
           <div
             className="rounded-2xl border border-yellow-800/30 bg-black/50 p-6 shadow-xl"
@@ -353,6 +462,7 @@ const OverviewView: React.FC = () => {
             </dl>
           </div>
           <ResourceSummaryCard />
+          <IncomingFeed />
           <div className="rounded-2xl border border-yellow-800/30 bg-black/50 p-6 shadow-xl" style={{ minHeight: CARD_MIN_HEIGHT.sm }}>
             <h3 className="text-[clamp(1.2rem,1vw+1rem,1.6rem)] font-cinzel text-yellow-200">Favoriten &amp; Einsätze</h3>
             {favoriteEntries.length > 0 ? (
@@ -394,20 +504,44 @@ const OverviewView: React.FC = () => {
               {missionEntries.length > 0 ? (
                 <ul className="mt-3 space-y-2 text-sm text-gray-200">
                   {missionEntries.map((mission) => (
-                    <li key={mission.id} className="rounded-lg bg-black/40 p-3">
+                    <li key={mission.id} className={`rounded-lg bg-black/40 p-3 ${mission.isCancelled ? 'opacity-60' : ''}`}>
                       <div className="flex items-center justify-between gap-3">
                         <div className="flex items-center gap-2">
                           <span aria-hidden className="text-lg">
-                            {MISSION_ICONS[mission.type]}
+                            {MISSION_STYLES[mission.type].icon}
                           </span>
                           <div>
                             <p className="text-xs uppercase tracking-wide text-yellow-300">{mission.coordinate}</p>
                             <p>{mission.planetName}</p>
+                            {(mission.canRecall || mission.isReturning) && (
+                              <p className={`text-xs ${mission.isReturning ? 'text-sky-300' : 'text-amber-300'}`}>
+                                {mission.isReturning ? '↩ Rückflug' : '➜ Hinflug'}
+                                {mission.isRecalled && ' · zurückgerufen'}
+                              </p>
+                            )}
                           </div>
                         </div>
                         <div className="text-right text-xs text-gray-300">
-                          <p className="font-semibold text-yellow-200">{MISSION_STATUS_LABELS[mission.status]}</p>
+                          <p className="font-semibold text-yellow-200">{getMissionStatusLabel(mission.status)}</p>
                           <p>{mission.timingLabel}</p>
+                          {mission.canRecall && (
+                            <button
+                              type="button"
+                              onClick={() => recallMission(mission.id)}
+                              className={`mt-1 rounded-md border border-yellow-800/40 px-2 py-0.5 text-xs text-yellow-100 hover:bg-yellow-800/20 ${FOCUS_OUTLINE.className}`}
+                            >
+                              Zurückrufen
+                            </button>
+                          )}
+                          {mission.canCancel && (
+                            <button
+                              type="button"
+                              onClick={() => cancelMission(mission.id)}
+                              className={`mt-1 rounded-md border border-yellow-800/40 px-2 py-0.5 text-xs text-yellow-100 hover:bg-yellow-800/20 ${FOCUS_OUTLINE.className}`}
+                            >
+                              Abbrechen
+                            </button>
+                          )}
                         </div>
                       </div>
                     </li>
@@ -417,6 +551,34 @@ const OverviewView: React.FC = () => {
                 <p className="mt-3 text-xs text-gray-400">Noch keine Flotten unterwegs.</p>
               )}
             </div>
+            <div className="mt-5 border-t border-yellow-800/40 pt-4">
+              <h4 className="font-cinzel text-sm uppercase tracking-wide text-yellow-300">Stationierte Flotten</h4>
+              {stationedEntries.length > 0 ? (
+                <ul className="mt-3 space-y-2 text-sm text-gray-200">
+                  {stationedEntries.map((entry) => (
+                    <li
+                      key={entry.planetId}
+                      className="flex items-center justify-between gap-3 rounded-lg bg-black/40 p-3"
+                    >
+                      <div>
+                        <p className="text-xs uppercase tracking-wide text-yellow-300">{entry.coordinate}</p>
+                        <p>{entry.name}</p>
+                        <p className="text-xs text-gray-400">{entry.ships}</p>
+                      </div>
+                      <button
+                        type="button"
+                        onClick={() => withdrawStationedFleet(entry.planetId)}
+                        className={`rounded-md border border-amber-800/40 px-2 py-1 text-[0.7rem] text-amber-200 ${FOCUS_OUTLINE.className}`}
+                      >
+                        Abziehen
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="mt-3 text-xs text-gray-400">Keine Flotten stationiert.</p>
+              )}
+            </div>
           </div>
         </div>
       </div>
@@ -0,0 +1,292 @@
+import React, { useMemo, useState } from 'react';
+import { BUILDINGS, RESEARCH } from '@/constants';
+import { FleetComposition, Report, ReportType, Resources, ResourceType, View } from '@/types';
+import { useReportStore } from '@/store/reportStore';
+import { useGameStore } from '@/store/gameStore';
+import { countUnreadReports, describeReport, filterReports, getReportTypeLabel } from '@/lib/reports';
+import { findCombatUnit } from '@/lib/combat';
+import { getColonizationFailureMessage } from '@/lib/colonization';
+import { FOCUS_OUTLINE } from '@/styles/tokens';
+
+const REPORT_ICONS: Record<ReportType, string> = {
+  [ReportType.Kampf]: '⚔️',
+  [ReportType.Spionage]: '🛰️',
+  [ReportType.Transport]: '📦',
+  [ReportType.Kolonisierung]: '🏳️',
+};
+
+const formatNumber = (value: number) => Math.floor(value).toLocaleString('de-DE');
+
+const formatTimestamp = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('de-DE', { dateStyle: 'short', timeStyle: 'short' });
+
+const unitName = (blueprintId: string) => findCombatUnit(blueprintId)?.name ?? blueprintId;
+
+/**
+ * Schlüssel-Wert-Liste für Ressourcen, Einheiten oder Stufen innerhalb eines Berichts.
+ */
+const EntryList: React.FC<{ title: string; entries: [string, string][] }> = ({ title, entries }) => (
+  <div className="space-y-1">
+    <p className="text-xs uppercase tracking-wide text-yellow-300">{title}</p>
+    {entries.length > 0 ? (
+      <ul className="space-y-1 text-xs text-gray-300">
+        {entries.map(([label, value]) => (
+          <li key={label} className="flex justify-between gap-3 rounded bg-black/40 px-2 py-1">
+            <span>{label}</span>
+            <span className="font-mono text-yellow-100">{value}</span>
+          </li>
+        ))}
+      </ul>
+    ) : (
+      <p className="text-xs text-gray-500">Keine</p>
+    )}
+  </div>
+);
+
+const resourceEntries = (resources: Resources): [string, string][] =>
+  (Object.values(ResourceType) as ResourceType[]).map((resource) => [resource, formatNumber(resources[resource])]);
+
+const unitEntries = (units: FleetComposition): [string, string][] =>
+  Object.entries(units).map(([blueprintId, count]) => [unitName(blueprintId), formatNumber(count)]);
+
+const levelEntries = (levels: Record<string, number>, names: Record<string, { name: string }>): [string, string][] =>
+  Object.entries(levels).map(([id, level]) => [names[id]?.name ?? id, `Stufe ${level}`]);
+
+/**
+ * Detailansicht eines Berichts abhängig von seinem Typ.
+ */
+const ReportDetails: React.FC<{ report: Report }> = ({ report }) => {
+  switch (report.type) {
+    case ReportType.Kampf: {
+      const { battle } = report;
+      return (
+        <div className="space-y-3">
+          <p className="text-xs text-gray-400">
+            {battle.rounds.length} Runde{battle.rounds.length === 1 ? '' : 'n'} · Seed {battle.seed}
+            {battle.conquered && ' · Planet erobert'}
+          </p>
+          <div className="grid gap-3 sm:grid-cols-2">
+            <EntryList title="Eigene Flotte" entries={unitEntries(battle.attacker.initial)} />
+            <EntryList title="Eigene Verluste" entries={unitEntries(battle.attacker.losses)} />
+            <EntryList title="Verteidiger" entries={unitEntries(battle.defender.initial)} />
+            <EntryList title="Verluste des Verteidigers" entries={unitEntries(battle.defender.losses)} />
+          </div>
+          <EntryList title="Beute" entries={resourceEntries(battle.loot)} />
+        </div>
+      );
+    }
+    case ReportType.Spionage: {
+      const { snapshot } = report;
+      const lead = report.levelDifference;
+      return (
+        <div className="space-y-3">
+          <p className="text-xs text-gray-400">
+            Spionagetechnologie {lead >= 0 ? `+${lead}` : lead} gegenüber dem Ziel
+            {report.detected && ' · Die Sonden wurden entdeckt und abgeschossen'}
+          </p>
+          <div className="grid gap-3 sm:grid-cols-2">
+            {snapshot.resources && <EntryList title="Ressourcen" entries={resourceEntries(snapshot.resources)} />}
+            {snapshot.fleet && <EntryList title="Flotte" entries={unitEntries(snapshot.fleet)} />}
+            {snapshot.defences && <EntryList title="Verteidigung" entries={unitEntries(snapshot.defences)} />}
+            {snapshot.buildings && (
+              <EntryList title="Gebäude" entries={levelEntries(snapshot.buildings, BUILDINGS)} />
+            )}
+            {snapshot.research && (
+              <EntryList title="Forschung" entries={levelEntries(snapshot.research, RESEARCH)} />
+            )}
+          </div>
+        </div>
+      );
+    }
+    case ReportType.Transport:
+      return (
+        <div className="grid gap-3 sm:grid-cols-2">
+          <EntryList title="Eingelagert" entries={resourceEntries(report.delivered)} />
+          <EntryList title="Zurück an Bord" entries={resourceEntries(report.returned)} />
+        </div>
+      );
+    case ReportType.Kolonisierung:
+      if (report.failure) {
+        return (
+          <p className="text-xs text-gray-400">
+            {getColonizationFailureMessage(report.failure)} Die Flotte kehrt mit der Siedlerarche zurück.
+          </p>
+        );
+      }
+      return (
+        <p className="text-xs text-gray-400">
+          {report.conquered
+            ? 'Die Besatzung hat den Planeten übernommen.'
+            : 'Die Siedler haben eine neue Kolonie gegründet.'}{' '}
+          Sie ist über den Kolonie-Wechsler erreichbar.
+        </p>
+      );
+    default:
+      return null;
+  }
+};
+
+/**
+ * Posteingang für Kampf-, Spionage-, Transport- und Kolonisierungsberichte mit Filtern, Archiv
+ * und Sprung zum betroffenen System in der Galaxieansicht.
+ */
+const ReportsView: React.FC = () => {
+  const reports = useReportStore((state) => state.reports);
+  const setRead = useReportStore((state) => state.setRead);
+  const markAllRead = useReportStore((state) => state.markAllRead);
+  const setArchived = useReportStore((state) => state.setArchived);
+  const deleteReport = useReportStore((state) => state.deleteReport);
+  const setView = useGameStore((state) => state.setView);
+
+  const [showArchived, setShowArchived] = useState(false);
+  const [type, setType] = useState<ReportType | 'all'>('all');
+  const [search, setSearch] = useState('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const visibleReports = useMemo(
+    () => filterReports(reports, { archived: showArchived, type, search }),
+    [reports, search, showArchived, type],
+  );
+  const unreadCount = useMemo(() => countUnreadReports(reports), [reports]);
+
+  const toggleReport = (report: Report) => {
+    setExpandedId((current) => (current === report.id ? null : report.id));
+    if (!report.read) {
+      setRead(report.id, true);
+    }
+  };
+
+  const openInGalaxy = (report: Report) => {
+    // GalaxyView picks the system up from the deep-link parameter when it mounts.
+    const params = new URLSearchParams(window.location.search);
+    params.set('sys', report.coordinate.split(':')[0]);
+    window.history.replaceState(null, '', `?${params.toString()}`);
+    setView(View.Galaxie);
+  };
+
+  return (
+    <section className="space-y-6 pb-20">
+      <header className="space-y-2">
+        <h2 className="text-[clamp(1.8rem,1.2vw+1.5rem,2.4rem)] font-cinzel text-yellow-300">Berichte</h2>
+        <p className="text-sm text-gray-300">
+          Ergebnisse deiner Missionen. {unreadCount > 0 ? `${unreadCount} ungelesen.` : 'Alles gelesen.'}
+        </p>
+      </header>
+
+      <div className="flex flex-wrap items-center gap-3 rounded-2xl border border-yellow-800/30 bg-black/45 p-4 text-sm">
+        <div className="flex rounded-md border border-yellow-800/40" role="group" aria-label="Ordner">
+          {[false, true].map((folder) => (
+            <button
+              key={String(folder)}
+              type="button"
+              onClick={() => setShowArchived(folder)}
+              aria-pressed={showArchived === folder}
+              className={`px-3 py-1 text-xs ${showArchived === folder ? 'bg-yellow-800/40 text-yellow-100' : 'text-gray-300'} ${FOCUS_OUTLINE.className}`}
+            >
+              {folder ? 'Archiv' : 'Posteingang'}
+            </button>
+          ))}
+        </div>
+        <label className="flex items-center gap-2 text-xs text-gray-300">
+          Typ
+          <select
+            value={type}
+            onChange={(event) => setType(event.target.value as ReportType | 'all')}
+            className={`rounded-md border border-yellow-800/40 bg-black/40 px-2 py-1 text-yellow-100 ${FOCUS_OUTLINE.className}`}
+          >
+            <option value="all">Alle</option>
+            {(Object.values(ReportType) as ReportType[]).map((entry) => (
+              <option key={entry} value={entry}>
+                {getReportTypeLabel(entry)}
+              </option>
+            ))}
+          </select>
+        </label>
+        <input
+          type="search"
+          value={search}
+          onChange={(event) => setSearch(event.target.value)}
+          placeholder="Koordinate oder Planet"
+          aria-label="Nach Koordinate oder Planet filtern"
+          className={`min-w-[10rem] flex-1 rounded-md border border-yellow-800/40 bg-black/40 px-3 py-1 text-yellow-100 ${FOCUS_OUTLINE.className}`}
+        />
+        <button
+          type="button"
+          onClick={markAllRead}
+          disabled={unreadCount === 0}
+          className={`rounded-md border border-yellow-800/40 px-3 py-1 text-xs text-yellow-100 hover:bg-yellow-800/20 disabled:cursor-not-allowed disabled:opacity-50 ${FOCUS_OUTLINE.className}`}
+        >
+          Alle gelesen
+        </button>
+      </div>
+
+      {visibleReports.length > 0 ? (
+        <ul className="space-y-3">
+          {visibleReports.map((report) => {
+            const isExpanded = expandedId === report.id;
+            return (
+              <li key={report.id} className="rounded-xl border border-yellow-800/30 bg-black/40 p-4">
+                <div className="flex flex-wrap items-center justify-between gap-3">
+                  <button
+                    type="button"
+                    onClick={() => toggleReport(report)}
+                    aria-expanded={isExpanded}
+                    className={`flex flex-1 items-center gap-3 text-left ${FOCUS_OUTLINE.className}`}
+                  >
+                    <span aria-hidden className="text-xl">
+                      {REPORT_ICONS[report.type]}
+                    </span>
+                    <span>
+                      <span className="flex items-center gap-2 text-xs uppercase tracking-wide text-yellow-300">
+                        {!report.read && <span className="h-2 w-2 rounded-full bg-yellow-400" aria-label="Ungelesen" />}
+                        {getReportTypeLabel(report.type)} · {report.coordinate}
+                      </span>
+                      <span className={`block ${report.read ? 'text-gray-300' : 'font-semibold text-yellow-100'}`}>
+                        {describeReport(report)}
+                      </span>
+                    </span>
+                  </button>
+                  <span className="text-xs text-gray-400">{formatTimestamp(report.createdAt)}</span>
+                  <div className="flex gap-2">
+                    <button
+                      type="button"
+                      onClick={() => openInGalaxy(report)}
+                      className={`rounded-md border border-yellow-800/40 px-2 py-1 text-xs text-yellow-100 hover:bg-yellow-800/20 ${FOCUS_OUTLINE.className}`}
+                    >
+                      In Galaxie zeigen
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setArchived(report.id, !report.archived)}
+                      className={`rounded-md border border-yellow-800/40 px-2 py-1 text-xs text-yellow-100 hover:bg-yellow-800/20 ${FOCUS_OUTLINE.className}`}
+                    >
+                      {report.archived ? 'Wiederherstellen' : 'Archivieren'}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => deleteReport(report.id)}
+                      className={`rounded-md border border-red-500/40 px-2 py-1 text-xs text-red-200 hover:bg-red-500/10 ${FOCUS_OUTLINE.className}`}
+                    >
+                      Löschen
+                    </button>
+                  </div>
+                </div>
+                {isExpanded && (
+                  <div className="mt-4 border-t border-yellow-800/30 pt-4">
+                    <ReportDetails report={report} />
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      ) : (
+        <p className="rounded-xl border border-yellow-800/30 bg-black/40 p-6 text-sm text-gray-400">
+          {showArchived ? 'Das Archiv ist leer.' : 'Keine Berichte vorhanden.'}
+        </p>
+      )}
+    </section>
+  );
+};
+
+export default ReportsView;
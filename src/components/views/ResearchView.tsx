@@ -1,7 +1,14 @@
 import React from 'react';
 import { useGameStore } from '@/store/gameStore';
-import { RESEARCH } from '@/constants';
+import { MAX_RESEARCH_QUEUE_LENGTH, RESEARCH } from '@/constants';
 import GameCard from '@/components/ui/GameCard';
+import RequirementList from '@/components/ui/RequirementList';
+import TechTreeGraph from '@/components/research/TechTreeGraph';
+import { describeResearchEffect } from '@/lib/modifiers';
+import { findMissingRequirements } from '@/lib/techTree';
+import { findMissingResources } from '@/lib/progression';
+import { useRequirementLevels } from '@/hooks/useRequirementLevels';
+import { useColonyResources } from '@/hooks/useColonyResources';
 
 const RESEARCH_CATEGORIES = {
   antrieb: [
@@ -36,39 +43,30 @@ const CATEGORY_LABELS: Record<keyof typeof RESEARCH_CATEGORIES, string> = {
   utility: 'Utility',
 };
 
-const RESEARCH_REQUIREMENTS: Record<string, string[]> = {
-  aetherdynamik: ['Werft Stufe 2'],
-  kolbenAntrieb: ['Werft Stufe 1', 'Dampfkraftwerk Stufe 4'],
-  dampfjet: ['Kolbenantrieb Stufe 3'],
-  aethermotor: ['Ätherdynamik Stufe 5', 'Forschungslabor Stufe 8'],
-  kesseldruckOptimierung: ['Dampfkraftwerk Stufe 3'],
-  differenzmaschinenKalkuel: ['Forschungslabor Stufe 2'],
-  observatoriumsnetz: ['Spionagetechnologie Stufe 2'],
-  panzerungstechnik: ['Rumpfverstärkungslegierungen Stufe 2'],
-  teslaSpulenForschung: ['Dampfkraftwerk Stufe 6'],
-  lichtbogenIngenieurwesen: ['Tesla-Spulen-Forschung Stufe 4'],
-  pulverProjektilkunde: ['Vitriol-Destille Stufe 3'],
-  magnetfeldBarrieren: ['Panzerungstechnik Stufe 4'],
-  aetherplasmaEntladungen: ['Äthermotor Stufe 3'],
-  spionagetechnologie: ['Observatoriumsnetz Stufe 1'],
-  rumpfverstaerkungsLegierungen: ['Orichalkum-Schmelze Stufe 5'],
-};
-
 const ALL_CATEGORY_KEY = 'alle';
 
 type CategoryKey = keyof typeof RESEARCH_CATEGORIES | typeof ALL_CATEGORY_KEY;
 
+type ResearchSubView = 'liste' | 'baum';
+
+const SUB_VIEW_LABELS: Record<ResearchSubView, string> = {
+  liste: 'Projektliste',
+  baum: 'Technologiebaum',
+};
+
 /**
  * Übersicht über alle Forschungsprojekte mit Filtertabs für die Informationsarchitektur.
  */
 const ResearchView: React.FC = () => {
   const research = useGameStore((state) => state.research);
-  const buildQueue = useGameStore((state) => state.buildQueue);
-  const canAfford = useGameStore((state) => state.canAfford);
+  const researchQueue = useGameStore((state) => state.researchQueue);
+  const resources = useColonyResources();
   const getUpgradeCost = useGameStore((state) => state.getUpgradeCost);
   const getBuildTime = useGameStore((state) => state.getBuildTime);
   const startUpgrade = useGameStore((state) => state.startUpgrade);
+  const requirementLevels = useRequirementLevels();
   const [activeCategory, setActiveCategory] = React.useState<CategoryKey>(ALL_CATEGORY_KEY);
+  const [subView, setSubView] = React.useState<ResearchSubView>('liste');
 
   const handleCategoryChange = (category: CategoryKey) => {
     setActiveCategory(category);
@@ -93,74 +91,103 @@ const ResearchView: React.FC = () => {
         <p className="text-sm text-gray-300">
           Filtere deine Projekte nach Themenbereichen und plane Upgrades mit klaren Anforderungen.
         </p>
-        <div className="flex flex-wrap gap-2 pt-1">
-          <button
-            type="button"
-            onClick={() => handleCategoryChange(ALL_CATEGORY_KEY)}
-            className={`rounded-full px-4 py-2 text-xs font-semibold uppercase tracking-wide transition-colors ${
-              activeCategory === ALL_CATEGORY_KEY
-                ? 'bg-yellow-600/80 text-black'
-                : 'bg-black/40 text-gray-200 hover:bg-yellow-800/40'
-            }`}
-          >
-            Alle
-          </button>
-          {categoryEntries.map(([key, label]) => (
+        <div className="flex gap-2" role="tablist" aria-label="Forschungsansicht">
+          {(Object.entries(SUB_VIEW_LABELS) as [ResearchSubView, string][]).map(([key, label]) => (
             <button
               key={key}
               type="button"
-              onClick={() => handleCategoryChange(key)}
-              className={`rounded-full px-4 py-2 text-xs font-semibold uppercase tracking-wide transition-colors ${
-                activeCategory === key
-                  ? 'bg-yellow-600/80 text-black'
-                  : 'bg-black/40 text-gray-200 hover:bg-yellow-800/40'
+              role="tab"
+              aria-selected={subView === key}
+              onClick={() => setSubView(key)}
+              className={`rounded-md border px-4 py-2 text-xs font-cinzel uppercase tracking-wide transition-colors ${
+                subView === key
+                  ? 'border-yellow-500 bg-yellow-700/40 text-yellow-100'
+                  : 'border-yellow-800/40 bg-black/40 text-gray-300 hover:bg-yellow-800/30'
               }`}
             >
               {label}
             </button>
           ))}
         </div>
+        {subView === 'liste' && (
+          <div className="flex flex-wrap gap-2 pt-1">
+            <button
+              type="button"
+              onClick={() => handleCategoryChange(ALL_CATEGORY_KEY)}
+              className={`rounded-full px-4 py-2 text-xs font-semibold uppercase tracking-wide transition-colors ${
+                activeCategory === ALL_CATEGORY_KEY
+                  ? 'bg-yellow-600/80 text-black'
+                  : 'bg-black/40 text-gray-200 hover:bg-yellow-800/40'
+              }`}
+            >
+              Alle
+            </button>
+            {categoryEntries.map(([key, label]) => (
+              <button
+                key={key}
+                type="button"
+                onClick={() => handleCategoryChange(key)}
+                className={`rounded-full px-4 py-2 text-xs font-semibold uppercase tracking-wide transition-colors ${
+                  activeCategory === key
+                    ? 'bg-yellow-600/80 text-black'
+                    : 'bg-black/40 text-gray-200 hover:bg-yellow-800/40'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        )}
       </header>
-      <div className="grid grid-cols-1 gap-6 sm:grid-cols-2 xl:grid-cols-3 2xl:grid-cols-4">
-        {filteredResearch.map((tech) => {
-          const currentLevel = research[tech.id] || 0;
-          const targetLevel = buildQueue
-            .filter((item) => item.entityId === tech.id)
-            .reduce((max, item) => Math.max(max, item.level), currentLevel);
+      {subView === 'baum' ? (
+        <TechTreeGraph />
+      ) : (
+        <div className="grid grid-cols-1 gap-6 sm:grid-cols-2 xl:grid-cols-3 2xl:grid-cols-4">
+          {filteredResearch.map((tech) => {
+            const currentLevel = research[tech.id] || 0;
+            const targetLevel = researchQueue
+              .filter((item) => item.entityId === tech.id)
+              .reduce((max, item) => Math.max(max, item.level), currentLevel);
 
-          const nextLevel = targetLevel + 1;
-          const costForNextUpgrade = getUpgradeCost(tech, nextLevel);
-          const buildTime = getBuildTime(costForNextUpgrade);
-          const isUpgrading = buildQueue.some((item) => item.entityId === tech.id);
-          const affordable = canAfford(costForNextUpgrade);
-          const requirements = RESEARCH_REQUIREMENTS[tech.id] ?? ['Forschungslabor Stufe 1'];
+            const nextLevel = targetLevel + 1;
+            const costForNextUpgrade = getUpgradeCost(tech, nextLevel);
+            const buildTime = getBuildTime(costForNextUpgrade, 'research');
+            const isUpgrading = researchQueue.some((item) => item.entityId === tech.id);
+            const affordable = findMissingResources(resources, costForNextUpgrade).length === 0;
+            const isLocked = findMissingRequirements(tech.requirements, requirementLevels).length > 0;
 
-          return (
-            <GameCard
-              key={tech.id}
-              name={tech.name}
-              level={currentLevel}
-              targetLevel={targetLevel}
-              description={tech.description}
-              upgradeCost={costForNextUpgrade}
-              buildTime={buildTime}
-              canAfford={affordable}
-              onUpgrade={() => startUpgrade(tech)}
-              isUpgrading={isUpgrading}
-              queueLength={buildQueue.length}
-              meta={(
-                <ul className="flex flex-wrap gap-2 text-xs">
-                  {requirements.map((req) => (
-                    <li key={req} className="rounded-full bg-yellow-900/40 px-3 py-1 text-yellow-200">
-                      {req}
-                    </li>
-                  ))}
-                </ul>
-              )}
-            />
-          );
-        })}
-      </div>
+            return (
+              <GameCard
+                key={tech.id}
+                name={tech.name}
+                level={currentLevel}
+                targetLevel={targetLevel}
+                description={tech.description}
+                upgradeCost={costForNextUpgrade}
+                buildTime={buildTime}
+                canAfford={affordable}
+                onUpgrade={() => startUpgrade(tech, 'research')}
+                isUpgrading={isUpgrading}
+                queueLength={researchQueue.length}
+                queueCapacity={MAX_RESEARCH_QUEUE_LENGTH}
+                isLocked={isLocked}
+                meta={(
+                  <RequirementList requirements={tech.requirements} levels={requirementLevels}>
+                    {(tech.effects ?? []).map((effect) => (
+                      <li
+                        key={`${effect.target}-${effect.resource ?? 'all'}`}
+                        className="rounded-full bg-emerald-900/40 px-3 py-1 text-emerald-200"
+                      >
+                        {describeResearchEffect(effect)}
+                      </li>
+                    ))}
+                  </RequirementList>
+                )}
+              />
+            );
+          })}
+        </div>
+      )}
     </section>
   );
 };
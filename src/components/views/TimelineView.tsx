@@ -0,0 +1,265 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { MISSION_STYLES } from '@/constants';
+import { Mission, MissionStatus, MissionTiming } from '@/types';
+import { useMissionStore } from '@/store/missionStore';
+import { getMissionStatusLabel, getMissionTypeLabel } from '@/lib/missions';
+import {
+  buildTimelineSegments,
+  calculateTimelineWindow,
+  isMissionOnTimeline,
+  TimelinePhase,
+  TimelineSegment,
+  TimelineWindow,
+  toTimelineShare,
+} from '@/lib/timeline';
+import { FOCUS_OUTLINE } from '@/styles/tokens';
+import MissionTimingFields from '@/components/galaxy/MissionTimingFields';
+import MissionDetailsModal from '@/components/galaxy/MissionDetailsModal';
+
+const MINUTE = 60 * 1000;
+const TICK_STEPS = [15, 30, 60, 120, 240, 480, 720, 1440].map((minutes) => minutes * MINUTE);
+const MAX_TICKS = 8;
+
+const PHASE_LABELS: Record<TimelinePhase, string> = {
+  preparation: 'Vorbereitung',
+  outbound: 'Hinflug',
+  return: 'Rückflug',
+  stationed: 'Stationiert',
+};
+
+const PHASE_OPACITY: Record<TimelinePhase, number> = {
+  preparation: 0.25,
+  outbound: 0.9,
+  return: 0.55,
+  stationed: 0.35,
+};
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString('de-DE', { hour: '2-digit', minute: '2-digit' });
+
+const formatTimestamp = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('de-DE', { dateStyle: 'short', timeStyle: 'short' });
+
+const buildTicks = (window: TimelineWindow) => {
+  const span = window.end - window.start;
+  const step = TICK_STEPS.find((candidate) => span / candidate <= MAX_TICKS) ?? TICK_STEPS[TICK_STEPS.length - 1];
+  const ticks: number[] = [];
+  for (let tick = Math.ceil(window.start / step) * step; tick <= window.end; tick += step) {
+    ticks.push(tick);
+  }
+  return ticks;
+};
+
+/**
+ * Balken einer Missionsphase auf der Zeitachse; projizierte Rückflüge werden gestrichelt umrandet.
+ */
+const SegmentBar: React.FC<{ segment: TimelineSegment; window: TimelineWindow; color: string }> = ({
+  segment,
+  window,
+  color,
+}) => {
+  const left = toTimelineShare(segment.start, window);
+  const right = toTimelineShare(segment.end ?? window.end, window);
+  if (right <= left) {
+    return null;
+  }
+  const title = [
+    segment.projected ? `${PHASE_LABELS[segment.phase]} (voraussichtlich)` : PHASE_LABELS[segment.phase],
+    `${formatTimestamp(segment.start)} – ${segment.end === null ? 'offen' : formatTimestamp(segment.end)}`,
+  ].join(': ');
+  return (
+    <div
+      className="absolute inset-y-1 rounded-sm"
+      title={title}
+      style={{
+        left: `${left * 100}%`,
+        width: `${(right - left) * 100}%`,
+        backgroundColor: segment.projected ? 'transparent' : color,
+        opacity: segment.projected ? 0.8 : PHASE_OPACITY[segment.phase],
+        border: segment.projected ? `1px dashed ${color}` : undefined,
+      }}
+    />
+  );
+};
+
+/**
+ * Inline-Editor für den Abflug einer geplanten Mission.
+ */
+const RescheduleForm: React.FC<{ mission: Mission; onDone: () => void }> = ({ mission, onDone }) => {
+  const rescheduleMission = useMissionStore((state) => state.rescheduleMission);
+  const [timing, setTiming] = useState<MissionTiming | undefined>({ mode: 'launch', at: mission.launchAt });
+
+  return (
+    <div className="space-y-3 rounded-lg border border-yellow-800/40 bg-black/50 p-3">
+      <MissionTimingFields timing={timing} onChange={setTiming} travelDuration={mission.travelDuration} />
+      <div className="flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={onDone}
+          className={`rounded-md border border-yellow-800/40 px-3 py-1 text-xs text-gray-300 hover:text-white ${FOCUS_OUTLINE.className}`}
+        >
+          Verwerfen
+        </button>
+        <button
+          type="button"
+          disabled={!timing}
+          onClick={() => {
+            if (timing && rescheduleMission(mission.id, timing)) {
+              onDone();
+            }
+          }}
+          className="steampunk-button rounded-md px-3 py-1 font-cinzel text-xs uppercase tracking-wide disabled:opacity-50"
+        >
+          Übernehmen
+        </button>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Gantt-Ansicht aller geplanten und laufenden Missionen entlang der Zeitachse. Geplante Missionen
+ * lassen sich bis zum Start verschieben oder abbrechen.
+ */
+const TimelineView: React.FC = () => {
+  const missions = useMissionStore((state) => state.missions);
+  const cancelMission = useMissionStore((state) => state.cancelMission);
+  const [now, setNow] = useState(() => Date.now());
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [detailMissionId, setDetailMissionId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const interval = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(interval);
+  }, []);
+
+  const rows = useMemo(
+    () =>
+      missions
+        .filter((mission) => isMissionOnTimeline(mission.status))
+        .map((mission) => ({ mission, segments: buildTimelineSegments(mission) }))
+        .sort((a, b) => a.mission.launchAt - b.mission.launchAt),
+    [missions],
+  );
+  const timelineWindow = useMemo(
+    () => calculateTimelineWindow(rows.flatMap((row) => row.segments), now),
+    [now, rows],
+  );
+  const ticks = useMemo(() => buildTicks(timelineWindow), [timelineWindow]);
+  const nowShare = toTimelineShare(now, timelineWindow);
+
+  return (
+    <section className="space-y-6 pb-20">
+      <header className="space-y-2">
+        <h2 className="text-[clamp(1.8rem,1.2vw+1.5rem,2.4rem)] font-cinzel text-yellow-300">Zeitplan</h2>
+        <p className="text-sm text-gray-300">
+          Vorbereitung, Hin- und Rückflug aller Flotten. Geplante Missionen lassen sich bis zum Start verschieben.
+        </p>
+      </header>
+
+      {rows.length > 0 ? (
+        <div className="space-y-2 rounded-2xl border border-yellow-800/30 bg-black/45 p-4 text-sm">
+          <div className="grid grid-cols-[minmax(10rem,14rem)_1fr] gap-3">
+            <span />
+            <div className="relative h-5 text-[0.65rem] text-gray-400" aria-hidden>
+              {ticks.map((tick) => (
+                <span
+                  key={tick}
+                  className="absolute -translate-x-1/2"
+                  style={{ left: `${toTimelineShare(tick, timelineWindow) * 100}%` }}
+                >
+                  {formatTime(tick)}
+                </span>
+              ))}
+            </div>
+          </div>
+          <ul className="space-y-2">
+            {rows.map(({ mission, segments }) => {
+              const { icon, color } = MISSION_STYLES[mission.type];
+              const isScheduled = mission.status === MissionStatus.Geplant && !mission.withdrawal;
+              return (
+                <li key={mission.id} className="space-y-2">
+                  <div className="grid grid-cols-[minmax(10rem,14rem)_1fr] items-center gap-3">
+                    <div className="min-w-0">
+                      <button
+                        type="button"
+                        onClick={() => setDetailMissionId(mission.id)}
+                        className={`block max-w-full truncate text-left text-yellow-100 hover:underline ${FOCUS_OUTLINE.className}`}
+                      >
+                        <span aria-hidden>{icon}</span> {getMissionTypeLabel(mission.type)} → {mission.target.planetName}
+                      </button>
+                      <p className="text-xs text-gray-400">
+                        {getMissionStatusLabel(mission.status)} · Start {formatTimestamp(mission.launchAt)}
+                      </p>
+                      {isScheduled && (
+                        <div className="mt-1 flex gap-2">
+                          <button
+                            type="button"
+                            onClick={() => setEditingId(editingId === mission.id ? null : mission.id)}
+                            className={`rounded-md border border-yellow-800/40 px-2 py-0.5 text-xs text-yellow-100 hover:bg-yellow-800/20 ${FOCUS_OUTLINE.className}`}
+                          >
+                            Verschieben
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => cancelMission(mission.id)}
+                            className={`rounded-md border border-red-800/50 px-2 py-0.5 text-xs text-red-200 hover:bg-red-900/30 ${FOCUS_OUTLINE.className}`}
+                          >
+                            Abbrechen
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                    <div
+                      className="relative h-8 rounded bg-black/40"
+                      role="img"
+                      aria-label={`Zeitachse ${getMissionTypeLabel(mission.type)} nach ${mission.target.planetName}`}
+                    >
+                      {ticks.map((tick) => (
+                        <span
+                          key={tick}
+                          className="absolute inset-y-0 w-px bg-yellow-800/20"
+                          style={{ left: `${toTimelineShare(tick, timelineWindow) * 100}%` }}
+                        />
+                      ))}
+                      {segments.map((segment) => (
+                        <SegmentBar key={segment.phase} segment={segment} window={timelineWindow} color={color} />
+                      ))}
+                      <span className="absolute inset-y-0 w-0.5 bg-red-400" style={{ left: `${nowShare * 100}%` }} />
+                    </div>
+                  </div>
+                  {editingId === mission.id && isScheduled && (
+                    <RescheduleForm mission={mission} onDone={() => setEditingId(null)} />
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+          <p className="flex flex-wrap gap-4 pt-2 text-xs text-gray-400">
+            {(Object.keys(PHASE_LABELS) as TimelinePhase[]).map((phase) => (
+              <span key={phase} className="flex items-center gap-1">
+                <span
+                  className="inline-block h-2 w-4 rounded-sm bg-yellow-300"
+                  style={{ opacity: PHASE_OPACITY[phase] }}
+                />
+                {PHASE_LABELS[phase]}
+              </span>
+            ))}
+            <span className="flex items-center gap-1">
+              <span className="inline-block h-3 w-0.5 bg-red-400" />
+              Jetzt
+            </span>
+          </p>
+        </div>
+      ) : (
+        <p className="rounded-2xl border border-yellow-800/30 bg-black/45 p-6 text-sm text-gray-400">
+          Keine Flotten geplant oder unterwegs.
+        </p>
+      )}
+
+      {detailMissionId && <MissionDetailsModal missionId={detailMissionId} onClose={() => setDetailMissionId(null)} />}
+    </section>
+  );
+};
+
+export default TimelineView;
@@ -1,13 +1,163 @@
-import React from 'react';
+import React, { useMemo, useState } from 'react';
 import { SHIP_BLUEPRINTS } from '@/constants';
-import { ResourceType } from '@/types';
+import { ResourceType, ShipBlueprint } from '@/types';
+import RequirementList from '@/components/ui/RequirementList';
+import ProgressBar from '@/components/ui/ProgressBar';
+import { useRequirementLevels } from '@/hooks/useRequirementLevels';
+import { useColonyResources } from '@/hooks/useColonyResources';
+import { useDisplayClock } from '@/hooks/useDisplayClock';
+import { useShipyardStore } from '@/store/shipyardStore';
+import { useMissionStore } from '@/store/missionStore';
+import { collectDeployedFleet } from '@/lib/fleet';
+import { findMissingRequirements } from '@/lib/techTree';
+import { findMissingResources } from '@/lib/progression';
+import {
+  calculateInventorySlots,
+  calculateReservedSlots,
+  findBlueprint,
+  isOrderRunning,
+  scaleCost,
+} from '@/lib/shipyard';
+import { FOCUS_OUTLINE } from '@/styles/tokens';
 
 const formatCost = (value: number) => value.toLocaleString('de-DE');
 
+const formatDuration = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60)
+    .toString()
+    .padStart(2, '0');
+  const seconds = (totalSeconds % 60).toString().padStart(2, '0');
+  return hours > 0 ? `${hours}:${minutes}:${seconds}` : `${minutes}:${seconds}`;
+};
+
+const MAX_ORDER_QUANTITY = 99;
+
+interface BlueprintCardProps {
+  ship: ShipBlueprint;
+  inHangar: number;
+  freeSlots: number;
+}
+
 /**
- * UI-Skelett für die Werft mit Blueprint-Übersicht und Platzhaltern für zukünftige Logik.
+ * Karte eines Bauplans mit Werten, Kosten und Bestellung einer frei wählbaren Stückzahl.
+ */
+const BlueprintCard: React.FC<BlueprintCardProps> = ({ ship, inHangar, freeSlots }) => {
+  const resources = useColonyResources();
+  const startOrder = useShipyardStore((state) => state.startOrder);
+  const requirementLevels = useRequirementLevels(false);
+  const [quantity, setQuantity] = useState(1);
+
+  const cost = scaleCost(ship.baseCost, quantity);
+  const isLocked = findMissingRequirements(ship.requirements, requirementLevels).length > 0;
+  const canAfford = findMissingResources(resources, cost).length === 0;
+  const fitsHangar = ship.hangarSlots * quantity <= freeSlots;
+
+  let buttonLabel = `${quantity}x bauen`;
+  if (isLocked) {
+    buttonLabel = 'Voraussetzungen fehlen';
+  } else if (!fitsHangar) {
+    buttonLabel = 'Hangar voll';
+  } else if (!canAfford) {
+    buttonLabel = 'Ressourcen fehlen';
+  }
+
+  return (
+    <article className="flex h-full flex-col justify-between rounded-xl border border-yellow-800/30 bg-black/40 p-4">
+      <header className="space-y-1">
+        <h4 className="text-lg font-cinzel text-yellow-200">{ship.name}</h4>
+        <p className="text-xs uppercase tracking-wide text-gray-400">
+          {ship.role} · {inHangar} im Hangar
+        </p>
+      </header>
+      <p className="mt-2 text-sm text-gray-300">{ship.description}</p>
+      <div className="mt-3">
+        <RequirementList requirements={ship.requirements} levels={requirementLevels} />
+      </div>
+      <dl className="mt-4 space-y-2 text-xs text-gray-200">
+        <div className="flex items-center justify-between rounded-lg bg-black/40 px-3 py-2">
+          <dt className="uppercase tracking-wide text-yellow-300">Hangar</dt>
+          <dd>{ship.hangarSlots} Slots</dd>
+        </div>
+        <div className="flex items-center justify-between rounded-lg bg-black/40 px-3 py-2">
+          <dt className="uppercase tracking-wide text-yellow-300">Crew</dt>
+          <dd>{ship.crew} Personen</dd>
+        </div>
+        <div className="flex items-center justify-between rounded-lg bg-black/40 px-3 py-2">
+          <dt className="uppercase tracking-wide text-yellow-300">Laderaum</dt>
+          <dd>{formatCost(ship.cargo)} Einheiten</dd>
+        </div>
+        <div className="flex items-center justify-between rounded-lg bg-black/40 px-3 py-2">
+          <dt className="uppercase tracking-wide text-yellow-300">Kampfwerte</dt>
+          <dd title="Angriff / Schild / Hülle">
+            {formatCost(ship.attack)} / {formatCost(ship.shield)} / {formatCost(ship.hull)}
+          </dd>
+        </div>
+        <div className="flex items-center justify-between rounded-lg bg-black/40 px-3 py-2">
+          <dt className="uppercase tracking-wide text-yellow-300">Bauzeit</dt>
+          <dd>{formatDuration(ship.buildTimeSeconds * 1000 * quantity)}</dd>
+        </div>
+      </dl>
+      <div className="mt-4 space-y-1 text-xs text-gray-400">
+        <p className="font-semibold text-yellow-200">Kosten für {quantity} Schiff{quantity > 1 ? 'e' : ''}:</p>
+        <ul className="space-y-1">
+          {(Object.values(ResourceType) as ResourceType[]).map((resource) => (
+            <li key={resource} className={resources[resource] < cost[resource] ? 'text-red-300' : undefined}>
+              {resource}: {formatCost(cost[resource])}
+            </li>
+          ))}
+        </ul>
+      </div>
+      <div className="mt-5 flex items-center gap-2">
+        <label className="sr-only" htmlFor={`quantity-${ship.id}`}>
+          Stückzahl {ship.name}
+        </label>
+        <input
+          id={`quantity-${ship.id}`}
+          type="number"
+          min={1}
+          max={MAX_ORDER_QUANTITY}
+          value={quantity}
+          onChange={(event) =>
+            setQuantity(Math.min(MAX_ORDER_QUANTITY, Math.max(1, Math.floor(Number(event.target.value) || 1))))
+          }
+          className={`w-16 rounded-md border border-yellow-800/40 bg-black/40 px-2 py-2 text-sm text-yellow-100 ${FOCUS_OUTLINE.className}`}
+        />
+        <button
+          type="button"
+          onClick={() => startOrder(ship.id, quantity)}
+          disabled={isLocked || !canAfford || !fitsHangar}
+          className="steampunk-button flex-1 rounded-md py-2 text-sm font-cinzel uppercase tracking-wide disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          {buttonLabel}
+        </button>
+      </div>
+    </article>
+  );
+};
+
+/**
+ * Werft mit Bauplänen, laufender Bauschleife, Hangarbelegung und Schiffsbestand.
  */
 const WerftView: React.FC = () => {
+  const queue = useShipyardStore((state) => state.queue);
+  const inventory = useShipyardStore((state) => state.inventory);
+  const hangarCapacity = useShipyardStore((state) => state.hangarCapacity);
+  const cancelOrder = useShipyardStore((state) => state.cancelOrder);
+  const missions = useMissionStore((state) => state.missions);
+  const now = useDisplayClock();
+
+  const occupiedSlots = useMemo(() => calculateInventorySlots(inventory), [inventory]);
+  const reservedSlots = useMemo(() => calculateReservedSlots(queue), [queue]);
+  const deployedFleet = useMemo(() => collectDeployedFleet(missions), [missions]);
+  const deployedSlots = useMemo(() => calculateInventorySlots(deployedFleet), [deployedFleet]);
+  const freeSlots = Math.max(0, hangarCapacity - occupiedSlots - reservedSlots - deployedSlots);
+
+  const inventoryEntries = SHIP_BLUEPRINTS.filter(
+    (ship) => (inventory[ship.id] ?? 0) > 0 || (deployedFleet[ship.id] ?? 0) > 0,
+  );
+
   return (
     <section className="space-y-8 pb-20">
       <header className="space-y-2">
@@ -20,78 +170,95 @@ const WerftView: React.FC = () => {
       <div className="grid gap-6 lg:grid-cols-[minmax(0,1.2fr)_minmax(0,1fr)]">
         <div className="rounded-2xl border border-yellow-800/30 bg-black/45 p-6 shadow-xl">
           <h3 className="text-[clamp(1.2rem,1vw+1rem,1.6rem)] font-cinzel text-yellow-200">Blueprints</h3>
-          <p className="text-xs text-gray-400">Jedes Schiff beansprucht Hangar-Slots. Der Bau wird in einem späteren Sprint aktiviert.</p>
+          <p className="text-xs text-gray-400">
+            Jedes Schiff beansprucht Hangar-Slots, sobald es in Auftrag gegeben wird. Bezahlt wird aus der aktiven
+            Kolonie.
+          </p>
           <div className="mt-5 grid grid-cols-1 gap-5 sm:grid-cols-2 xl:grid-cols-3">
             {SHIP_BLUEPRINTS.map((ship) => (
-              <article key={ship.id} className="flex h-full flex-col justify-between rounded-xl border border-yellow-800/30 bg-black/40 p-4">
-                <header className="space-y-1">
-                  <h4 className="text-lg font-cinzel text-yellow-200">{ship.name}</h4>
-                  <p className="text-xs uppercase tracking-wide text-gray-400">{ship.role}</p>
-                </header>
-                <p className="mt-2 text-sm text-gray-300">{ship.description}</p>
-                <dl className="mt-4 space-y-2 text-xs text-gray-200">
-                  <div className="flex items-center justify-between rounded-lg bg-black/40 px-3 py-2">
-                    <dt className="uppercase tracking-wide text-yellow-300">Hangar</dt>
-                    <dd>{ship.hangarSlots} Slots</dd>
-                  </div>
-                  <div className="flex items-center justify-between rounded-lg bg-black/40 px-3 py-2">
-                    <dt className="uppercase tracking-wide text-yellow-300">Crew</dt>
-                    <dd>{ship.crew} Personen</dd>
-                  </div>
-                  <div className="flex items-center justify-between rounded-lg bg-black/40 px-3 py-2">
-                    <dt className="uppercase tracking-wide text-yellow-300">Laderaum</dt>
-                    <dd>{formatCost(ship.cargo)} Einheiten</dd>
-                  </div>
-                  <div className="flex items-center justify-between rounded-lg bg-black/40 px-3 py-2">
-                    <dt className="uppercase tracking-wide text-yellow-300">Bauzeit</dt>
-                    <dd>{(ship.buildTimeSeconds / 60).toFixed(0)} Minuten</dd>
-                  </div>
-                </dl>
-                <div className="mt-4 space-y-1 text-xs text-gray-400">
-                  <p className="font-semibold text-yellow-200">Kosten:</p>
-                  <ul className="space-y-1">
-                    <li>Orichalkum: {formatCost(ship.baseCost[ResourceType.Orichalkum])}</li>
-                    <li>Fokuskristalle: {formatCost(ship.baseCost[ResourceType.Fokuskristalle])}</li>
-                    <li>Vitriol: {formatCost(ship.baseCost[ResourceType.Vitriol])}</li>
-                  </ul>
-                </div>
-                <button
-                  type="button"
-                  disabled
-                  className="mt-5 w-full cursor-not-allowed rounded-md bg-gray-700/60 py-2 text-sm font-cinzel uppercase tracking-wide text-gray-400"
-                >
-                  In Planung
-                </button>
-              </article>
+              <BlueprintCard key={ship.id} ship={ship} inHangar={inventory[ship.id] ?? 0} freeSlots={freeSlots} />
             ))}
           </div>
         </div>
         <div className="flex flex-col gap-4">
           <div className="rounded-2xl border border-yellow-800/30 bg-black/50 p-6 shadow-xl">
-            <h3 className="text-[clamp(1.2rem,1vw+1rem,1.6rem)] font-cinzel text-yellow-200">Werftstatus</h3>
-            <dl className="mt-3 space-y-3 text-sm text-gray-200">
-              <div className="rounded-lg bg-black/40 p-3">
-                <dt className="text-xs uppercase tracking-wide text-yellow-300">Verfügbare Slots</dt>
-                <dd>12 von 16 Slots frei</dd>
-              </div>
-              <div className="rounded-lg bg-black/40 p-3">
-                <dt className="text-xs uppercase tracking-wide text-yellow-300">Aktive Bauaufträge</dt>
-                <dd>Noch keine – hier erscheint später die Queue.</dd>
-              </div>
-              <div className="rounded-lg bg-black/40 p-3">
-                <dt className="text-xs uppercase tracking-wide text-yellow-300">Nächste Mission</dt>
-                <dd>Konvoi nach &quot;Nimbus Reach&quot; (ETA TBA)</dd>
-              </div>
-            </dl>
+            <h3 className="text-[clamp(1.2rem,1vw+1rem,1.6rem)] font-cinzel text-yellow-200">Hangar</h3>
+            <div className="mt-3 space-y-2 text-sm text-gray-200">
+              <ProgressBar progress={((hangarCapacity - freeSlots) / hangarCapacity) * 100} />
+              <p>
+                {freeSlots} von {hangarCapacity} Slots frei
+              </p>
+              <p className="text-xs text-gray-400">
+                {occupiedSlots} belegt durch Schiffe, {deployedSlots} durch Flotten im Einsatz, {reservedSlots} reserviert
+                für Bauaufträge
+              </p>
+            </div>
+          </div>
+          <div className="rounded-2xl border border-yellow-800/30 bg-black/50 p-6 shadow-xl">
+            <h3 className="text-[clamp(1.2rem,1vw+1rem,1.6rem)] font-cinzel text-yellow-200">Bauaufträge</h3>
+            {queue.length > 0 ? (
+              <ul className="mt-3 space-y-3 text-sm text-gray-200">
+                {queue.map((order) => {
+                  const blueprint = findBlueprint(order.blueprintId);
+                  const isBuilding = isOrderRunning(order, now);
+                  return (
+                    <li key={order.id} className="rounded-lg bg-black/40 p-3">
+                      <div className="flex items-center justify-between gap-3">
+                        <span className="font-cinzel text-yellow-200">
+                          {order.quantity}x {blueprint?.name ?? order.blueprintId}
+                        </span>
+                        {isBuilding ? (
+                          <span className="font-mono text-yellow-100">
+                            {formatDuration(Math.max(0, order.endTime - now))}
+                          </span>
+                        ) : (
+                          <button
+                            type="button"
+                            onClick={() => cancelOrder(order.id)}
+                            className={`rounded-md border border-red-500/40 px-2 py-1 text-xs text-red-200 hover:bg-red-500/10 ${FOCUS_OUTLINE.className}`}
+                          >
+                            Stornieren
+                          </button>
+                        )}
+                      </div>
+                      {isBuilding ? (
+                        <div className="mt-2">
+                          <ProgressBar
+                            progress={((now - order.startTime) / (order.endTime - order.startTime)) * 100}
+                          />
+                        </div>
+                      ) : (
+                        <p className="mt-1 text-xs text-gray-400">
+                          Wartet · Start in {formatDuration(order.startTime - now)}
+                        </p>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            ) : (
+              <p className="mt-3 text-sm text-gray-400">Keine Schiffe in Bau.</p>
+            )}
           </div>
           <div className="rounded-2xl border border-yellow-800/30 bg-black/45 p-6 shadow-xl">
-            <h3 className="text-[clamp(1.1rem,1vw+0.9rem,1.5rem)] font-cinzel text-yellow-200">Checkliste</h3>
-            <ul className="mt-3 space-y-2 text-sm text-gray-300">
-              <li>✔ Ressourcenpuffer prüfen</li>
-              <li>✔ Hangar-Slots reservieren</li>
-              <li>⏳ Crewzuteilung automatisieren</li>
-              <li>⏳ Missionsplanung ans Backend anbinden</li>
-            </ul>
+            <h3 className="text-[clamp(1.1rem,1vw+0.9rem,1.5rem)] font-cinzel text-yellow-200">Bestand</h3>
+            {inventoryEntries.length > 0 ? (
+              <ul className="mt-3 space-y-2 text-sm text-gray-300">
+                {inventoryEntries.map((ship) => (
+                  <li key={ship.id} className="flex items-center justify-between rounded-lg bg-black/40 px-3 py-2">
+                    <span>{ship.name}</span>
+                    <span className="font-mono text-yellow-100">
+                      {inventory[ship.id] ?? 0}
+                      {(deployedFleet[ship.id] ?? 0) > 0 && (
+                        <span className="text-xs text-gray-400"> + {deployedFleet[ship.id]} im Einsatz</span>
+                      )}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="mt-3 text-sm text-gray-400">Der Hangar ist leer.</p>
+            )}
           </div>
         </div>
       </div>
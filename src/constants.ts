@@ -1,5 +1,18 @@
 
-import { Building, MissionType, PlanetBiome, Research, ResourceType, Resources, ShipBlueprint } from './types';
+import {
+  Building,
+  DefenceBlueprint,
+  IntelSnapshot,
+  MissionType,
+  ModifierTarget,
+  PlanetBiome,
+  Research,
+  ResourceType,
+  Resources,
+  ShipBlueprint,
+  ShipRole,
+  TerrainCostConfig,
+} from './types';
 
 /**
  * Starting resource amounts granted to every player at account creation.
@@ -79,11 +92,66 @@ export const BUILDINGS: Record<string, Building> = {
     baseCost: { [ResourceType.Orichalkum]: 75, [ResourceType.Fokuskristalle]: 30, [ResourceType.Vitriol]: 0 },
     costMultiplier: 1.7,
     // Energiegebäude produzieren keine Ressourcen; stattdessen liefern sie Energie über baseEnergySupply.
-    baseProduction: { [ResourceType.Orichalkum]: 0, [ResourceType.Fokuskristalle]: 0, [ResourceType.Vitriol]: 0 },
     productionMultiplier: 1.1,
     baseEnergySupply: 30,
     energySupplyMultiplier: 1.12,
   },
+  /**
+   * Lagergebäude erhöhen die Kapazität je einer Ressource über baseStorageCapacity. Ohne Ausbau gilt nur
+   * das Grundlager aus INITIAL_STORAGE.
+   */
+  orichalkumLager: {
+    id: 'orichalkumLager',
+    name: 'Orichalkum-Lagerhalle',
+    description: 'Genietete Hallen mit Kranbahnen, die zusätzliche Barren Orichalkum aufnehmen.',
+    baseCost: { [ResourceType.Orichalkum]: 1000, [ResourceType.Fokuskristalle]: 0, [ResourceType.Vitriol]: 0 },
+    costMultiplier: 2,
+    baseStorageCapacity: { [ResourceType.Orichalkum]: 10000 },
+    storageCapacityMultiplier: 1.8,
+  },
+  kristallTresor: {
+    id: 'kristallTresor',
+    name: 'Kristalltresor',
+    description: 'Gepolsterte Panzerschränke, in denen Fokuskristalle erschütterungsfrei lagern.',
+    baseCost: { [ResourceType.Orichalkum]: 1000, [ResourceType.Fokuskristalle]: 500, [ResourceType.Vitriol]: 0 },
+    costMultiplier: 2,
+    baseStorageCapacity: { [ResourceType.Fokuskristalle]: 10000 },
+    storageCapacityMultiplier: 1.8,
+  },
+  vitriolDrucktank: {
+    id: 'vitriolDrucktank',
+    name: 'Vitriol-Drucktank',
+    description: 'Druckfeste Kessel, die das flüchtige Vitriolgas sicher verdichten.',
+    baseCost: { [ResourceType.Orichalkum]: 1000, [ResourceType.Fokuskristalle]: 1000, [ResourceType.Vitriol]: 0 },
+    costMultiplier: 2,
+    baseStorageCapacity: { [ResourceType.Vitriol]: 5000 },
+    storageCapacityMultiplier: 1.8,
+  },
+  /**
+   * Forschungslabor und Werft produzieren nichts; ihre Stufen schalten Forschungen und Schiffsbaupläne frei.
+   */
+  forschungslabor: {
+    id: 'forschungslabor',
+    name: 'Forschungslabor',
+    description: 'Messinggetäfelte Versuchshallen, in denen Ingenieure neue Technologien erproben.',
+    baseCost: { [ResourceType.Orichalkum]: 200, [ResourceType.Fokuskristalle]: 400, [ResourceType.Vitriol]: 200 },
+    costMultiplier: 2,
+    baseEnergyConsumption: 8,
+    energyConsumptionMultiplier: 1.1,
+  },
+  werft: {
+    id: 'werft',
+    name: 'Werft',
+    description: 'Trockendocks mit Dampfkränen, in denen Luftschiffe vom Kiel bis zum Ballon montiert werden.',
+    baseCost: { [ResourceType.Orichalkum]: 400, [ResourceType.Fokuskristalle]: 200, [ResourceType.Vitriol]: 100 },
+    costMultiplier: 2,
+    baseEnergyConsumption: 10,
+    energyConsumptionMultiplier: 1.1,
+    requirements: [
+      { kind: 'building', id: 'dampfkraftwerk', level: 2 },
+      { kind: 'building', id: 'forschungslabor', level: 1 },
+    ],
+  },
 };
 
 /**
@@ -96,6 +164,11 @@ export const RESEARCH: Record<string, Research> = {
     description: 'Verbessert die Effizienz von Antrieben und steigert die Fluggeschwindigkeit aller Schiffe.',
     baseCost: { [ResourceType.Orichalkum]: 200, [ResourceType.Fokuskristalle]: 400, [ResourceType.Vitriol]: 100 },
     costMultiplier: 2,
+    effects: [{ target: ModifierTarget.TravelTime, percentPerLevel: -2 }],
+    requirements: [
+      { kind: 'building', id: 'forschungslabor', level: 1 },
+      { kind: 'building', id: 'werft', level: 2 },
+    ],
   },
   panzerungstechnik: {
     id: 'panzerungstechnik',
@@ -103,6 +176,11 @@ export const RESEARCH: Record<string, Research> = {
     description: 'Verstärkt die Hüllen von Schiffen und Verteidigungsanlagen.',
     baseCost: { [ResourceType.Orichalkum]: 800, [ResourceType.Fokuskristalle]: 200, [ResourceType.Vitriol]: 0 },
     costMultiplier: 2,
+    effects: [{ target: ModifierTarget.Hull, percentPerLevel: 10 }],
+    requirements: [
+      { kind: 'building', id: 'forschungslabor', level: 1 },
+      { kind: 'research', id: 'rumpfverstaerkungsLegierungen', level: 2 },
+    ],
   },
   spionagetechnologie: {
     id: 'spionagetechnologie',
@@ -110,6 +188,8 @@ export const RESEARCH: Record<string, Research> = {
     description: 'Ermöglicht den Bau von Spionagesonden und verbessert die Informationsgewinnung.',
     baseCost: { [ResourceType.Orichalkum]: 200, [ResourceType.Fokuskristalle]: 1000, [ResourceType.Vitriol]: 200 },
     costMultiplier: 2,
+    effects: [{ target: ModifierTarget.Espionage, percentPerLevel: 10 }],
+    requirements: [{ kind: 'building', id: 'forschungslabor', level: 3 }],
   },
 
   // Zusätzliche Forschungstechologien für die Steampunk-Welt
@@ -119,6 +199,14 @@ export const RESEARCH: Record<string, Research> = {
     description: 'Steigert die Effizienz der Energieerzeugung und verringert den Energieverbrauch aller Gebäude.',
     baseCost: { [ResourceType.Orichalkum]: 200, [ResourceType.Fokuskristalle]: 200, [ResourceType.Vitriol]: 50 },
     costMultiplier: 2,
+    effects: [
+      { target: ModifierTarget.EnergySupply, percentPerLevel: 5 },
+      { target: ModifierTarget.EnergyConsumption, percentPerLevel: -2 },
+    ],
+    requirements: [
+      { kind: 'building', id: 'forschungslabor', level: 1 },
+      { kind: 'building', id: 'dampfkraftwerk', level: 3 },
+    ],
   },
   lichtbogenIngenieurwesen: {
     id: 'lichtbogenIngenieurwesen',
@@ -126,6 +214,11 @@ export const RESEARCH: Record<string, Research> = {
     description: 'Ermöglicht fortschrittliche Lichtbogenwaffen und Energieübertragung.',
     baseCost: { [ResourceType.Orichalkum]: 400, [ResourceType.Fokuskristalle]: 200, [ResourceType.Vitriol]: 100 },
     costMultiplier: 2,
+    effects: [{ target: ModifierTarget.Attack, percentPerLevel: 5 }],
+    requirements: [
+      { kind: 'building', id: 'forschungslabor', level: 1 },
+      { kind: 'research', id: 'teslaSpulenForschung', level: 4 },
+    ],
   },
   teslaSpulenForschung: {
     id: 'teslaSpulenForschung',
@@ -133,6 +226,11 @@ export const RESEARCH: Record<string, Research> = {
     description: 'Erforscht Hochspannungs-Tesla-Spulen zur Verteidigung.',
     baseCost: { [ResourceType.Orichalkum]: 800, [ResourceType.Fokuskristalle]: 600, [ResourceType.Vitriol]: 200 },
     costMultiplier: 2.5,
+    effects: [{ target: ModifierTarget.Shield, percentPerLevel: 5 }],
+    requirements: [
+      { kind: 'building', id: 'forschungslabor', level: 1 },
+      { kind: 'building', id: 'dampfkraftwerk', level: 6 },
+    ],
   },
   aetherraumTheorie: {
     id: 'aetherraumTheorie',
@@ -140,6 +238,11 @@ export const RESEARCH: Record<string, Research> = {
     description: 'Legt die Grundlagen für Reisen durch den Äther und interstellare Navigation.',
     baseCost: { [ResourceType.Orichalkum]: 1200, [ResourceType.Fokuskristalle]: 1200, [ResourceType.Vitriol]: 500 },
     costMultiplier: 2.5,
+    effects: [{ target: ModifierTarget.TravelTime, percentPerLevel: -3 }],
+    requirements: [
+      { kind: 'building', id: 'forschungslabor', level: 3 },
+      { kind: 'research', id: 'aetherdynamik', level: 2 },
+    ],
   },
   observatoriumsnetz: {
     id: 'observatoriumsnetz',
@@ -147,6 +250,11 @@ export const RESEARCH: Record<string, Research> = {
     description: 'Verbessert die Spionage- und Scanreichweite durch ein Netz von Observatorien.',
     baseCost: { [ResourceType.Orichalkum]: 500, [ResourceType.Fokuskristalle]: 1000, [ResourceType.Vitriol]: 200 },
     costMultiplier: 2,
+    effects: [{ target: ModifierTarget.Espionage, percentPerLevel: 5 }],
+    requirements: [
+      { kind: 'building', id: 'forschungslabor', level: 1 },
+      { kind: 'research', id: 'spionagetechnologie', level: 2 },
+    ],
   },
   differenzmaschinenKalkuel: {
     id: 'differenzmaschinenKalkuel',
@@ -154,6 +262,11 @@ export const RESEARCH: Record<string, Research> = {
     description: 'Erhöht die Rechenleistung durch mechanische Differentialmaschinen für komplexe Berechnungen.',
     baseCost: { [ResourceType.Orichalkum]: 150, [ResourceType.Fokuskristalle]: 300, [ResourceType.Vitriol]: 50 },
     costMultiplier: 2,
+    effects: [
+      { target: ModifierTarget.ResearchTime, percentPerLevel: -5 },
+      { target: ModifierTarget.BuildTime, percentPerLevel: -3 },
+    ],
+    requirements: [{ kind: 'building', id: 'forschungslabor', level: 2 }],
   },
   pulverProjektilkunde: {
     id: 'pulverProjektilkunde',
@@ -161,6 +274,11 @@ export const RESEARCH: Record<string, Research> = {
     description: 'Verbessert die ballistischen Waffen und deren Munition.',
     baseCost: { [ResourceType.Orichalkum]: 300, [ResourceType.Fokuskristalle]: 100, [ResourceType.Vitriol]: 200 },
     costMultiplier: 2,
+    effects: [{ target: ModifierTarget.Attack, percentPerLevel: 10 }],
+    requirements: [
+      { kind: 'building', id: 'forschungslabor', level: 1 },
+      { kind: 'building', id: 'vitriolDestille', level: 3 },
+    ],
   },
   magnetfeldBarrieren: {
     id: 'magnetfeldBarrieren',
@@ -168,6 +286,11 @@ export const RESEARCH: Record<string, Research> = {
     description: 'Stärkt Schilde durch magnetische Barrieren und Feldgeneratoren.',
     baseCost: { [ResourceType.Orichalkum]: 500, [ResourceType.Fokuskristalle]: 250, [ResourceType.Vitriol]: 250 },
     costMultiplier: 2.2,
+    effects: [{ target: ModifierTarget.Shield, percentPerLevel: 10 }],
+    requirements: [
+      { kind: 'building', id: 'forschungslabor', level: 1 },
+      { kind: 'research', id: 'panzerungstechnik', level: 4 },
+    ],
   },
   rumpfverstaerkungsLegierungen: {
     id: 'rumpfverstaerkungsLegierungen',
@@ -175,6 +298,11 @@ export const RESEARCH: Record<string, Research> = {
     description: 'Entwickelt widerstandsfähigere Legierungen für Schiffsrümpfe.',
     baseCost: { [ResourceType.Orichalkum]: 400, [ResourceType.Fokuskristalle]: 200, [ResourceType.Vitriol]: 50 },
     costMultiplier: 2,
+    effects: [{ target: ModifierTarget.Hull, percentPerLevel: 5 }],
+    requirements: [
+      { kind: 'building', id: 'forschungslabor', level: 1 },
+      { kind: 'building', id: 'orichalkumSchmelze', level: 5 },
+    ],
   },
   kolbenAntrieb: {
     id: 'kolbenAntrieb',
@@ -182,6 +310,12 @@ export const RESEARCH: Record<string, Research> = {
     description: 'Verbrennungstriebwerk; erhöht die Reisefähigkeit einfacher Schiffe.',
     baseCost: { [ResourceType.Orichalkum]: 300, [ResourceType.Fokuskristalle]: 300, [ResourceType.Vitriol]: 50 },
     costMultiplier: 2,
+    effects: [{ target: ModifierTarget.TravelTime, percentPerLevel: -4 }],
+    requirements: [
+      { kind: 'building', id: 'forschungslabor', level: 1 },
+      { kind: 'building', id: 'werft', level: 1 },
+      { kind: 'building', id: 'dampfkraftwerk', level: 4 },
+    ],
   },
   dampfjet: {
     id: 'dampfjet',
@@ -189,6 +323,11 @@ export const RESEARCH: Record<string, Research> = {
     description: 'Impulstriebwerk; steigert die Geschwindigkeit mittels Dampfantrieb.',
     baseCost: { [ResourceType.Orichalkum]: 500, [ResourceType.Fokuskristalle]: 500, [ResourceType.Vitriol]: 100 },
     costMultiplier: 2,
+    effects: [{ target: ModifierTarget.TravelTime, percentPerLevel: -5 }],
+    requirements: [
+      { kind: 'building', id: 'forschungslabor', level: 2 },
+      { kind: 'research', id: 'kolbenAntrieb', level: 3 },
+    ],
   },
   aethermotor: {
     id: 'aethermotor',
@@ -196,6 +335,11 @@ export const RESEARCH: Record<string, Research> = {
     description: 'Hyperantrieb basierend auf Ätherenergie.',
     baseCost: { [ResourceType.Orichalkum]: 1600, [ResourceType.Fokuskristalle]: 800, [ResourceType.Vitriol]: 300 },
     costMultiplier: 2.5,
+    effects: [{ target: ModifierTarget.TravelTime, percentPerLevel: -6 }],
+    requirements: [
+      { kind: 'building', id: 'forschungslabor', level: 8 },
+      { kind: 'research', id: 'aetherdynamik', level: 5 },
+    ],
   },
   aetherplasmaEntladungen: {
     id: 'aetherplasmaEntladungen',
@@ -203,6 +347,11 @@ export const RESEARCH: Record<string, Research> = {
     description: 'Plasmatechnologie; erforscht energiegeladene Ätherplasma-Geschosse.',
     baseCost: { [ResourceType.Orichalkum]: 2000, [ResourceType.Fokuskristalle]: 2000, [ResourceType.Vitriol]: 600 },
     costMultiplier: 3,
+    effects: [{ target: ModifierTarget.Attack, percentPerLevel: 15 }],
+    requirements: [
+      { kind: 'building', id: 'forschungslabor', level: 1 },
+      { kind: 'research', id: 'aethermotor', level: 3 },
+    ],
   },
   aethernetzVerbund: {
     id: 'aethernetzVerbund',
@@ -210,6 +359,11 @@ export const RESEARCH: Record<string, Research> = {
     description: 'Intergalaktisches Forschungsnetzwerk; ermöglicht den Wissensaustausch zwischen Kolonien.',
     baseCost: { [ResourceType.Orichalkum]: 4000, [ResourceType.Fokuskristalle]: 3000, [ResourceType.Vitriol]: 1500 },
     costMultiplier: 2.8,
+    effects: [{ target: ModifierTarget.ResearchTime, percentPerLevel: -8 }],
+    requirements: [
+      { kind: 'building', id: 'forschungslabor', level: 10 },
+      { kind: 'research', id: 'differenzmaschinenKalkuel', level: 5 },
+    ],
   },
   himmelsmechanik: {
     id: 'himmelsmechanik',
@@ -217,6 +371,11 @@ export const RESEARCH: Record<string, Research> = {
     description: 'Astrophysik; verbessert die Kapazität, Planeten zu kolonisieren und zu berechnen.',
     baseCost: { [ResourceType.Orichalkum]: 2500, [ResourceType.Fokuskristalle]: 1500, [ResourceType.Vitriol]: 500 },
     costMultiplier: 2.2,
+    effects: [{ target: ModifierTarget.Production, percentPerLevel: 2 }],
+    requirements: [
+      { kind: 'building', id: 'forschungslabor', level: 4 },
+      { kind: 'research', id: 'aetherraumTheorie', level: 2 },
+    ],
   },
   aethergravimetrie: {
     id: 'aethergravimetrie',
@@ -224,11 +383,16 @@ export const RESEARCH: Record<string, Research> = {
     description: 'Erforscht Gravitation im Äther; Grundlage für Gravitonforschung.',
     baseCost: { [ResourceType.Orichalkum]: 10000, [ResourceType.Fokuskristalle]: 2000, [ResourceType.Vitriol]: 5000 },
     costMultiplier: 2.5,
+    effects: [{ target: ModifierTarget.StorageCapacity, percentPerLevel: 5 }],
+    requirements: [
+      { kind: 'building', id: 'forschungslabor', level: 12 },
+      { kind: 'research', id: 'himmelsmechanik', level: 6 },
+    ],
   },
 };
 
 /**
- * Duration of a simulation tick in milliseconds.
+ * Refresh rate of the display clock in milliseconds. The simulation itself only runs at queued events.
  */
 export const TICK_INTERVAL = 1000; // 1 second
 
@@ -245,6 +409,11 @@ export const INITIAL_BUILDING_LEVELS: Record<string, number> = {
   kristallKondensator: 1,
   vitriolDestille: 0,
   dampfkraftwerk: 1,
+  orichalkumLager: 0,
+  kristallTresor: 0,
+  vitriolDrucktank: 0,
+  forschungslabor: 0,
+  werft: 0,
 };
 
 /**
@@ -253,10 +422,20 @@ export const INITIAL_BUILDING_LEVELS: Record<string, number> = {
 export const INITIAL_RESEARCH_LEVELS: Record<string, number> = {};
 
 /**
- * Maximum number of entries allowed in the build queue simultaneously.
+ * Maximum number of entries allowed in the build queue of a colony simultaneously.
  */
 export const MAX_BUILD_QUEUE_LENGTH = 3;
 
+/**
+ * Maximum number of entries allowed in the empire-wide research queue simultaneously.
+ */
+export const MAX_RESEARCH_QUEUE_LENGTH = 2;
+
+/**
+ * Share of the paid costs returned when a queued building or research upgrade is cancelled.
+ */
+export const QUEUE_CANCEL_REFUND_RATIO = 0.8;
+
 /**
  * Visual theme tokens for alle Planetenbiome inklusive Label und Farbcodes für die Hex-Map.
  */
@@ -306,6 +485,13 @@ export const SHIP_BLUEPRINTS: ShipBlueprint[] = [
     buildTimeSeconds: 900,
     crew: 2,
     cargo: 50,
+    attack: 5,
+    shield: 10,
+    hull: 420,
+    requirements: [
+      { kind: 'building', id: 'werft', level: 1 },
+      { kind: 'research', id: 'spionagetechnologie', level: 1 },
+    ],
   },
   {
     id: 'kohlenfrachter',
@@ -321,6 +507,13 @@ export const SHIP_BLUEPRINTS: ShipBlueprint[] = [
     buildTimeSeconds: 3200,
     crew: 30,
     cargo: 4500,
+    attack: 5,
+    shield: 25,
+    hull: 2100,
+    requirements: [
+      { kind: 'building', id: 'werft', level: 2 },
+      { kind: 'research', id: 'kolbenAntrieb', level: 2 },
+    ],
   },
   {
     id: 'sturmfregatte',
@@ -336,6 +529,14 @@ export const SHIP_BLUEPRINTS: ShipBlueprint[] = [
     buildTimeSeconds: 5400,
     crew: 85,
     cargo: 800,
+    attack: 160,
+    shield: 60,
+    hull: 3900,
+    requirements: [
+      { kind: 'building', id: 'werft', level: 4 },
+      { kind: 'research', id: 'pulverProjektilkunde', level: 2 },
+      { kind: 'research', id: 'panzerungstechnik', level: 1 },
+    ],
   },
   {
     id: 'aetherträger',
@@ -351,9 +552,153 @@ export const SHIP_BLUEPRINTS: ShipBlueprint[] = [
     buildTimeSeconds: 7600,
     crew: 160,
     cargo: 1200,
+    attack: 70,
+    shield: 220,
+    hull: 6000,
+    requirements: [
+      { kind: 'building', id: 'werft', level: 6 },
+      { kind: 'research', id: 'aetherdynamik', level: 4 },
+    ],
+  },
+  {
+    id: 'siedlerarche',
+    name: 'Siedlerarche',
+    description: 'Schwerfälliges Koloniefahrzeug, das am Ziel zur ersten Siedlung zerlegt wird.',
+    role: 'Kolonisierung',
+    hangarSlots: 6,
+    baseCost: {
+      [ResourceType.Orichalkum]: 8000,
+      [ResourceType.Fokuskristalle]: 4000,
+      [ResourceType.Vitriol]: 3000,
+    },
+    buildTimeSeconds: 9000,
+    crew: 120,
+    cargo: 5000,
+    attack: 0,
+    shield: 100,
+    hull: 9000,
+    requirements: [
+      { kind: 'building', id: 'werft', level: 3 },
+      { kind: 'research', id: 'himmelsmechanik', level: 1 },
+    ],
   },
 ];
 
+/**
+ * Planetary defences that other commanders field against attack missions.
+ */
+export const DEFENCE_BLUEPRINTS: DefenceBlueprint[] = [
+  {
+    id: 'dampfgeschuetz',
+    name: 'Dampfgeschütz',
+    description: 'Druckluftkanone mit hoher Feuerrate gegen leichte Schiffe.',
+    attack: 80,
+    shield: 20,
+    hull: 2000,
+  },
+  {
+    id: 'teslaturm',
+    name: 'Teslaturm',
+    description: 'Entlädt gebündelte Blitze auf schwer gepanzerte Ziele.',
+    attack: 250,
+    shield: 100,
+    hull: 8000,
+  },
+  {
+    id: 'aetherkuppel',
+    name: 'Ätherkuppel',
+    description: 'Schildgenerator, der den Beschuss der Angreifer bindet.',
+    attack: 1,
+    shield: 2000,
+    hull: 20000,
+  },
+];
+
+/**
+ * Exchanges of fire after which an undecided battle ends in a draw.
+ */
+export const MAX_COMBAT_ROUNDS = 6;
+
+/**
+ * Shots weaker than this share of the target's shield bounce off without effect.
+ */
+export const COMBAT_SHIELD_BOUNCE_RATIO = 0.01;
+
+/**
+ * Units whose hull drops below this share may explode before it reaches zero.
+ */
+export const COMBAT_EXPLOSION_THRESHOLD = 0.7;
+
+/**
+ * Share of the defender's stock a victorious fleet may plunder, limited by its free cargo.
+ */
+export const COMBAT_LOOT_RATIO = 0.5;
+
+/**
+ * Crew that has to survive a won battle to occupy an enemy planet.
+ */
+export const CONQUEST_MIN_CREW = 150;
+
+/**
+ * Colonies (home planet included) an empire may govern without `himmelsmechanik` research.
+ */
+export const COLONY_BASE_LIMIT = 2;
+
+/**
+ * `himmelsmechanik` levels needed for each additional colony.
+ */
+export const HIMMELSMECHANIK_LEVELS_PER_COLONY = 2;
+
+/**
+ * Espionage lead (own minus target `spionagetechnologie` level, plus the probe bonus) a mission needs to
+ * uncover each section of a snapshot. Resources are always visible.
+ */
+export const ESPIONAGE_DETAIL_THRESHOLDS: Record<Exclude<keyof IntelSnapshot, 'resources'>, number> = {
+  fleet: -1,
+  defences: 0,
+  buildings: 1,
+  research: 2,
+};
+
+/**
+ * Additional probes needed for one extra level of espionage lead.
+ */
+export const ESPIONAGE_PROBES_PER_LEVEL = 3;
+
+/**
+ * Chance that the target notices probes of the same espionage level.
+ */
+export const ESPIONAGE_BASE_DETECTION = 0.2;
+
+/**
+ * Change of the detection chance per level the target is ahead, and per additional probe.
+ */
+export const ESPIONAGE_DETECTION_PER_LEVEL = 0.1;
+export const ESPIONAGE_DETECTION_PER_PROBE = 0.02;
+
+/**
+ * Upper bound of kept reports; the oldest ones outside the archive are dropped first.
+ */
+export const MAX_STORED_REPORTS = 200;
+
+/**
+ * Ships every new account starts with in its hangar, keyed by blueprint id.
+ */
+export const INITIAL_FLEET_COMPOSITION: Record<string, number> = {
+  spaeherdrohne: 2,
+  kohlenfrachter: 1,
+};
+
+/**
+ * Hangar slots available for finished and queued ships.
+ */
+export const INITIAL_HANGAR_CAPACITY = 16;
+
+/**
+ * Maximum number of open shipyard orders at the same time.
+ */
+export const MAX_SHIPYARD_QUEUE = 5;
+
 /**
  * Preparation window applied before any fleet leaves the hangar, measured in milliseconds.
  */
@@ -374,3 +719,87 @@ export const MISSION_TRAVEL_TIME_PER_HEX: Record<MissionType, number> = {
   [MissionType.Stationierung]: 150 * 1000,
   [MissionType.Kolonisierung]: 5 * 60 * 1000,
 };
+
+/**
+ * Terrain penalties for fleet routes: dense biomes slow fleets down and nebula sectors are best avoided.
+ */
+export const ROUTE_TERRAIN_COSTS: TerrainCostConfig = {
+  biomes: {
+    [PlanetBiome.Aethermoor]: 1.5,
+    [PlanetBiome.Glimmerkluft]: 1.25,
+  },
+  sectors: {
+    '8:12': 2.5,
+    '9:12': 2.5,
+    '21:30': 3,
+    '22:30': 3,
+    '22:31': 3,
+    '37:18': 2,
+    '44:41': 2.5,
+  },
+};
+
+/**
+ * Extra hex steps a route may stray from the straight line while searching around costly terrain.
+ */
+export const MAX_ROUTE_DETOUR = 8;
+
+/**
+ * Icon und Farbe je Missionstyp für Missionslisten und die Flottenanzeige der Hex-Map.
+ */
+export const MISSION_STYLES: Record<MissionType, { icon: string; color: string }> = {
+  [MissionType.Angriff]: { icon: '⚔️', color: '#f87171' },
+  [MissionType.Transport]: { icon: '🚚', color: '#38bdf8' },
+  [MissionType.Spionage]: { icon: '🛰️', color: '#c084fc' },
+  [MissionType.Stationierung]: { icon: '🛡️', color: '#fbbf24' },
+  [MissionType.Kolonisierung]: { icon: '🚩', color: '#34d399' },
+};
+
+/**
+ * Time span of the mission timeline: how far it looks back from now and the shortest window it shows.
+ */
+export const TIMELINE_LOOKBACK = 10 * 60 * 1000;
+export const TIMELINE_MIN_SPAN = 60 * 60 * 1000;
+
+/**
+ * Chance that a simulated alliance member commits to an operation and the share of its planet fleet it sends.
+ */
+export const OPERATION_COMMIT_CHANCE = 0.6;
+export const OPERATION_FLEET_SHARE = { min: 0.4, max: 0.9 };
+
+/**
+ * Sensor range around own planets in hex steps: a base reach plus every level of Observatoriumsnetz.
+ */
+export const SENSOR_BASE_RANGE = 2;
+export const SENSOR_RANGE_PER_LEVEL = 2;
+
+/**
+ * Observatoriumsnetz level from which sensors tell the mission type of incoming fleets.
+ */
+export const SENSOR_TYPE_REVEAL_LEVEL = 2;
+
+/**
+ * Default warnings before a hostile fleet arrives, in milliseconds before arrival.
+ */
+export const INCOMING_WARNING_THRESHOLDS = [30 * 60 * 1000, 10 * 60 * 1000, 2 * 60 * 1000];
+
+/**
+ * Stand-in generator for hostile missions: average time between two launches, the most fleets in the air
+ * at once, the share of the origin garrison that sets out and how many of the missions are espionage.
+ */
+export const HOSTILE_MISSION_INTERVAL = 20 * 60 * 1000;
+export const MAX_HOSTILE_MISSIONS = 3;
+export const HOSTILE_FLEET_SHARE = 0.5;
+export const HOSTILE_ESPIONAGE_SHARE = 0.3;
+
+/**
+ * Ship roles a fleet needs for each mission type. At least one ship must match `required`;
+ * when `allowed` is set, every ship of the fleet must have one of these roles.
+ */
+export const MISSION_ROLE_RULES: Record<MissionType, { required: ShipRole[]; allowed?: ShipRole[] }> = {
+  [MissionType.Angriff]: { required: ['Angriff'] },
+  [MissionType.Transport]: { required: ['Transport'] },
+  [MissionType.Spionage]: { required: ['Aufklärung'], allowed: ['Aufklärung'] },
+  [MissionType.Stationierung]: { required: [] },
+  [MissionType.Kolonisierung]: { required: ['Kolonisierung'] },
+};
@@ -0,0 +1,21 @@
+import { useMemo } from 'react';
+import { selectProjectedResources, useGameStore } from '@/store/gameStore';
+import { useDisplayClock } from '@/hooks/useDisplayClock';
+import { Resources } from '@/types';
+
+/**
+ * React hook returning the stock of the active colony as of now, including the production since the last
+ * simulation event.
+ */
+export const useColonyResources = (): Resources => {
+  const colonies = useGameStore((state) => state.colonies);
+  const activePlanetId = useGameStore((state) => state.activePlanetId);
+  const research = useGameStore((state) => state.research);
+  const lastTickAt = useGameStore((state) => state.lastTickAt);
+  const now = useDisplayClock();
+
+  return useMemo(
+    () => selectProjectedResources({ colonies, activePlanetId, research, lastTickAt }, now),
+    [colonies, activePlanetId, research, lastTickAt, now],
+  );
+};
@@ -0,0 +1,17 @@
+import { useEffect, useState } from 'react';
+import { TICK_INTERVAL } from '@/constants';
+
+/**
+ * React hook returning the current time, refreshed at the display tick rate. The simulation only updates
+ * the stores at queued events, so countdowns and progress bars between them run on this clock.
+ */
+export const useDisplayClock = () => {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const interval = window.setInterval(() => setNow(Date.now()), TICK_INTERVAL);
+    return () => window.clearInterval(interval);
+  }, []);
+
+  return now;
+};
@@ -1,22 +1,41 @@
 import { useEffect } from 'react';
-import { useGameStore } from '@/store/gameStore';
-import { useMissionStore } from '@/store/missionStore';
-import { TICK_INTERVAL } from '@/constants';
+import { connectGameEvents, gameEvents } from '@/store/gameEvents';
+import { connectSimulation } from '@/store/simulationBridge';
+
+// Longest delay setTimeout accepts; later events simply re-arm the timer when it fires.
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
 
 /**
- * React hook that registers the core game tick interval.
- * It advances the simulation at the configured tick rate while the component tree is mounted.
+ * React hook that drives the event-driven simulation while the component tree is mounted.
+ * It fires every due event at its own timestamp, catching up on the time the tab was closed first, and
+ * sleeps until the next queued event. Stores that reschedule their events re-arm the timer; nothing runs
+ * in between, the display projects production on its own clock.
  */
 export const useGameTick = () => {
-  const gameTick = useGameStore((state) => state.gameTick);
-  const advanceMissions = useMissionStore((state) => state.advanceMissions);
-
   useEffect(() => {
-    const intervalId = setInterval(() => {
-      gameTick();
-      advanceMissions(Date.now());
-    }, TICK_INTERVAL);
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+
+    const arm = () => {
+      clearTimeout(timeoutId);
+      const nextEventAt = gameEvents.getNextEventAt();
+      timeoutId =
+        nextEventAt === null
+          ? undefined
+          : setTimeout(wake, Math.min(MAX_TIMER_DELAY, Math.max(0, nextEventAt - Date.now())));
+    };
+
+    const wake = () => {
+      gameEvents.advanceTo(Date.now());
+      arm();
+    };
 
-    return () => clearInterval(intervalId);
-  }, [advanceMissions, gameTick]);
+    const disconnectSimulation = connectSimulation();
+    const disconnectEvents = connectGameEvents(arm);
+    wake();
+    return () => {
+      clearTimeout(timeoutId);
+      disconnectEvents();
+      disconnectSimulation();
+    };
+  }, []);
 };
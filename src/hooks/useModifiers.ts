@@ -0,0 +1,11 @@
+import { useMemo } from 'react';
+import { useGameStore } from '@/store/gameStore';
+import { Modifiers, resolveModifiers } from '@/lib/modifiers';
+
+/**
+ * React hook returning the research modifiers of the player, recomputed only when research levels change.
+ */
+export const useModifiers = (): Modifiers => {
+  const research = useGameStore((state) => state.research);
+  return useMemo(() => resolveModifiers(research), [research]);
+};
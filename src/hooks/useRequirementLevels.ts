@@ -0,0 +1,17 @@
+import { useMemo } from 'react';
+import { selectRequirementLevels, useGameStore } from '@/store/gameStore';
+import { RequirementLevels } from '@/lib/techTree';
+
+/**
+ * React hook returning the building and research levels that prerequisites of the active colony are checked against.
+ */
+export const useRequirementLevels = (includeQueued = true): RequirementLevels => {
+  const colonies = useGameStore((state) => state.colonies);
+  const activePlanetId = useGameStore((state) => state.activePlanetId);
+  const research = useGameStore((state) => state.research);
+  const researchQueue = useGameStore((state) => state.researchQueue);
+  return useMemo(
+    () => selectRequirementLevels({ colonies, activePlanetId, research, researchQueue }, includeQueued),
+    [activePlanetId, colonies, includeQueued, research, researchQueue],
+  );
+};
@@ -0,0 +1,60 @@
+import { useCallback } from 'react';
+import { resolveColonyContext, selectPersistedGameState, useGameStore } from '@/store/gameStore';
+import { useShipyardStore } from '@/store/shipyardStore';
+import { useMissionStore } from '@/store/missionStore';
+import { useDirectoryStore } from '@/store/directoryStore';
+import { ToastVariant, useUiStore } from '@/store/uiStore';
+import { createSaveGame, parseSaveGame, rebaseSaveGame, serializeSaveGame } from '@/lib/saveGame';
+
+/**
+ * React hook exposing manual export and import of the complete local save as a JSON file.
+ * Imported saves resume exactly where they were exported so testers can share reproducible states.
+ */
+export const useSaveGame = () => {
+  const exportSave = useCallback(() => {
+    const { queue, inventory, hangarCapacity } = useShipyardStore.getState();
+    const save = createSaveGame({
+      game: selectPersistedGameState(useGameStore.getState()),
+      shipyard: { queue, inventory, hangarCapacity },
+      missions: useMissionStore.getState().missions,
+      foreignPlanets: useMissionStore.getState().foreignPlanets,
+      favorites: useDirectoryStore.getState().favorites,
+    });
+    const blob = new Blob([serializeSaveGame(save)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `steam-war-raiders-${new Date(save.exportedAt).toISOString().replace(/[:.]/g, '-')}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }, []);
+
+  const importSave = useCallback(async (file: File) => {
+    const { pushToast } = useUiStore.getState();
+    try {
+      const save = rebaseSaveGame(parseSaveGame(await file.text(), resolveColonyContext()), Date.now());
+      useGameStore.setState({ ...save.game });
+      useShipyardStore.setState({
+        queue: save.shipyard.queue,
+        inventory: save.shipyard.inventory,
+        hangarCapacity: save.shipyard.hangarCapacity,
+      });
+      useMissionStore.setState({ missions: save.missions, foreignPlanets: save.foreignPlanets ?? {} });
+      useDirectoryStore.setState({ favorites: save.favorites, profiles: {}, openProfileId: null });
+      useGameStore.getState().reconcileColonies();
+      pushToast({
+        title: 'Spielstand geladen',
+        description: `Stand vom ${new Date(save.exportedAt).toLocaleString('de-DE')} übernommen.`,
+        variant: ToastVariant.Success,
+      });
+    } catch (error) {
+      pushToast({
+        title: 'Import fehlgeschlagen',
+        description: error instanceof Error ? error.message : 'Der Spielstand konnte nicht gelesen werden.',
+        variant: ToastVariant.Warning,
+      });
+    }
+  }, []);
+
+  return { exportSave, importSave };
+};
@@ -2,15 +2,20 @@ import { describe, expect, it } from 'vitest';
 import {
   computeQueueSlotTiming,
   hasQueueCapacity,
+  isQueueOrderValid,
+  moveQueueItem,
   partitionBuildQueue,
+  projectQueuedLevels,
+  removeQueueItemCascade,
+  rescheduleQueue,
 } from '@/lib/buildQueue';
 import { BuildQueueItem } from '@/types';
 
 describe('partitionBuildQueue', () => {
   it('separates completed entries based on the timestamp', () => {
     const queue: BuildQueueItem[] = [
-      { entityId: 'a', level: 1, startTime: 0, endTime: 10 },
-      { entityId: 'b', level: 1, startTime: 10, endTime: 20 },
+      { kind: 'building', entityId: 'a', level: 1, startTime: 0, endTime: 10 },
+      { kind: 'building', entityId: 'b', level: 1, startTime: 10, endTime: 20 },
     ];
     const { completed, pending } = partitionBuildQueue(queue, 15);
     expect(completed).toHaveLength(1);
@@ -23,7 +28,7 @@ describe('partitionBuildQueue', () => {
 describe('hasQueueCapacity', () => {
   it('checks whether the queue length is still below the cap', () => {
     const queue: BuildQueueItem[] = [
-      { entityId: 'a', level: 1, startTime: 0, endTime: 10 },
+      { kind: 'building', entityId: 'a', level: 1, startTime: 0, endTime: 10 },
     ];
     expect(hasQueueCapacity(queue, 2)).toBe(true);
     expect(hasQueueCapacity(queue, 1)).toBe(false);
@@ -41,11 +46,76 @@ describe('computeQueueSlotTiming', () => {
   it('chains the new order to the end of the queue', () => {
     const now = 10000;
     const queue: BuildQueueItem[] = [
-      { entityId: 'a', level: 1, startTime: 0, endTime: 5000 },
-      { entityId: 'b', level: 2, startTime: 5000, endTime: 12000 },
+      { kind: 'building', entityId: 'a', level: 1, startTime: 0, endTime: 5000 },
+      { kind: 'building', entityId: 'b', level: 2, startTime: 5000, endTime: 12000 },
     ];
     const { startTime, endTime } = computeQueueSlotTiming(queue, 30, now);
     expect(startTime).toBe(12000);
     expect(endTime).toBe(12000 + 30000);
   });
 });
+
+describe('projectQueuedLevels', () => {
+  it('applies the highest queued level per entity', () => {
+    const queue: BuildQueueItem[] = [
+      { kind: 'building', entityId: 'a', level: 3, startTime: 0, endTime: 10 },
+      { kind: 'building', entityId: 'a', level: 4, startTime: 10, endTime: 20 },
+      { kind: 'building', entityId: 'c', level: 1, startTime: 20, endTime: 30 },
+    ];
+    expect(projectQueuedLevels({ a: 2, b: 5 }, queue)).toEqual({ a: 4, b: 5, c: 1 });
+  });
+});
+
+const QUEUE: BuildQueueItem[] = [
+  { kind: 'building', entityId: 'a', level: 3, startTime: 0, endTime: 10 },
+  { kind: 'building', entityId: 'b', level: 1, startTime: 10, endTime: 30 },
+  { kind: 'building', entityId: 'a', level: 4, startTime: 30, endTime: 60 },
+];
+
+describe('removeQueueItemCascade', () => {
+  it('removes the cancelled level together with the later levels of the same entity', () => {
+    const { remaining, removed } = removeQueueItemCascade(QUEUE, 'a', 3);
+    expect(removed.map((item) => item.level)).toEqual([3, 4]);
+    expect(remaining.map((item) => item.entityId)).toEqual(['b']);
+  });
+});
+
+describe('rescheduleQueue', () => {
+  it('closes gaps while keeping the running entry and every duration', () => {
+    expect(rescheduleQueue([QUEUE[0], QUEUE[2]], 5)).toEqual([QUEUE[0], { ...QUEUE[2], startTime: 10, endTime: 40 }]);
+  });
+
+  it('starts at the current time when nothing is running', () => {
+    const rescheduled = rescheduleQueue([QUEUE[1], QUEUE[2]], 5);
+    expect(rescheduled.map((item) => [item.startTime, item.endTime])).toEqual([
+      [5, 25],
+      [25, 55],
+    ]);
+  });
+});
+
+describe('moveQueueItem', () => {
+  it('moves a pending entry and chains the timings again', () => {
+    const queue: BuildQueueItem[] = [
+      ...QUEUE,
+      { kind: 'building', entityId: 'c', level: 1, startTime: 60, endTime: 65 },
+    ];
+    const moved = moveQueueItem(queue, 3, 1, 5);
+    expect(moved?.map((item) => [item.entityId, item.startTime, item.endTime])).toEqual([
+      ['a', 0, 10],
+      ['c', 10, 15],
+      ['b', 15, 35],
+      ['a', 35, 65],
+    ]);
+  });
+
+  it('keeps the running entry in place', () => {
+    expect(moveQueueItem(QUEUE, 0, 1, 5)).toBeNull();
+    expect(moveQueueItem(QUEUE, 2, 0, 5)).toBeNull();
+  });
+
+  it('rejects moving a level in front of its predecessor', () => {
+    expect(moveQueueItem([QUEUE[1], QUEUE[0], QUEUE[2]], 2, 0, -1)).toBeNull();
+    expect(isQueueOrderValid([QUEUE[2], QUEUE[0]])).toBe(false);
+  });
+});
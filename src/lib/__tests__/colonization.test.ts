@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import {
+  calculateColonyLimit,
+  consumeColonyShip,
+  countPendingColonizations,
+  findColonizationFailure,
+  validateColonization,
+} from '@/lib/colonization';
+import { MissionStatus, MissionType } from '@/types';
+
+describe('colony limit', () => {
+  it('grants another colony for every second himmelsmechanik level', () => {
+    expect(calculateColonyLimit(0)).toBe(2);
+    expect(calculateColonyLimit(1)).toBe(2);
+    expect(calculateColonyLimit(4)).toBe(4);
+  });
+
+  it('reserves a colony for every colonization still under way', () => {
+    const missions = [
+      { type: MissionType.Kolonisierung, status: MissionStatus.Geplant },
+      { type: MissionType.Kolonisierung, status: MissionStatus.Unterwegs },
+      { type: MissionType.Kolonisierung, status: MissionStatus.Rueckkehr },
+      { type: MissionType.Transport, status: MissionStatus.Unterwegs },
+    ];
+    expect(countPendingColonizations(missions)).toBe(2);
+    expect(validateColonization(undefined, 1, 1, 2)).toHaveLength(1);
+    expect(validateColonization(undefined, 1, 0, 2)).toEqual([]);
+  });
+});
+
+describe('findColonizationFailure', () => {
+  it('fails when someone settled the slot first', () => {
+    expect(findColonizationFailure('player-9', 1, 4)).toBe('occupied');
+  });
+
+  it('fails when the colony limit is reached on arrival', () => {
+    expect(findColonizationFailure(undefined, 4, 4)).toBe('limit');
+    expect(findColonizationFailure(undefined, 3, 4)).toBeNull();
+  });
+});
+
+describe('consumeColonyShip', () => {
+  it('dismantles exactly one colony ship and keeps the escort', () => {
+    expect(consumeColonyShip({ siedlerarche: 2, sturmfregatte: 1 })).toEqual({ siedlerarche: 1, sturmfregatte: 1 });
+    expect(consumeColonyShip({ siedlerarche: 1 })).toEqual({});
+  });
+});
@@ -0,0 +1,185 @@
+import { describe, expect, it } from 'vitest';
+import {
+  calculateLoot,
+  canConquer,
+  distributeSurvivors,
+  recordBattleDamage,
+  resolveAttack,
+  resolveHostileArrival,
+  simulateBattle,
+} from '@/lib/combat';
+import { NEUTRAL_MODIFIERS, resolveModifiers } from '@/lib/modifiers';
+import { describeForeignPlanet } from '@/lib/foreignPlanets';
+import { ResourceType } from '@/types';
+
+const stock = (orichalkum: number, fokuskristalle: number, vitriol: number) => ({
+  [ResourceType.Orichalkum]: orichalkum,
+  [ResourceType.Fokuskristalle]: fokuskristalle,
+  [ResourceType.Vitriol]: vitriol,
+});
+
+describe('simulateBattle', () => {
+  it('replays the same battle for the same seed', () => {
+    const attacker = { units: { sturmfregatte: 3 }, modifiers: NEUTRAL_MODIFIERS };
+    const defender = { units: { teslaturm: 2, dampfgeschuetz: 4 }, modifiers: NEUTRAL_MODIFIERS };
+    expect(simulateBattle(attacker, defender, 99)).toEqual(simulateBattle(attacker, defender, 99));
+  });
+
+  it('ends once a side is wiped out and books the losses', () => {
+    const result = simulateBattle(
+      { units: { sturmfregatte: 10 }, modifiers: NEUTRAL_MODIFIERS },
+      { units: { dampfgeschuetz: 5 }, modifiers: NEUTRAL_MODIFIERS },
+      42,
+    );
+    expect(result.outcome).toBe('attacker');
+    expect(result.rounds.length).toBeLessThan(6);
+    expect(result.defender).toEqual({ initial: { dampfgeschuetz: 5 }, losses: { dampfgeschuetz: 5 }, survivors: {} });
+    expect(result.attacker.survivors).toEqual({ sturmfregatte: 10 });
+  });
+
+  it('wins without a shot against an empty planet', () => {
+    const result = simulateBattle(
+      { units: { sturmfregatte: 1 }, modifiers: NEUTRAL_MODIFIERS },
+      { units: {}, modifiers: NEUTRAL_MODIFIERS },
+      1,
+    );
+    expect(result.outcome).toBe('attacker');
+    expect(result.rounds).toEqual([]);
+  });
+
+  it('lets armour and shield research keep ships alive', () => {
+    const defender = { units: { teslaturm: 3 }, modifiers: NEUTRAL_MODIFIERS };
+    const plain = simulateBattle({ units: { sturmfregatte: 3 }, modifiers: NEUTRAL_MODIFIERS }, defender, 7);
+    const armoured = simulateBattle(
+      { units: { sturmfregatte: 3 }, modifiers: resolveModifiers({ panzerungstechnik: 10, magnetfeldBarrieren: 5 }) },
+      defender,
+      7,
+    );
+    expect(plain.attacker.losses).toEqual({ sturmfregatte: 1 });
+    expect(armoured.attacker.losses).toEqual({});
+  });
+});
+
+describe('calculateLoot', () => {
+  it('takes half of the stock when the cargo suffices', () => {
+    expect(calculateLoot(stock(1000, 500, 0), 10_000)).toEqual(stock(500, 250, 0));
+  });
+
+  it('scales every resource down evenly to the cargo capacity', () => {
+    expect(calculateLoot(stock(4000, 2000, 2000), 1000)).toEqual(stock(500, 250, 250));
+    expect(calculateLoot(stock(4000, 2000, 2000), 0)).toEqual(stock(0, 0, 0));
+  });
+});
+
+describe('canConquer', () => {
+  const victory = { outcome: 'attacker' as const, attacker: { initial: {}, losses: {}, survivors: { sturmfregatte: 2 } } };
+
+  it('requires a victory over another commander with enough surviving crew', () => {
+    expect(canConquer(victory, 'player-2', 'player-1')).toBe(true);
+    expect(canConquer({ ...victory, outcome: 'draw' }, 'player-2', 'player-1')).toBe(false);
+    expect(canConquer(victory, undefined, 'player-1')).toBe(false);
+    expect(canConquer(victory, 'player-1', 'player-1')).toBe(false);
+    expect(
+      canConquer({ ...victory, attacker: { ...victory.attacker, survivors: { sturmfregatte: 1 } } }, 'player-2', 'player-1'),
+    ).toBe(false);
+  });
+});
+
+describe('resolveAttack', () => {
+  it('fights the stable garrison of the target and is reproducible per mission', () => {
+    const context = {
+      missionId: 'mission-1',
+      attackerId: 'player-1',
+      fleet: { sturmfregatte: 8 },
+      modifiers: NEUTRAL_MODIFIERS,
+      targetPlanetId: 'system-1-1-1-planet-2',
+      targetOwnerId: 'player-9',
+    };
+    const garrison = describeForeignPlanet(context.targetPlanetId, context.targetOwnerId);
+    const report = resolveAttack(context);
+    expect(report).toEqual(resolveAttack(context));
+    expect(report.defender.initial).toEqual({ ...garrison.fleet, ...garrison.defences });
+  });
+
+  it('lets stationed fleets join the defenders', () => {
+    const context = {
+      missionId: 'mission-3',
+      attackerId: 'player-1',
+      fleet: { sturmfregatte: 2 },
+      modifiers: NEUTRAL_MODIFIERS,
+      targetPlanetId: 'system-2-2-0-planet-1',
+    };
+    const report = resolveAttack({ ...context, stationed: { sturmfregatte: 6 } });
+    expect(report.defender.initial).toEqual({ sturmfregatte: 6 });
+    expect(report.outcome).not.toBe('attacker');
+  });
+
+  it('finds nothing to plunder or conquer on an unowned planet', () => {
+    const report = resolveAttack({
+      missionId: 'mission-2',
+      attackerId: 'player-1',
+      fleet: { sturmfregatte: 2, kohlenfrachter: 1 },
+      modifiers: NEUTRAL_MODIFIERS,
+      targetPlanetId: 'system-2-2-0-planet-1',
+    });
+    expect(report.outcome).toBe('attacker');
+    expect(report.loot).toEqual(stock(0, 0, 0));
+    expect(report.conquered).toBe(false);
+  });
+
+  it('fights the garrison that survived earlier battles', () => {
+    const report = resolveAttack({
+      missionId: 'mission-4',
+      attackerId: 'player-1',
+      fleet: { sturmfregatte: 2 },
+      modifiers: NEUTRAL_MODIFIERS,
+      targetPlanetId: 'system-1-1-1-planet-2',
+      targetOwnerId: 'player-9',
+      targetState: { resources: stock(0, 0, 0), fleet: {}, defences: {} },
+    });
+    expect(report.defender.initial).toEqual({});
+    expect(report.loot).toEqual(stock(0, 0, 0));
+  });
+});
+
+describe('resolveHostileArrival', () => {
+  it('sends the fleets stationed at an own planet against the attacker', () => {
+    const incoming = {
+      id: 'incoming-1',
+      attackerId: 'player-9',
+      fleet: { sturmfregatte: 2 },
+      target: { systemId: 'system-1', planetId: 'planet-home', slot: 1, planetName: 'Heimat', ownerId: 'player-1' },
+    };
+    const report = resolveHostileArrival(incoming, {}, {}, { sturmfregatte: 6 });
+    expect(report.defender.initial).toEqual({ sturmfregatte: 6 });
+    expect(report.outcome).not.toBe('attacker');
+    expect(report.loot).toEqual(stock(0, 0, 0));
+  });
+});
+
+describe('recordBattleDamage', () => {
+  it('removes the plunder and the destroyed ships from the planet', () => {
+    const target = { resources: stock(100, 50, 20), fleet: { sturmfregatte: 4 }, defences: { dampfgeschuetz: 4 } };
+    const battle = {
+      defender: {
+        initial: { sturmfregatte: 4, dampfgeschuetz: 4 },
+        losses: { sturmfregatte: 2, dampfgeschuetz: 2 },
+        survivors: { sturmfregatte: 2, dampfgeschuetz: 2 },
+      },
+      loot: stock(60, 50, 30),
+    };
+    expect(recordBattleDamage(target, battle)).toEqual({
+      resources: stock(40, 0, 0),
+      fleet: { sturmfregatte: 2 },
+      defences: { dampfgeschuetz: 2 },
+    });
+  });
+});
+
+describe('distributeSurvivors', () => {
+  it('hands every contingent the loss ratio of the whole defending side', () => {
+    const side = { initial: { sturmfregatte: 10, dampfgeschuetz: 4 }, survivors: { sturmfregatte: 5 } };
+    expect(distributeSurvivors({ sturmfregatte: 4 }, side)).toEqual({ sturmfregatte: 2 });
+    expect(distributeSurvivors({ dampfgeschuetz: 4 }, side)).toEqual({});
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import {
+  acceptsTransports,
+  resolvePlanetRelation,
+  validateAttackTarget,
+  validateOperationTarget,
+  validateStationTarget,
+} from '@/lib/diplomacy';
+import { splitDelivery } from '@/lib/economy';
+import { Alliance, ResourceType } from '@/types';
+
+const alliance = (id: string, pacts: Alliance['pacts'] = []): Alliance => ({
+  id,
+  tag: id.toUpperCase(),
+  name: id,
+  color: '#facc15',
+  members: [],
+  ranks: [],
+  pacts,
+  notes: [],
+});
+
+const ALLIANCES = [
+  alliance('a', [{ id: 'p1', type: 'ally', targetAllianceId: 'b' }]),
+  alliance('b'),
+  alliance('c', [{ id: 'p2', type: 'nap', targetAllianceId: 'a' }]),
+  alliance('d'),
+];
+
+describe('resolvePlanetRelation', () => {
+  const relationTo = (ownerId?: string, allianceId?: string) =>
+    resolvePlanetRelation({ ownerId, allianceId }, 'me', 'a', ALLIANCES);
+
+  it('distinguishes own, alliance and unowned planets', () => {
+    expect(relationTo()).toBe('unowned');
+    expect(relationTo('me', 'a')).toBe('own');
+    expect(relationTo('mate', 'a')).toBe('alliance');
+  });
+
+  it('honours pacts signed by either alliance', () => {
+    expect(relationTo('other', 'b')).toBe('ally');
+    expect(relationTo('other', 'c')).toBe('nap');
+    expect(relationTo('other', 'd')).toBe('foreign');
+    expect(resolvePlanetRelation({ ownerId: 'other', allianceId: 'b' }, 'me', undefined, ALLIANCES)).toBe('foreign');
+  });
+
+  it('lets only own and allied planets accept transports', () => {
+    expect(acceptsTransports('own')).toBe(true);
+    expect(acceptsTransports('alliance')).toBe(true);
+    expect(acceptsTransports('ally')).toBe(true);
+    expect(acceptsTransports('nap')).toBe(false);
+    expect(acceptsTransports('foreign')).toBe(false);
+  });
+
+  it('stations fleets only at own and allied planets', () => {
+    expect(validateStationTarget('alliance')).toEqual([]);
+    expect(validateStationTarget('nap')).toHaveLength(1);
+    expect(validateStationTarget('unowned')).toHaveLength(1);
+  });
+
+  it('aims alliance operations at foreign commanders only', () => {
+    expect(validateOperationTarget('foreign')).toEqual([]);
+    expect(validateOperationTarget('nap')).toEqual([]);
+    expect(validateOperationTarget('ally')).toHaveLength(1);
+    expect(validateOperationTarget('unowned')).toHaveLength(1);
+  });
+
+  it('only lets fleets attack planets outside the own alliance and its pacts', () => {
+    expect(validateAttackTarget('foreign')).toEqual([]);
+    expect(validateAttackTarget('unowned')).toEqual([]);
+    expect(validateAttackTarget('own')).toHaveLength(1);
+    expect(validateAttackTarget('ally')).toHaveLength(1);
+    expect(validateAttackTarget('nap')).toHaveLength(1);
+  });
+});
+
+describe('splitDelivery', () => {
+  it('unloads what fits into the free storage and keeps the overflow on board', () => {
+    const resources = (orichalkum: number, fokuskristalle: number, vitriol: number) => ({
+      [ResourceType.Orichalkum]: orichalkum,
+      [ResourceType.Fokuskristalle]: fokuskristalle,
+      [ResourceType.Vitriol]: vitriol,
+    });
+    expect(splitDelivery(resources(900, 0, 1200), resources(1000, 1000, 1000), resources(500, 500, 500))).toEqual({
+      accepted: resources(100, 500, 0),
+      overflow: resources(400, 0, 500),
+    });
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildIntelSnapshot,
+  calculateDetectionChance,
+  calculateEspionageLead,
+  collectLatestIntel,
+  resolveEspionage,
+} from '@/lib/espionage';
+import { describeForeignPlanet } from '@/lib/foreignPlanets';
+import { EspionageReport, Report, ReportType } from '@/types';
+
+const PLANET_ID = 'system-1-1-1-planet-2';
+
+describe('espionage detail', () => {
+  const profile = describeForeignPlanet(PLANET_ID, 'player-9');
+
+  it('uncovers more sections the larger the lead', () => {
+    expect(Object.keys(buildIntelSnapshot(profile, -2))).toEqual(['resources']);
+    expect(Object.keys(buildIntelSnapshot(profile, 0))).toEqual(['resources', 'fleet', 'defences']);
+    expect(buildIntelSnapshot(profile, 2)).toEqual({
+      resources: profile.resources,
+      fleet: profile.fleet,
+      defences: profile.defences,
+      buildings: profile.buildings,
+      research: profile.research,
+    });
+  });
+
+  it('adds a level of lead for every three additional probes', () => {
+    expect(calculateEspionageLead(-1, 1)).toBe(-1);
+    expect(calculateEspionageLead(-1, 4)).toBe(0);
+    expect(calculateEspionageLead(2, 7)).toBe(4);
+  });
+});
+
+describe('calculateDetectionChance', () => {
+  it('drops with a research lead and rises with every probe', () => {
+    expect(calculateDetectionChance(0, 1)).toBeCloseTo(0.2, 10);
+    expect(calculateDetectionChance(1, 1)).toBeCloseTo(0.1, 10);
+    expect(calculateDetectionChance(0, 6)).toBeCloseTo(0.3, 10);
+    expect(calculateDetectionChance(0, 1, 2)).toBeCloseTo(0.1, 10);
+  });
+
+  it('stays within sensible bounds', () => {
+    expect(calculateDetectionChance(10, 1)).toBe(0);
+    expect(calculateDetectionChance(-20, 1)).toBe(0.95);
+  });
+});
+
+describe('resolveEspionage', () => {
+  it('compares the espionage research of both sides and repeats per mission', () => {
+    const context = {
+      missionId: 'mission-spy',
+      fleet: { spaeherdrohne: 1 },
+      research: { spionagetechnologie: 4 },
+      targetPlanetId: PLANET_ID,
+      targetOwnerId: 'player-9',
+    };
+    const result = resolveEspionage(context);
+    // The target researched spionagetechnologie up to level 1.
+    expect(result.levelDifference).toBe(3);
+    expect(Object.keys(result.snapshot)).toHaveLength(5);
+    expect(resolveEspionage(context)).toEqual(result);
+  });
+
+  it('is never detected on unowned planets', () => {
+    const result = resolveEspionage({
+      missionId: 'mission-spy',
+      fleet: { spaeherdrohne: 12 },
+      research: {},
+      targetPlanetId: PLANET_ID,
+    });
+    expect(result.detectionChance).toBe(0);
+    expect(result.detected).toBe(false);
+  });
+});
+
+describe('collectLatestIntel', () => {
+  const spyReport = (id: string, planetId: string, createdAt: number) =>
+    ({ id, planetId, createdAt, type: ReportType.Spionage, snapshot: {} }) as unknown as EspionageReport;
+
+  it('keeps the newest espionage report per planet', () => {
+    const reports: Report[] = [
+      spyReport('a', 'p1', 10),
+      spyReport('b', 'p1', 30),
+      spyReport('c', 'p2', 20),
+      { ...spyReport('d', 'p2', 40), type: ReportType.Transport } as unknown as Report,
+    ];
+    const intel = collectLatestIntel(reports);
+    expect(intel.p1.id).toBe('b');
+    expect(intel.p2.id).toBe('c');
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import {
+  GameEvent,
+  collectEconomyEvents,
+  collectHostileLaunchEvents,
+  collectIncomingEvents,
+  collectMissionEvents,
+  createEventEngine,
+} from '@/lib/events';
+import { createColonyEconomy } from '@/lib/simulation';
+import { IncomingMission, Mission, MissionStatus, MissionType } from '@/types';
+
+const MINUTE = 60 * 1000;
+
+const missionEvent = (missionId: string, at: number): GameEvent => ({
+  id: `mission:${missionId}`,
+  type: 'missionArrived',
+  at,
+  payload: { missionId },
+});
+
+describe('createEventEngine', () => {
+  it('fires due events at their own timestamps in order', () => {
+    const engine = createEventEngine(0);
+    const seen: [string, number, number][] = [];
+    engine.subscribe('missionArrived', (event) => seen.push([event.payload.missionId, event.at, engine.now()]));
+    engine.schedule(missionEvent('b', 30));
+    engine.schedule(missionEvent('a', 10));
+    engine.schedule(missionEvent('c', 30));
+    engine.schedule(missionEvent('d', 90));
+
+    expect(engine.advanceTo(50)).toHaveLength(3);
+    expect(seen).toEqual([
+      ['a', 10, 10],
+      ['b', 30, 30],
+      ['c', 30, 30],
+    ]);
+    expect(engine.now()).toBe(50);
+    expect(engine.getNextEventAt()).toBe(90);
+  });
+
+  it('fires follow-up events scheduled by handlers within the same advance', () => {
+    const engine = createEventEngine(0);
+    engine.subscribe('missionLaunched', ({ payload, at }) => engine.schedule(missionEvent(payload.missionId, at + 20)));
+    engine.schedule({ id: 'launch', type: 'missionLaunched', at: 10, payload: { missionId: 'm' } });
+    expect(engine.fastForward(40).map((event) => [event.type, event.at])).toEqual([
+      ['missionLaunched', 10],
+      ['missionArrived', 30],
+    ]);
+  });
+
+  it('reschedules, cancels and replaces events by id', () => {
+    const engine = createEventEngine(0);
+    engine.schedule(missionEvent('a', 10));
+    engine.schedule(missionEvent('a', 20));
+    engine.replaceSource('missions', [missionEvent('b', 5), missionEvent('c', 15)]);
+    engine.replaceSource('missions', [missionEvent('c', 15)]);
+    engine.cancel('mission:a');
+    expect(engine.getPendingEvents().map((event) => event.id)).toEqual(['mission:c']);
+    expect(engine.advanceTo(100).map((event) => event.at)).toEqual([15]);
+  });
+
+  it('fires events scheduled in the past on the next advance', () => {
+    const engine = createEventEngine(100);
+    engine.schedule(missionEvent('late', 40));
+    expect(engine.advanceTo(100).map((event) => event.at)).toEqual([40]);
+    expect(engine.now()).toBe(100);
+  });
+});
+
+describe('event schedules', () => {
+  it('collects build completions and storage caps of the economy', () => {
+    const colony = createColonyEconomy({ orichalkumSchmelze: 5, dampfkraftwerk: 6 });
+    colony.buildQueue = [{ kind: 'building', entityId: 'werft', level: 1, startTime: 0, endTime: 5 * MINUTE }];
+    const events = collectEconomyEvents(
+      {
+        colonies: { home: colony },
+        research: {},
+        researchQueue: [{ kind: 'research', entityId: 'aetherdynamik', level: 1, startTime: 0, endTime: MINUTE }],
+      },
+      0,
+      1,
+    );
+    expect(events.filter((event) => event.type === 'buildCompleted').map((event) => event.id)).toEqual([
+      'build:home:werft:1',
+      'build:research:aetherdynamik:1',
+    ]);
+    expect(events.some((event) => event.type === 'resourceCapReached' && event.at > 0)).toBe(true);
+  });
+
+  it('follows each mission to its next launch, arrival or return', () => {
+    const mission = { id: 'm', launchAt: 10, arrivalAt: 20, returnArrivalAt: 30 } as Mission;
+    const statuses = [MissionStatus.Geplant, MissionStatus.Rueckkehr, MissionStatus.Stationiert];
+    expect(collectMissionEvents(statuses.map((status) => ({ ...mission, status }))).map((event) => event.type)).toEqual(
+      ['missionLaunched', 'missionReturned'],
+    );
+  });
+
+  it('wakes up for detection, warnings and arrival of incoming fleets', () => {
+    const incoming = {
+      id: 'i',
+      type: MissionType.Angriff,
+      launchAt: 0,
+      arrivalAt: 100 * MINUTE,
+      distance: 10,
+      detected: false,
+      warnedThresholds: [],
+    } as unknown as IncomingMission;
+    const thresholds = [30 * MINUTE, 10 * MINUTE];
+    expect(collectIncomingEvents([incoming], thresholds, 4)[0].at).toBe(60 * MINUTE);
+    const warned = { ...incoming, detected: true, warnedThresholds: [30 * MINUTE] };
+    expect(collectIncomingEvents([warned], thresholds, 4)[0].at).toBe(90 * MINUTE);
+  });
+
+  it('schedules the next hostile launch once', () => {
+    expect(collectHostileLaunchEvents(null)).toEqual([]);
+    expect(collectHostileLaunchEvents(5 * MINUTE)).toMatchObject([{ type: 'hostileLaunch', at: 5 * MINUTE }]);
+  });
+});
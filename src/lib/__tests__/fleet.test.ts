@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import {
+  calculateFleetCargo,
+  collectDeployedFleet,
+  collectStationedFleets,
+  detachFleet,
+  mergeFleets,
+  validateCargo,
+  validateFleet,
+} from '@/lib/fleet';
+import { Mission, MissionStatus, MissionType, ResourceType } from '@/types';
+
+const INVENTORY = { spaeherdrohne: 3, kohlenfrachter: 2, sturmfregatte: 1 };
+
+const cargo = (orichalkum: number) => ({
+  [ResourceType.Orichalkum]: orichalkum,
+  [ResourceType.Fokuskristalle]: 0,
+  [ResourceType.Vitriol]: 0,
+});
+
+describe('fleet composition helpers', () => {
+  it('detaches ships from the inventory only when enough are docked', () => {
+    expect(detachFleet(INVENTORY, { spaeherdrohne: 3, kohlenfrachter: 1 })).toEqual({
+      kohlenfrachter: 1,
+      sturmfregatte: 1,
+    });
+    expect(detachFleet(INVENTORY, { sturmfregatte: 2 })).toBeNull();
+  });
+
+  it('merges fleets and sums their cargo capacity', () => {
+    expect(mergeFleets({ spaeherdrohne: 1 }, { spaeherdrohne: 2, kohlenfrachter: 0 })).toEqual({ spaeherdrohne: 3 });
+    expect(calculateFleetCargo({ spaeherdrohne: 2, kohlenfrachter: 1 })).toBe(2 * 50 + 4500);
+  });
+
+  it('collects the ships of missions that have not returned yet', () => {
+    const missions: Pick<Mission, 'status' | 'fleet'>[] = [
+      { status: MissionStatus.Unterwegs, fleet: { sturmfregatte: 1 } },
+      { status: MissionStatus.Rueckkehr, fleet: { sturmfregatte: 2 } },
+      { status: MissionStatus.Zurueckgekehrt, fleet: { kohlenfrachter: 5 } },
+      { status: MissionStatus.Abgeschlossen, fleet: { spaeherdrohne: 2 } },
+    ];
+    expect(collectDeployedFleet(missions)).toEqual({ sturmfregatte: 3 });
+  });
+
+  it('groups stationed fleets by the planet they protect', () => {
+    const target = (planetId: string) => ({ systemId: 'system-1', planetId, slot: 1, planetName: planetId });
+    const missions: Pick<Mission, 'status' | 'fleet' | 'target'>[] = [
+      { status: MissionStatus.Stationiert, fleet: { sturmfregatte: 1 }, target: target('planet-a') },
+      { status: MissionStatus.Stationiert, fleet: { sturmfregatte: 2 }, target: target('planet-a') },
+      { status: MissionStatus.Stationiert, fleet: { kohlenfrachter: 1 }, target: target('planet-b') },
+      { status: MissionStatus.Unterwegs, fleet: { spaeherdrohne: 1 }, target: target('planet-b') },
+    ];
+    expect(collectStationedFleets(missions)).toEqual({
+      'planet-a': { sturmfregatte: 3 },
+      'planet-b': { kohlenfrachter: 1 },
+    });
+  });
+});
+
+describe('validateFleet', () => {
+  it('requires a ship with a matching role', () => {
+    expect(validateFleet(MissionType.Angriff, { sturmfregatte: 1 }, INVENTORY)).toEqual([]);
+    expect(validateFleet(MissionType.Angriff, { kohlenfrachter: 1 }, INVENTORY)).toHaveLength(1);
+  });
+
+  it('rejects roles that a mission type does not allow', () => {
+    const issues = validateFleet(MissionType.Spionage, { spaeherdrohne: 1, kohlenfrachter: 1 }, INVENTORY);
+    expect(issues).toEqual(['Spionage erlaubt nur Schiffe der Rolle Aufklärung.']);
+  });
+
+  it('rejects empty fleets and ships that are not docked', () => {
+    expect(validateFleet(MissionType.Stationierung, {}, INVENTORY)).toHaveLength(1);
+    expect(validateFleet(MissionType.Stationierung, { spaeherdrohne: 4 }, INVENTORY)).toEqual([
+      'Im Hangar liegen nicht genug Schiffe bereit.',
+    ]);
+  });
+});
+
+describe('validateCargo', () => {
+  it('limits transport payloads to the cargo capacity of the fleet', () => {
+    expect(validateCargo(MissionType.Transport, { kohlenfrachter: 1 }, cargo(4500))).toEqual([]);
+    expect(validateCargo(MissionType.Transport, { kohlenfrachter: 1 }, cargo(4501))).toHaveLength(1);
+  });
+
+  it('only lets transports carry resources', () => {
+    expect(validateCargo(MissionType.Angriff, { kohlenfrachter: 1 }, cargo(10))).toHaveLength(1);
+    expect(validateCargo(MissionType.Angriff, { kohlenfrachter: 1 }, cargo(0))).toEqual([]);
+  });
+});
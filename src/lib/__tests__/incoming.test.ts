@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import {
+  calculateDetectedAt,
+  calculateSensorRange,
+  composeHostileFleet,
+  drawHostileLaunchDelay,
+  findDueWarnings,
+  isMissionTypeRevealed,
+  normalizeWarningThresholds,
+} from '@/lib/incoming';
+import { SENSOR_BASE_RANGE, SENSOR_RANGE_PER_LEVEL, SENSOR_TYPE_REVEAL_LEVEL } from '@/constants';
+import { MissionType } from '@/types';
+
+const MINUTE = 60 * 1000;
+
+describe('sensor coverage', () => {
+  it('widens the range and reveals mission types with Observatoriumsnetz', () => {
+    expect(calculateSensorRange()).toBe(SENSOR_BASE_RANGE);
+    expect(calculateSensorRange(3)).toBe(SENSOR_BASE_RANGE + 3 * SENSOR_RANGE_PER_LEVEL);
+    expect(isMissionTypeRevealed(SENSOR_TYPE_REVEAL_LEVEL - 1)).toBe(false);
+    expect(isMissionTypeRevealed(SENSOR_TYPE_REVEAL_LEVEL)).toBe(true);
+  });
+
+  it('detects fleets once they cross into range', () => {
+    const mission = { launchAt: 0, arrivalAt: 100 * MINUTE, distance: 10 };
+    expect(calculateDetectedAt(mission, 4)).toBe(60 * MINUTE);
+    expect(calculateDetectedAt(mission, 12)).toBe(0);
+  });
+});
+
+describe('incoming warnings', () => {
+  const thresholds = [30 * MINUTE, 10 * MINUTE, 2 * MINUTE];
+
+  it('reports crossed thresholds that have not been warned about', () => {
+    expect(findDueWarnings(thresholds, [], 40 * MINUTE)).toEqual([]);
+    expect(findDueWarnings(thresholds, [], 5 * MINUTE)).toEqual([30 * MINUTE, 10 * MINUTE]);
+    expect(findDueWarnings(thresholds, [30 * MINUTE], 5 * MINUTE)).toEqual([10 * MINUTE]);
+  });
+
+  it('drops invalid and duplicate thresholds', () => {
+    expect(normalizeWarningThresholds([MINUTE, 5 * MINUTE, MINUTE, 0, -2, Number.NaN])).toEqual([5 * MINUTE, MINUTE]);
+  });
+});
+
+describe('drawHostileLaunchDelay', () => {
+  it('spaces launches around the interval', () => {
+    expect(drawHostileLaunchDelay(() => 0, 20 * MINUTE)).toBe(1);
+    expect(drawHostileLaunchDelay(() => 1 - Math.exp(-1), 20 * MINUTE)).toBe(20 * MINUTE);
+  });
+});
+
+describe('composeHostileFleet', () => {
+  it('sends a share of the garrison the mission type allows', () => {
+    const garrison = { spaeherdrohne: 4, sturmfregatte: 6 };
+    expect(composeHostileFleet(garrison, MissionType.Angriff, 0.5)).toMatchObject({ sturmfregatte: 3 });
+    expect(composeHostileFleet({}, MissionType.Angriff, 0.5)).toBeNull();
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, expect, it } from 'vitest';
+import { FleetSnapshot, MissionWorld, getNextFleetEventAt, resolveMissions } from '@/lib/missionSimulation';
+import { EmpireEconomy, createColonyEconomy } from '@/lib/simulation';
+import { Mission, MissionStatus, MissionType, ResourceType } from '@/types';
+
+const HOME = 'planet-home';
+const TARGET = 'planet-target';
+const PLAYER = 'player-1';
+
+const stock = (orichalkum: number, fokuskristalle: number, vitriol: number) => ({
+  [ResourceType.Orichalkum]: orichalkum,
+  [ResourceType.Fokuskristalle]: fokuskristalle,
+  [ResourceType.Vitriol]: vitriol,
+});
+
+const location = (planetId: string, ownerId?: string) => ({
+  systemId: `system-${planetId}`,
+  planetId,
+  slot: 1,
+  planetName: planetId,
+  ownerId,
+});
+
+const createMission = (overrides: Partial<Mission> = {}): Mission => ({
+  id: 'mission-1',
+  type: MissionType.Transport,
+  commanderId: PLAYER,
+  origin: location(HOME, PLAYER),
+  target: location(TARGET, PLAYER),
+  status: MissionStatus.Geplant,
+  plannedAt: 0,
+  launchAt: 1_000,
+  arrivalAt: 11_000,
+  travelDuration: 10_000,
+  fleet: { kohlenfrachter: 1 },
+  ...overrides,
+});
+
+const createEconomy = (planetIds = [HOME, TARGET]): EmpireEconomy => ({
+  colonies: Object.fromEntries(
+    planetIds.map((planetId) => [planetId, createColonyEconomy(undefined, stock(1_000, 500, 200))]),
+  ),
+  research: {},
+  researchQueue: [],
+});
+
+const world: MissionWorld = {
+  commanderId: PLAYER,
+  operations: [],
+  planets: {
+    [HOME]: { axial: { q: 0, r: 0 }, ownerId: PLAYER, acceptsTransports: true },
+    [TARGET]: { axial: { q: 3, r: 0 }, ownerId: PLAYER, acceptsTransports: true },
+  },
+};
+
+const fleetsOf = (...missions: Mission[]): FleetSnapshot => ({ missions, foreignPlanets: {} });
+
+describe('getNextFleetEventAt', () => {
+  it('picks the earliest launch, arrival or return', () => {
+    const missions = [
+      createMission({ id: 'a', status: MissionStatus.Unterwegs }),
+      createMission({ id: 'b', launchAt: 4_000 }),
+      createMission({ id: 'c', status: MissionStatus.Stationiert }),
+    ];
+    expect(getNextFleetEventAt(missions)).toBe(4_000);
+    expect(getNextFleetEventAt([missions[2]])).toBeNull();
+  });
+});
+
+describe('resolveMissions', () => {
+  it('loads the cargo at launch and delivers it at the target', () => {
+    const mission = createMission({ cargo: stock(300, 0, 50) });
+    const launched = resolveMissions(createEconomy(), {}, fleetsOf(mission), world, 1_000);
+    expect(launched.resolution.launched.map((entry) => entry.id)).toEqual(['mission-1']);
+    expect(launched.economy.colonies[HOME].resources).toEqual(stock(700, 500, 150));
+
+    const arrived = resolveMissions(launched.economy, {}, launched.fleets, world, 11_000);
+    const [arrival] = arrived.resolution.arrivals;
+    expect(arrival.delivery?.accepted).toEqual(stock(300, 0, 50));
+    expect(arrived.economy.colonies[TARGET].resources).toEqual(stock(1_300, 500, 250));
+    expect(arrived.fleets.missions[0]).toMatchObject({ status: MissionStatus.Rueckkehr, cargo: undefined });
+  });
+
+  it('keeps the ships home when the origin cannot pay the cargo at launch', () => {
+    const mission = createMission({ cargo: stock(5_000, 0, 0) });
+    const { economy, inventory, fleets, resolution } = resolveMissions(
+      createEconomy(),
+      { kohlenfrachter: 2 },
+      fleetsOf(mission),
+      world,
+      1_000,
+    );
+    expect(resolution.aborted.map((entry) => entry.id)).toEqual(['mission-1']);
+    expect(fleets.missions[0]).toMatchObject({ status: MissionStatus.Abgebrochen, cancelledAt: 1_000 });
+    expect(inventory).toEqual({ kohlenfrachter: 3 });
+    expect(economy.colonies[HOME].resources).toEqual(stock(1_000, 500, 200));
+  });
+
+  it('founds a colony on arrival and lets the escort fly home', () => {
+    const mission = createMission({
+      type: MissionType.Kolonisierung,
+      status: MissionStatus.Unterwegs,
+      target: location(TARGET),
+      fleet: { siedlerarche: 1, sturmfregatte: 2 },
+    });
+    const unowned = {
+      ...world,
+      planets: { ...world.planets, [TARGET]: { ...world.planets[TARGET], ownerId: undefined } },
+    };
+    const result = resolveMissions(createEconomy([HOME]), {}, fleetsOf(mission), unowned, 11_000);
+    expect(result.resolution.arrivals[0].claimed).toBe(true);
+    expect(result.economy.colonies[TARGET]).toBeDefined();
+    expect(result.world.planets[TARGET].ownerId).toBe(PLAYER);
+    expect(result.fleets.missions[0]).toMatchObject({
+      status: MissionStatus.Rueckkehr,
+      fleet: { sturmfregatte: 2 },
+      target: { ownerId: PLAYER },
+    });
+  });
+
+  it('docks returning ships and unloads their cargo at the origin', () => {
+    const mission = createMission({
+      status: MissionStatus.Rueckkehr,
+      returnArrivalAt: 21_000,
+      cargo: stock(100, 100, 0),
+    });
+    const { economy, inventory, fleets, resolution } = resolveMissions(
+      createEconomy(),
+      { kohlenfrachter: 1 },
+      fleetsOf(mission),
+      world,
+      21_000,
+    );
+    expect(resolution.returned.map((entry) => entry.id)).toEqual(['mission-1']);
+    expect(fleets.missions[0].status).toBe(MissionStatus.Zurueckgekehrt);
+    expect(inventory).toEqual({ kohlenfrachter: 2 });
+    expect(economy.colonies[HOME].resources).toEqual(stock(1_100, 600, 200));
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildMissionSchedule,
+  calculateRecallArrivalAt,
+  calculateReturnArrivalAt,
+  calculateRouteProgress,
+  getNextMissionEventAt,
+  isMissionFinished,
+  resolveLaunchAt,
+  validateLaunchAt,
+} from '@/lib/missions';
+import { MISSION_PREPARATION_TIME } from '@/constants';
+import { MissionStatus, MissionType } from '@/types';
+
+const MINUTE = 60 * 1000;
+
+describe('mission return legs', () => {
+  it('flies home over the same distance after reaching the target', () => {
+    expect(calculateReturnArrivalAt(100 * MINUTE, 5, MissionType.Angriff)).toBe(120 * MINUTE);
+    expect(calculateReturnArrivalAt(100 * MINUTE, 1, MissionType.Spionage)).toBe(108 * MINUTE);
+  });
+
+  it('turns a recalled fleet around after the distance already covered', () => {
+    const mission = { status: MissionStatus.Unterwegs, launchAt: 10 * MINUTE, arrivalAt: 30 * MINUTE };
+    expect(calculateRecallArrivalAt(mission, 16 * MINUTE)).toBe(22 * MINUTE);
+  });
+
+  it('refuses recalls before launch and after arrival', () => {
+    const mission = { launchAt: 10 * MINUTE, arrivalAt: 30 * MINUTE };
+    expect(calculateRecallArrivalAt({ ...mission, status: MissionStatus.Geplant }, 5 * MINUTE)).toBeNull();
+    expect(calculateRecallArrivalAt({ ...mission, status: MissionStatus.Unterwegs }, 30 * MINUTE)).toBeNull();
+    expect(calculateRecallArrivalAt({ ...mission, status: MissionStatus.Rueckkehr }, 35 * MINUTE)).toBeNull();
+  });
+
+  it('treats returned and lost fleets as finished missions', () => {
+    expect(isMissionFinished(MissionStatus.Zurueckgekehrt)).toBe(true);
+    expect(isMissionFinished(MissionStatus.Abgeschlossen)).toBe(true);
+    expect(isMissionFinished(MissionStatus.Abgebrochen)).toBe(true);
+    expect(isMissionFinished(MissionStatus.Rueckkehr)).toBe(false);
+  });
+});
+
+describe('mission departure scheduling', () => {
+  it('launches after preparation unless a departure is requested', () => {
+    expect(resolveLaunchAt(0, 20 * MINUTE)).toBe(MISSION_PREPARATION_TIME);
+    expect(resolveLaunchAt(0, 20 * MINUTE, { mode: 'launch', at: 60 * MINUTE })).toBe(60 * MINUTE);
+  });
+
+  it('back-computes the launch from a requested arrival', () => {
+    const schedule = buildMissionSchedule(MissionType.Angriff, 5, 0, undefined, { mode: 'arrival', at: 90 * MINUTE });
+    expect(schedule.arrivalAt).toBe(90 * MINUTE);
+    expect(schedule.launchAt).toBe(90 * MINUTE - schedule.travelDuration);
+  });
+
+  it('rejects launches before the fleet is prepared', () => {
+    expect(validateLaunchAt(MISSION_PREPARATION_TIME, 0)).toEqual([]);
+    expect(validateLaunchAt(MISSION_PREPARATION_TIME - 1, 0)).toHaveLength(1);
+  });
+});
+
+describe('calculateRouteProgress', () => {
+  const mission = { launchAt: 0, arrivalAt: 20 * MINUTE };
+
+  it('moves outbound fleets from origin to target', () => {
+    expect(calculateRouteProgress({ ...mission, status: MissionStatus.Unterwegs }, 5 * MINUTE)).toBe(0.25);
+    expect(calculateRouteProgress({ ...mission, status: MissionStatus.Geplant }, 0)).toBeNull();
+  });
+
+  it('brings returning fleets back from the target or the recall point', () => {
+    const returning = { ...mission, status: MissionStatus.Rueckkehr, returnArrivalAt: 40 * MINUTE };
+    expect(calculateRouteProgress(returning, 30 * MINUTE)).toBe(0.5);
+    const recalled = { ...returning, recalledAt: 10 * MINUTE, returnArrivalAt: 20 * MINUTE };
+    expect(calculateRouteProgress(recalled, 15 * MINUTE)).toBe(0.25);
+  });
+});
+
+describe('getNextMissionEventAt', () => {
+  it('points at launch, arrival and return in turn', () => {
+    const mission = { launchAt: 1, arrivalAt: 2, returnArrivalAt: 3 };
+    expect(getNextMissionEventAt({ ...mission, status: MissionStatus.Geplant })).toBe(1);
+    expect(getNextMissionEventAt({ ...mission, status: MissionStatus.Unterwegs })).toBe(2);
+    expect(getNextMissionEventAt({ ...mission, status: MissionStatus.Rueckkehr })).toBe(3);
+    expect(getNextMissionEventAt({ ...mission, status: MissionStatus.Stationiert })).toBeNull();
+  });
+});
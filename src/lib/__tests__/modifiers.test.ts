@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { MIN_MODIFIER_FACTOR, NEUTRAL_MODIFIERS, describeResearchEffect, resolveModifiers } from '@/lib/modifiers';
+import { calculateKesseldruck, calculateResourceProductionPerTick } from '@/lib/economy';
+import { calculateBuildDuration } from '@/lib/progression';
+import { calculateMissionTravelDuration } from '@/lib/missions';
+import { ModifierTarget, MissionType, ResourceType } from '@/types';
+
+describe('resolveModifiers', () => {
+  it('returns neutral factors without research', () => {
+    expect(resolveModifiers({})).toEqual(NEUTRAL_MODIFIERS);
+  });
+
+  it('stacks the percentages of all levels and topics additively', () => {
+    const modifiers = resolveModifiers({ kolbenAntrieb: 2, dampfjet: 1 });
+    expect(modifiers.travelTime).toBeCloseTo(1 - 0.08 - 0.05, 10);
+    expect(resolveModifiers({ kesseldruckOptimierung: 3 }).energySupply).toBeCloseTo(1.15, 10);
+  });
+
+  it('never drops a factor below the lower bound', () => {
+    expect(resolveModifiers({ aethermotor: 50 }).travelTime).toBe(MIN_MODIFIER_FACTOR);
+  });
+});
+
+describe('formulas consulting the modifier pipeline', () => {
+  const buildings = { orichalkumSchmelze: 5, dampfkraftwerk: 3 };
+
+  it('scales the energy supply and production', () => {
+    const modifiers = resolveModifiers({ kesseldruckOptimierung: 2, himmelsmechanik: 5 });
+    expect(calculateKesseldruck(buildings, modifiers).capacity).toBeGreaterThan(calculateKesseldruck(buildings).capacity);
+    const base = calculateResourceProductionPerTick(buildings, 1, 1);
+    const boosted = calculateResourceProductionPerTick(buildings, 1, 1, modifiers);
+    expect(boosted[ResourceType.Orichalkum]).toBeCloseTo(base[ResourceType.Orichalkum] * 1.1, 10);
+  });
+
+  it('shortens research but not building durations for research time effects', () => {
+    const cost = { [ResourceType.Orichalkum]: 10_000, [ResourceType.Fokuskristalle]: 0, [ResourceType.Vitriol]: 0 };
+    const modifiers = resolveModifiers({ aethernetzVerbund: 1 });
+    expect(calculateBuildDuration(cost, 1, modifiers, 'research')).toBe(920);
+    expect(calculateBuildDuration(cost, 1, modifiers, 'building')).toBe(1000);
+  });
+
+  it('reduces the travel time per hex', () => {
+    const base = calculateMissionTravelDuration(100, MissionType.Transport);
+    const faster = calculateMissionTravelDuration(100, MissionType.Transport, resolveModifiers({ kolbenAntrieb: 1 }));
+    expect(faster).toBe(Math.round(base * 0.96));
+  });
+});
+
+describe('describeResearchEffect', () => {
+  it('formats the effect per level', () => {
+    expect(describeResearchEffect({ target: ModifierTarget.TravelTime, percentPerLevel: -4 })).toBe(
+      'Reisezeit −4 % pro Stufe',
+    );
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import {
+  getParticipantReadiness,
+  shareOperationLoot,
+  simulateMemberCommitment,
+  validateOperationArrival,
+} from '@/lib/operations';
+import { resolveLaunchAt } from '@/lib/missions';
+import { MISSION_MIN_TRAVEL_TIME, MISSION_PREPARATION_TIME } from '@/constants';
+import { MissionStatus, ResourceType } from '@/types';
+
+const MINUTE = 60 * 1000;
+
+describe('synchronized arrival', () => {
+  it('launches every participant so that all fleets land together', () => {
+    const arrival = { mode: 'arrival' as const, at: 120 * MINUTE };
+    const launches = [30 * MINUTE, 75 * MINUTE].map((travel) => resolveLaunchAt(0, travel, arrival) + travel);
+    expect(launches).toEqual([120 * MINUTE, 120 * MINUTE]);
+  });
+
+  it('needs time to prepare and fly before the arrival', () => {
+    expect(validateOperationArrival(MISSION_PREPARATION_TIME + MISSION_MIN_TRAVEL_TIME, 0)).toEqual([]);
+    expect(validateOperationArrival(MISSION_PREPARATION_TIME, 0)).toHaveLength(1);
+  });
+});
+
+describe('getParticipantReadiness', () => {
+  const arrivalAt = 60 * MINUTE;
+  const participant = { launchAt: 20 * MINUTE, missionId: 'm1' };
+  const mission = { status: MissionStatus.Geplant, arrivalAt };
+
+  it('follows the mission of own commitments', () => {
+    expect(getParticipantReadiness(participant, arrivalAt, mission, 0)).toBe('ready');
+    expect(getParticipantReadiness(participant, arrivalAt, { ...mission, status: MissionStatus.Unterwegs }, 0)).toBe(
+      'launched',
+    );
+    expect(getParticipantReadiness(participant, arrivalAt, { ...mission, arrivalAt: 70 * MINUTE }, 0)).toBe(
+      'offSchedule',
+    );
+    expect(getParticipantReadiness(participant, arrivalAt, { ...mission, status: MissionStatus.Abgebrochen }, 0)).toBe(
+      'withdrawn',
+    );
+  });
+
+  it('launches announced commitments on schedule', () => {
+    const announced = { launchAt: 20 * MINUTE };
+    expect(getParticipantReadiness(announced, arrivalAt, undefined, 10 * MINUTE)).toBe('ready');
+    expect(getParticipantReadiness(announced, arrivalAt, undefined, 20 * MINUTE)).toBe('launched');
+  });
+});
+
+describe('simulateMemberCommitment', () => {
+  it('answers the same way for the same operation and member', () => {
+    const first = simulateMemberCommitment('operation-1', 'player-2', 'planet-2');
+    expect(simulateMemberCommitment('operation-1', 'player-2', 'planet-2')).toEqual(first);
+  });
+
+  it('commits only fleets that can attack', () => {
+    const commitments = Array.from({ length: 12 }, (_, index) =>
+      simulateMemberCommitment('operation-1', `player-${index}`, `planet-${index}`),
+    ).filter(Boolean);
+    expect(commitments.length).toBeGreaterThan(0);
+    commitments.forEach((fleet) => expect(fleet?.sturmfregatte).toBeGreaterThan(0));
+  });
+});
+
+describe('shareOperationLoot', () => {
+  it('splits the loot by surviving cargo space', () => {
+    const loot = { [ResourceType.Orichalkum]: 900, [ResourceType.Fokuskristalle]: 300, [ResourceType.Vitriol]: 0 };
+    const share = shareOperationLoot(loot, { kohlenfrachter: 1 }, { kohlenfrachter: 3 });
+    expect(share).toEqual({ [ResourceType.Orichalkum]: 300, [ResourceType.Fokuskristalle]: 100, [ResourceType.Vitriol]: 0 });
+    expect(shareOperationLoot(loot, {}, {})[ResourceType.Orichalkum]).toBe(0);
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { buildTerrainCost, findHexRoute, interpolateRoute } from '@/lib/pathfinding';
+import { axialToSector, computeHexDistance, deriveAxialFromIndex } from '@/lib/hex';
+import { AxialCoordinates, PlanetBiome } from '@/types';
+
+const isContiguous = (path: AxialCoordinates[]) =>
+  path.every((step, index) => index === 0 || computeHexDistance(path[index - 1], step) === 1);
+
+const system = (axial: AxialCoordinates, biome: PlanetBiome) => ({
+  axial,
+  planets: [{ id: 'p', systemId: 's', slot: 1, name: 'P', biome }],
+});
+
+describe('findHexRoute', () => {
+  it('follows the straight hex distance on uniform terrain', () => {
+    const from = { q: 0, r: 0 };
+    const to = { q: 7, r: -3 };
+    const route = findHexRoute(from, to);
+    expect(route.cost).toBe(computeHexDistance(from, to));
+    expect(route.path[0]).toEqual(from);
+    expect(route.path[route.path.length - 1]).toEqual(to);
+    expect(isContiguous(route.path)).toBe(true);
+  });
+
+  it('steers around costly hexes when a detour is cheaper', () => {
+    const wall = new Set(['1,0', '2,0', '3,0']);
+    const route = findHexRoute({ q: 0, r: 0 }, { q: 4, r: 0 }, (axial) => (wall.has(`${axial.q},${axial.r}`) ? 10 : 1));
+    expect(route.path.some((step) => wall.has(`${step.q},${step.r}`))).toBe(false);
+    expect(route.cost).toBe(5);
+    expect(isContiguous(route.path)).toBe(true);
+  });
+
+  it('returns a single hex for routes within one system', () => {
+    expect(findHexRoute({ q: 2, r: 2 }, { q: 2, r: 2 })).toEqual({ path: [{ q: 2, r: 2 }], cost: 0 });
+  });
+});
+
+describe('buildTerrainCost', () => {
+  it('weights system hexes by their biome and whole sectors by nebulae', () => {
+    const moor = deriveAxialFromIndex(0, 0, 2);
+    const cost = buildTerrainCost([system(moor, PlanetBiome.Aethermoor)], {
+      biomes: { [PlanetBiome.Aethermoor]: 1.5 },
+      sectors: { '1:0': 3 },
+    });
+    expect(cost(moor)).toBe(1.5);
+    expect(cost({ q: 0, r: 0 })).toBe(1);
+    expect(cost(deriveAxialFromIndex(1, 0, 4))).toBe(3);
+  });
+
+  it('maps every system position back to its sector', () => {
+    [0, 1, 2, 3, 4].forEach((sysIndex) => {
+      expect(axialToSector(deriveAxialFromIndex(3, 7, sysIndex))).toEqual({ sectorQ: 3, sectorR: 7 });
+    });
+  });
+});
+
+describe('interpolateRoute', () => {
+  it('places a fleet between the hexes of its route', () => {
+    const path = [
+      { q: 0, r: 0 },
+      { q: 1, r: 0 },
+      { q: 2, r: 0 },
+    ];
+    expect(interpolateRoute(path, 0.25)).toEqual({ q: 0.5, r: 0 });
+    expect(interpolateRoute(path, 1)).toEqual({ q: 2, r: 0 });
+    expect(interpolateRoute(path, 2)).toEqual({ q: 2, r: 0 });
+  });
+});
@@ -40,8 +40,8 @@ describe('determineNextTargetLevel', () => {
 
   it('respects queued upgrades and stacks levels sequentially', () => {
     const queue: BuildQueueItem[] = [
-      { entityId: mockBuilding.id, level: 4, startTime: 0, endTime: 5 },
-      { entityId: mockBuilding.id, level: 5, startTime: 5, endTime: 10 },
+      { kind: 'building', entityId: mockBuilding.id, level: 4, startTime: 0, endTime: 5 },
+      { kind: 'building', entityId: mockBuilding.id, level: 5, startTime: 5, endTime: 10 },
     ];
     expect(determineNextTargetLevel(queue, mockBuilding.id, 3)).toBe(6);
   });
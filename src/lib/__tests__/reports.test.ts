@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { countUnreadReports, describeReport, filterReports, pruneReports } from '@/lib/reports';
+import { createEmptyResources } from '@/lib/economy';
+import { Report, ReportType, ResourceType } from '@/types';
+
+const createReport = (id: string, overrides: Partial<Report> = {}): Report =>
+  ({
+    id,
+    missionId: `mission-${id}`,
+    type: ReportType.Transport,
+    createdAt: Number(id.replace(/\D/g, '')),
+    systemId: 'system-1-2-3',
+    planetId: 'system-1-2-3-planet-4',
+    planetName: 'Helios',
+    coordinate: '1,2,3:4',
+    read: false,
+    archived: false,
+    delivered: { [ResourceType.Orichalkum]: 100, [ResourceType.Fokuskristalle]: 0, [ResourceType.Vitriol]: 0 },
+    returned: createEmptyResources(),
+    ...overrides,
+  }) as Report;
+
+describe('filterReports', () => {
+  const reports = [
+    createReport('r1'),
+    createReport('r2', { type: ReportType.Kolonisierung, conquered: false } as Partial<Report>),
+    createReport('r3', { coordinate: '12,0,1:2', planetName: 'Rhea' }),
+    createReport('r4', { archived: true }),
+  ];
+
+  it('shows one folder at a time, newest first', () => {
+    const inbox = { archived: false, type: 'all' as const, search: '' };
+    expect(filterReports(reports, inbox).map((report) => report.id)).toEqual(['r3', 'r2', 'r1']);
+    expect(filterReports(reports, { ...inbox, archived: true }).map((report) => report.id)).toEqual(['r4']);
+  });
+
+  it('filters by type, coordinate prefix and planet name', () => {
+    const inbox = { archived: false, type: 'all' as const, search: '' };
+    expect(filterReports(reports, { ...inbox, type: ReportType.Kolonisierung }).map((report) => report.id)).toEqual([
+      'r2',
+    ]);
+    expect(filterReports(reports, { ...inbox, search: '12,0' }).map((report) => report.id)).toEqual(['r3']);
+    expect(filterReports(reports, { ...inbox, search: 'heli' })).toHaveLength(2);
+  });
+});
+
+describe('inbox bookkeeping', () => {
+  it('counts unread reports outside the archive', () => {
+    const reports = [createReport('r1'), createReport('r2', { read: true }), createReport('r3', { archived: true })];
+    expect(countUnreadReports(reports)).toBe(1);
+  });
+
+  it('drops the oldest reports but keeps archived ones', () => {
+    const reports = [createReport('r3'), createReport('r2'), createReport('r1', { archived: true }), createReport('r0')];
+    expect(pruneReports(reports, 2).map((report) => report.id)).toEqual(['r3', 'r1']);
+  });
+
+  it('names the outcome in the headline', () => {
+    const rejected = { delivered: createEmptyResources(), returned: { ...createEmptyResources(), [ResourceType.Vitriol]: 5 } };
+    expect(describeReport(createReport('r1'))).toBe('Lieferung an Helios');
+    expect(describeReport(createReport('r2', rejected as Partial<Report>))).toBe('Lieferung an Helios abgewiesen');
+  });
+});
@@ -0,0 +1,154 @@
+import { describe, expect, it } from 'vitest';
+import {
+  GAME_STATE_VERSION,
+  createDefaultGameState,
+  createSaveGame,
+  migrateGameState,
+  parseSaveGame,
+  rebaseSaveGame,
+  serializeSaveGame,
+} from '@/lib/saveGame';
+import { Mission, MissionStatus, MissionType, ResourceType } from '@/types';
+
+const createMission = (): Mission => ({
+  id: 'mission-1',
+  type: MissionType.Transport,
+  commanderId: 'player-1',
+  origin: { systemId: 'sys-a', planetId: 'planet-a', slot: 1, planetName: 'A' },
+  target: { systemId: 'sys-b', planetId: 'planet-b', slot: 2, planetName: 'B' },
+  status: MissionStatus.Geplant,
+  plannedAt: 1_000,
+  launchAt: 2_000,
+  arrivalAt: 5_000,
+  travelDuration: 3_000,
+  fleet: { kohlenfrachter: 1 },
+});
+
+const CONTEXT = { homePlanetId: 'planet-a', ownedPlanetIds: ['planet-a', 'planet-c'] };
+
+const createSave = () => {
+  const game = createDefaultGameState(CONTEXT, 1_000);
+  game.colonies['planet-a'].buildQueue = [
+    { kind: 'building', entityId: 'dampfkraftwerk', level: 2, startTime: 500, endTime: 4_000 },
+  ];
+  game.researchQueue = [{ kind: 'research', entityId: 'aetherdynamik', level: 1, startTime: 500, endTime: 6_000 }];
+  return createSaveGame(
+    {
+      game,
+      shipyard: {
+        queue: [
+          { id: 'order-1', blueprintId: 'spaeherdrohne', quantity: 1, startTime: 1_000, endTime: 9_000, status: 'queued' },
+        ],
+        inventory: {},
+        hangarCapacity: 16,
+      },
+      missions: [createMission()],
+      favorites: ['planet-b'],
+      foreignPlanets: {
+        'planet-b': {
+          resources: { [ResourceType.Orichalkum]: 120, [ResourceType.Fokuskristalle]: 0, [ResourceType.Vitriol]: 40 },
+          fleet: { sturmfregatte: 2 },
+          defences: {},
+        },
+      },
+    },
+    1_000,
+  );
+};
+
+describe('migrateGameState', () => {
+  it('fills unversioned snapshots with defaults and a tick timestamp', () => {
+    const migrated = migrateGameState({ buildings: { dampfkraftwerk: 4 } }, 0, CONTEXT);
+    const home = migrated.colonies['planet-a'];
+    expect(home.buildings).toEqual({ dampfkraftwerk: 4 });
+    expect(home.resources[ResourceType.Orichalkum]).toBeGreaterThan(0);
+    expect(typeof migrated.lastTickAt).toBe('number');
+  });
+
+  it('moves a single-colony snapshot onto the home planet', () => {
+    const legacy = {
+      buildings: { dampfkraftwerk: 4 },
+      buildQueue: [{ entityId: 'dampfkraftwerk', level: 5, startTime: 0, endTime: 1_000 }],
+      research: { aetherdynamik: 2 },
+      lastTickAt: 500,
+    };
+    const migrated = migrateGameState(legacy, 1, CONTEXT);
+    expect(Object.keys(migrated.colonies)).toEqual(['planet-a']);
+    expect(migrated.colonies['planet-a'].buildQueue).toEqual([{ ...legacy.buildQueue[0], kind: 'building' }]);
+    expect(migrated.activePlanetId).toBe('planet-a');
+    expect(migrated.research).toEqual({ aetherdynamik: 2 });
+    expect(migrated).not.toHaveProperty('buildings');
+  });
+
+  it('moves queued research out of the colony queues into the shared research queue', () => {
+    const snapshot = {
+      colonies: {
+        'planet-a': {
+          ...createDefaultGameState(CONTEXT, 0).colonies['planet-a'],
+          buildQueue: [
+            { entityId: 'aetherdynamik', level: 1, startTime: 0, endTime: 2_000 },
+            { entityId: 'dampfkraftwerk', level: 3, startTime: 2_000, endTime: 3_000 },
+          ],
+        },
+        'planet-c': {
+          ...createDefaultGameState(CONTEXT, 0).colonies['planet-c'],
+          buildQueue: [{ entityId: 'himmelsmechanik', level: 1, startTime: 0, endTime: 1_000 }],
+        },
+      },
+      activePlanetId: 'planet-a',
+      research: {},
+      lastTickAt: 0,
+    };
+    const migrated = migrateGameState(snapshot, 2, CONTEXT);
+    expect(migrated.colonies['planet-a'].buildQueue).toEqual([
+      { kind: 'building', entityId: 'dampfkraftwerk', level: 3, startTime: 2_000, endTime: 3_000 },
+    ]);
+    expect(migrated.colonies['planet-c'].buildQueue).toEqual([]);
+    expect(migrated.researchQueue.map((item) => `${item.kind}:${item.entityId}`)).toEqual([
+      'research:himmelsmechanik',
+      'research:aetherdynamik',
+    ]);
+  });
+
+  it('falls back to a fresh account for unusable data', () => {
+    const migrated = migrateGameState(null, 0, CONTEXT);
+    expect(Object.keys(migrated.colonies)).toEqual(CONTEXT.ownedPlanetIds);
+    expect(migrated.colonies['planet-c'].buildQueue).toEqual([]);
+  });
+});
+
+describe('parseSaveGame', () => {
+  it('round-trips an exported save', () => {
+    const save = createSave();
+    const parsed = parseSaveGame(serializeSaveGame(save), CONTEXT);
+    expect(parsed).toEqual(save);
+    expect(parsed.version).toBe(GAME_STATE_VERSION);
+  });
+
+  it('gives missions from older saves an empty fleet', () => {
+    const save = createSave();
+    const { fleet: _fleet, ...legacyMission } = save.missions[0];
+    const parsed = parseSaveGame(serializeSaveGame({ ...save, missions: [legacyMission as Mission] }), CONTEXT);
+    expect(parsed.missions[0].fleet).toEqual({});
+  });
+
+  it('rejects invalid json, foreign files and newer versions', () => {
+    expect(() => parseSaveGame('{', CONTEXT)).toThrow('kein gültiges JSON');
+    expect(() => parseSaveGame(JSON.stringify({ format: 'other' }), CONTEXT)).toThrow('kein Spielstand');
+    expect(() =>
+      parseSaveGame(serializeSaveGame({ ...createSave(), version: GAME_STATE_VERSION + 1 }), CONTEXT),
+    ).toThrow('neueren Version');
+  });
+});
+
+describe('rebaseSaveGame', () => {
+  it('shifts every timestamp so the save resumes at the import time', () => {
+    const rebased = rebaseSaveGame(createSave(), 11_000);
+    expect(rebased.game.lastTickAt).toBe(11_000);
+    expect(rebased.game.colonies['planet-a'].buildQueue[0]).toMatchObject({ startTime: 10_500, endTime: 14_000 });
+    expect(rebased.game.researchQueue[0]).toMatchObject({ startTime: 10_500, endTime: 16_000 });
+    expect(rebased.shipyard.queue[0]).toMatchObject({ startTime: 11_000, endTime: 19_000 });
+    expect(rebased.missions[0]).toMatchObject({ plannedAt: 11_000, launchAt: 12_000, arrivalAt: 15_000 });
+    expect(rebased.missions[0]).not.toHaveProperty('returnArrivalAt');
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import {
+  advanceShipOrders,
+  calculateInventorySlots,
+  calculateReservedSlots,
+  isOrderRunning,
+  rescheduleShipOrders,
+} from '@/lib/shipyard';
+import { ShipBuildOrder } from '@/types';
+
+// Späherdrohne: 1 slot, 900 s; Kohlenfrachter: 3 slots, 3200 s.
+const DRONE_MS = 900_000;
+const FREIGHTER_MS = 3_200_000;
+
+const createOrders = (): ShipBuildOrder[] => [
+  {
+    id: 'a',
+    blueprintId: 'spaeherdrohne',
+    quantity: 2,
+    startTime: 0,
+    endTime: 2 * DRONE_MS,
+    status: 'building',
+  },
+  {
+    id: 'b',
+    blueprintId: 'kohlenfrachter',
+    quantity: 1,
+    startTime: 2 * DRONE_MS,
+    endTime: 2 * DRONE_MS + FREIGHTER_MS,
+    status: 'queued',
+  },
+];
+
+describe('hangar slots', () => {
+  it('counts finished ships and open orders separately', () => {
+    expect(calculateInventorySlots({ spaeherdrohne: 2, kohlenfrachter: 1, unbekannt: 4 })).toBe(5);
+    expect(calculateReservedSlots(createOrders())).toBe(5);
+    expect(calculateReservedSlots([{ ...createOrders()[0], status: 'completed' }])).toBe(0);
+  });
+});
+
+describe('advanceShipOrders', () => {
+  it('delivers finished orders into the inventory and starts the next one', () => {
+    const { queue, inventory, completed } = advanceShipOrders(createOrders(), { spaeherdrohne: 1 }, 2 * DRONE_MS);
+    expect(completed.map((order) => order.id)).toEqual(['a']);
+    expect(inventory).toEqual({ spaeherdrohne: 3 });
+    expect(queue).toEqual([{ ...createOrders()[1], status: 'building' }]);
+  });
+
+  it('catches up several orders that finished while offline', () => {
+    const { queue, inventory } = advanceShipOrders(createOrders(), {}, 10 * FREIGHTER_MS);
+    expect(queue).toHaveLength(0);
+    expect(inventory).toEqual({ spaeherdrohne: 2, kohlenfrachter: 1 });
+  });
+});
+
+describe('rescheduleShipOrders', () => {
+  it('chains queued orders directly behind the running one', () => {
+    const [running, queued] = createOrders();
+    const rescheduled = rescheduleShipOrders([{ ...queued, startTime: 5 * FREIGHTER_MS }, running], 1_000);
+    expect(rescheduled.map((order) => [order.id, order.startTime, order.endTime])).toEqual([
+      ['a', 0, 2 * DRONE_MS],
+      ['b', 2 * DRONE_MS, 2 * DRONE_MS + FREIGHTER_MS],
+    ]);
+  });
+
+  it('keeps a queued order whose start has passed running in place', () => {
+    const [running, queued] = createOrders();
+    expect(isOrderRunning(queued, 3 * DRONE_MS)).toBe(true);
+    expect(isOrderRunning(queued, DRONE_MS)).toBe(false);
+    const rescheduled = rescheduleShipOrders([{ ...running, status: 'completed' }, queued], 3 * DRONE_MS);
+    expect(rescheduled[1]).toBe(queued);
+  });
+});
@@ -0,0 +1,226 @@
+import { describe, expect, it } from 'vitest';
+import {
+  accumulateProduction,
+  advanceEconomy,
+  calculateStorageFullAt,
+  ColonyEconomy,
+  createColonyEconomy,
+  projectColonyResources,
+} from '@/lib/simulation';
+import {
+  calculateKesseldruck,
+  calculateResourceProductionPerTick,
+  calculateStorageCapacity,
+} from '@/lib/economy';
+import { BuildQueueItem, ResourceType, Resources } from '@/types';
+
+const HOME = 'planet-home';
+
+const createResources = (values: Partial<Resources>): Resources => ({
+  [ResourceType.Orichalkum]: 0,
+  [ResourceType.Fokuskristalle]: 0,
+  [ResourceType.Vitriol]: 0,
+  ...values,
+});
+
+const createColony = (overrides: Partial<ColonyEconomy> = {}): ColonyEconomy => {
+  const buildings = overrides.buildings ?? {
+    orichalkumSchmelze: 5,
+    kristallKondensator: 4,
+    vitriolDestille: 3,
+    dampfkraftwerk: 6,
+  };
+  return {
+    ...createColonyEconomy(buildings),
+    resources: createResources({ [ResourceType.Orichalkum]: 9_500, [ResourceType.Vitriol]: 4_990 }),
+    ...overrides,
+  };
+};
+
+const advanceHome = (colony: ColonyEconomy, from: number, to: number, researchQueue: BuildQueueItem[] = []) => {
+  const { state, completed } = advanceEconomy({ colonies: { [HOME]: colony }, research: {}, researchQueue }, from, to, 1);
+  return {
+    colony: state.colonies[HOME],
+    research: state.research,
+    researchQueue: state.researchQueue,
+    completed: completed.map((entry) => entry.item),
+  };
+};
+
+/**
+ * Reference implementation that mirrors the former one-second ticking loop.
+ */
+const tickEverySecond = (colony: ColonyEconomy, seconds: number, start: number) => {
+  const resources = { ...colony.resources };
+  const buildings = { ...colony.buildings };
+  let queue = [...colony.buildQueue];
+  for (let second = 1; second <= seconds; second += 1) {
+    const now = start + second * 1000;
+    const income = calculateResourceProductionPerTick(buildings, 1, calculateKesseldruck(buildings).efficiency);
+    const storage = calculateStorageCapacity(buildings);
+    (Object.values(ResourceType) as ResourceType[]).forEach((resource) => {
+      resources[resource] = Math.min(storage[resource], resources[resource] + income[resource]);
+    });
+    queue = queue.filter((item) => {
+      if (now >= item.endTime) {
+        buildings[item.entityId] = item.level;
+        return false;
+      }
+      return true;
+    });
+  }
+  return { resources, buildings };
+};
+
+describe('accumulateProduction', () => {
+  it('caps the stock at the storage limit', () => {
+    const result = accumulateProduction(
+      createResources({ [ResourceType.Orichalkum]: 990 }),
+      createResources({ [ResourceType.Orichalkum]: 1000 }),
+      createResources({ [ResourceType.Orichalkum]: 5 }),
+      10,
+    );
+    expect(result[ResourceType.Orichalkum]).toBe(1000);
+  });
+});
+
+describe('projectColonyResources', () => {
+  it('matches the economy advance between two queue completions', () => {
+    const colony = createColony();
+    expect(projectColonyResources(colony, {}, 0, 90_000, 1)).toEqual(advanceHome(colony, 0, 90_000).colony.resources);
+  });
+});
+
+describe('calculateStorageFullAt', () => {
+  it('finds the moment each growing stock hits its cap', () => {
+    const storage = createResources({ [ResourceType.Orichalkum]: 1_000, [ResourceType.Fokuskristalle]: 500 });
+    const resources = createResources({ [ResourceType.Orichalkum]: 400, [ResourceType.Fokuskristalle]: 500 });
+    const income = createResources({ [ResourceType.Orichalkum]: 20, [ResourceType.Fokuskristalle]: 5 });
+    expect(calculateStorageFullAt(resources, storage, income, 1_000)).toEqual({ [ResourceType.Orichalkum]: 31_000 });
+  });
+});
+
+describe('advanceEconomy', () => {
+  it('matches per-second ticking over eight hours away', () => {
+    const colony = createColony();
+    const eightHours = 8 * 60 * 60;
+    const { colony: next } = advanceHome(colony, 0, eightHours * 1000);
+    const reference = tickEverySecond(colony, eightHours, 0);
+    (Object.values(ResourceType) as ResourceType[]).forEach((resource) => {
+      expect(next.resources[resource]).toBeCloseTo(reference.resources[resource], 6);
+    });
+  });
+
+  it('applies completions in chronological order and produces with the new levels afterwards', () => {
+    const queue: BuildQueueItem[] = [
+      { kind: 'building', entityId: 'orichalkumSchmelze', level: 7, startTime: 20_000, endTime: 40_000 },
+      { kind: 'building', entityId: 'orichalkumSchmelze', level: 6, startTime: 0, endTime: 20_000 },
+    ];
+    const colony = createColony({ resources: createResources({}), buildQueue: queue });
+    const { colony: next, completed } = advanceHome(colony, 0, 60_000);
+    const reference = tickEverySecond(colony, 60, 0);
+
+    expect(completed.map((item) => item.level)).toEqual([6, 7]);
+    expect(next.buildings.orichalkumSchmelze).toBe(7);
+    expect(next.buildQueue).toHaveLength(0);
+    expect(next.resources[ResourceType.Orichalkum]).toBeCloseTo(reference.resources[ResourceType.Orichalkum], 6);
+  });
+
+  it('recomputes the kesseldruck after a power plant completes', () => {
+    const buildings = { orichalkumSchmelze: 10, kristallKondensator: 10, dampfkraftwerk: 1 };
+    const colony = createColony({
+      ...createColonyEconomy(buildings),
+      buildQueue: [{ kind: 'building', entityId: 'dampfkraftwerk', level: 2, startTime: 0, endTime: 1_000 }],
+    });
+    const { colony: next } = advanceHome(colony, 0, 2_000);
+    expect(next.kesseldruck.capacity).toBeGreaterThan(colony.kesseldruck.capacity);
+    expect(next.kesseldruck).toEqual(calculateKesseldruck(next.buildings));
+  });
+
+  it('raises the storage cap once a warehouse completes', () => {
+    const colony = createColony({
+      buildQueue: [{ kind: 'building', entityId: 'orichalkumLager', level: 1, startTime: 0, endTime: 4 * 60 * 60 * 1000 }],
+    });
+    const eightHours = 8 * 60 * 60;
+    const { colony: next } = advanceHome(colony, 0, eightHours * 1000);
+    const reference = tickEverySecond(colony, eightHours, 0);
+    expect(next.storage[ResourceType.Orichalkum]).toBeGreaterThan(colony.storage[ResourceType.Orichalkum]);
+    expect(next.resources[ResourceType.Orichalkum]).toBeGreaterThan(colony.storage[ResourceType.Orichalkum]);
+    expect(next.resources[ResourceType.Orichalkum]).toBeCloseTo(reference.resources[ResourceType.Orichalkum], 6);
+  });
+
+  it('keeps entries that finish after the target timestamp in the queue', () => {
+    const item: BuildQueueItem = { kind: 'research', entityId: 'aetherdynamik', level: 1, startTime: 0, endTime: 10_000 };
+    const { research, researchQueue, completed } = advanceHome(createColony(), 0, 5_000, [item]);
+    expect(completed).toHaveLength(0);
+    expect(researchQueue).toEqual([item]);
+    expect(research.aetherdynamik).toBeUndefined();
+  });
+
+  it('runs the building and research queues in parallel', () => {
+    const colony = createColony({
+      buildQueue: [{ kind: 'building', entityId: 'orichalkumSchmelze', level: 6, startTime: 0, endTime: 20_000 }],
+    });
+    const { colony: next, research, researchQueue, completed } = advanceHome(colony, 0, 25_000, [
+      { kind: 'research', entityId: 'aetherdynamik', level: 1, startTime: 0, endTime: 15_000 },
+      { kind: 'research', entityId: 'aetherdynamik', level: 2, startTime: 15_000, endTime: 30_000 },
+    ]);
+    expect(completed.map((item) => `${item.kind}:${item.entityId}:${item.level}`)).toEqual([
+      'research:aetherdynamik:1',
+      'building:orichalkumSchmelze:6',
+    ]);
+    expect(next.buildings.orichalkumSchmelze).toBe(6);
+    expect(research.aetherdynamik).toBe(1);
+    expect(researchQueue.map((item) => item.level)).toEqual([2]);
+  });
+
+  it('advances every colony independently and shares research levels', () => {
+    const home = createColony();
+    const outpost = createColony({
+      resources: createResources({}),
+      buildQueue: [{ kind: 'building', entityId: 'orichalkumSchmelze', level: 6, startTime: 0, endTime: 20_000 }],
+    });
+    const { state, completed } = advanceEconomy(
+      {
+        colonies: { [HOME]: home, outpost },
+        research: {},
+        researchQueue: [{ kind: 'research', entityId: 'aetherdynamik', level: 1, startTime: 0, endTime: 10_000 }],
+      },
+      0,
+      30_000,
+      1,
+    );
+    expect(completed.map((entry) => entry.planetId)).toEqual([null, 'outpost']);
+    expect(state.research.aetherdynamik).toBe(1);
+    expect(state.colonies.outpost.buildings.orichalkumSchmelze).toBe(6);
+    expect(state.colonies[HOME].buildings.orichalkumSchmelze).toBe(5);
+    expect(state.colonies.outpost.resources[ResourceType.Orichalkum]).toBeCloseTo(
+      tickEverySecond(outpost, 30, 0).resources[ResourceType.Orichalkum],
+      6,
+    );
+  });
+});
+
+describe('advanceEconomy with research modifiers', () => {
+  it('produces with the boosted rate once a research project completes', () => {
+    const colony = createColony({ resources: createResources({}) });
+    const { colony: next, research } = advanceHome(colony, 0, 20_000, [
+      { kind: 'research', entityId: 'himmelsmechanik', level: 5, startTime: 0, endTime: 10_000 },
+    ]);
+    const income = calculateResourceProductionPerTick(colony.buildings, 1, colony.kesseldruck.efficiency);
+    expect(research.himmelsmechanik).toBe(5);
+    expect(next.resources[ResourceType.Orichalkum]).toBeCloseTo(
+      income[ResourceType.Orichalkum] * 10 + income[ResourceType.Orichalkum] * 1.1 * 10,
+      6,
+    );
+  });
+});
+
+describe('calculateStorageCapacity', () => {
+  it('adds the warehouse curve on top of the base storage', () => {
+    const base = calculateStorageCapacity({});
+    const upgraded = calculateStorageCapacity({ orichalkumLager: 2 });
+    expect(upgraded[ResourceType.Orichalkum]).toBe(base[ResourceType.Orichalkum] + 18_000);
+    expect(upgraded[ResourceType.Fokuskristalle]).toBe(base[ResourceType.Fokuskristalle]);
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import {
+  SimulationResponse,
+  SimulationState,
+  advanceSimulation,
+  applySimulationDiff,
+  createSimulationHost,
+} from '@/lib/simulationCore';
+import { createColonyEconomy } from '@/lib/simulation';
+import { MissionStatus, MissionType, ResourceType } from '@/types';
+
+const HOME = 'planet-home';
+
+const createState = (): SimulationState => {
+  const colony = createColonyEconomy({ orichalkumSchmelze: 5, kristallKondensator: 4, dampfkraftwerk: 6 });
+  colony.buildQueue = [{ kind: 'building', entityId: 'werft', level: 1, startTime: 0, endTime: 10_000 }];
+  return {
+    economy: { colonies: { [HOME]: colony }, research: {}, researchQueue: [] },
+    lastTickAt: 0,
+    shipyard: {
+      queue: [
+        { id: 'order', blueprintId: 'spaeherdrohne', quantity: 1, startTime: 0, endTime: 900_000, status: 'building' },
+      ],
+      inventory: {},
+    },
+    fleets: { missions: [], foreignPlanets: {} },
+    world: { commanderId: 'player-1', operations: [], planets: {} },
+  };
+};
+
+describe('advanceSimulation', () => {
+  it('completes queued buildings and ships in one pass', () => {
+    const { state, completed, completedOrders } = advanceSimulation(createState(), 1_000_000, 1);
+    expect(completed.map(({ item }) => item.entityId)).toEqual(['werft']);
+    expect(completedOrders.map((order) => order.id)).toEqual(['order']);
+    expect(state.economy.colonies[HOME].buildings.werft).toBe(1);
+    expect(state.shipyard).toEqual({ queue: [], inventory: { spaeherdrohne: 1 } });
+  });
+
+  it('sends only what changed and rebuilds the same state from the diff', () => {
+    const previous = createState();
+    const { state, diff } = advanceSimulation(previous, 5_000, 1);
+    expect(Object.keys(diff.colonies?.[HOME] ?? {})).toEqual(['resources']);
+    expect(diff.shipyard).toBeUndefined();
+    expect(applySimulationDiff(previous, diff)).toEqual(state);
+  });
+
+  it('reports stocks that reach their storage cap', () => {
+    const previous = createState();
+    const colony = previous.economy.colonies[HOME];
+    colony.resources[ResourceType.Orichalkum] = colony.storage[ResourceType.Orichalkum] - 0.01;
+    expect(advanceSimulation(previous, 5_000, 1).filledStorages).toEqual([
+      { planetId: HOME, resource: ResourceType.Orichalkum },
+    ]);
+  });
+
+  it('loads mission cargo at launch on top of the production settled until then', () => {
+    const withMission = createState();
+    withMission.fleets.missions = [
+      {
+        id: 'mission-1',
+        type: MissionType.Transport,
+        commanderId: 'player-1',
+        origin: { systemId: 'system-home', planetId: HOME, slot: 1, planetName: 'Heimat' },
+        target: { systemId: 'system-ally', planetId: 'planet-ally', slot: 2, planetName: 'Verbündet' },
+        status: MissionStatus.Geplant,
+        plannedAt: 0,
+        launchAt: 2_000,
+        arrivalAt: 60_000,
+        travelDuration: 58_000,
+        fleet: { kohlenfrachter: 1 },
+        cargo: { [ResourceType.Orichalkum]: 100, [ResourceType.Fokuskristalle]: 0, [ResourceType.Vitriol]: 0 },
+      },
+    ];
+    const plain = advanceSimulation(createState(), 5_000, 1).state.economy.colonies[HOME].resources;
+    const { state, missions } = advanceSimulation(withMission, 5_000, 1);
+    expect(missions.launched.map((mission) => mission.id)).toEqual(['mission-1']);
+    expect(state.fleets.missions[0].status).toBe(MissionStatus.Unterwegs);
+    expect(state.economy.colonies[HOME].resources[ResourceType.Orichalkum]).toBeCloseTo(
+      plain[ResourceType.Orichalkum] - 100,
+    );
+  });
+
+  it('leaves the state alone for timestamps in the past', () => {
+    const state = { ...createState(), lastTickAt: 50_000 };
+    expect(advanceSimulation(state, 40_000, 1).state).toBe(state);
+  });
+});
+
+describe('createSimulationHost', () => {
+  it('posts diffs tagged with the revision of the last sync', () => {
+    const responses: SimulationResponse[] = [];
+    const handle = createSimulationHost((response) => responses.push(response), 1);
+    handle({ type: 'advance', timestamp: 5_000 });
+    expect(responses).toHaveLength(0);
+
+    handle({ type: 'sync', revision: 1, state: createState() });
+    handle({ type: 'advance', timestamp: 20_000 });
+    expect(responses.map(({ revision, diff }) => [revision, diff.lastTickAt])).toEqual([
+      [1, 5_000],
+      [1, 20_000],
+    ]);
+    expect(responses[1].completed.map(({ item }) => item.entityId)).toEqual(['werft']);
+  });
+
+  it('replays the elapsed time on top of a newer sync', () => {
+    const responses: SimulationResponse[] = [];
+    const handle = createSimulationHost((response) => responses.push(response), 1);
+    handle({ type: 'sync', revision: 1, state: createState() });
+    handle({ type: 'advance', timestamp: 20_000 });
+    handle({ type: 'sync', revision: 2, state: createState() });
+    expect(responses[responses.length - 1]).toMatchObject({ revision: 2, diff: { lastTickAt: 20_000 } });
+    expect(responses[responses.length - 1].completed).toHaveLength(1);
+  });
+});
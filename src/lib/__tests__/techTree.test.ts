@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import {
+  TechTreeNode,
+  collectPrerequisiteKeys,
+  computeTechTreeLayers,
+  findBlockedQueueItems,
+  findMissingRequirements,
+  formatRequirement,
+  planMissingSteps,
+  projectLevelsAt,
+  validateTechTree,
+} from '@/lib/techTree';
+
+const CHAIN: TechTreeNode[] = [
+  { kind: 'building', id: 'labor', requirements: [] },
+  { kind: 'building', id: 'werft', requirements: [{ kind: 'building', id: 'labor', level: 2 }] },
+  {
+    kind: 'research',
+    id: 'antrieb',
+    requirements: [
+      { kind: 'building', id: 'werft', level: 1 },
+      { kind: 'building', id: 'labor', level: 1 },
+    ],
+  },
+];
+
+describe('validateTechTree', () => {
+  it('accepts the shipped buildings, research and blueprints', () => {
+    expect(validateTechTree()).toEqual([]);
+  });
+
+  it('reports requirements that point to unknown entities', () => {
+    const issues = validateTechTree([
+      { kind: 'research', id: 'a', requirements: [{ kind: 'building', id: 'missing', level: 1 }] },
+    ]);
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({ type: 'dangling', nodeId: 'research:a' });
+  });
+
+  it('reports dependency cycles', () => {
+    const issues = validateTechTree([
+      { kind: 'research', id: 'a', requirements: [{ kind: 'research', id: 'b', level: 1 }] },
+      { kind: 'research', id: 'b', requirements: [{ kind: 'research', id: 'a', level: 2 }] },
+    ]);
+    expect(issues.map((issue) => issue.type)).toEqual(['cycle']);
+  });
+});
+
+describe('findMissingRequirements', () => {
+  it('returns only the prerequisites below the required level', () => {
+    const missing = findMissingRequirements(
+      [
+        { kind: 'building', id: 'werft', level: 2 },
+        { kind: 'research', id: 'kolbenAntrieb', level: 3 },
+      ],
+      { building: { werft: 2 }, research: { kolbenAntrieb: 1 } },
+    );
+    expect(missing.map(formatRequirement)).toEqual(['Kolbenantrieb Stufe 3']);
+  });
+});
+
+describe('projectLevelsAt', () => {
+  it('counts queued levels only once they are done', () => {
+    const queue = [
+      { kind: 'building' as const, entityId: 'dampfkraftwerk', level: 3, startTime: 0, endTime: 100 },
+      { kind: 'research' as const, entityId: 'kesseldruckOptimierung', level: 1, startTime: 0, endTime: 40 },
+    ];
+    const levels = { building: { dampfkraftwerk: 2 }, research: {} };
+    expect(projectLevelsAt(levels, queue, 40)).toEqual({
+      building: { dampfkraftwerk: 2 },
+      research: { kesseldruckOptimierung: 1 },
+    });
+    expect(projectLevelsAt(levels, queue, 100).building).toEqual({ dampfkraftwerk: 3 });
+    expect(levels.research).toEqual({});
+  });
+});
+
+describe('findBlockedQueueItems', () => {
+  it('flags entries that would start before their prerequisite is done', () => {
+    const power = { kind: 'building' as const, entityId: 'dampfkraftwerk', level: 3, startTime: 0, endTime: 100 };
+    const research = {
+      kind: 'research' as const,
+      entityId: 'kesseldruckOptimierung',
+      level: 1,
+      startTime: 100,
+      endTime: 150,
+    };
+    const levels = { building: { forschungslabor: 1, dampfkraftwerk: 2 }, research: {} };
+    expect(findBlockedQueueItems(levels, [power, research])).toEqual([]);
+    expect(findBlockedQueueItems(levels, [{ ...power, endTime: 120 }, research])).toEqual([research]);
+    expect(findBlockedQueueItems(levels, [research], [])).toEqual([]);
+  });
+});
+
+describe('tech tree layout and planning', () => {
+  it('places every node one layer behind its deepest prerequisite', () => {
+    const layers = computeTechTreeLayers(CHAIN);
+    expect([...layers.entries()]).toEqual([
+      ['building:labor', 0],
+      ['building:werft', 1],
+      ['research:antrieb', 2],
+    ]);
+  });
+
+  it('collects the transitive prerequisites of a node', () => {
+    expect([...collectPrerequisiteKeys('research:antrieb', CHAIN)].sort()).toEqual([
+      'building:labor',
+      'building:werft',
+      'research:antrieb',
+    ]);
+  });
+
+  it('plans single-level steps with prerequisites first', () => {
+    const steps = planMissingSteps(
+      { kind: 'research', id: 'antrieb', level: 1 },
+      { building: { labor: 1 }, research: {} },
+      CHAIN,
+    );
+    expect(steps.map((step) => `${step.id}:${step.level}`)).toEqual(['labor:2', 'werft:1', 'antrieb:1']);
+  });
+});
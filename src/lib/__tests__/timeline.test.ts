@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { buildTimelineSegments, calculateTimelineWindow, isMissionOnTimeline, toTimelineShare } from '@/lib/timeline';
+import { TIMELINE_LOOKBACK, TIMELINE_MIN_SPAN } from '@/constants';
+import { MissionStatus, MissionType } from '@/types';
+
+const MINUTE = 60 * 1000;
+
+const mission = {
+  type: MissionType.Angriff,
+  status: MissionStatus.Geplant,
+  plannedAt: 0,
+  launchAt: 5 * MINUTE,
+  arrivalAt: 25 * MINUTE,
+  travelDuration: 20 * MINUTE,
+};
+
+describe('buildTimelineSegments', () => {
+  it('projects the return leg of fleets that have not arrived yet', () => {
+    expect(buildTimelineSegments(mission)).toEqual([
+      { phase: 'preparation', start: 0, end: 5 * MINUTE },
+      { phase: 'outbound', start: 5 * MINUTE, end: 25 * MINUTE },
+      { phase: 'return', start: 25 * MINUTE, end: 45 * MINUTE, projected: true },
+    ]);
+  });
+
+  it('turns recalled fleets around at the recall', () => {
+    const recalled = { ...mission, status: MissionStatus.Rueckkehr, recalledAt: 15 * MINUTE, returnArrivalAt: 25 * MINUTE };
+    expect(buildTimelineSegments(recalled).slice(1)).toEqual([
+      { phase: 'outbound', start: 5 * MINUTE, end: 15 * MINUTE },
+      { phase: 'return', start: 15 * MINUTE, end: 25 * MINUTE },
+    ]);
+  });
+
+  it('keeps stationed fleets open-ended at the target', () => {
+    const stationed = { ...mission, type: MissionType.Stationierung, status: MissionStatus.Stationiert };
+    expect(buildTimelineSegments(stationed)[2]).toEqual({ phase: 'stationed', start: 25 * MINUTE, end: null });
+    expect(buildTimelineSegments({ ...stationed, status: MissionStatus.Unterwegs })).toHaveLength(2);
+  });
+});
+
+describe('timeline window', () => {
+  it('spans from shortly before now to the last scheduled event', () => {
+    const segments = buildTimelineSegments({ ...mission, arrivalAt: 200 * MINUTE });
+    expect(calculateTimelineWindow(segments, 0)).toEqual({ start: -TIMELINE_LOOKBACK, end: 220 * MINUTE });
+    expect(calculateTimelineWindow([], 0)).toEqual({ start: -TIMELINE_LOOKBACK, end: TIMELINE_MIN_SPAN - TIMELINE_LOOKBACK });
+  });
+
+  it('clamps positions to the window', () => {
+    const window = { start: 0, end: 100 };
+    expect(toTimelineShare(25, window)).toBe(0.25);
+    expect(toTimelineShare(-10, window)).toBe(0);
+    expect(toTimelineShare(200, window)).toBe(1);
+  });
+
+  it('shows planned and active missions only', () => {
+    expect(isMissionOnTimeline(MissionStatus.Geplant)).toBe(true);
+    expect(isMissionOnTimeline(MissionStatus.Stationiert)).toBe(true);
+    expect(isMissionOnTimeline(MissionStatus.Abgebrochen)).toBe(false);
+  });
+});
@@ -46,3 +46,106 @@ export const computeQueueSlotTiming = (
   const endTime = startTime + durationSeconds * 1000;
   return { startTime, endTime };
 };
+
+/**
+ * Applies the highest queued level of every entity to the given levels to preview the finished queue.
+ */
+export const projectQueuedLevels = (
+  levels: Record<string, number>,
+  queue: BuildQueueItem[],
+): Record<string, number> =>
+  queue.reduce<Record<string, number>>(
+    (acc, item) => {
+      acc[item.entityId] = Math.max(acc[item.entityId] ?? 0, item.level);
+      return acc;
+    },
+    { ...levels },
+  );
+
+/**
+ * Result of removing an entry together with the later levels of the same entity.
+ */
+export interface QueueRemoval {
+  remaining: BuildQueueItem[];
+  removed: BuildQueueItem[];
+}
+
+/**
+ * Removes the given level of an entity and every later queued level of it.
+ * Later levels build on the removed one, so they cannot stay in the queue on their own.
+ */
+export const removeQueueItemCascade = (
+  queue: BuildQueueItem[],
+  entityId: string,
+  level: number,
+): QueueRemoval => {
+  const remaining: BuildQueueItem[] = [];
+  const removed: BuildQueueItem[] = [];
+  queue.forEach((item) => {
+    if (item.entityId === entityId && item.level >= level) {
+      removed.push(item);
+    } else {
+      remaining.push(item);
+    }
+  });
+  return { remaining, removed };
+};
+
+/**
+ * Chains the queue entries back to back while keeping their durations.
+ * An entry that is already running keeps its timing; everything else starts once its predecessor ends.
+ */
+export const rescheduleQueue = (queue: BuildQueueItem[], now: number): BuildQueueItem[] => {
+  let cursor = now;
+  return queue.map((item, index) => {
+    if (index === 0 && item.startTime <= now) {
+      cursor = item.endTime;
+      return item;
+    }
+    const duration = item.endTime - item.startTime;
+    const startTime = cursor;
+    cursor = startTime + duration;
+    return { ...item, startTime, endTime: cursor };
+  });
+};
+
+/**
+ * Checks that every entity appears with ascending levels, so each entry builds on the one before it.
+ */
+export const isQueueOrderValid = (queue: BuildQueueItem[]): boolean => {
+  const lastLevels: Record<string, number> = {};
+  return queue.every((item) => {
+    const previous = lastLevels[item.entityId] ?? -Infinity;
+    lastLevels[item.entityId] = item.level;
+    return item.level > previous;
+  });
+};
+
+/**
+ * Moves a pending entry to another position and reschedules the queue.
+ * Returns null when the move touches the running entry or breaks the level order of an entity.
+ */
+export const moveQueueItem = (
+  queue: BuildQueueItem[],
+  fromIndex: number,
+  toIndex: number,
+  now: number,
+): BuildQueueItem[] | null => {
+  const firstPendingIndex = queue.length > 0 && queue[0].startTime <= now ? 1 : 0;
+  if (
+    fromIndex === toIndex ||
+    fromIndex < firstPendingIndex ||
+    toIndex < firstPendingIndex ||
+    fromIndex >= queue.length ||
+    toIndex >= queue.length
+  ) {
+    return null;
+  }
+  const reordered = [...queue];
+  const [item] = reordered.splice(fromIndex, 1);
+  reordered.splice(toIndex, 0, item);
+  if (!isQueueOrderValid(reordered)) {
+    return null;
+  }
+  return rescheduleQueue(reordered, now);
+};
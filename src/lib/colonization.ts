@@ -0,0 +1,72 @@
+import { COLONY_BASE_LIMIT, HIMMELSMECHANIK_LEVELS_PER_COLONY } from '@/constants';
+import { ColonizationFailure, FleetComposition, Mission, MissionStatus, MissionType } from '@/types';
+import { findBlueprint } from '@/lib/shipyard';
+import { normalizeFleet } from '@/lib/fleet';
+
+const FAILURE_MESSAGES: Record<ColonizationFailure, string> = {
+  occupied: 'Der Slot wurde bereits von einem anderen Kommandanten besiedelt.',
+  limit: 'Die Himmelsmechanik reicht für keine weitere Kolonie aus.',
+};
+
+/**
+ * Returns the player-facing explanation of a failed colonization.
+ */
+export const getColonizationFailureMessage = (failure: ColonizationFailure) => FAILURE_MESSAGES[failure];
+
+/**
+ * Maximum number of colonies, home planet included, for a `himmelsmechanik` level.
+ */
+export const calculateColonyLimit = (himmelsmechanikLevel: number) =>
+  COLONY_BASE_LIMIT + Math.floor(Math.max(0, himmelsmechanikLevel) / HIMMELSMECHANIK_LEVELS_PER_COLONY);
+
+/**
+ * Decides whether settlers can found a colony on arrival. Returns null when the slot is free
+ * and the empire still has room for another colony.
+ */
+export const findColonizationFailure = (
+  targetOwnerId: string | undefined,
+  colonyCount: number,
+  colonyLimit: number,
+): ColonizationFailure | null => {
+  if (targetOwnerId) {
+    return 'occupied';
+  }
+  return colonyCount >= colonyLimit ? 'limit' : null;
+};
+
+/**
+ * Colonization missions that have not reached their target yet.
+ */
+export const countPendingColonizations = (missions: Pick<Mission, 'type' | 'status'>[]) =>
+  missions.filter(
+    (mission) =>
+      mission.type === MissionType.Kolonisierung &&
+      (mission.status === MissionStatus.Geplant || mission.status === MissionStatus.Unterwegs),
+  ).length;
+
+/**
+ * Checks a colonization order before launch. Colonization missions that are still on their way
+ * reserve a colony each, so the limit cannot be outrun by sending several fleets at once.
+ */
+export const validateColonization = (
+  targetOwnerId: string | undefined,
+  colonyCount: number,
+  pendingColonizations: number,
+  colonyLimit: number,
+): string[] => {
+  const failure = findColonizationFailure(targetOwnerId, colonyCount + pendingColonizations, colonyLimit);
+  if (failure === 'occupied') {
+    return ['Nur freie Slots können kolonisiert werden.'];
+  }
+  return failure ? [`Maximal ${colonyLimit} Kolonien möglich, erforsche Himmelsmechanik für weitere.`] : [];
+};
+
+/**
+ * Removes the colony ship that is dismantled to found the new colony; escorts fly home.
+ */
+export const consumeColonyShip = (fleet: FleetComposition): FleetComposition => {
+  const colonyShipId = Object.keys(fleet).find(
+    (blueprintId) => fleet[blueprintId] > 0 && findBlueprint(blueprintId)?.role === 'Kolonisierung',
+  );
+  return colonyShipId ? normalizeFleet({ ...fleet, [colonyShipId]: fleet[colonyShipId] - 1 }) : fleet;
+};
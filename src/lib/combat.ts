@@ -0,0 +1,325 @@
+import {
+  COMBAT_EXPLOSION_THRESHOLD,
+  COMBAT_LOOT_RATIO,
+  COMBAT_SHIELD_BOUNCE_RATIO,
+  CONQUEST_MIN_CREW,
+  DEFENCE_BLUEPRINTS,
+  MAX_COMBAT_ROUNDS,
+} from '@/constants';
+import {
+  BattleOutcome,
+  BattleReport,
+  BattleRound,
+  BattleSide,
+  DefenceBlueprint,
+  FleetComposition,
+  IncomingMission,
+  Resources,
+  ResourceType,
+  ShipBlueprint,
+} from '@/types';
+import { Modifiers, resolveModifiers } from '@/lib/modifiers';
+import { findBlueprint } from '@/lib/shipyard';
+import { calculateFleetCargo, calculateFleetCrew, mergeFleets, normalizeFleet, sumResources } from '@/lib/fleet';
+import { ForeignPlanetState, describeForeignPlanet } from '@/lib/foreignPlanets';
+import { createEmptyResources } from '@/lib/economy';
+import { createRandom, hashSeed, RandomFn } from '@/lib/random';
+
+/**
+ * Research factors that apply to the combat values of one side.
+ */
+export type CombatModifiers = Pick<Modifiers, 'attack' | 'shield' | 'hull'>;
+
+/**
+ * Units of one side together with the research factors of their owner.
+ */
+export interface CombatForce {
+  units: FleetComposition;
+  modifiers: CombatModifiers;
+}
+
+/**
+ * Battle outcome without the mission-specific consequences (loot and conquest).
+ */
+export type BattleResult = Pick<BattleReport, 'outcome' | 'rounds' | 'attacker' | 'defender'>;
+
+interface CombatUnit {
+  blueprintId: string;
+  attack: number;
+  shield: number;
+  maxShield: number;
+  hull: number;
+  maxHull: number;
+}
+
+const RESOURCE_TYPES = Object.values(ResourceType) as ResourceType[];
+
+/**
+ * Localized battle outcome from the attacker's point of view.
+ */
+const OUTCOME_LABELS: Record<BattleOutcome, string> = {
+  attacker: 'gewonnen',
+  defender: 'verloren',
+  draw: 'unentschieden',
+};
+
+/**
+ * Returns the localized label for a battle outcome, seen from the attacker.
+ */
+export const getBattleOutcomeLabel = (outcome: BattleOutcome) => OUTCOME_LABELS[outcome];
+
+/**
+ * Looks up a ship or defence blueprint by id.
+ */
+export const findCombatUnit = (blueprintId: string): ShipBlueprint | DefenceBlueprint | undefined =>
+  findBlueprint(blueprintId) ?? DEFENCE_BLUEPRINTS.find((defence) => defence.id === blueprintId);
+
+const deployUnits = ({ units, modifiers }: CombatForce): CombatUnit[] =>
+  Object.entries(units).flatMap(([blueprintId, count]) => {
+    const stats = findCombatUnit(blueprintId);
+    if (!stats || count <= 0) {
+      return [];
+    }
+    const shield = stats.shield * modifiers.shield;
+    const hull = stats.hull * modifiers.hull;
+    return Array.from({ length: count }, () => ({
+      blueprintId,
+      attack: stats.attack * modifiers.attack,
+      shield,
+      maxShield: shield,
+      hull,
+      maxHull: hull,
+    }));
+  });
+
+const countUnits = (units: CombatUnit[]): FleetComposition =>
+  units.reduce<FleetComposition>((acc, unit) => {
+    acc[unit.blueprintId] = (acc[unit.blueprintId] ?? 0) + 1;
+    return acc;
+  }, {});
+
+/**
+ * Every shooter fires once at a random target. Shots below the bounce threshold of the target's shield
+ * have no effect; shields absorb damage before the hull, and badly damaged units may explode early.
+ * Returns the damage that hit.
+ */
+const fireVolley = (shooters: CombatUnit[], targets: CombatUnit[], random: RandomFn) => {
+  let damage = 0;
+  shooters.forEach((shooter) => {
+    const target = targets[Math.floor(random() * targets.length)];
+    if (target.hull <= 0 || shooter.attack < target.maxShield * COMBAT_SHIELD_BOUNCE_RATIO) {
+      return;
+    }
+    const absorbed = Math.min(target.shield, shooter.attack);
+    target.shield -= absorbed;
+    target.hull = Math.max(0, target.hull - (shooter.attack - absorbed));
+    damage += shooter.attack;
+    if (
+      target.hull > 0 &&
+      target.hull < target.maxHull * COMBAT_EXPLOSION_THRESHOLD &&
+      random() >= target.hull / target.maxHull
+    ) {
+      target.hull = 0;
+    }
+  });
+  return damage;
+};
+
+/**
+ * Removes destroyed units and recharges the shields of the survivors for the next round.
+ */
+const regroup = (units: CombatUnit[]) =>
+  units
+    .filter((unit) => unit.hull > 0)
+    .map((unit) => ({ ...unit, shield: unit.maxShield }));
+
+const describeSide = (initial: FleetComposition, survivors: FleetComposition): BattleSide => {
+  const losses: FleetComposition = {};
+  Object.entries(initial).forEach(([blueprintId, count]) => {
+    const lost = count - (survivors[blueprintId] ?? 0);
+    if (lost > 0) {
+      losses[blueprintId] = lost;
+    }
+  });
+  return { initial, losses, survivors };
+};
+
+/**
+ * Simulates a round-based battle. Both sides fire simultaneously each round; the battle ends once a side
+ * is wiped out or after the round limit. The same seed always yields the same battle.
+ */
+export const simulateBattle = (
+  attacker: CombatForce,
+  defender: CombatForce,
+  seed: number,
+  maxRounds = MAX_COMBAT_ROUNDS,
+): BattleResult => {
+  const random = createRandom(seed);
+  let attackers = deployUnits(attacker);
+  let defenders = deployUnits(defender);
+  const attackerInitial = countUnits(attackers);
+  const defenderInitial = countUnits(defenders);
+  const rounds: BattleRound[] = [];
+
+  for (let round = 1; round <= maxRounds && attackers.length > 0 && defenders.length > 0; round += 1) {
+    const attackerDamage = fireVolley(attackers, defenders, random);
+    const defenderDamage = fireVolley(defenders, attackers, random);
+    attackers = regroup(attackers);
+    defenders = regroup(defenders);
+    rounds.push({
+      round,
+      attackerDamage: Math.round(attackerDamage),
+      defenderDamage: Math.round(defenderDamage),
+      attackerUnits: countUnits(attackers),
+      defenderUnits: countUnits(defenders),
+    });
+  }
+
+  let outcome: BattleOutcome = 'draw';
+  if (attackers.length > 0 && defenders.length === 0) {
+    outcome = 'attacker';
+  } else if (attackers.length === 0 && defenders.length > 0) {
+    outcome = 'defender';
+  }
+
+  return {
+    outcome,
+    rounds,
+    attacker: describeSide(attackerInitial, countUnits(attackers)),
+    defender: describeSide(defenderInitial, countUnits(defenders)),
+  };
+};
+
+/**
+ * Plunder a victorious fleet carries home: a share of every resource, scaled down evenly to fit the cargo.
+ */
+export const calculateLoot = (stock: Resources, cargoCapacity: number, ratio = COMBAT_LOOT_RATIO): Resources => {
+  const available = Object.fromEntries(
+    RESOURCE_TYPES.map((resource) => [resource, Math.floor(Math.max(0, stock[resource]) * ratio)]),
+  ) as Resources;
+  const total = sumResources(available);
+  if (total <= cargoCapacity) {
+    return available;
+  }
+  const share = Math.max(0, cargoCapacity) / total;
+  return Object.fromEntries(
+    RESOURCE_TYPES.map((resource) => [resource, Math.floor(available[resource] * share)]),
+  ) as Resources;
+};
+
+/**
+ * A planet changes hands only if the attacker destroyed every defender, the planet belongs to another
+ * commander and enough crew survived to occupy it.
+ */
+export const canConquer = (
+  result: Pick<BattleResult, 'outcome' | 'attacker'>,
+  targetOwnerId: string | undefined,
+  attackerId: string,
+) =>
+  result.outcome === 'attacker' &&
+  targetOwnerId !== undefined &&
+  targetOwnerId !== attackerId &&
+  calculateFleetCrew(result.attacker.survivors) >= CONQUEST_MIN_CREW;
+
+interface AttackContext {
+  missionId: string;
+  attackerId: string;
+  fleet: FleetComposition;
+  modifiers: CombatModifiers;
+  targetPlanetId: string;
+  targetOwnerId?: string;
+  /** Damage the target took in earlier battles. */
+  targetState?: ForeignPlanetState;
+  stationed?: FleetComposition;
+  /** Research of the defending commander when it is known, e.g. on the player's own planets. */
+  defenderResearch?: Record<string, number>;
+}
+
+/**
+ * Share of a defender contingent that survived a battle. Every blueprint loses the same fraction as the
+ * whole defending side did, so fleets stationed by different commanders bleed evenly.
+ */
+export const distributeSurvivors = (
+  contingent: FleetComposition,
+  side: Pick<BattleSide, 'initial' | 'survivors'>,
+): FleetComposition =>
+  normalizeFleet(
+    Object.fromEntries(
+      Object.entries(contingent).map(([blueprintId, count]) => {
+        const initial = side.initial[blueprintId] ?? 0;
+        const survivors = side.survivors[blueprintId] ?? 0;
+        return [blueprintId, initial > 0 ? Math.round((count * survivors) / initial) : count];
+      }),
+    ),
+  );
+
+/**
+ * Resolves an attack mission against the garrison of its target, reinforced by fleets stationed there.
+ * The battle is seeded with the mission id, so replaying the same mission always produces the same report.
+ */
+export const resolveAttack = ({
+  missionId,
+  attackerId,
+  fleet,
+  modifiers,
+  targetPlanetId,
+  targetOwnerId,
+  targetState,
+  stationed = {},
+  defenderResearch,
+}: AttackContext): BattleReport => {
+  const target = describeForeignPlanet(targetPlanetId, targetOwnerId, targetState);
+  const seed = hashSeed(missionId);
+  const result = simulateBattle(
+    { units: fleet, modifiers },
+    {
+      units: mergeFleets(target.fleet, target.defences, stationed),
+      modifiers: resolveModifiers(defenderResearch ?? target.research),
+    },
+    seed,
+  );
+  const cargoCapacity = result.outcome === 'attacker' ? calculateFleetCargo(result.attacker.survivors) : 0;
+  return {
+    seed,
+    ...result,
+    loot: calculateLoot(target.resources, cargoCapacity),
+    conquered: canConquer(result, targetOwnerId, attackerId),
+  };
+};
+
+/**
+ * State a foreign planet is left in after a battle: its garrison and defences lose the same share as the whole
+ * defending side, and the loot leaves its stock.
+ */
+export const recordBattleDamage = (
+  target: ForeignPlanetState,
+  battle: Pick<BattleReport, 'defender' | 'loot'>,
+): ForeignPlanetState => ({
+  resources: Object.fromEntries(
+    RESOURCE_TYPES.map((resource) => [resource, Math.max(0, target.resources[resource] - battle.loot[resource])]),
+  ) as Resources,
+  fleet: distributeSurvivors(target.fleet, battle.defender),
+  defences: distributeSurvivors(target.defences, battle.defender),
+});
+
+/**
+ * Resolves a hostile fleet arriving at a planet of the player or an ally. Only the fleets stationed there
+ * defend it; the planet itself has no garrison or stock the stand-in attackers could hit yet.
+ */
+export const resolveHostileArrival = (
+  incoming: Pick<IncomingMission, 'id' | 'attackerId' | 'fleet' | 'target'>,
+  attackerResearch: Record<string, number>,
+  defenderResearch: Record<string, number>,
+  stationed: FleetComposition,
+): BattleReport =>
+  resolveAttack({
+    missionId: incoming.id,
+    attackerId: incoming.attackerId,
+    fleet: incoming.fleet,
+    modifiers: resolveModifiers(attackerResearch),
+    targetPlanetId: incoming.target.planetId,
+    targetOwnerId: incoming.target.ownerId,
+    targetState: { resources: createEmptyResources(), fleet: {}, defences: {} },
+    stationed,
+    defenderResearch,
+  });
@@ -0,0 +1,80 @@
+import { Alliance, GalaxyPlanet } from '@/types';
+
+/**
+ * Standing of the current commander towards the owner of a planet.
+ */
+export type PlanetRelation = 'own' | 'alliance' | 'ally' | 'nap' | 'foreign' | 'unowned';
+
+/**
+ * Derives the relation to a planet from ownership, alliance membership and the pacts of both alliances.
+ * A pact counts no matter which of the two alliances signed it; an alliance pact outranks a non-aggression pact.
+ */
+export const resolvePlanetRelation = (
+  planet: Pick<GalaxyPlanet, 'ownerId' | 'allianceId'>,
+  playerId: string,
+  myAllianceId: string | undefined,
+  alliances: Alliance[],
+): PlanetRelation => {
+  if (!planet.ownerId) {
+    return 'unowned';
+  }
+  if (planet.ownerId === playerId) {
+    return 'own';
+  }
+  if (!myAllianceId || !planet.allianceId) {
+    return 'foreign';
+  }
+  if (planet.allianceId === myAllianceId) {
+    return 'alliance';
+  }
+  const theirAllianceId = planet.allianceId;
+  const connects = (fromId: string, toId: string) =>
+    (fromId === myAllianceId && toId === theirAllianceId) || (fromId === theirAllianceId && toId === myAllianceId);
+  const pactTypes = alliances.flatMap((alliance) =>
+    alliance.pacts.filter((pact) => connects(alliance.id, pact.targetAllianceId)).map((pact) => pact.type),
+  );
+  if (pactTypes.includes('ally')) {
+    return 'ally';
+  }
+  return pactTypes.includes('nap') ? 'nap' : 'foreign';
+};
+
+/**
+ * Own planets, alliance members and allied alliances accept deliveries.
+ */
+export const acceptsTransports = (relation: PlanetRelation) =>
+  relation === 'own' || relation === 'alliance' || relation === 'ally';
+
+/**
+ * Checks whether a transport may head for a planet. Returns player-facing problems.
+ */
+export const validateTransportTarget = (relation: PlanetRelation): string[] =>
+  acceptsTransports(relation) ? [] : ['Transporte sind nur zu eigenen und verbündeten Planeten möglich.'];
+
+/**
+ * Checks whether a fleet may be stationed at a planet. Returns player-facing problems.
+ */
+export const validateStationTarget = (relation: PlanetRelation): string[] =>
+  acceptsTransports(relation) ? [] : ['Flotten können nur bei eigenen und verbündeten Planeten stationiert werden.'];
+
+/**
+ * Checks whether a planet may be attacked: own planets, alliance members and pact partners are off limits.
+ * Returns player-facing problems.
+ */
+export const validateAttackTarget = (relation: PlanetRelation): string[] => {
+  if (relation === 'own') {
+    return ['Eigene Planeten können nicht angegriffen werden.'];
+  }
+  if (relation === 'alliance' || relation === 'ally') {
+    return ['Verbündete Planeten können nicht angegriffen werden.'];
+  }
+  return relation === 'nap' ? ['Mit dieser Allianz besteht ein Nichtangriffspakt.'] : [];
+};
+
+/**
+ * Checks whether an alliance operation may target a planet: joint attacks aim at foreign commanders only.
+ */
+export const validateOperationTarget = (relation: PlanetRelation): string[] =>
+  acceptsTransports(relation) || relation === 'unowned'
+    ? ['Gemeinsame Angriffe richten sich nur gegen Planeten fremder Kommandanten.']
+    : [];
@@ -1,5 +1,6 @@
-import { BUILDINGS } from '@/constants';
-import { ResourceType, Resources } from '@/types';
+import { BUILDINGS, INITIAL_STORAGE } from '@/constants';
+import { ResourceType, Resources, Storage } from '@/types';
+import { Modifiers, NEUTRAL_MODIFIERS } from '@/lib/modifiers';
 
 /**
  * Represents the derived energy state of the player's colony after aggregating production and consumption.
@@ -21,10 +22,11 @@ export const createEmptyResources = (): Resources => ({
 });
 
 /**
- * Aggregates the total kesseldruck supply and demand based on the current building levels.
+ * Aggregates the total kesseldruck supply and demand based on the current building levels and research modifiers.
  */
 export const calculateKesseldruck = (
-  buildingLevels: Record<string, number>
+  buildingLevels: Record<string, number>,
+  modifiers: Modifiers = NEUTRAL_MODIFIERS,
 ): KesseldruckSnapshot => {
   let capacity = 0;
   let consumption = 0;
@@ -39,14 +41,14 @@ export const calculateKesseldruck = (
       const supplyMultiplier = building.energySupplyMultiplier ?? 1;
       const exponent = Math.max(0, level - 1);
       const supply = building.baseEnergySupply * Math.pow(supplyMultiplier, exponent);
-      capacity += Math.floor(supply);
+      capacity += Math.floor(supply * modifiers.energySupply);
     }
 
     if (building.baseEnergyConsumption) {
       const consumptionMultiplier = building.energyConsumptionMultiplier ?? 1;
       const exponent = Math.max(0, level - 1);
       const demand = building.baseEnergyConsumption * Math.pow(consumptionMultiplier, exponent);
-      consumption += Math.floor(demand);
+      consumption += Math.floor(demand * modifiers.energyConsumption);
     }
   });
 
@@ -62,12 +64,13 @@ export const calculateKesseldruck = (
 };
 
 /**
- * Calculates the per-tick resource production while respecting the current kesseldruck efficiency.
+ * Calculates the per-tick resource production while respecting the current kesseldruck efficiency and research modifiers.
  */
 export const calculateResourceProductionPerTick = (
   buildingLevels: Record<string, number>,
   serverSpeed: number,
-  efficiency: number
+  efficiency: number,
+  modifiers: Modifiers = NEUTRAL_MODIFIERS,
 ): Resources => {
   const income = createEmptyResources();
 
@@ -88,10 +91,55 @@ export const calculateResourceProductionPerTick = (
       }
 
       const productionPerHour = base * level * levelFactor;
-      const productionPerSecond = (productionPerHour / 3600) * serverSpeed * efficiency;
+      const productionPerSecond =
+        (productionPerHour / 3600) * serverSpeed * efficiency * modifiers.production[resource];
       income[resource] += productionPerSecond;
     });
   });
 
   return income;
 };
+
+/**
+ * Derives the per-resource storage caps from the base warehouse and all storage building levels.
+ * The storage modifier scales the warehouse bonus only, never the base storage.
+ */
+export const calculateStorageCapacity = (
+  buildingLevels: Record<string, number>,
+  modifiers: Modifiers = NEUTRAL_MODIFIERS,
+): Storage => {
+  const storage: Storage = { ...INITIAL_STORAGE };
+
+  Object.values(BUILDINGS).forEach((building) => {
+    const level = buildingLevels[building.id] || 0;
+    if (level <= 0 || !building.baseStorageCapacity) {
+      return;
+    }
+
+    const capacityMultiplier = building.storageCapacityMultiplier ?? 1;
+    const exponent = Math.max(0, level - 1);
+
+    Object.values(ResourceType).forEach((resource) => {
+      const base = building.baseStorageCapacity?.[resource] ?? 0;
+      if (base <= 0) {
+        return;
+      }
+      storage[resource] += Math.floor(base * Math.pow(capacityMultiplier, exponent) * modifiers.storageCapacity);
+    });
+  });
+
+  return storage;
+};
+
+/**
+ * Splits a delivery into the part that fits into the free storage of a planet and the overflow.
+ */
+export const splitDelivery = (stock: Resources, storage: Storage, delivery: Resources) => {
+  const accepted = { ...delivery };
+  const overflow = { ...delivery };
+  (Object.values(ResourceType) as ResourceType[]).forEach((resource) => {
+    accepted[resource] = Math.min(delivery[resource], Math.max(0, Math.floor(storage[resource] - stock[resource])));
+    overflow[resource] = delivery[resource] - accepted[resource];
+  });
+  return { accepted, overflow };
+};
@@ -0,0 +1,106 @@
+import {
+  ESPIONAGE_BASE_DETECTION,
+  ESPIONAGE_DETAIL_THRESHOLDS,
+  ESPIONAGE_DETECTION_PER_LEVEL,
+  ESPIONAGE_DETECTION_PER_PROBE,
+  ESPIONAGE_PROBES_PER_LEVEL,
+} from '@/constants';
+import { EspionageReport, FleetComposition, IntelSnapshot, Report, ReportType } from '@/types';
+import { ForeignPlanetProfile, ForeignPlanetState, describeForeignPlanet } from '@/lib/foreignPlanets';
+import { resolveModifiers } from '@/lib/modifiers';
+import { countShips } from '@/lib/fleet';
+import { createRandom, hashSeed } from '@/lib/random';
+
+const ESPIONAGE_RESEARCH_ID = 'spionagetechnologie';
+
+const MAX_DETECTION_CHANCE = 0.95;
+
+type SnapshotSection = keyof typeof ESPIONAGE_DETAIL_THRESHOLDS;
+
+/**
+ * Result of an espionage mission: what the probes saw and whether the target noticed them.
+ */
+export interface EspionageResult {
+  snapshot: IntelSnapshot;
+  levelDifference: number;
+  detectionChance: number;
+  detected: boolean;
+}
+
+interface EspionageContext {
+  missionId: string;
+  fleet: FleetComposition;
+  research: Record<string, number>;
+  targetPlanetId: string;
+  targetOwnerId?: string;
+  targetState?: ForeignPlanetState;
+}
+
+/**
+ * Espionage lead of a mission: the research difference plus one level for every few additional probes.
+ */
+export const calculateEspionageLead = (levelDifference: number, probes: number) =>
+  levelDifference + Math.floor(Math.max(0, probes - 1) / ESPIONAGE_PROBES_PER_LEVEL);
+
+/**
+ * Chance that the target detects the probes. A research lead and the espionage modifier lower it,
+ * while every additional probe makes the fleet easier to spot.
+ */
+export const calculateDetectionChance = (levelDifference: number, probes: number, espionageFactor = 1) => {
+  const chance =
+    ESPIONAGE_BASE_DETECTION -
+    ESPIONAGE_DETECTION_PER_LEVEL * levelDifference +
+    ESPIONAGE_DETECTION_PER_PROBE * Math.max(0, probes - 1);
+  return Math.min(MAX_DETECTION_CHANCE, Math.max(0, chance / espionageFactor));
+};
+
+/**
+ * Cuts a planet profile down to the sections the espionage lead uncovers.
+ */
+export const buildIntelSnapshot = (profile: ForeignPlanetProfile, lead: number): IntelSnapshot => {
+  const snapshot: IntelSnapshot = { resources: { ...profile.resources } };
+  (Object.keys(ESPIONAGE_DETAIL_THRESHOLDS) as SnapshotSection[]).forEach((section) => {
+    if (lead >= ESPIONAGE_DETAIL_THRESHOLDS[section]) {
+      snapshot[section] = { ...profile[section] };
+    }
+  });
+  return snapshot;
+};
+
+/**
+ * Resolves an espionage mission against the target planet. The detection roll is seeded with the mission id.
+ * Unowned planets have nobody to notice the probes.
+ */
+export const resolveEspionage = ({
+  missionId,
+  fleet,
+  research,
+  targetPlanetId,
+  targetOwnerId,
+  targetState,
+}: EspionageContext): EspionageResult => {
+  const target = describeForeignPlanet(targetPlanetId, targetOwnerId, targetState);
+  const probes = countShips(fleet);
+  const levelDifference = (research[ESPIONAGE_RESEARCH_ID] ?? 0) - (target.research[ESPIONAGE_RESEARCH_ID] ?? 0);
+  const detectionChance = targetOwnerId
+    ? calculateDetectionChance(levelDifference, probes, resolveModifiers(research).espionage)
+    : 0;
+  const random = createRandom(hashSeed(missionId));
+  return {
+    snapshot: buildIntelSnapshot(target, calculateEspionageLead(levelDifference, probes)),
+    levelDifference,
+    detectionChance,
+    detected: random() < detectionChance,
+  };
+};
+
+/**
+ * Newest espionage report per planet id.
+ */
+export const collectLatestIntel = (reports: Report[]): Record<string, EspionageReport> =>
+  reports.reduce<Record<string, EspionageReport>>((acc, report) => {
+    if (report.type === ReportType.Spionage && (acc[report.planetId]?.createdAt ?? -Infinity) < report.createdAt) {
+      acc[report.planetId] = report;
+    }
+    return acc;
+  }, {});
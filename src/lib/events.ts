@@ -0,0 +1,300 @@
+import { SERVER_SPEED } from '@/constants';
+import { IncomingMission, Mission, MissionStatus, ResourceType, ShipBuildOrder, UpgradeKind } from '@/types';
+import { calculateResourceProductionPerTick } from '@/lib/economy';
+import { calculateDetectedAt } from '@/lib/incoming';
+import { getNextMissionEventAt } from '@/lib/missions';
+import { resolveModifiers } from '@/lib/modifiers';
+import { EmpireEconomy, calculateStorageFullAt } from '@/lib/simulation';
+
+/**
+ * Payload of every event the simulation schedules, keyed by event type.
+ */
+export interface GameEventPayloads {
+  buildCompleted: { planetId: string | null; kind: UpgradeKind; entityId: string; level: number };
+  shipCompleted: { orderId: string; blueprintId: string; quantity: number };
+  missionLaunched: { missionId: string };
+  missionArrived: { missionId: string };
+  missionReturned: { missionId: string };
+  resourceCapReached: { planetId: string; resource: ResourceType };
+  incomingAlert: { missionId: string };
+  hostileLaunch: Record<string, never>;
+}
+
+export type GameEventType = keyof GameEventPayloads;
+
+/**
+ * Event due at a fixed timestamp. Events with the same id replace each other, so a source can reschedule
+ * by simply scheduling again.
+ */
+export type GameEvent<T extends GameEventType = GameEventType> = {
+  [K in T]: { id: string; type: K; at: number; payload: GameEventPayloads[K] };
+}[T];
+
+export type GameEventHandler<T extends GameEventType> = (event: GameEvent<T>) => void;
+
+/**
+ * Time-ordered event queue. Advancing it fires every due event at its own timestamp, earliest first and in
+ * scheduling order on ties; events scheduled by handlers fire in the same advance when they are due.
+ */
+export interface EventEngine {
+  now: () => number;
+  schedule: (event: GameEvent) => void;
+  cancel: (eventId: string) => void;
+  /** Replaces every event of a source, e.g. the schedule derived from one store. */
+  replaceSource: (source: string, events: GameEvent[]) => void;
+  subscribe: <T extends GameEventType>(type: T, handler: GameEventHandler<T>) => () => void;
+  getNextEventAt: () => number | null;
+  getPendingEvents: () => GameEvent[];
+  /** Fires every event due up to the timestamp and returns them in firing order. */
+  advanceTo: (timestamp: number) => GameEvent[];
+  fastForward: (duration: number) => GameEvent[];
+}
+
+interface QueueEntry {
+  event: GameEvent;
+  sequence: number;
+}
+
+const isBefore = (a: QueueEntry, b: QueueEntry) =>
+  a.event.at < b.event.at || (a.event.at === b.event.at && a.sequence < b.sequence);
+
+const pushEntry = (heap: QueueEntry[], entry: QueueEntry) => {
+  heap.push(entry);
+  let index = heap.length - 1;
+  while (index > 0) {
+    const parent = (index - 1) >> 1;
+    if (!isBefore(heap[index], heap[parent])) {
+      break;
+    }
+    [heap[index], heap[parent]] = [heap[parent], heap[index]];
+    index = parent;
+  }
+};
+
+const popEntry = (heap: QueueEntry[]): QueueEntry | undefined => {
+  const top = heap[0];
+  const last = heap.pop();
+  if (heap.length === 0 || !last) {
+    return top;
+  }
+  heap[0] = last;
+  let index = 0;
+  for (;;) {
+    const left = index * 2 + 1;
+    const right = left + 1;
+    let smallest = index;
+    if (left < heap.length && isBefore(heap[left], heap[smallest])) {
+      smallest = left;
+    }
+    if (right < heap.length && isBefore(heap[right], heap[smallest])) {
+      smallest = right;
+    }
+    if (smallest === index) {
+      return top;
+    }
+    [heap[index], heap[smallest]] = [heap[smallest], heap[index]];
+    index = smallest;
+  }
+};
+
+/**
+ * Creates an event engine whose clock starts at the given timestamp. The clock only moves forward; events
+ * scheduled in the past fire on the next advance with their original timestamp.
+ */
+export const createEventEngine = (startAt = 0): EventEngine => {
+  let clock = startAt;
+  let sequence = 0;
+  let advancing = false;
+  // Cancelled and replaced entries stay in the heap and are skipped once they surface.
+  let heap: QueueEntry[] = [];
+  const pending = new Map<string, QueueEntry>();
+  const sources = new Map<string, Set<string>>();
+  const handlers = new Map<GameEventType, Set<GameEventHandler<GameEventType>>>();
+
+  const isLive = (entry: QueueEntry) => pending.get(entry.event.id) === entry;
+
+  const compact = () => {
+    if (heap.length > pending.size * 2 + 32) {
+      heap = [];
+      [...pending.values()].sort((a, b) => a.sequence - b.sequence).forEach((entry) => pushEntry(heap, entry));
+    }
+  };
+
+  const peek = () => {
+    while (heap.length > 0 && !isLive(heap[0])) {
+      popEntry(heap);
+    }
+    return heap[0];
+  };
+
+  const schedule = (event: GameEvent) => {
+    const current = pending.get(event.id);
+    if (current && current.event.at === event.at && current.event.type === event.type) {
+      current.event = event;
+      return;
+    }
+    const entry = { event, sequence: sequence++ };
+    pending.set(event.id, entry);
+    pushEntry(heap, entry);
+    compact();
+  };
+
+  const cancel = (eventId: string) => {
+    pending.delete(eventId);
+    compact();
+  };
+
+  const advanceTo = (timestamp: number) => {
+    // Handlers that advance again would fire events out of order, so nested calls are ignored.
+    if (advancing) {
+      return [];
+    }
+    advancing = true;
+    const fired: GameEvent[] = [];
+    try {
+      for (let entry = peek(); entry && entry.event.at <= timestamp; entry = peek()) {
+        popEntry(heap);
+        pending.delete(entry.event.id);
+        const { event } = entry;
+        clock = Math.max(clock, event.at);
+        fired.push(event);
+        handlers.get(event.type)?.forEach((handler) => handler(event));
+      }
+      clock = Math.max(clock, timestamp);
+    } finally {
+      advancing = false;
+    }
+    return fired;
+  };
+
+  return {
+    now: () => clock,
+    schedule,
+    cancel,
+    replaceSource: (source, events) => {
+      const nextIds = new Set(events.map((event) => event.id));
+      sources.get(source)?.forEach((eventId) => {
+        if (!nextIds.has(eventId)) {
+          pending.delete(eventId);
+        }
+      });
+      sources.set(source, nextIds);
+      events.forEach(schedule);
+      compact();
+    },
+    subscribe: (type, handler) => {
+      const registered = handlers.get(type) ?? new Set();
+      registered.add(handler as GameEventHandler<GameEventType>);
+      handlers.set(type, registered);
+      return () => {
+        registered.delete(handler as GameEventHandler<GameEventType>);
+      };
+    },
+    getNextEventAt: () => peek()?.event.at ?? null,
+    getPendingEvents: () =>
+      [...pending.values()].sort((a, b) => (isBefore(a, b) ? -1 : 1)).map((entry) => entry.event),
+    advanceTo,
+    fastForward: (duration) => advanceTo(clock + Math.max(0, duration)),
+  };
+};
+
+/**
+ * Build completions of every colony queue and the research queue plus the moments colony stocks hit
+ * their storage caps at the current production, seen from the last economy update.
+ */
+export const collectEconomyEvents = (
+  economy: EmpireEconomy,
+  lastTickAt: number,
+  serverSpeed: number = SERVER_SPEED,
+): GameEvent[] => {
+  const modifiers = resolveModifiers(economy.research);
+  const queued = [
+    ...Object.entries(economy.colonies).flatMap(([planetId, colony]) =>
+      colony.buildQueue.map((item) => ({ planetId: planetId as string | null, item })),
+    ),
+    ...economy.researchQueue.map((item) => ({ planetId: null, item })),
+  ];
+  const builds = queued.map(
+    ({ planetId, item }): GameEvent => ({
+      id: `build:${planetId ?? 'research'}:${item.entityId}:${item.level}`,
+      type: 'buildCompleted',
+      at: item.endTime,
+      payload: { planetId, kind: item.kind, entityId: item.entityId, level: item.level },
+    }),
+  );
+  const caps = Object.entries(economy.colonies).flatMap(([planetId, colony]) => {
+    const income = calculateResourceProductionPerTick(
+      colony.buildings,
+      serverSpeed,
+      colony.kesseldruck.efficiency,
+      modifiers,
+    );
+    return Object.entries(calculateStorageFullAt(colony.resources, colony.storage, income, lastTickAt)).map(
+      ([resource, at]): GameEvent => ({
+        id: `cap:${planetId}:${resource}`,
+        type: 'resourceCapReached',
+        at,
+        payload: { planetId, resource: resource as ResourceType },
+      }),
+    );
+  });
+  return [...builds, ...caps];
+};
+
+/**
+ * Completion of every open shipyard order.
+ */
+export const collectShipyardEvents = (queue: ShipBuildOrder[]): GameEvent[] =>
+  queue.map((order) => ({
+    id: `ship:${order.id}`,
+    type: 'shipCompleted',
+    at: order.endTime,
+    payload: { orderId: order.id, blueprintId: order.blueprintId, quantity: order.quantity },
+  }));
+
+const MISSION_EVENT_TYPES: Partial<Record<MissionStatus, 'missionLaunched' | 'missionArrived' | 'missionReturned'>> = {
+  [MissionStatus.Geplant]: 'missionLaunched',
+  [MissionStatus.Unterwegs]: 'missionArrived',
+  [MissionStatus.Rueckkehr]: 'missionReturned',
+};
+
+/**
+ * Next launch, arrival or return of every mission still on its way.
+ */
+export const collectMissionEvents = (missions: Mission[]): GameEvent[] =>
+  missions.flatMap((mission) => {
+    const type = MISSION_EVENT_TYPES[mission.status];
+    const at = getNextMissionEventAt(mission);
+    return type && at !== null
+      ? [{ id: `mission:${mission.id}`, type, at, payload: { missionId: mission.id } } as GameEvent]
+      : [];
+  });
+
+/**
+ * Next moment an incoming fleet needs attention: entering sensor range, crossing a warning threshold or
+ * arriving at its target.
+ */
+export const collectIncomingEvents = (
+  incoming: IncomingMission[],
+  warningThresholds: number[],
+  sensorRange: number,
+): GameEvent[] =>
+  incoming.map((mission) => {
+    const warnings = mission.detected
+      ? warningThresholds
+          .filter((threshold) => !mission.warnedThresholds.includes(threshold))
+          .map((threshold) => mission.arrivalAt - threshold)
+      : [calculateDetectedAt(mission, sensorRange)];
+    return {
+      id: `incoming:${mission.id}`,
+      type: 'incomingAlert',
+      at: Math.min(mission.arrivalAt, ...warnings),
+      payload: { missionId: mission.id },
+    };
+  });
+
+/**
+ * Next launch of the stand-in hostile fleet generator, if one is scheduled.
+ */
+export const collectHostileLaunchEvents = (nextLaunchAt: number | null): GameEvent[] =>
+  nextLaunchAt === null ? [] : [{ id: 'hostile-launch', type: 'hostileLaunch', at: nextLaunchAt, payload: {} }];
@@ -0,0 +1,142 @@
+import { MISSION_ROLE_RULES } from '@/constants';
+import { FleetComposition, Mission, MissionStatus, MissionType, Resources, ResourceType } from '@/types';
+import { findBlueprint } from '@/lib/shipyard';
+import { getMissionTypeLabel, isMissionFinished } from '@/lib/missions';
+
+const RESOURCE_TYPES = Object.values(ResourceType) as ResourceType[];
+
+/**
+ * Removes zero and negative counts so compositions compare and persist cleanly.
+ */
+export const normalizeFleet = (fleet: FleetComposition): FleetComposition =>
+  Object.fromEntries(Object.entries(fleet).filter(([, count]) => count > 0));
+
+/**
+ * Total number of ships in a fleet.
+ */
+export const countShips = (fleet: FleetComposition) =>
+  Object.values(fleet).reduce((acc, count) => acc + Math.max(0, count), 0);
+
+/**
+ * Combined cargo capacity of all ships in a fleet.
+ */
+export const calculateFleetCargo = (fleet: FleetComposition) =>
+  Object.entries(fleet).reduce((acc, [blueprintId, count]) => {
+    const blueprint = findBlueprint(blueprintId);
+    return blueprint ? acc + blueprint.cargo * Math.max(0, count) : acc;
+  }, 0);
+
+/**
+ * Combined crew of all ships in a fleet.
+ */
+export const calculateFleetCrew = (fleet: FleetComposition) =>
+  Object.entries(fleet).reduce((acc, [blueprintId, count]) => {
+    const blueprint = findBlueprint(blueprintId);
+    return blueprint ? acc + blueprint.crew * Math.max(0, count) : acc;
+  }, 0);
+
+/**
+ * Total amount of a resource payload across all resource types.
+ */
+export const sumResources = (resources: Resources) =>
+  RESOURCE_TYPES.reduce((acc, resource) => acc + resources[resource], 0);
+
+/**
+ * Adds the ships of several fleets together.
+ */
+export const mergeFleets = (...fleets: FleetComposition[]): FleetComposition =>
+  normalizeFleet(
+    fleets.reduce<FleetComposition>((acc, fleet) => {
+      Object.entries(fleet).forEach(([blueprintId, count]) => {
+        acc[blueprintId] = (acc[blueprintId] ?? 0) + count;
+      });
+      return acc;
+    }, {}),
+  );
+
+/**
+ * Takes a fleet out of an inventory. Returns null when the inventory lacks any of the ships.
+ */
+export const detachFleet = (inventory: FleetComposition, fleet: FleetComposition): FleetComposition | null => {
+  const remaining = { ...inventory };
+  for (const [blueprintId, count] of Object.entries(normalizeFleet(fleet))) {
+    if ((remaining[blueprintId] ?? 0) < count) {
+      return null;
+    }
+    remaining[blueprintId] -= count;
+  }
+  return normalizeFleet(remaining);
+};
+
+/**
+ * Ships that are away on missions which have not returned yet.
+ */
+export const collectDeployedFleet = (missions: Pick<Mission, 'status' | 'fleet'>[]): FleetComposition =>
+  mergeFleets(
+    ...missions
+      .filter((mission) => !isMissionFinished(mission.status))
+      .map((mission) => mission.fleet),
+  );
+
+/**
+ * Ships stationed at friendly planets, grouped by the planet they protect.
+ */
+export const collectStationedFleets = (
+  missions: Pick<Mission, 'status' | 'fleet' | 'target'>[],
+): Record<string, FleetComposition> =>
+  missions
+    .filter((mission) => mission.status === MissionStatus.Stationiert)
+    .reduce<Record<string, FleetComposition>>((acc, mission) => {
+      acc[mission.target.planetId] = mergeFleets(acc[mission.target.planetId] ?? {}, mission.fleet);
+      return acc;
+    }, {});
+
+/**
+ * Checks a fleet against the hangar inventory and the role rules of the mission type.
+ * Returns player-facing problems; an empty list means the fleet may launch.
+ */
+export const validateFleet = (
+  type: MissionType,
+  fleet: FleetComposition,
+  inventory: FleetComposition,
+): string[] => {
+  const ships = normalizeFleet(fleet);
+  if (countShips(ships) === 0) {
+    return ['Wähle mindestens ein Schiff aus.'];
+  }
+  const issues: string[] = [];
+  if (!detachFleet(inventory, ships)) {
+    issues.push('Im Hangar liegen nicht genug Schiffe bereit.');
+  }
+  const rules = MISSION_ROLE_RULES[type];
+  const roles = Object.keys(ships).map((blueprintId) => findBlueprint(blueprintId)?.role);
+  const label = getMissionTypeLabel(type);
+  if (rules.required.length > 0 && !roles.some((role) => role && rules.required.includes(role))) {
+    issues.push(`${label} benötigt mindestens ein Schiff der Rolle ${rules.required.join(' oder ')}.`);
+  }
+  if (rules.allowed && roles.some((role) => !role || !rules.allowed?.includes(role))) {
+    issues.push(`${label} erlaubt nur Schiffe der Rolle ${rules.allowed.join(' oder ')}.`);
+  }
+  return issues;
+};
+
+/**
+ * Checks a resource payload against the mission type and the cargo capacity of the fleet.
+ */
+export const validateCargo = (type: MissionType, fleet: FleetComposition, cargo: Resources): string[] => {
+  const payload = sumResources(cargo);
+  if (payload === 0) {
+    return [];
+  }
+  if (RESOURCE_TYPES.some((resource) => cargo[resource] < 0)) {
+    return ['Ladungen können nicht negativ sein.'];
+  }
+  if (type !== MissionType.Transport) {
+    return ['Nur Transporte können Ressourcen mitnehmen.'];
+  }
+  const capacity = calculateFleetCargo(fleet);
+  if (payload > capacity) {
+    return [`Die Ladung übersteigt den Laderaum um ${(payload - capacity).toLocaleString('de-DE')} Einheiten.`];
+  }
+  return [];
+};
@@ -0,0 +1,86 @@
+import { BUILDINGS, RESEARCH } from '@/constants';
+import { FleetComposition, Resources, ResourceType, Storage } from '@/types';
+import { calculateStorageCapacity, createEmptyResources } from '@/lib/economy';
+import { normalizeFleet } from '@/lib/fleet';
+import { resolveModifiers } from '@/lib/modifiers';
+import { createRandom, hashSeed } from '@/lib/random';
+
+/**
+ * Simulated state of a planet that belongs to another commander.
+ */
+export interface ForeignPlanetProfile {
+  resources: Resources;
+  buildings: Record<string, number>;
+  research: Record<string, number>;
+  fleet: FleetComposition;
+  defences: FleetComposition;
+}
+
+/**
+ * Lasting changes to a foreign planet from battles and raids: the forces that survived and the stock that was
+ * left behind. They replace the derived values of the profile.
+ */
+export type ForeignPlanetState = Pick<ForeignPlanetProfile, 'resources' | 'fleet' | 'defences'>;
+
+const RESOURCE_TYPES = Object.values(ResourceType) as ResourceType[];
+
+/**
+ * Upper bounds of the mocked garrison per blueprint for a fully developed planet.
+ */
+const FLEET_LIMITS: Record<string, number> = {
+  spaeherdrohne: 4,
+  kohlenfrachter: 3,
+  sturmfregatte: 6,
+  aetherträger: 2,
+};
+
+const DEFENCE_LIMITS: Record<string, number> = {
+  dampfgeschuetz: 12,
+  teslaturm: 4,
+  aetherkuppel: 1,
+};
+
+const MAX_FOREIGN_BUILDING_LEVEL = 15;
+
+const MAX_FOREIGN_RESEARCH_LEVEL = 5;
+
+/**
+ * Derives a stable profile of a foreign planet from its id until the server delivers real data, with the
+ * recorded battle damage on top. Unowned planets hold neither stock nor forces.
+ */
+export const describeForeignPlanet = (
+  planetId: string,
+  ownerId?: string,
+  state?: ForeignPlanetState,
+): ForeignPlanetProfile => {
+  if (!ownerId) {
+    return { resources: createEmptyResources(), buildings: {}, research: {}, fleet: {}, defences: {} };
+  }
+  const random = createRandom(hashSeed(planetId));
+  const development = 0.2 + random() * 0.8;
+  const roll = (max: number) => Math.floor(random() * development * (max + 1));
+  const rollAll = (limits: Record<string, number>) =>
+    normalizeFleet(Object.fromEntries(Object.entries(limits).map(([id, max]) => [id, roll(max)])));
+
+  const resources = createEmptyResources();
+  RESOURCE_TYPES.forEach((resource) => {
+    resources[resource] = Math.floor((2_000 + random() * 18_000) * development);
+  });
+  const research = rollAll(
+    Object.fromEntries(Object.keys(RESEARCH).map((researchId) => [researchId, MAX_FOREIGN_RESEARCH_LEVEL])),
+  );
+
+  const fleet = rollAll(FLEET_LIMITS);
+  const defences = rollAll(DEFENCE_LIMITS);
+  const buildings = rollAll(
+    Object.fromEntries(Object.keys(BUILDINGS).map((buildingId) => [buildingId, MAX_FOREIGN_BUILDING_LEVEL])),
+  );
+
+  return { resources, buildings, research, fleet, defences, ...state };
+};
+
+/**
+ * Storage caps of a foreign planet, derived from its warehouses and research like those of an own colony.
+ */
+export const calculateForeignStorage = (profile: ForeignPlanetProfile): Storage =>
+  calculateStorageCapacity(profile.buildings, resolveModifiers(profile.research));
@@ -2,6 +2,23 @@ import { AxialCoordinates, GalaxyCoordinates } from '@/types';
 
 const HEX_HEIGHT = Math.sqrt(3);
 
+/**
+ * Number of axial steps a sector spans; systems of a sector sit on its diagonal.
+ */
+const SECTOR_SPAN = 5;
+
+/**
+ * Axial offsets of the six neighbours of a hex.
+ */
+const HEX_DIRECTIONS: AxialCoordinates[] = [
+  { q: 1, r: 0 },
+  { q: 1, r: -1 },
+  { q: 0, r: -1 },
+  { q: -1, r: 0 },
+  { q: -1, r: 1 },
+  { q: 0, r: 1 },
+];
+
 /**
  * Converts axial coordinates into pixel positions for a pointy-top hex layout.
  */
@@ -86,10 +103,24 @@ export const describeCoordinate = (coordinate: GalaxyCoordinates) =>
  * Returns an axial coordinate for the given sector and index in a simple deterministic layout.
  */
 export const deriveAxialFromIndex = (sectorQ: number, sectorR: number, sysIndex: number): AxialCoordinates => ({
-  q: sectorQ * 5 + sysIndex,
-  r: sectorR * 5 - sysIndex,
+  q: sectorQ * SECTOR_SPAN + sysIndex,
+  r: sectorR * SECTOR_SPAN - sysIndex,
 });
 
+/**
+ * Sector a hex belongs to; inverse of `deriveAxialFromIndex` for every system position.
+ */
+export const axialToSector = (axial: AxialCoordinates) => ({
+  sectorQ: Math.floor(axial.q / SECTOR_SPAN),
+  sectorR: Math.ceil(axial.r / SECTOR_SPAN),
+});
+
+/**
+ * The six hexes adjacent to an axial coordinate.
+ */
+export const getHexNeighbors = (axial: AxialCoordinates): AxialCoordinates[] =>
+  HEX_DIRECTIONS.map((direction) => ({ q: axial.q + direction.q, r: axial.r + direction.r }));
+
 /**
  * Calculates the grid distance between two axial coordinates using hex metrics.
  */
@@ -0,0 +1,87 @@
+import {
+  HOSTILE_ESPIONAGE_SHARE,
+  HOSTILE_MISSION_INTERVAL,
+  MISSION_ROLE_RULES,
+  SENSOR_BASE_RANGE,
+  SENSOR_RANGE_PER_LEVEL,
+  SENSOR_TYPE_REVEAL_LEVEL,
+} from '@/constants';
+import { FleetComposition, IncomingMission, MissionType } from '@/types';
+import { normalizeFleet, validateFleet } from '@/lib/fleet';
+import { RandomFn } from '@/lib/random';
+import { findBlueprint } from '@/lib/shipyard';
+
+/**
+ * Sensor range around own planets in hex steps for a level of Observatoriumsnetz.
+ */
+export const calculateSensorRange = (level = 0) => SENSOR_BASE_RANGE + Math.max(0, level) * SENSOR_RANGE_PER_LEVEL;
+
+/**
+ * Whether the sensors can tell what an incoming fleet is up to.
+ */
+export const isMissionTypeRevealed = (level = 0) => level >= SENSOR_TYPE_REVEAL_LEVEL;
+
+/**
+ * Moment an incoming fleet enters sensor range around its target, assuming a steady flight along the
+ * distance. Fleets that launch within range are seen right away.
+ */
+export const calculateDetectedAt = (
+  mission: Pick<IncomingMission, 'launchAt' | 'arrivalAt' | 'distance'>,
+  range: number,
+) => {
+  if (mission.distance <= range) {
+    return mission.launchAt;
+  }
+  return mission.arrivalAt - Math.round(((mission.arrivalAt - mission.launchAt) * range) / mission.distance);
+};
+
+/**
+ * Warning thresholds an incoming fleet has crossed and not been warned about yet, most urgent last.
+ * Thresholds are milliseconds before arrival.
+ */
+export const findDueWarnings = (thresholds: number[], warned: number[], remaining: number) =>
+  thresholds.filter((threshold) => remaining <= threshold && !warned.includes(threshold)).sort((a, b) => b - a);
+
+/**
+ * Cleans up user-defined warning thresholds: positive whole milliseconds, each once, most distant first.
+ */
+export const normalizeWarningThresholds = (thresholds: number[]) =>
+  [...new Set(thresholds.filter((threshold) => Number.isFinite(threshold) && threshold > 0).map(Math.round))].sort(
+    (a, b) => b - a,
+  );
+
+/**
+ * Time until the stand-in generator launches its next hostile fleet. Launches follow a Poisson process,
+ * so on average one fleet leaves per interval no matter how often the client looks.
+ */
+export const drawHostileLaunchDelay = (random: RandomFn = Math.random, interval = HOSTILE_MISSION_INTERVAL) =>
+  Math.max(1, Math.round(-Math.log(1 - random()) * interval));
+
+/**
+ * Mission type of a hostile fleet from the stand-in generator.
+ */
+export const pickHostileMissionType = (random: RandomFn = Math.random) =>
+  random() < HOSTILE_ESPIONAGE_SHARE ? MissionType.Spionage : MissionType.Angriff;
+
+/**
+ * Fleet a hostile commander sends out of a planet garrison: the given share of every ship the mission type
+ * allows. Returns null when the garrison cannot field a valid fleet.
+ */
+export const composeHostileFleet = (
+  garrison: FleetComposition,
+  type: MissionType,
+  share: number,
+): FleetComposition | null => {
+  const { allowed } = MISSION_ROLE_RULES[type];
+  const fleet = normalizeFleet(
+    Object.fromEntries(
+      Object.entries(garrison)
+        .filter(([blueprintId]) => {
+          const role = findBlueprint(blueprintId)?.role;
+          return !allowed || (role !== undefined && allowed.includes(role));
+        })
+        .map(([blueprintId, count]) => [blueprintId, Math.max(1, Math.round(count * share))]),
+    ),
+  );
+  return validateFleet(type, fleet, fleet).length === 0 ? fleet : null;
+};
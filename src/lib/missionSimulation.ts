@@ -0,0 +1,360 @@
+import {
+  AllianceOperation,
+  AxialCoordinates,
+  BattleReport,
+  ColonizationFailure,
+  Mission,
+  MissionStatus,
+  MissionType,
+  ResourceType,
+  Resources,
+} from '@/types';
+import { calculateReturnArrivalAt, getNextMissionEventAt } from '@/lib/missions';
+import { computeHexDistance } from '@/lib/hex';
+import { resolveModifiers } from '@/lib/modifiers';
+import { collectStationedFleets, countShips, mergeFleets, sumResources } from '@/lib/fleet';
+import { distributeSurvivors, recordBattleDamage, resolveAttack } from '@/lib/combat';
+import { EspionageResult, resolveEspionage } from '@/lib/espionage';
+import { createEmptyResources, splitDelivery } from '@/lib/economy';
+import { calculateColonyLimit, consumeColonyShip, findColonizationFailure } from '@/lib/colonization';
+import { ForeignPlanetState, calculateForeignStorage, describeForeignPlanet } from '@/lib/foreignPlanets';
+import { shareOperationLoot } from '@/lib/operations';
+import { findMissingResources } from '@/lib/progression';
+import { ColonyEconomy, EmpireEconomy, createColonyEconomy } from '@/lib/simulation';
+
+/**
+ * What mission resolution knows about a planet that missions start from or fly to.
+ */
+export interface MissionPlanet {
+  axial: AxialCoordinates;
+  ownerId?: string;
+  /** Whether the planet takes deliveries of the commander, e.g. planets of alliance members. */
+  acceptsTransports: boolean;
+}
+
+/**
+ * Read-only context of mission resolution: the commander, the alliance operations and every planet the
+ * missions touch.
+ */
+export interface MissionWorld {
+  commanderId: string;
+  allianceId?: string;
+  operations: AllianceOperation[];
+  planets: Record<string, MissionPlanet>;
+}
+
+/**
+ * Missions of the commander and the battle damage of foreign planets.
+ */
+export interface FleetSnapshot {
+  missions: Mission[];
+  foreignPlanets: Record<string, ForeignPlanetState>;
+}
+
+/**
+ * Mission that reached its target, together with what happened there.
+ */
+export interface MissionArrival {
+  mission: Mission;
+  /** Battle to report; later contingents of a joint attack share it without reporting it again. */
+  battle?: BattleReport;
+  intel?: EspionageResult;
+  delivery?: { accepted: Resources; overflow: Resources };
+  colonizationFailure?: ColonizationFailure;
+  /** The target became a colony of the commander, by settling or by conquest. */
+  claimed: boolean;
+}
+
+/**
+ * Everything that happened to the missions during one resolution, in order.
+ */
+export interface MissionResolution {
+  launched: Mission[];
+  /** Missions whose cargo was not in stock at launch; their ships went back to the hangar. */
+  aborted: Mission[];
+  arrivals: MissionArrival[];
+  returned: Mission[];
+}
+
+export interface MissionAdvance {
+  economy: EmpireEconomy;
+  inventory: Record<string, number>;
+  fleets: FleetSnapshot;
+  world: MissionWorld;
+  resolution: MissionResolution;
+}
+
+/**
+ * Earliest launch, arrival or return of the missions, or null when no fleet is under way.
+ */
+export const getNextFleetEventAt = (missions: Mission[]): number | null =>
+  missions.reduce<number | null>((earliest, mission) => {
+    const at = getNextMissionEventAt(mission);
+    return at !== null && (earliest === null || at < earliest) ? at : earliest;
+  }, null);
+
+/**
+ * Concatenates resolutions of consecutive passes.
+ */
+export const mergeMissionResolutions = (...resolutions: MissionResolution[]): MissionResolution => ({
+  launched: resolutions.flatMap((resolution) => resolution.launched),
+  aborted: resolutions.flatMap((resolution) => resolution.aborted),
+  arrivals: resolutions.flatMap((resolution) => resolution.arrivals),
+  returned: resolutions.flatMap((resolution) => resolution.returned),
+});
+
+const RESOURCE_TYPES = Object.values(ResourceType) as ResourceType[];
+
+const addStock = (stock: Resources, amount: Resources, sign: 1 | -1): Resources =>
+  RESOURCE_TYPES.reduce<Resources>(
+    (next, resource) => ({ ...next, [resource]: stock[resource] + sign * amount[resource] }),
+    { ...stock },
+  );
+
+/**
+ * Travel distance of a mission in hex steps. The return leg follows the stored route; missions planned before
+ * routes existed fall back to the straight distance.
+ */
+const resolveMissionDistance = (mission: Mission, planets: Record<string, MissionPlanet>) => {
+  if (mission.route) {
+    return mission.route.cost;
+  }
+  const origin = planets[mission.origin.planetId];
+  const target = planets[mission.target.planetId];
+  return origin && target ? computeHexDistance(origin.axial, target.axial) : 0;
+};
+
+/**
+ * Launches, lands and brings home every mission whose next step is due at the timestamp. The economy is
+ * expected to be settled up to that moment: cargo leaves the origin stock at launch, deliveries and returned
+ * cargo land on top of the stock of that very moment, and returning ships go back to the hangar.
+ */
+export const resolveMissions = (
+  economy: EmpireEconomy,
+  inventory: Record<string, number>,
+  fleets: FleetSnapshot,
+  world: MissionWorld,
+  timestamp: number,
+): MissionAdvance => {
+  const modifiers = resolveModifiers(economy.research);
+  const colonies: Record<string, ColonyEconomy> = { ...economy.colonies };
+  const planets = { ...world.planets };
+  const foreignPlanets = { ...fleets.foreignPlanets };
+  const missions = fleets.missions.map((mission) => ({ ...mission }));
+  const colonyLimit = calculateColonyLimit(economy.research.himmelsmechanik ?? 0);
+  const operationBattles = new Map<string, BattleReport>();
+  const resolution: MissionResolution = { launched: [], aborted: [], arrivals: [], returned: [] };
+  let hangar = inventory;
+
+  const changeStock = (planetId: string, amount: Resources, sign: 1 | -1) => {
+    const colony = colonies[planetId];
+    if (colony) {
+      colonies[planetId] = { ...colony, resources: addStock(colony.resources, amount, sign) };
+    }
+  };
+
+  const bringHome = (mission: Mission) => {
+    hangar = mergeFleets(hangar, mission.fleet);
+    if (mission.cargo) {
+      changeStock(mission.origin.planetId, mission.cargo, 1);
+    }
+    resolution.returned.push({ ...mission });
+  };
+
+  const resolveDepot = (planetId: string) => {
+    const colony = colonies[planetId];
+    if (colony) {
+      return { stock: colony.resources, storage: colony.storage };
+    }
+    const planet = planets[planetId];
+    if (!planet?.acceptsTransports) {
+      return null;
+    }
+    const profile = describeForeignPlanet(planetId, planet.ownerId);
+    return { stock: profile.resources, storage: calculateForeignStorage(profile) };
+  };
+
+  const arrive = (mission: Mission): MissionArrival => {
+    const { planetId } = mission.target;
+    const arrival: MissionArrival = { mission, claimed: false };
+    mission.status = MissionStatus.Rueckkehr;
+    mission.returnArrivalAt = calculateReturnArrivalAt(
+      mission.arrivalAt,
+      resolveMissionDistance(mission, planets),
+      mission.type,
+      modifiers,
+    );
+    if (mission.type === MissionType.Angriff) {
+      const jointBattle = mission.operationId ? operationBattles.get(mission.operationId) : undefined;
+      if (jointBattle) {
+        // Later contingents of an operation share the battle fought when the first one arrived.
+        mission.battle = jointBattle;
+      } else {
+        // Stationed fleets of the attacker never defend against their own commander.
+        const garrisons = missions.filter(
+          (entry) =>
+            entry.status === MissionStatus.Stationiert &&
+            entry.target.planetId === planetId &&
+            entry.commanderId !== mission.commanderId,
+        );
+        // Contingents of an operation landing in this pass attack as one, joined by the announced allied
+        // fleets when they arrive on schedule.
+        const operation = world.operations.find((entry) => entry.id === mission.operationId);
+        const contingents = operation
+          ? missions.filter(
+              (entry) =>
+                entry.id === mission.id ||
+                (entry.operationId === operation.id &&
+                  (entry.status === MissionStatus.Geplant || entry.status === MissionStatus.Unterwegs) &&
+                  timestamp >= entry.arrivalAt),
+            )
+          : [mission];
+        const allied =
+          operation && operation.arrivalAt === mission.arrivalAt
+            ? operation.participants.filter((participant) => !participant.missionId)
+            : [];
+        const targetOwnerId = planets[planetId]?.ownerId;
+        const targetState = foreignPlanets[planetId];
+        const battle = resolveAttack({
+          missionId: operation?.id ?? mission.id,
+          attackerId: mission.commanderId,
+          fleet: mergeFleets(...contingents.map((entry) => entry.fleet), ...allied.map((entry) => entry.fleet)),
+          modifiers,
+          targetPlanetId: planetId,
+          targetOwnerId,
+          targetState,
+          stationed: collectStationedFleets(garrisons)[planetId],
+        });
+        // Conquered planets join the empire; every other target keeps its losses for the next attack.
+        if (battle.conquered || !targetOwnerId) {
+          delete foreignPlanets[planetId];
+        } else {
+          foreignPlanets[planetId] = recordBattleDamage(
+            describeForeignPlanet(planetId, targetOwnerId, targetState),
+            battle,
+          );
+        }
+        // Stationed fleets fight alongside the planet and share its losses.
+        garrisons.forEach((garrison) => {
+          garrison.fleet = distributeSurvivors(garrison.fleet, battle.defender);
+          if (countShips(garrison.fleet) === 0) {
+            garrison.status = MissionStatus.Abgeschlossen;
+          }
+        });
+        if (operation) {
+          operationBattles.set(operation.id, battle);
+        }
+        mission.battle = battle;
+        arrival.battle = battle;
+      }
+      // Losses are permanent: only survivors fly home, carrying their share of the loot.
+      const { attacker, loot } = mission.battle;
+      const survivors = distributeSurvivors(mission.fleet, attacker);
+      const share = shareOperationLoot(loot, survivors, attacker.survivors);
+      mission.fleet = survivors;
+      mission.cargo = sumResources(share) > 0 ? share : undefined;
+      if (countShips(mission.fleet) === 0) {
+        mission.status = MissionStatus.Abgeschlossen;
+      }
+    }
+    if (mission.type === MissionType.Spionage) {
+      const intel = resolveEspionage({
+        missionId: mission.id,
+        fleet: { ...mission.fleet },
+        research: economy.research,
+        targetPlanetId: planetId,
+        targetOwnerId: planets[planetId]?.ownerId,
+        targetState: foreignPlanets[planetId],
+      });
+      arrival.intel = intel;
+      // Detected probes are shot down, but their findings were transmitted beforehand.
+      if (intel.detected) {
+        mission.fleet = {};
+        mission.status = MissionStatus.Abgeschlossen;
+      }
+    }
+    // Stationed fleets stay at the target until they are withdrawn; withdrawals land in the hangar.
+    if (mission.type === MissionType.Stationierung) {
+      mission.status = mission.withdrawal ? MissionStatus.Zurueckgekehrt : MissionStatus.Stationiert;
+      mission.returnArrivalAt = undefined;
+      if (mission.withdrawal) {
+        bringHome(mission);
+      }
+    }
+    if (mission.type === MissionType.Kolonisierung) {
+      const failure = findColonizationFailure(planets[planetId]?.ownerId, Object.keys(colonies).length, colonyLimit);
+      if (failure) {
+        arrival.colonizationFailure = failure;
+      } else {
+        // The colony ship becomes the first settlement; escorts fly home.
+        mission.fleet = consumeColonyShip(mission.fleet);
+        if (countShips(mission.fleet) === 0) {
+          mission.status = MissionStatus.Abgeschlossen;
+        }
+      }
+    }
+    if ((mission.type === MissionType.Kolonisierung && !arrival.colonizationFailure) || mission.battle?.conquered) {
+      // Contingents of a joint attack share the conquest; only the first one claims the planet.
+      arrival.claimed = planets[planetId]?.ownerId !== world.commanderId;
+      mission.target = { ...mission.target, ownerId: world.commanderId, allianceId: world.allianceId };
+      planets[planetId] = { ...planets[planetId], ownerId: world.commanderId, acceptsTransports: true };
+      if (!colonies[planetId]) {
+        colonies[planetId] = createColonyEconomy(undefined, undefined, modifiers);
+      }
+    }
+    // Deliveries fill the free storage of the target; whatever does not fit travels back with the fleet.
+    if (mission.type === MissionType.Transport && mission.cargo) {
+      const depot = resolveDepot(planetId);
+      const { accepted, overflow } = depot
+        ? splitDelivery(depot.stock, depot.storage, mission.cargo)
+        : { accepted: createEmptyResources(), overflow: { ...mission.cargo } };
+      // Allied planets are simulated, so only deliveries to own colonies change a stock.
+      changeStock(planetId, accepted, 1);
+      arrival.delivery = { accepted, overflow };
+      mission.cargo = sumResources(overflow) > 0 ? overflow : undefined;
+    }
+    return arrival;
+  };
+
+  missions.forEach((mission) => {
+    if (mission.status === MissionStatus.Geplant && timestamp >= mission.launchAt) {
+      const origin = colonies[mission.origin.planetId];
+      // Cargo leaves the origin stock at launch, so scheduled missions keep it available until then.
+      if (mission.cargo && (!origin || findMissingResources(origin.resources, mission.cargo).length > 0)) {
+        mission.status = MissionStatus.Abgebrochen;
+        mission.cancelledAt = mission.launchAt;
+        hangar = mergeFleets(hangar, mission.fleet);
+        resolution.aborted.push({ ...mission });
+        return;
+      }
+      if (mission.cargo) {
+        changeStock(mission.origin.planetId, mission.cargo, -1);
+      }
+      mission.status = MissionStatus.Unterwegs;
+      // Fleets that also land in this pass are reported by their arrival only.
+      if (timestamp < mission.arrivalAt) {
+        resolution.launched.push({ ...mission });
+      }
+    }
+    if (mission.status === MissionStatus.Unterwegs && timestamp >= mission.arrivalAt) {
+      const arrival = arrive(mission);
+      resolution.arrivals.push({ ...arrival, mission: { ...mission } });
+    }
+    if (
+      mission.status === MissionStatus.Rueckkehr &&
+      mission.returnArrivalAt !== undefined &&
+      timestamp >= mission.returnArrivalAt
+    ) {
+      mission.status = MissionStatus.Zurueckgekehrt;
+      bringHome(mission);
+    }
+  });
+
+  return {
+    economy: { ...economy, colonies },
+    inventory: hangar,
+    fleets: { missions, foreignPlanets },
+    world: { ...world, planets },
+    resolution,
+  };
+};
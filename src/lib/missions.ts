@@ -1,5 +1,6 @@
 import { MISSION_MIN_TRAVEL_TIME, MISSION_PREPARATION_TIME, MISSION_TRAVEL_TIME_PER_HEX } from '@/constants';
-import { MissionType } from '@/types';
+import { Mission, MissionStatus, MissionTiming, MissionType } from '@/types';
+import { Modifiers, NEUTRAL_MODIFIERS } from '@/lib/modifiers';
 
 /**
  * Human readable labels for the different mission archetypes.
@@ -18,20 +19,70 @@ const MISSION_LABELS: Record<MissionType, string> = {
 export const getMissionTypeLabel = (type: MissionType) => MISSION_LABELS[type];
 
 /**
- * Calculates the travel duration for a mission based on the traversed hex distance.
+ * Human readable labels for the mission lifecycle.
  */
-export const calculateMissionTravelDuration = (distance: number, type: MissionType) => {
+const MISSION_STATUS_LABELS: Record<MissionStatus, string> = {
+  [MissionStatus.Geplant]: 'Vorbereitung',
+  [MissionStatus.Unterwegs]: 'Unterwegs',
+  [MissionStatus.Rueckkehr]: 'Rückkehr',
+  [MissionStatus.Zurueckgekehrt]: 'Zurückgekehrt',
+  [MissionStatus.Stationiert]: 'Stationiert',
+  [MissionStatus.Abgeschlossen]: 'Abgeschlossen',
+  [MissionStatus.Abgebrochen]: 'Abgebrochen',
+};
+
+/**
+ * Returns the localized label for a mission status.
+ */
+export const getMissionStatusLabel = (status: MissionStatus) => MISSION_STATUS_LABELS[status];
+
+/**
+ * Calculates the travel duration for a mission based on the traversed hex distance and the travel time modifier.
+ */
+export const calculateMissionTravelDuration = (
+  distance: number,
+  type: MissionType,
+  modifiers: Modifiers = NEUTRAL_MODIFIERS,
+) => {
   const perHex = MISSION_TRAVEL_TIME_PER_HEX[type] ?? MISSION_TRAVEL_TIME_PER_HEX[MissionType.Transport];
-  const scaled = Math.round(distance * perHex);
+  const scaled = Math.round(distance * perHex * modifiers.travelTime);
   return Math.max(MISSION_MIN_TRAVEL_TIME, scaled);
 };
 
 /**
- * Derives mission scheduling timestamps from the mission type and computed distance.
+ * Launch time for a departure request. Without a request the fleet leaves once preparation ends;
+ * arrival requests launch one travel duration ahead of the requested arrival.
  */
-export const buildMissionSchedule = (type: MissionType, distance: number, now: number) => {
-  const travelDuration = calculateMissionTravelDuration(distance, type);
-  const launchAt = now + MISSION_PREPARATION_TIME;
+export const resolveLaunchAt = (now: number, travelDuration: number, timing?: MissionTiming) => {
+  if (!timing) {
+    return now + MISSION_PREPARATION_TIME;
+  }
+  return timing.mode === 'launch' ? timing.at : timing.at - travelDuration;
+};
+
+/**
+ * Validates that a launch leaves enough time to prepare the fleet.
+ */
+export const validateLaunchAt = (launchAt: number, now: number): string[] => {
+  if (launchAt >= now + MISSION_PREPARATION_TIME) {
+    return [];
+  }
+  const minutes = Math.round(MISSION_PREPARATION_TIME / 60000);
+  return [`Die Flotte braucht ${minutes} Min. Vorbereitung, der Start muss später liegen.`];
+};
+
+/**
+ * Derives mission scheduling timestamps from the mission type, computed distance and departure request.
+ */
+export const buildMissionSchedule = (
+  type: MissionType,
+  distance: number,
+  now: number,
+  modifiers: Modifiers = NEUTRAL_MODIFIERS,
+  timing?: MissionTiming,
+) => {
+  const travelDuration = calculateMissionTravelDuration(distance, type, modifiers);
+  const launchAt = resolveLaunchAt(now, travelDuration, timing);
   return {
     plannedAt: now,
     launchAt,
@@ -39,3 +90,80 @@ export const buildMissionSchedule = (type: MissionType, distance: number, now: n
     travelDuration,
   };
 };
+
+/**
+ * Whether a mission has ended, either with the fleet back in the hangar, lost at the target or
+ * cancelled before launch.
+ */
+export const isMissionFinished = (status: MissionStatus) =>
+  status === MissionStatus.Zurueckgekehrt ||
+  status === MissionStatus.Abgeschlossen ||
+  status === MissionStatus.Abgebrochen;
+
+/**
+ * Timestamp at which a fleet is back home after reaching its target. The return leg covers the same
+ * distance as the outbound one.
+ */
+export const calculateReturnArrivalAt = (
+  arrivalAt: number,
+  distance: number,
+  type: MissionType,
+  modifiers: Modifiers = NEUTRAL_MODIFIERS,
+) => arrivalAt + calculateMissionTravelDuration(distance, type, modifiers);
+
+/**
+ * Timestamp at which a recalled fleet is back home: turning around takes as long as the distance
+ * already covered. Returns null when the fleet is not en route or has already reached its target.
+ */
+export const calculateRecallArrivalAt = (
+  mission: Pick<Mission, 'status' | 'launchAt' | 'arrivalAt'>,
+  timestamp: number,
+) => {
+  if (mission.status !== MissionStatus.Unterwegs || timestamp >= mission.arrivalAt) {
+    return null;
+  }
+  const elapsed = Math.max(0, timestamp - mission.launchAt);
+  return timestamp + elapsed;
+};
+
+const clampShare = (elapsed: number, duration: number) =>
+  duration > 0 ? Math.min(1, Math.max(0, elapsed / duration)) : 1;
+
+/**
+ * Share of the route between origin (0) and target (1) a fleet has covered. Returning fleets head back
+ * from the target, or from the point where they were recalled. Returns null when no fleet is under way.
+ */
+export const calculateRouteProgress = (
+  mission: Pick<Mission, 'status' | 'launchAt' | 'arrivalAt' | 'returnArrivalAt' | 'recalledAt'>,
+  timestamp: number,
+) => {
+  const outboundDuration = mission.arrivalAt - mission.launchAt;
+  if (mission.status === MissionStatus.Unterwegs) {
+    return clampShare(timestamp - mission.launchAt, outboundDuration);
+  }
+  if (mission.status !== MissionStatus.Rueckkehr || mission.returnArrivalAt === undefined) {
+    return null;
+  }
+  const turnedAt = mission.recalledAt ?? mission.arrivalAt;
+  const turningPoint = clampShare(turnedAt - mission.launchAt, outboundDuration);
+  return turningPoint * (1 - clampShare(timestamp - turnedAt, mission.returnArrivalAt - turnedAt));
+};
+
+/**
+ * Timestamp of the next step in a mission's lifecycle: launch, arrival or return. Returns null once the
+ * fleet has nothing left to do.
+ */
+export const getNextMissionEventAt = (
+  mission: Pick<Mission, 'status' | 'launchAt' | 'arrivalAt' | 'returnArrivalAt'>,
+): number | null => {
+  switch (mission.status) {
+    case MissionStatus.Geplant:
+      return mission.launchAt;
+    case MissionStatus.Unterwegs:
+      return mission.arrivalAt;
+    case MissionStatus.Rueckkehr:
+      return mission.returnArrivalAt ?? null;
+    default:
+      return null;
+  }
+};
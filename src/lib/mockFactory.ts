@@ -8,6 +8,7 @@ import {
   Player,
 } from '@/types';
 import { createGalaxyCoordinate } from '@/lib/hex';
+import { createRandom, RandomFn } from '@/lib/random';
 
 interface UniverseSeedOptions {
   allianceCount?: number;
@@ -16,8 +17,6 @@ interface UniverseSeedOptions {
   systemHeight?: number;
 }
 
-type RandomFn = () => number;
-
 const PALETTE = ['#facc15', '#f97316', '#38bdf8', '#a855f7', '#34d399', '#f472b6', '#22d3ee', '#f87171'];
 const ALLIANCE_NAMES = [
   ['AER', 'Ätherische Expeditionäre'],
@@ -78,17 +77,6 @@ const PLANET_NAMES = [
   'Sable Crest',
 ];
 
-/**
- * Deterministic linear congruential generator to keep mock data stable across reloads.
- */
-const createRandom = (seed: number): RandomFn => {
-  let state = seed >>> 0;
-  return () => {
-    state = (1664525 * state + 1013904223) % 0xffffffff;
-    return state / 0xffffffff;
-  };
-};
-
 /**
  * Picks an entry from a list using the provided random function.
  */
@@ -0,0 +1,115 @@
+import { RESEARCH } from '@/constants';
+import { ModifierTarget, ResearchEffect, ResourceType, Resources } from '@/types';
+
+/**
+ * Multiplicative factors derived from the research levels of a player.
+ * A factor of 1 leaves a formula unchanged; production factors are tracked per resource.
+ */
+export interface Modifiers {
+  production: Resources;
+  energySupply: number;
+  energyConsumption: number;
+  storageCapacity: number;
+  buildTime: number;
+  researchTime: number;
+  travelTime: number;
+  attack: number;
+  shield: number;
+  hull: number;
+  espionage: number;
+}
+
+type ScalarTarget = Exclude<ModifierTarget, ModifierTarget.Production>;
+
+/**
+ * Lower bound for every factor so stacked reductions never reach zero durations or negative values.
+ */
+export const MIN_MODIFIER_FACTOR = 0.1;
+
+const RESOURCE_TYPES = Object.values(ResourceType) as ResourceType[];
+
+const SCALAR_TARGETS = (Object.values(ModifierTarget) as ModifierTarget[]).filter(
+  (target): target is ScalarTarget => target !== ModifierTarget.Production,
+);
+
+const toFactor = (percent: number) => Math.max(MIN_MODIFIER_FACTOR, 1 + percent / 100);
+
+/**
+ * Modifier set without any research, used as default by all formulas.
+ */
+export const NEUTRAL_MODIFIERS: Modifiers = {
+  production: {
+    [ResourceType.Orichalkum]: 1,
+    [ResourceType.Fokuskristalle]: 1,
+    [ResourceType.Vitriol]: 1,
+  },
+  energySupply: 1,
+  energyConsumption: 1,
+  storageCapacity: 1,
+  buildTime: 1,
+  researchTime: 1,
+  travelTime: 1,
+  attack: 1,
+  shield: 1,
+  hull: 1,
+  espionage: 1,
+};
+
+/**
+ * Aggregates the effects of all researched topics into one modifier set.
+ * Percentages of the same target add up linearly before they are turned into a factor.
+ */
+export const resolveModifiers = (researchLevels: Record<string, number>): Modifiers => {
+  const scalarPercent = Object.fromEntries(SCALAR_TARGETS.map((target) => [target, 0])) as Record<ScalarTarget, number>;
+  const productionPercent = Object.fromEntries(RESOURCE_TYPES.map((resource) => [resource, 0])) as Resources;
+
+  Object.values(RESEARCH).forEach((research) => {
+    const level = researchLevels[research.id] || 0;
+    if (level <= 0 || !research.effects) {
+      return;
+    }
+    research.effects.forEach((effect) => {
+      const percent = effect.percentPerLevel * level;
+      if (effect.target === ModifierTarget.Production) {
+        const resources = effect.resource ? [effect.resource] : RESOURCE_TYPES;
+        resources.forEach((resource) => {
+          productionPercent[resource] += percent;
+        });
+        return;
+      }
+      scalarPercent[effect.target] += percent;
+    });
+  });
+
+  const modifiers = { ...NEUTRAL_MODIFIERS, production: { ...NEUTRAL_MODIFIERS.production } };
+  RESOURCE_TYPES.forEach((resource) => {
+    modifiers.production[resource] = toFactor(productionPercent[resource]);
+  });
+  SCALAR_TARGETS.forEach((target) => {
+    modifiers[target] = toFactor(scalarPercent[target]);
+  });
+  return modifiers;
+};
+
+const TARGET_LABELS: Record<ModifierTarget, string> = {
+  [ModifierTarget.Production]: 'Produktion',
+  [ModifierTarget.EnergySupply]: 'Kesseldruck-Erzeugung',
+  [ModifierTarget.EnergyConsumption]: 'Kesseldruck-Verbrauch',
+  [ModifierTarget.StorageCapacity]: 'Lagerkapazität',
+  [ModifierTarget.BuildTime]: 'Bauzeit',
+  [ModifierTarget.ResearchTime]: 'Forschungszeit',
+  [ModifierTarget.TravelTime]: 'Reisezeit',
+  [ModifierTarget.Attack]: 'Angriff',
+  [ModifierTarget.Shield]: 'Schilde',
+  [ModifierTarget.Hull]: 'Hülle',
+  [ModifierTarget.Espionage]: 'Spionage',
+};
+
+/**
+ * Formats a research effect as a short player-facing label, e.g. "Reisezeit −4 % pro Stufe".
+ */
+export const describeResearchEffect = (effect: ResearchEffect): string => {
+  const target = effect.resource ? `${effect.resource}-${TARGET_LABELS[effect.target]}` : TARGET_LABELS[effect.target];
+  const sign = effect.percentPerLevel >= 0 ? '+' : '−';
+  return `${target} ${sign}${Math.abs(effect.percentPerLevel)} % pro Stufe`;
+};
@@ -0,0 +1,105 @@
+import {
+  MISSION_MIN_TRAVEL_TIME,
+  MISSION_PREPARATION_TIME,
+  OPERATION_COMMIT_CHANCE,
+  OPERATION_FLEET_SHARE,
+} from '@/constants';
+import {
+  FleetComposition,
+  Mission,
+  MissionStatus,
+  MissionType,
+  OperationParticipant,
+  Resources,
+  ResourceType,
+} from '@/types';
+import { calculateFleetCargo, normalizeFleet, validateFleet } from '@/lib/fleet';
+import { describeForeignPlanet } from '@/lib/foreignPlanets';
+import { createRandom, hashSeed } from '@/lib/random';
+
+/**
+ * Standing of a participant in the operation roster.
+ */
+export type ParticipantReadiness = 'ready' | 'launched' | 'offSchedule' | 'withdrawn';
+
+const READINESS_LABELS: Record<ParticipantReadiness, string> = {
+  ready: 'Startbereit',
+  launched: 'Gestartet',
+  offSchedule: 'Abweichende Ankunft',
+  withdrawn: 'Zurückgezogen',
+};
+
+const RESOURCE_TYPES = Object.values(ResourceType) as ResourceType[];
+
+/**
+ * Returns the localized label for a participant's readiness.
+ */
+export const getReadinessLabel = (readiness: ParticipantReadiness) => READINESS_LABELS[readiness];
+
+/**
+ * Validates the arrival time of a new operation: it has to leave room to prepare and fly at least the
+ * shortest route.
+ */
+export const validateOperationArrival = (arrivalAt: number, now: number): string[] =>
+  arrivalAt >= now + MISSION_PREPARATION_TIME + MISSION_MIN_TRAVEL_TIME
+    ? []
+    : ['Die Ankunft liegt zu früh, um Flotten vorzubereiten und zu entsenden.'];
+
+/**
+ * Readiness of a participant. Own commitments follow their mission: cancelled or recalled missions are
+ * withdrawn and rescheduled ones no longer land with the others. Announced commitments launch on time.
+ */
+export const getParticipantReadiness = (
+  participant: Pick<OperationParticipant, 'launchAt' | 'missionId'>,
+  arrivalAt: number,
+  mission: Pick<Mission, 'status' | 'arrivalAt' | 'recalledAt'> | undefined,
+  now: number,
+): ParticipantReadiness => {
+  if (!participant.missionId) {
+    return now < participant.launchAt ? 'ready' : 'launched';
+  }
+  if (!mission || mission.status === MissionStatus.Abgebrochen || mission.recalledAt !== undefined) {
+    return 'withdrawn';
+  }
+  if (mission.arrivalAt !== arrivalAt) {
+    return 'offSchedule';
+  }
+  return mission.status === MissionStatus.Geplant ? 'ready' : 'launched';
+};
+
+/**
+ * Fleet an allied member commits to an operation, taken from the simulated garrison of its planet until
+ * the server delivers real commitments. Returns null when the member stays out or has no attack ships.
+ */
+export const simulateMemberCommitment = (
+  operationId: string,
+  memberId: string,
+  originPlanetId: string,
+): FleetComposition | null => {
+  const random = createRandom(hashSeed(`${operationId}:${memberId}`));
+  if (random() >= OPERATION_COMMIT_CHANCE) {
+    return null;
+  }
+  const share = OPERATION_FLEET_SHARE.min + random() * (OPERATION_FLEET_SHARE.max - OPERATION_FLEET_SHARE.min);
+  const { fleet } = describeForeignPlanet(originPlanetId, memberId);
+  const committed = normalizeFleet(
+    Object.fromEntries(Object.entries(fleet).map(([blueprintId, count]) => [blueprintId, Math.round(count * share)])),
+  );
+  return validateFleet(MissionType.Angriff, committed, committed).length === 0 ? committed : null;
+};
+
+/**
+ * Part of a joint battle's loot one contingent carries home, in proportion to its share of the surviving
+ * cargo space.
+ */
+export const shareOperationLoot = (
+  loot: Resources,
+  survivors: FleetComposition,
+  allSurvivors: FleetComposition,
+): Resources => {
+  const capacity = calculateFleetCargo(allSurvivors);
+  const share = capacity > 0 ? calculateFleetCargo(survivors) / capacity : 0;
+  return Object.fromEntries(
+    RESOURCE_TYPES.map((resource) => [resource, Math.floor(loot[resource] * share)]),
+  ) as Resources;
+};
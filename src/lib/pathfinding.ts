@@ -0,0 +1,166 @@
+import { MAX_ROUTE_DETOUR } from '@/constants';
+import { AxialCoordinates, GalaxySystem, MissionRoute, PlanetBiome, TerrainCostConfig } from '@/types';
+import { axialToSector, computeHexDistance, getHexNeighbors } from '@/lib/hex';
+
+/**
+ * Cost of entering a hex, in hex steps. Values below one are treated as one.
+ */
+export type TerrainCostFn = (axial: AxialCoordinates) => number;
+
+interface QueueEntry {
+  axial: AxialCoordinates;
+  cost: number;
+  estimate: number;
+  remaining: number;
+}
+
+const UNIFORM_TERRAIN: TerrainCostFn = () => 1;
+
+const toKey = (axial: AxialCoordinates) => `${axial.q},${axial.r}`;
+
+// Lower estimates first; on ties prefer entries closer to the goal to keep the search narrow.
+const isBefore = (a: QueueEntry, b: QueueEntry) =>
+  a.estimate < b.estimate || (a.estimate === b.estimate && a.remaining < b.remaining);
+
+const pushEntry = (heap: QueueEntry[], entry: QueueEntry) => {
+  heap.push(entry);
+  let index = heap.length - 1;
+  while (index > 0) {
+    const parent = (index - 1) >> 1;
+    if (!isBefore(heap[index], heap[parent])) {
+      break;
+    }
+    [heap[index], heap[parent]] = [heap[parent], heap[index]];
+    index = parent;
+  }
+};
+
+const popEntry = (heap: QueueEntry[]): QueueEntry | undefined => {
+  const top = heap[0];
+  const last = heap.pop();
+  if (heap.length === 0 || !last) {
+    return top;
+  }
+  heap[0] = last;
+  let index = 0;
+  for (;;) {
+    const left = index * 2 + 1;
+    const right = left + 1;
+    let smallest = index;
+    if (left < heap.length && isBefore(heap[left], heap[smallest])) {
+      smallest = left;
+    }
+    if (right < heap.length && isBefore(heap[right], heap[smallest])) {
+      smallest = right;
+    }
+    if (smallest === index) {
+      return top;
+    }
+    [heap[index], heap[smallest]] = [heap[smallest], heap[index]];
+    index = smallest;
+  }
+};
+
+const findDominantBiome = (system: Pick<GalaxySystem, 'planets'>) => {
+  const counts = new Map<PlanetBiome, number>();
+  system.planets.forEach((planet) => counts.set(planet.biome, (counts.get(planet.biome) ?? 0) + 1));
+  let dominant: PlanetBiome | undefined;
+  let best = 0;
+  counts.forEach((count, biome) => {
+    if (count > best) {
+      dominant = biome;
+      best = count;
+    }
+  });
+  return dominant;
+};
+
+/**
+ * Builds the terrain cost of the galaxy: system hexes are weighted by their dominant biome and every hex
+ * of a nebula sector by the sector penalty. Both multiply when they overlap.
+ */
+export const buildTerrainCost = (
+  systems: Pick<GalaxySystem, 'axial' | 'planets'>[],
+  config: TerrainCostConfig,
+): TerrainCostFn => {
+  const systemCosts = new Map<string, number>();
+  systems.forEach((system) => {
+    const biome = findDominantBiome(system);
+    const cost = biome ? config.biomes?.[biome] : undefined;
+    if (cost) {
+      systemCosts.set(toKey(system.axial), cost);
+    }
+  });
+  return (axial) => {
+    const { sectorQ, sectorR } = axialToSector(axial);
+    const nebula = config.sectors?.[`${sectorQ}:${sectorR}`] ?? 1;
+    return (systemCosts.get(toKey(axial)) ?? 1) * nebula;
+  };
+};
+
+/**
+ * Finds the cheapest route between two hexes with A*. Entering a hex costs its terrain value, so on
+ * uniform terrain the route is as long as the straight hex distance. The search stays within
+ * `maxDetour` extra steps of the straight line, which always contains a valid route.
+ */
+export const findHexRoute = (
+  from: AxialCoordinates,
+  to: AxialCoordinates,
+  terrainCost: TerrainCostFn = UNIFORM_TERRAIN,
+  maxDetour = MAX_ROUTE_DETOUR,
+): MissionRoute => {
+  const straight = computeHexDistance(from, to);
+  const startKey = toKey(from);
+  const goalKey = toKey(to);
+  const costs = new Map<string, number>([[startKey, 0]]);
+  const previous = new Map<string, AxialCoordinates>();
+  const open: QueueEntry[] = [];
+  pushEntry(open, { axial: from, cost: 0, estimate: straight, remaining: straight });
+
+  for (let entry = popEntry(open); entry; entry = popEntry(open)) {
+    const key = toKey(entry.axial);
+    if (key === goalKey) {
+      break;
+    }
+    if (entry.cost > (costs.get(key) ?? Infinity)) {
+      continue;
+    }
+    getHexNeighbors(entry.axial).forEach((neighbor) => {
+      const remaining = computeHexDistance(neighbor, to);
+      if (computeHexDistance(from, neighbor) + remaining > straight + maxDetour) {
+        return;
+      }
+      const neighborKey = toKey(neighbor);
+      const cost = entry.cost + Math.max(1, terrainCost(neighbor));
+      if (cost < (costs.get(neighborKey) ?? Infinity)) {
+        costs.set(neighborKey, cost);
+        previous.set(neighborKey, entry.axial);
+        pushEntry(open, { axial: neighbor, cost, estimate: cost + remaining, remaining });
+      }
+    });
+  }
+
+  const path = [to];
+  for (let cursor = previous.get(goalKey); cursor; cursor = previous.get(toKey(cursor))) {
+    path.push(cursor);
+  }
+  return { path: path.reverse(), cost: costs.get(goalKey) ?? 0 };
+};
+
+/**
+ * Position along a route for a progress between 0 (origin) and 1 (target), interpolated between hexes.
+ */
+export const interpolateRoute = (path: AxialCoordinates[], progress: number): AxialCoordinates => {
+  if (path.length < 2) {
+    return path[0] ?? { q: 0, r: 0 };
+  }
+  const position = Math.min(1, Math.max(0, progress)) * (path.length - 1);
+  const index = Math.min(path.length - 2, Math.floor(position));
+  const fraction = position - index;
+  const start = path[index];
+  const end = path[index + 1];
+  return {
+    q: start.q + (end.q - start.q) * fraction,
+    r: start.r + (end.r - start.r) * fraction,
+  };
+};
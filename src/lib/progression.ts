@@ -1,4 +1,5 @@
-import { BuildQueueItem, Building, Research, ResourceType, Resources } from '@/types';
+import { BuildQueueItem, Building, Research, ResourceType, Resources, UpgradeKind } from '@/types';
+import { Modifiers, NEUTRAL_MODIFIERS } from '@/lib/modifiers';
 
 /**
  * Represents a single resource deficit used for player feedback.
@@ -39,14 +40,21 @@ export const calculateUpgradeCost = (
 };
 
 /**
- * Converts a resource investment into the associated build time, respecting the server speed.
+ * Converts a resource investment into the associated build time, respecting the server speed
+ * and the build or research time modifier.
  */
-export const calculateBuildDuration = (cost: Resources, serverSpeed: number): number => {
+export const calculateBuildDuration = (
+  cost: Resources,
+  serverSpeed: number,
+  modifiers: Modifiers = NEUTRAL_MODIFIERS,
+  kind: UpgradeKind = 'building',
+): number => {
   const weightedCost =
     cost[ResourceType.Orichalkum] +
     cost[ResourceType.Fokuskristalle] * 2 +
     cost[ResourceType.Vitriol] * 3;
-  return Math.max(5, Math.floor(weightedCost / 10 / serverSpeed));
+  const timeFactor = kind === 'research' ? modifiers.researchTime : modifiers.buildTime;
+  return Math.max(5, Math.floor((weightedCost / 10 / serverSpeed) * timeFactor));
 };
 
 /**
@@ -0,0 +1,27 @@
+/**
+ * Random source returning floats in [0, 1), compatible with `Math.random`.
+ */
+export type RandomFn = () => number;
+
+/**
+ * Deterministic linear congruential generator to keep simulations and mock data stable across reloads.
+ */
+export const createRandom = (seed: number): RandomFn => {
+  let state = seed >>> 0;
+  return () => {
+    state = (1664525 * state + 1013904223) % 0xffffffff;
+    return state / 0xffffffff;
+  };
+};
+
+/**
+ * Derives a numeric seed from a string (FNV-1a), e.g. to bind a battle to its mission id.
+ */
+export const hashSeed = (text: string) => {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < text.length; index += 1) {
+    hash ^= text.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
@@ -0,0 +1,93 @@
+import { MAX_STORED_REPORTS } from '@/constants';
+import { Report, ReportType } from '@/types';
+import { getBattleOutcomeLabel } from '@/lib/combat';
+import { sumResources } from '@/lib/fleet';
+
+/**
+ * Inbox filter: the folder, an optional report type and a coordinate or planet name search.
+ */
+export interface ReportFilter {
+  archived: boolean;
+  type: ReportType | 'all';
+  search: string;
+}
+
+/**
+ * Localized labels for every report type.
+ */
+const REPORT_LABELS: Record<ReportType, string> = {
+  [ReportType.Kampf]: 'Kampfbericht',
+  [ReportType.Spionage]: 'Spionagebericht',
+  [ReportType.Transport]: 'Transportbericht',
+  [ReportType.Kolonisierung]: 'Kolonisierungsbericht',
+};
+
+/**
+ * Returns the localized label for a report type.
+ */
+export const getReportTypeLabel = (type: ReportType) => REPORT_LABELS[type];
+
+/**
+ * One-line headline of a report as shown in the inbox.
+ */
+export const describeReport = (report: Report): string => {
+  switch (report.type) {
+    case ReportType.Kampf:
+      return `Schlacht um ${report.planetName} ${getBattleOutcomeLabel(report.battle.outcome)}`;
+    case ReportType.Spionage:
+      return report.detected ? `Spionage auf ${report.planetName} entdeckt` : `Spionage auf ${report.planetName}`;
+    case ReportType.Transport:
+      if (sumResources(report.returned) === 0) {
+        return `Lieferung an ${report.planetName}`;
+      }
+      return sumResources(report.delivered) > 0
+        ? `Lieferung an ${report.planetName} teilweise eingelagert`
+        : `Lieferung an ${report.planetName} abgewiesen`;
+    case ReportType.Kolonisierung:
+      if (report.failure) {
+        return `Kolonisierung von ${report.planetName} gescheitert`;
+      }
+      return report.conquered ? `${report.planetName} erobert` : `${report.planetName} kolonisiert`;
+    default:
+      return 'Bericht';
+  }
+};
+
+/**
+ * Reports of one folder matching the filter, newest first. The search matches the start of the
+ * coordinate ("12,4" finds every planet in system 12,4,x) or any part of the planet name.
+ */
+export const filterReports = (reports: Report[], { archived, type, search }: ReportFilter): Report[] => {
+  const term = search.trim().toLowerCase();
+  return reports
+    .filter(
+      (report) =>
+        report.archived === archived &&
+        (type === 'all' || report.type === type) &&
+        (!term || report.coordinate.startsWith(term) || report.planetName.toLowerCase().includes(term)),
+    )
+    .sort((a, b) => b.createdAt - a.createdAt);
+};
+
+/**
+ * Unread reports in the inbox; archived reports never count.
+ */
+export const countUnreadReports = (reports: Report[]) =>
+  reports.filter((report) => !report.read && !report.archived).length;
+
+/**
+ * Drops the oldest reports outside the archive once the limit is exceeded.
+ */
+export const pruneReports = (reports: Report[], limit = MAX_STORED_REPORTS): Report[] => {
+  if (reports.length <= limit) {
+    return reports;
+  }
+  const removable = new Set(
+    reports
+      .filter((report) => !report.archived)
+      .sort((a, b) => a.createdAt - b.createdAt)
+      .slice(0, reports.length - limit)
+      .map((report) => report.id),
+  );
+  return reports.filter((report) => !removable.has(report.id));
+};
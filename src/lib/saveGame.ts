@@ -0,0 +1,267 @@
+import { BUILDINGS, INITIAL_RESEARCH_LEVELS } from '@/constants';
+import { BuildQueueItem, Mission, ShipBuildOrder } from '@/types';
+import { ColonyEconomy, createColonyEconomy } from '@/lib/simulation';
+import { ForeignPlanetState } from '@/lib/foreignPlanets';
+
+/**
+ * Current schema version of the persisted economy state. Bump together with a new migration step.
+ */
+export const GAME_STATE_VERSION = 3;
+
+/**
+ * Identifier written into exported save files to recognise them on import.
+ */
+export const SAVE_FILE_FORMAT = 'steam-war-raiders-save';
+
+/**
+ * Economy fields of the game store that survive reloads and travel inside save files.
+ */
+export interface PersistedGameState {
+  colonies: Record<string, ColonyEconomy>;
+  activePlanetId: string;
+  research: Record<string, number>;
+  researchQueue: BuildQueueItem[];
+  lastTickAt: number;
+}
+
+/**
+ * Planets of the local player that defaults and migrations distribute colony economies to.
+ */
+export interface GameStateContext {
+  homePlanetId: string;
+  ownedPlanetIds: string[];
+}
+
+/**
+ * Shipyard slice stored in save files.
+ */
+export interface ShipyardSnapshot {
+  queue: ShipBuildOrder[];
+  inventory: Record<string, number>;
+  hangarCapacity: number;
+}
+
+/**
+ * Complete, shareable snapshot of a local game.
+ */
+export interface SaveGameFile {
+  format: typeof SAVE_FILE_FORMAT;
+  version: number;
+  exportedAt: number;
+  game: PersistedGameState;
+  shipyard: ShipyardSnapshot;
+  missions: Mission[];
+  favorites: string[];
+  /** Battle damage of foreign planets; saves exported before raids were recorded have none. */
+  foreignPlanets?: Record<string, ForeignPlanetState>;
+}
+
+type UnknownRecord = Record<string, unknown>;
+
+type GameStateMigration = (state: UnknownRecord, context: GameStateContext) => UnknownRecord;
+
+const isRecord = (value: unknown): value is UnknownRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const omitUndefined = (entry: UnknownRecord): UnknownRecord =>
+  Object.fromEntries(Object.entries(entry).filter(([, value]) => value !== undefined));
+
+/**
+ * Migration steps keyed by the version they upgrade from.
+ */
+const GAME_STATE_MIGRATIONS: Record<number, GameStateMigration> = {
+  // Unversioned snapshots have no tick timestamp; offline time is reconciled from the moment of loading.
+  0: (state) => ({ lastTickAt: Date.now(), ...state }),
+  // Version 1 tracked a single colony; its economy becomes the home planet of the multi-colony layout.
+  1: (state, context) => {
+    const { resources, storage, kesseldruck, buildings, buildQueue, ...rest } = state;
+    const legacyColony = omitUndefined({ resources, storage, kesseldruck, buildings, buildQueue });
+    return {
+      ...rest,
+      activePlanetId: context.homePlanetId,
+      colonies: { [context.homePlanetId]: { ...createColonyEconomy(), ...legacyColony } },
+    };
+  },
+  // Version 2 mixed research into the colony build queues; it moves into its own queue and every entry gets a kind.
+  2: (state) => {
+    const researchQueue: UnknownRecord[] = [];
+    const colonies = Object.fromEntries(
+      Object.entries(isRecord(state.colonies) ? state.colonies : {}).map(([planetId, colony]) => {
+        if (!isRecord(colony) || !Array.isArray(colony.buildQueue)) {
+          return [planetId, colony];
+        }
+        const buildQueue: UnknownRecord[] = [];
+        colony.buildQueue.filter(isRecord).forEach((item) => {
+          if (BUILDINGS[item.entityId as string]) {
+            buildQueue.push({ ...item, kind: 'building' });
+          } else {
+            researchQueue.push({ ...item, kind: 'research' });
+          }
+        });
+        return [planetId, { ...colony, buildQueue }];
+      }),
+    );
+    researchQueue.sort((a, b) => (a.endTime as number) - (b.endTime as number));
+    return { ...state, colonies, researchQueue };
+  },
+};
+
+/**
+ * Creates the economy state of a fresh account with one colony per owned planet.
+ */
+export const createDefaultGameState = (
+  context: GameStateContext,
+  now: number = Date.now(),
+): PersistedGameState => ({
+  colonies: Object.fromEntries(context.ownedPlanetIds.map((planetId) => [planetId, createColonyEconomy()])),
+  activePlanetId: context.homePlanetId,
+  research: { ...INITIAL_RESEARCH_LEVELS },
+  researchQueue: [],
+  lastTickAt: now,
+});
+
+/**
+ * Upgrades a persisted economy snapshot from the given schema version to the current one.
+ * Fields that are still missing afterwards fall back to the defaults of a fresh account.
+ */
+export const migrateGameState = (
+  persisted: unknown,
+  version: number,
+  context: GameStateContext,
+): PersistedGameState => {
+  const defaults = createDefaultGameState(context);
+  if (!isRecord(persisted)) {
+    return defaults;
+  }
+  let state: UnknownRecord = { ...persisted };
+  for (let step = version; step < GAME_STATE_VERSION; step += 1) {
+    const migration = GAME_STATE_MIGRATIONS[step];
+    if (migration) {
+      state = migration(state, context);
+    }
+  }
+  const migrated = { ...defaults, ...state } as PersistedGameState;
+  if (!migrated.colonies[migrated.activePlanetId]) {
+    migrated.activePlanetId = Object.keys(migrated.colonies)[0] ?? context.homePlanetId;
+  }
+  return migrated;
+};
+
+/**
+ * Assembles a save file from the individual store slices.
+ */
+export const createSaveGame = (
+  slices: Pick<SaveGameFile, 'game' | 'shipyard' | 'missions' | 'favorites' | 'foreignPlanets'>,
+  now: number = Date.now(),
+): SaveGameFile => ({
+  format: SAVE_FILE_FORMAT,
+  version: GAME_STATE_VERSION,
+  exportedAt: now,
+  ...slices,
+});
+
+const shiftTimestamps = <T extends object>(entry: T, keys: string[], offset: number): T => {
+  const shifted = { ...entry } as UnknownRecord;
+  keys.forEach((key) => {
+    if (typeof shifted[key] === 'number') {
+      shifted[key] = (shifted[key] as number) + offset;
+    }
+  });
+  return shifted as T;
+};
+
+/**
+ * Timestamp fields of missions that move along when a save is rebased.
+ */
+const MISSION_TIMESTAMP_KEYS = ['plannedAt', 'launchAt', 'arrivalAt', 'returnArrivalAt', 'recalledAt', 'cancelledAt'];
+
+/**
+ * Timestamp fields of queue entries (build, research and shipyard orders).
+ */
+const QUEUE_TIMESTAMP_KEYS = ['startTime', 'endTime'];
+
+/**
+ * Missions exported before fleets existed carry no ships; they continue with an empty fleet.
+ */
+const normalizeMission = (mission: UnknownRecord): Mission =>
+  ({ ...mission, fleet: isRecord(mission.fleet) ? mission.fleet : {} }) as unknown as Mission;
+
+/**
+ * Moves every absolute timestamp of a save so that it resumes at `now` exactly as it was exported.
+ * This keeps shared saves reproducible regardless of when they are imported.
+ */
+export const rebaseSaveGame = (save: SaveGameFile, now: number): SaveGameFile => {
+  const offset = now - save.game.lastTickAt;
+  return {
+    ...save,
+    game: {
+      ...save.game,
+      colonies: Object.fromEntries(
+        Object.entries(save.game.colonies).map(([planetId, colony]) => [
+          planetId,
+          {
+            ...colony,
+            buildQueue: colony.buildQueue.map((item) => shiftTimestamps(item, QUEUE_TIMESTAMP_KEYS, offset)),
+          },
+        ]),
+      ),
+      researchQueue: save.game.researchQueue.map((item) => shiftTimestamps(item, QUEUE_TIMESTAMP_KEYS, offset)),
+      lastTickAt: now,
+    },
+    shipyard: {
+      ...save.shipyard,
+      queue: save.shipyard.queue.map((order) => shiftTimestamps(order, QUEUE_TIMESTAMP_KEYS, offset)),
+    },
+    missions: save.missions.map((mission) => shiftTimestamps(mission, MISSION_TIMESTAMP_KEYS, offset)),
+  };
+};
+
+/**
+ * Serialises a save file into pretty-printed JSON for sharing.
+ */
+export const serializeSaveGame = (save: SaveGameFile): string => JSON.stringify(save, null, 2);
+
+/**
+ * Parses and validates an exported save file, migrating the economy slice to the current schema.
+ * Throws an error with a player-facing message when the file cannot be used.
+ */
+export const parseSaveGame = (text: string, context: GameStateContext): SaveGameFile => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('Die Datei enthält kein gültiges JSON.');
+  }
+  if (!isRecord(raw) || raw.format !== SAVE_FILE_FORMAT) {
+    throw new Error('Die Datei ist kein Spielstand von Steam War Raiders.');
+  }
+  const version = typeof raw.version === 'number' ? raw.version : 0;
+  if (version > GAME_STATE_VERSION) {
+    throw new Error('Der Spielstand stammt aus einer neueren Version und kann nicht geladen werden.');
+  }
+  const shipyard = isRecord(raw.shipyard) ? raw.shipyard : {};
+  if (
+    !isRecord(raw.game) ||
+    !Array.isArray(shipyard.queue) ||
+    !isRecord(shipyard.inventory) ||
+    typeof shipyard.hangarCapacity !== 'number'
+  ) {
+    throw new Error('Der Spielstand ist unvollständig.');
+  }
+  return {
+    format: SAVE_FILE_FORMAT,
+    version: GAME_STATE_VERSION,
+    exportedAt: typeof raw.exportedAt === 'number' ? raw.exportedAt : Date.now(),
+    game: migrateGameState(raw.game, version, context),
+    shipyard: {
+      queue: shipyard.queue as ShipBuildOrder[],
+      inventory: shipyard.inventory as Record<string, number>,
+      hangarCapacity: shipyard.hangarCapacity,
+    },
+    missions: Array.isArray(raw.missions) ? raw.missions.filter(isRecord).map(normalizeMission) : [],
+    favorites: Array.isArray(raw.favorites)
+      ? raw.favorites.filter((entry): entry is string => typeof entry === 'string')
+      : [],
+    foreignPlanets: isRecord(raw.foreignPlanets) ? (raw.foreignPlanets as Record<string, ForeignPlanetState>) : {},
+  };
+};
@@ -0,0 +1,118 @@
+import { SHIP_BLUEPRINTS } from '@/constants';
+import { Resources, ResourceType, ShipBlueprint, ShipBuildOrder } from '@/types';
+
+/**
+ * Looks up a ship blueprint by its id.
+ */
+export const findBlueprint = (blueprintId: string): ShipBlueprint | undefined =>
+  SHIP_BLUEPRINTS.find((entry) => entry.id === blueprintId);
+
+/**
+ * Multiplies the cost of a single ship by the ordered quantity.
+ */
+export const scaleCost = (base: Resources, quantity: number): Resources => ({
+  [ResourceType.Orichalkum]: base[ResourceType.Orichalkum] * quantity,
+  [ResourceType.Fokuskristalle]: base[ResourceType.Fokuskristalle] * quantity,
+  [ResourceType.Vitriol]: base[ResourceType.Vitriol] * quantity,
+});
+
+/**
+ * Build duration of a whole batch in milliseconds; ships of one order are built one after another.
+ */
+export const calculateShipBuildDuration = (blueprint: ShipBlueprint, quantity: number) =>
+  blueprint.buildTimeSeconds * 1000 * quantity;
+
+/**
+ * Indicates whether an order still occupies the shipyard.
+ */
+export const isOpenOrder = (order: ShipBuildOrder) => order.status === 'queued' || order.status === 'building';
+
+/**
+ * Indicates whether an order is being built at the timestamp. The store only sees status changes at
+ * simulation events, so a queued order whose start time has passed already counts as running.
+ */
+export const isOrderRunning = (order: ShipBuildOrder, timestamp: number) =>
+  order.status === 'building' || (order.status === 'queued' && order.startTime <= timestamp);
+
+/**
+ * Hangar slots reserved by orders that are not delivered yet.
+ */
+export const calculateReservedSlots = (orders: ShipBuildOrder[]) =>
+  orders.reduce((acc, order) => {
+    if (!isOpenOrder(order)) {
+      return acc;
+    }
+    const blueprint = findBlueprint(order.blueprintId);
+    if (!blueprint) {
+      return acc;
+    }
+    return acc + blueprint.hangarSlots * order.quantity;
+  }, 0);
+
+/**
+ * Hangar slots occupied by finished ships.
+ */
+export const calculateInventorySlots = (inventory: Record<string, number>) =>
+  Object.entries(inventory).reduce((acc, [blueprintId, quantity]) => {
+    const blueprint = findBlueprint(blueprintId);
+    if (!blueprint) {
+      return acc;
+    }
+    return acc + blueprint.hangarSlots * quantity;
+  }, 0);
+
+/**
+ * Chains the queued orders behind the running ones so the shipyard never idles or overlaps.
+ * Returns the orders sorted by their new start time.
+ */
+export const rescheduleShipOrders = (orders: ShipBuildOrder[], now: number): ShipBuildOrder[] => {
+  let cursor = now;
+  return [...orders]
+    .sort((a, b) => a.startTime - b.startTime)
+    .map((order) => {
+      const blueprint = findBlueprint(order.blueprintId);
+      if (!blueprint) {
+        return order;
+      }
+      if (isOrderRunning(order, now)) {
+        cursor = Math.max(cursor, order.endTime);
+        return order;
+      }
+      if (order.status !== 'queued') {
+        return order;
+      }
+      const startTime = Math.max(cursor, now);
+      const endTime = startTime + calculateShipBuildDuration(blueprint, order.quantity);
+      cursor = endTime;
+      return startTime === order.startTime && endTime === order.endTime ? order : { ...order, startTime, endTime };
+    });
+};
+
+/**
+ * Starts and delivers orders up to the given timestamp in schedule order.
+ * Delivered ships are added to the inventory and their orders leave the queue.
+ */
+export const advanceShipOrders = (
+  orders: ShipBuildOrder[],
+  inventory: Record<string, number>,
+  timestamp: number,
+): { queue: ShipBuildOrder[]; inventory: Record<string, number>; completed: ShipBuildOrder[] } => {
+  const nextInventory = { ...inventory };
+  const completed: ShipBuildOrder[] = [];
+  const queue = [...orders]
+    .sort((a, b) => a.startTime - b.startTime)
+    .map((order) => {
+      let status = order.status;
+      if (status === 'queued' && timestamp >= order.startTime) {
+        status = 'building';
+      }
+      if (status === 'building' && timestamp >= order.endTime) {
+        status = 'completed';
+        nextInventory[order.blueprintId] = (nextInventory[order.blueprintId] ?? 0) + order.quantity;
+        completed.push({ ...order, status });
+      }
+      return status === order.status ? order : { ...order, status };
+    })
+    .filter(isOpenOrder);
+  return { queue, inventory: nextInventory, completed };
+};
@@ -0,0 +1,204 @@
+import { INITIAL_BUILDING_LEVELS, INITIAL_RESOURCES, SERVER_SPEED } from '@/constants';
+import { BuildQueueItem, ResourceType, Resources, Storage } from '@/types';
+import {
+  KesseldruckSnapshot,
+  calculateKesseldruck,
+  calculateResourceProductionPerTick,
+  calculateStorageCapacity,
+} from '@/lib/economy';
+import { Modifiers, NEUTRAL_MODIFIERS, resolveModifiers } from '@/lib/modifiers';
+
+/**
+ * Economy of a single owned planet that the simulation advances deterministically over time.
+ */
+export interface ColonyEconomy {
+  resources: Resources;
+  storage: Storage;
+  buildings: Record<string, number>;
+  buildQueue: BuildQueueItem[];
+  kesseldruck: KesseldruckSnapshot;
+}
+
+/**
+ * All colony economies of a player plus the research levels and research queue they share.
+ */
+export interface EmpireEconomy {
+  colonies: Record<string, ColonyEconomy>;
+  research: Record<string, number>;
+  researchQueue: BuildQueueItem[];
+}
+
+/**
+ * Queue entry that finished during an advance, tagged with the colony it was built on.
+ * Research entries belong to the whole empire and carry no planet.
+ */
+export interface CompletedQueueItem {
+  planetId: string | null;
+  item: BuildQueueItem;
+}
+
+/**
+ * Outcome of advancing the economy, including every queue entry that finished in the window.
+ */
+export interface EconomyAdvanceResult {
+  state: EmpireEconomy;
+  completed: CompletedQueueItem[];
+}
+
+const RESOURCE_TYPES = Object.values(ResourceType) as ResourceType[];
+
+/**
+ * Creates the economy of a freshly founded colony with derived storage and kesseldruck.
+ */
+export const createColonyEconomy = (
+  buildings: Record<string, number> = INITIAL_BUILDING_LEVELS,
+  resources: Resources = INITIAL_RESOURCES,
+  modifiers: Modifiers = NEUTRAL_MODIFIERS,
+): ColonyEconomy => ({
+  resources: { ...resources },
+  storage: calculateStorageCapacity(buildings, modifiers),
+  buildings: { ...buildings },
+  buildQueue: [],
+  kesseldruck: calculateKesseldruck(buildings, modifiers),
+});
+
+/**
+ * Adds the production of a time span to the stock while respecting the storage caps.
+ * Production is linear within a segment, so capping once at the end equals capping every second.
+ */
+export const accumulateProduction = (
+  resources: Resources,
+  storage: Storage,
+  incomePerSecond: Resources,
+  seconds: number,
+): Resources =>
+  RESOURCE_TYPES.reduce<Resources>((acc, resource) => {
+    const current = resources[resource];
+    const produced = incomePerSecond[resource] * Math.max(0, seconds);
+    // Stock above the cap (e.g. from refunds) is kept, it just does not grow any further.
+    acc[resource] = current >= storage[resource] ? current : Math.min(storage[resource], current + produced);
+    return acc;
+  }, { ...resources });
+
+/**
+ * Stock of a colony at `to`, produced since `from` at its current building levels, kesseldruck and caps.
+ * Queue entries are left alone: their completions are simulation events, so the projection is exact until
+ * the next one.
+ */
+export const projectColonyResources = (
+  colony: ColonyEconomy,
+  research: Record<string, number>,
+  from: number,
+  to: number,
+  serverSpeed: number = SERVER_SPEED,
+): Resources => {
+  const income = calculateResourceProductionPerTick(
+    colony.buildings,
+    serverSpeed,
+    colony.kesseldruck.efficiency,
+    resolveModifiers(research),
+  );
+  return accumulateProduction(colony.resources, colony.storage, income, (to - from) / 1000);
+};
+
+/**
+ * Moment each resource reaches its storage cap at a steady income, counted from `from`.
+ * Resources that are already full or do not grow are left out.
+ */
+export const calculateStorageFullAt = (
+  resources: Resources,
+  storage: Storage,
+  incomePerSecond: Resources,
+  from: number,
+): Partial<Record<ResourceType, number>> =>
+  RESOURCE_TYPES.reduce<Partial<Record<ResourceType, number>>>((acc, resource) => {
+    const missing = storage[resource] - resources[resource];
+    if (missing > 0 && incomePerSecond[resource] > 0) {
+      acc[resource] = from + Math.ceil((missing / incomePerSecond[resource]) * 1000);
+    }
+    return acc;
+  }, {});
+
+/**
+ * Advances every colony from one timestamp to another in a single call.
+ * Queue completions of all colonies are applied in chronological order and split the window into segments,
+ * so every segment produces with the building levels, research modifiers, kesseldruck and storage caps
+ * that were active at the time.
+ */
+export const advanceEconomy = (
+  state: EmpireEconomy,
+  from: number,
+  to: number,
+  serverSpeed: number = SERVER_SPEED,
+): EconomyAdvanceResult => {
+  const research = { ...state.research };
+  let modifiers = resolveModifiers(research);
+  const colonies: Record<string, ColonyEconomy> = {};
+  Object.entries(state.colonies).forEach(([planetId, colony]) => {
+    colonies[planetId] = {
+      ...colony,
+      resources: { ...colony.resources },
+      buildings: { ...colony.buildings },
+      storage: calculateStorageCapacity(colony.buildings, modifiers),
+      kesseldruck: calculateKesseldruck(colony.buildings, modifiers),
+    };
+  });
+  let cursor = from;
+
+  const due: CompletedQueueItem[] = [
+    ...Object.entries(state.colonies).flatMap(([planetId, colony]) =>
+      colony.buildQueue.map((item) => ({ planetId, item })),
+    ),
+    ...state.researchQueue.map((item) => ({ planetId: null, item })),
+  ]
+    .filter(({ item }) => item.endTime <= to)
+    .sort((a, b) => a.item.endTime - b.item.endTime);
+  const completed: CompletedQueueItem[] = [];
+
+  const produceUntil = (timestamp: number) => {
+    if (timestamp <= cursor) {
+      return;
+    }
+    Object.values(colonies).forEach((colony) => {
+      const income = calculateResourceProductionPerTick(
+        colony.buildings,
+        serverSpeed,
+        colony.kesseldruck.efficiency,
+        modifiers,
+      );
+      colony.resources = accumulateProduction(colony.resources, colony.storage, income, (timestamp - cursor) / 1000);
+    });
+    cursor = timestamp;
+  };
+
+  due.forEach(({ planetId, item }) => {
+    produceUntil(item.endTime);
+    const colony = planetId ? colonies[planetId] : undefined;
+    if (item.kind === 'building' && colony) {
+      colony.buildings[item.entityId] = item.level;
+      colony.kesseldruck = calculateKesseldruck(colony.buildings, modifiers);
+      colony.storage = calculateStorageCapacity(colony.buildings, modifiers);
+    } else if (item.kind === 'research') {
+      // Research applies to the whole empire, so every colony switches to the new modifiers.
+      research[item.entityId] = item.level;
+      modifiers = resolveModifiers(research);
+      Object.values(colonies).forEach((entry) => {
+        entry.kesseldruck = calculateKesseldruck(entry.buildings, modifiers);
+        entry.storage = calculateStorageCapacity(entry.buildings, modifiers);
+      });
+    }
+    completed.push({ planetId, item });
+  });
+
+  produceUntil(to);
+
+  const isPending = (item: BuildQueueItem) => !completed.some((entry) => entry.item === item);
+  Object.entries(colonies).forEach(([planetId, colony]) => {
+    colony.buildQueue = state.colonies[planetId].buildQueue.filter(isPending);
+  });
+
+  return {
+    state: { colonies, research, researchQueue: state.researchQueue.filter(isPending) },
+    completed,
+  };
+};
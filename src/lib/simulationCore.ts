@@ -0,0 +1,271 @@
+import { SERVER_SPEED } from '@/constants';
+import { BuildQueueItem, ResourceType, ShipBuildOrder } from '@/types';
+import { ColonyEconomy, CompletedQueueItem, EmpireEconomy, advanceEconomy } from '@/lib/simulation';
+import { advanceShipOrders, rescheduleShipOrders } from '@/lib/shipyard';
+import {
+  FleetSnapshot,
+  MissionResolution,
+  MissionWorld,
+  getNextFleetEventAt,
+  mergeMissionResolutions,
+  resolveMissions,
+} from '@/lib/missionSimulation';
+
+/**
+ * Docked ships and open orders of the shipyard.
+ */
+export interface ShipyardSnapshot {
+  queue: ShipBuildOrder[];
+  inventory: Record<string, number>;
+}
+
+/**
+ * Everything the simulation worker advances over time: the empire economy, the shipyard and the missions,
+ * all on the clock of the last economy update. The world is read-only context of mission resolution.
+ */
+export interface SimulationState {
+  economy: EmpireEconomy;
+  lastTickAt: number;
+  shipyard: ShipyardSnapshot;
+  fleets: FleetSnapshot;
+  world: MissionWorld;
+}
+
+/**
+ * Changes between two simulation states. Colonies only carry the fields that changed.
+ */
+export interface SimulationDiff {
+  lastTickAt: number;
+  colonies?: Record<string, Partial<ColonyEconomy>>;
+  research?: Record<string, number>;
+  researchQueue?: BuildQueueItem[];
+  shipyard?: Partial<ShipyardSnapshot>;
+  fleets?: Partial<FleetSnapshot>;
+}
+
+/**
+ * Resource stock that reached its storage cap during an advance.
+ */
+export interface FilledStorage {
+  planetId: string;
+  resource: ResourceType;
+}
+
+/**
+ * Outcome of advancing the simulation: the new state, its diff to the old one and what happened in between.
+ */
+export interface SimulationAdvance {
+  state: SimulationState;
+  diff: SimulationDiff;
+  completed: CompletedQueueItem[];
+  completedOrders: ShipBuildOrder[];
+  filledStorages: FilledStorage[];
+  missions: MissionResolution;
+}
+
+/**
+ * Messages from the UI thread to the simulation worker. Every sync replaces the worker state and carries a
+ * revision; `advance` moves the simulation clock forward.
+ */
+export type SimulationRequest =
+  | { type: 'sync'; revision: number; state: SimulationState }
+  | { type: 'advance'; timestamp: number };
+
+/**
+ * Messages from the simulation worker. Diffs name the revision they were computed from, so the UI can drop
+ * diffs that a newer sync has overtaken.
+ */
+export type SimulationResponse = {
+  type: 'advanced';
+  revision: number;
+} & Omit<SimulationAdvance, 'state'>;
+
+const RESOURCE_TYPES = Object.values(ResourceType) as ResourceType[];
+
+const isShallowEqual = (a: unknown, b: unknown) => {
+  if (a === b) {
+    return true;
+  }
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+    return false;
+  }
+  const left = a as Record<string, unknown>;
+  const right = b as Record<string, unknown>;
+  const keys = Object.keys(left);
+  return keys.length === Object.keys(right).length && keys.every((key) => left[key] === right[key]);
+};
+
+/**
+ * Delivers finished ship orders into the inventory and moves the remaining orders up.
+ */
+export const advanceShipyard = (shipyard: ShipyardSnapshot, timestamp: number) => {
+  const { queue, inventory, completed } = advanceShipOrders(shipyard.queue, shipyard.inventory, timestamp);
+  return { shipyard: { queue: rescheduleShipOrders(queue, timestamp), inventory }, completed };
+};
+
+/**
+ * Lists the fields that differ between two simulation states.
+ */
+export const diffSimulation = (previous: SimulationState, next: SimulationState): SimulationDiff => {
+  const diff: SimulationDiff = { lastTickAt: next.lastTickAt };
+  const colonies: Record<string, Partial<ColonyEconomy>> = {};
+  Object.entries(next.economy.colonies).forEach(([planetId, colony]) => {
+    const before = previous.economy.colonies[planetId];
+    const changed = (Object.keys(colony) as (keyof ColonyEconomy)[]).filter(
+      (key) => !before || !isShallowEqual(before[key], colony[key]),
+    );
+    if (changed.length > 0) {
+      colonies[planetId] = Object.fromEntries(changed.map((key) => [key, colony[key]]));
+    }
+  });
+  if (Object.keys(colonies).length > 0) {
+    diff.colonies = colonies;
+  }
+  if (!isShallowEqual(previous.economy.research, next.economy.research)) {
+    diff.research = next.economy.research;
+  }
+  if (!isShallowEqual(previous.economy.researchQueue, next.economy.researchQueue)) {
+    diff.researchQueue = next.economy.researchQueue;
+  }
+  const shipyard: Partial<ShipyardSnapshot> = {};
+  if (!isShallowEqual(previous.shipyard.queue, next.shipyard.queue)) {
+    shipyard.queue = next.shipyard.queue;
+  }
+  if (!isShallowEqual(previous.shipyard.inventory, next.shipyard.inventory)) {
+    shipyard.inventory = next.shipyard.inventory;
+  }
+  if (Object.keys(shipyard).length > 0) {
+    diff.shipyard = shipyard;
+  }
+  const fleets: Partial<FleetSnapshot> = {};
+  if (!isShallowEqual(previous.fleets.missions, next.fleets.missions)) {
+    fleets.missions = next.fleets.missions;
+  }
+  if (!isShallowEqual(previous.fleets.foreignPlanets, next.fleets.foreignPlanets)) {
+    fleets.foreignPlanets = next.fleets.foreignPlanets;
+  }
+  if (Object.keys(fleets).length > 0) {
+    diff.fleets = fleets;
+  }
+  return diff;
+};
+
+/**
+ * Applies a diff on top of a simulation state, e.g. the mirror kept by the UI stores.
+ */
+export const applySimulationDiff = (state: SimulationState, diff: SimulationDiff): SimulationState => {
+  const colonies = { ...state.economy.colonies };
+  Object.entries(diff.colonies ?? {}).forEach(([planetId, changes]) => {
+    colonies[planetId] = { ...colonies[planetId], ...changes };
+  });
+  return {
+    economy: {
+      colonies,
+      research: diff.research ?? state.economy.research,
+      researchQueue: diff.researchQueue ?? state.economy.researchQueue,
+    },
+    lastTickAt: diff.lastTickAt,
+    shipyard: { ...state.shipyard, ...diff.shipyard },
+    fleets: { ...state.fleets, ...diff.fleets },
+    world: state.world,
+  };
+};
+
+/**
+ * Advances the economy, the shipyard and the missions to the timestamp. Every launch, arrival and return
+ * resolves at its own moment, on top of the economy settled up to then. Timestamps at or before the last
+ * update leave the state untouched unless a mission step is still due.
+ */
+export const advanceSimulation = (
+  state: SimulationState,
+  timestamp: number,
+  serverSpeed: number = SERVER_SPEED,
+): SimulationAdvance => {
+  let current = state;
+  const completed: CompletedQueueItem[] = [];
+  const completedOrders: ShipBuildOrder[] = [];
+  const resolutions: MissionResolution[] = [];
+
+  const settle = (to: number) => {
+    if (to <= current.lastTickAt) {
+      return;
+    }
+    const advanced = advanceEconomy(current.economy, current.lastTickAt, to, serverSpeed);
+    const { shipyard, completed: delivered } = advanceShipyard(current.shipyard, to);
+    completed.push(...advanced.completed);
+    completedOrders.push(...delivered);
+    current = { ...current, economy: advanced.state, lastTickAt: to, shipyard };
+  };
+
+  for (
+    let at = getNextFleetEventAt(current.fleets.missions);
+    at !== null && at <= timestamp;
+    at = getNextFleetEventAt(current.fleets.missions)
+  ) {
+    settle(at);
+    const { economy, inventory, fleets, world, resolution } = resolveMissions(
+      current.economy,
+      current.shipyard.inventory,
+      current.fleets,
+      current.world,
+      Math.max(at, current.lastTickAt),
+    );
+    current = { ...current, economy, shipyard: { ...current.shipyard, inventory }, fleets, world };
+    resolutions.push(resolution);
+  }
+  settle(timestamp);
+
+  const filledStorages = Object.entries(current.economy.colonies).flatMap(([planetId, colony]) => {
+    const before = state.economy.colonies[planetId];
+    return RESOURCE_TYPES.filter(
+      (resource) =>
+        before &&
+        before.resources[resource] < before.storage[resource] &&
+        colony.resources[resource] >= colony.storage[resource],
+    ).map((resource) => ({ planetId, resource }));
+  });
+  return {
+    state: current,
+    diff: diffSimulation(state, current),
+    completed,
+    completedOrders,
+    filledStorages,
+    missions: mergeMissionResolutions(...resolutions),
+  };
+};
+
+/**
+ * Worker side of the simulation protocol. It keeps the last synced state, advances it on request and posts
+ * the resulting diffs. A sync that arrives after an advance is brought up to the latest requested time right
+ * away, so no completion is lost when the UI overtakes a diff in flight.
+ */
+export const createSimulationHost = (
+  post: (response: SimulationResponse) => void,
+  serverSpeed: number = SERVER_SPEED,
+) => {
+  let state: SimulationState | null = null;
+  let revision = 0;
+  let clock = 0;
+
+  const advance = () => {
+    if (!state) {
+      return;
+    }
+    const { state: next, ...result } = advanceSimulation(state, clock, serverSpeed);
+    if (next === state) {
+      return;
+    }
+    state = next;
+    post({ type: 'advanced', revision, ...result });
+  };
+
+  return (request: SimulationRequest) => {
+    if (request.type === 'sync') {
+      state = request.state;
+      revision = request.revision;
+    } else {
+      clock = Math.max(clock, request.timestamp);
+    }
+    advance();
+  };
+};
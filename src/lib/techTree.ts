@@ -0,0 +1,221 @@
+import { BUILDINGS, RESEARCH, SHIP_BLUEPRINTS } from '@/constants';
+import { BuildQueueItem, Requirement } from '@/types';
+
+/**
+ * Current levels per prerequisite kind that requirements are checked against.
+ */
+export type RequirementLevels = Record<Requirement['kind'], Record<string, number>>;
+
+/**
+ * Entity of the tech tree together with the prerequisites it declares.
+ */
+export interface TechTreeNode {
+  kind: Requirement['kind'] | 'ship';
+  id: string;
+  requirements: Requirement[];
+}
+
+/**
+ * Structural problem in the tech tree data.
+ */
+export interface TechTreeIssue {
+  type: 'dangling' | 'cycle';
+  nodeId: string;
+  message: string;
+}
+
+/**
+ * Builds the unique key of a tech tree node, e.g. "research:dampfjet".
+ */
+export const toNodeKey = (kind: TechTreeNode['kind'], id: string) => `${kind}:${id}`;
+
+/**
+ * Returns the prerequisites that are not yet reached with the given levels.
+ */
+export const findMissingRequirements = (
+  requirements: Requirement[] | undefined,
+  levels: RequirementLevels,
+): Requirement[] =>
+  (requirements ?? []).filter((requirement) => (levels[requirement.kind][requirement.id] ?? 0) < requirement.level);
+
+/**
+ * Levels reached by the timestamp: the finished levels plus every queued upgrade that ends by then.
+ * Building and research queues run side by side, so a queued level only counts for entries starting after it.
+ */
+export const projectLevelsAt = (
+  levels: RequirementLevels,
+  queue: BuildQueueItem[],
+  timestamp: number,
+): RequirementLevels =>
+  queue
+    .filter((item) => item.endTime <= timestamp)
+    .reduce<RequirementLevels>(
+      (acc, item) => {
+        acc[item.kind][item.entityId] = Math.max(acc[item.kind][item.entityId] ?? 0, item.level);
+        return acc;
+      },
+      { building: { ...levels.building }, research: { ...levels.research } },
+    );
+
+/**
+ * Queue entries whose prerequisites are not reached by the time they start, e.g. after a reorder or a
+ * cancellation. Levels are projected from the whole queue; only the `checked` entries are tested.
+ */
+export const findBlockedQueueItems = (
+  levels: RequirementLevels,
+  queue: BuildQueueItem[],
+  checked: BuildQueueItem[] = queue,
+): BuildQueueItem[] =>
+  checked.filter((item) => {
+    const entity = item.kind === 'building' ? BUILDINGS[item.entityId] : RESEARCH[item.entityId];
+    return findMissingRequirements(entity?.requirements, projectLevelsAt(levels, queue, item.startTime)).length > 0;
+  });
+
+/**
+ * Resolves the display name of the building or research a requirement points to.
+ */
+export const getRequirementName = (requirement: Requirement): string =>
+  (requirement.kind === 'building' ? BUILDINGS[requirement.id]?.name : RESEARCH[requirement.id]?.name) ??
+  requirement.id;
+
+/**
+ * Formats a requirement as player-facing label, e.g. "Werft Stufe 2".
+ */
+export const formatRequirement = (requirement: Requirement): string =>
+  `${getRequirementName(requirement)} Stufe ${requirement.level}`;
+
+/**
+ * Collects all buildings, research topics and ship blueprints as tech tree nodes.
+ */
+export const collectTechTreeNodes = (): TechTreeNode[] => [
+  ...Object.values(BUILDINGS).map((building) => ({
+    kind: 'building' as const,
+    id: building.id,
+    requirements: building.requirements ?? [],
+  })),
+  ...Object.values(RESEARCH).map((research) => ({
+    kind: 'research' as const,
+    id: research.id,
+    requirements: research.requirements ?? [],
+  })),
+  ...SHIP_BLUEPRINTS.map((blueprint) => ({
+    kind: 'ship' as const,
+    id: blueprint.id,
+    requirements: blueprint.requirements ?? [],
+  })),
+];
+
+/**
+ * Checks the tech tree for prerequisites pointing to unknown entities and for dependency cycles.
+ * Returns an empty list when the data is consistent.
+ */
+export const validateTechTree = (nodes: TechTreeNode[] = collectTechTreeNodes()): TechTreeIssue[] => {
+  const issues: TechTreeIssue[] = [];
+  const byKey = new Map(nodes.map((node) => [toNodeKey(node.kind, node.id), node]));
+
+  nodes.forEach((node) => {
+    node.requirements.forEach((requirement) => {
+      if (!byKey.has(toNodeKey(requirement.kind, requirement.id))) {
+        issues.push({
+          type: 'dangling',
+          nodeId: toNodeKey(node.kind, node.id),
+          message: `Requirement ${toNodeKey(requirement.kind, requirement.id)} does not exist.`,
+        });
+      }
+    });
+  });
+
+  // Depth-first search with three colours; reaching a node that is still on the stack closes a cycle.
+  const state = new Map<string, 'visiting' | 'done'>();
+  const visit = (key: string, path: string[]) => {
+    const status = state.get(key);
+    if (status === 'done') {
+      return;
+    }
+    if (status === 'visiting') {
+      const cycle = [...path.slice(path.indexOf(key)), key];
+      issues.push({ type: 'cycle', nodeId: key, message: `Cycle detected: ${cycle.join(' -> ')}.` });
+      return;
+    }
+    const node = byKey.get(key);
+    if (!node) {
+      return;
+    }
+    state.set(key, 'visiting');
+    node.requirements.forEach((requirement) => visit(toNodeKey(requirement.kind, requirement.id), [...path, key]));
+    state.set(key, 'done');
+  };
+  byKey.forEach((_, key) => visit(key, []));
+
+  return issues;
+};
+
+/**
+ * Assigns every node to a layer: nodes without prerequisites sit in layer 0,
+ * every other node one layer behind its deepest prerequisite. Expects an acyclic tree.
+ */
+export const computeTechTreeLayers = (nodes: TechTreeNode[]): Map<string, number> => {
+  const byKey = new Map(nodes.map((node) => [toNodeKey(node.kind, node.id), node]));
+  const layers = new Map<string, number>();
+  const resolve = (key: string): number => {
+    const known = layers.get(key);
+    if (known !== undefined) {
+      return known;
+    }
+    const node = byKey.get(key);
+    const layer = node
+      ? node.requirements.reduce(
+          (deepest, requirement) => Math.max(deepest, resolve(toNodeKey(requirement.kind, requirement.id)) + 1),
+          0,
+        )
+      : 0;
+    layers.set(key, layer);
+    return layer;
+  };
+  byKey.forEach((_, key) => resolve(key));
+  return layers;
+};
+
+/**
+ * Returns the keys of all direct and transitive prerequisites of a node, including the node itself.
+ */
+export const collectPrerequisiteKeys = (nodeKey: string, nodes: TechTreeNode[]): Set<string> => {
+  const byKey = new Map(nodes.map((node) => [toNodeKey(node.kind, node.id), node]));
+  const visited = new Set<string>();
+  const visit = (key: string) => {
+    if (visited.has(key)) {
+      return;
+    }
+    visited.add(key);
+    byKey.get(key)?.requirements.forEach((requirement) => visit(toNodeKey(requirement.kind, requirement.id)));
+  };
+  visit(nodeKey);
+  return visited;
+};
+
+/**
+ * Lists every single upgrade step needed to bring an entity to the target level, prerequisites first.
+ * Each step raises one entity by exactly one level, so the steps can be enqueued one after another.
+ */
+export const planMissingSteps = (
+  target: Requirement,
+  levels: RequirementLevels,
+  nodes: TechTreeNode[] = collectTechTreeNodes(),
+): Requirement[] => {
+  const byKey = new Map(nodes.map((node) => [toNodeKey(node.kind, node.id), node]));
+  const simulated: RequirementLevels = { building: { ...levels.building }, research: { ...levels.research } };
+  const steps: Requirement[] = [];
+  const reach = (requirement: Requirement) => {
+    const current = simulated[requirement.kind][requirement.id] ?? 0;
+    if (current >= requirement.level) {
+      return;
+    }
+    byKey.get(toNodeKey(requirement.kind, requirement.id))?.requirements.forEach(reach);
+    for (let level = current + 1; level <= requirement.level; level += 1) {
+      steps.push({ kind: requirement.kind, id: requirement.id, level });
+    }
+    simulated[requirement.kind][requirement.id] = requirement.level;
+  };
+  reach(target);
+  return steps;
+};
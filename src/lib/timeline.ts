@@ -0,0 +1,75 @@
+import { TIMELINE_LOOKBACK, TIMELINE_MIN_SPAN } from '@/constants';
+import { Mission, MissionStatus, MissionType } from '@/types';
+
+/**
+ * Phases of a mission as drawn on the timeline. Projected return legs are marked because their
+ * duration is only known once the fleet reaches its target.
+ */
+export type TimelinePhase = 'preparation' | 'outbound' | 'return' | 'stationed';
+
+export interface TimelineSegment {
+  phase: TimelinePhase;
+  start: number;
+  /** Open-ended for stationed fleets, which stay until they are withdrawn. */
+  end: number | null;
+  projected?: boolean;
+}
+
+export interface TimelineWindow {
+  start: number;
+  end: number;
+}
+
+type TimelineMission = Pick<
+  Mission,
+  'type' | 'status' | 'plannedAt' | 'launchAt' | 'arrivalAt' | 'travelDuration' | 'returnArrivalAt' | 'recalledAt'
+>;
+
+/**
+ * Whether a mission is planned or under way and therefore shown on the timeline.
+ */
+export const isMissionOnTimeline = (status: MissionStatus) =>
+  status === MissionStatus.Geplant ||
+  status === MissionStatus.Unterwegs ||
+  status === MissionStatus.Rueckkehr ||
+  status === MissionStatus.Stationiert;
+
+/**
+ * Splits a mission into its preparation, outbound, return or stationed phases. Fleets that have not
+ * reached their target yet get a projected return leg as long as the outbound one.
+ */
+export const buildTimelineSegments = (mission: TimelineMission): TimelineSegment[] => {
+  const turnedAt = mission.recalledAt ?? mission.arrivalAt;
+  const segments: TimelineSegment[] = [
+    { phase: 'preparation', start: mission.plannedAt, end: mission.launchAt },
+    { phase: 'outbound', start: mission.launchAt, end: turnedAt },
+  ];
+  if (mission.status === MissionStatus.Stationiert) {
+    segments.push({ phase: 'stationed', start: mission.arrivalAt, end: null });
+  } else if (mission.returnArrivalAt !== undefined) {
+    segments.push({ phase: 'return', start: turnedAt, end: mission.returnArrivalAt });
+  } else if (mission.type !== MissionType.Stationierung) {
+    segments.push({
+      phase: 'return',
+      start: mission.arrivalAt,
+      end: mission.arrivalAt + mission.travelDuration,
+      projected: true,
+    });
+  }
+  return segments;
+};
+
+/**
+ * Time window covering all segments from shortly before now until the last scheduled event.
+ */
+export const calculateTimelineWindow = (segments: TimelineSegment[], now: number): TimelineWindow => {
+  const start = now - TIMELINE_LOOKBACK;
+  const latest = segments.reduce((max, segment) => Math.max(max, segment.end ?? segment.start), now);
+  return { start, end: Math.max(start + TIMELINE_MIN_SPAN, latest) };
+};
+
+/**
+ * Position of a timestamp within the window between 0 (start) and 1 (end).
+ */
+export const toTimelineShare = (timestamp: number, window: TimelineWindow) =>
+  Math.min(1, Math.max(0, (timestamp - window.start) / (window.end - window.start)));
@@ -1,13 +1,31 @@
 import { create } from 'zustand';
-import { Alliance } from '@/types';
+import {
+  Alliance,
+  AllianceOperation,
+  FleetComposition,
+  GalaxyPlanet,
+  MissionType,
+  OperationParticipant,
+} from '@/types';
 import { ALLIANCE_DIRECTORY, CURRENT_PLAYER_ID } from '@/lib/mockFactory';
+import { fetchAllianceDirectory } from '@/lib/api/alliances';
+import { resolvePlanetRelation, validateOperationTarget } from '@/lib/diplomacy';
+import { computeHexDistance } from '@/lib/hex';
+import { resolveLaunchAt, validateLaunchAt } from '@/lib/missions';
+import { simulateMemberCommitment, validateOperationArrival } from '@/lib/operations';
 import { useDirectoryStore } from '@/store/directoryStore';
+import { useMissionStore } from '@/store/missionStore';
+import { ToastVariant, useUiStore } from '@/store/uiStore';
 
 interface AllianceState {
   alliances: Alliance[];
   invites: Record<string, string>;
+  operations: AllianceOperation[];
   myAllianceId?: string;
   currentPlayerId: string;
+  isLoading: boolean;
+  isReady: boolean;
+  error?: string;
 }
 
 interface CreateAlliancePayload {
@@ -16,13 +34,27 @@ interface CreateAlliancePayload {
   color: string;
 }
 
+interface CreateOperationPayload {
+  targetPlanetId: string;
+  arrivalAt: number;
+}
+
+interface JoinOperationPayload {
+  originPlanetId: string;
+  fleet: FleetComposition;
+}
+
 interface AllianceActions {
+  initialize: () => Promise<void>;
+  refresh: () => Promise<void>;
   createAlliance: (payload: CreateAlliancePayload) => void;
   joinAlliance: (inviteCode: string) => void;
   leaveAlliance: () => void;
   setAllianceColor: (color: string) => void;
   addNote: (text: string) => void;
   addPact: (type: 'nap' | 'ally', targetAllianceId: string) => void;
+  createOperation: (payload: CreateOperationPayload) => string | null;
+  joinOperation: (operationId: string, payload: JoinOperationPayload) => boolean;
 }
 
 const cloneAlliance = (alliance: Alliance): Alliance => ({
@@ -69,6 +101,44 @@ const addMemberToAlliance = (alliances: Alliance[], allianceId: string, memberId
       : alliance,
   );
 
+/**
+ * Commitment an allied member announces for an operation, launched from its planet closest to the target.
+ * Members without planets, attack ships or enough time to arrive stay out.
+ */
+const announceMemberCommitment = (
+  operation: Pick<AllianceOperation, 'id' | 'targetPlanetId' | 'arrivalAt'>,
+  memberId: string,
+  now: number,
+): OperationParticipant | null => {
+  const directory = useDirectoryStore.getState();
+  const targetSystem = directory.getSystemById(directory.getPlanetById(operation.targetPlanetId)?.systemId ?? '');
+  if (!targetSystem) {
+    return null;
+  }
+  const distanceTo = (systemId: string) => {
+    const system = directory.getSystemById(systemId);
+    return system ? computeHexDistance(system.axial, targetSystem.axial) : Infinity;
+  };
+  const origin = directory
+    .getPlanetsOwnedBy(memberId)
+    .reduce<GalaxyPlanet | undefined>(
+      (closest, planet) => (!closest || distanceTo(planet.systemId) < distanceTo(closest.systemId) ? planet : closest),
+      undefined,
+    );
+  const fleet = origin ? simulateMemberCommitment(operation.id, memberId, origin.id) : null;
+  const travelDuration = origin
+    ? useMissionStore.getState().estimateTravelDuration(operation.targetPlanetId, MissionType.Angriff, origin.id)
+    : null;
+  if (!origin || !fleet || travelDuration === null) {
+    return null;
+  }
+  const launchAt = resolveLaunchAt(now, travelDuration, { mode: 'arrival', at: operation.arrivalAt });
+  if (validateLaunchAt(launchAt, now).length > 0) {
+    return null;
+  }
+  return { playerId: memberId, originPlanetId: origin.id, originPlanetName: origin.name, fleet, launchAt };
+};
+
 const resolveCurrentPlayerId = () => useDirectoryStore.getState().currentPlayerId || CURRENT_PLAYER_ID;
 
 const applyAllianceDirectory = (
@@ -91,163 +161,47 @@ const applyAllianceDirectory = (
 /**
  * Lightweight client-side alliance store handling membership and notes.
  */
-export const useAllianceStore = create<AllianceState & AllianceActions>((set, _get) => ({
-  alliances: [],
-  invites: {},
-  myAllianceId: undefined,
-  currentPlayerId: CURRENT_PLAYER_ID,
-  isLoading: false,
-  isReady: false,
-  error: undefined,
-
-  initialize: async () => {
-    if (_get().isReady || _get().isLoading) {
-      return;
-    }
-    await _get().refresh();
-  },
-
-  refresh: async () => {
-    set({ isLoading: true, error: undefined });
-    const currentPlayerId = resolveCurrentPlayerId();
-    try {
-      const response = await fetchAllianceDirectory();
-      const alliances = response.alliances.map((alliance) => cloneAlliance(alliance));
-      const invites = Object.keys(response.invites ?? {}).length > 0 ? response.invites : buildInvites(alliances);
-      const myAllianceId = response.currentAllianceId
-        ? response.currentAllianceId
-        : alliances.find((entry) => entry.members.includes(currentPlayerId))?.id;
-      applyAllianceDirectory(set, alliances, invites, currentPlayerId, myAllianceId);
-    } catch (error) {
-      console.error('Alliance directory fallback active:', error);
-      const alliances = bootstrapAlliances();
-      const invites = buildInvites(alliances);
-      const myAllianceId = alliances.find((entry) => entry.members.includes(currentPlayerId))?.id;
-      applyAllianceDirectory(set, alliances, invites, currentPlayerId, myAllianceId);
-      set({ error: error instanceof Error ? error.message : 'Unbekannter Fehler beim Laden der Allianzen.' });
-    }
-  },
-
-  createAlliance: ({ tag, name, color }) => {
-    set((state) => {
-      const allianceId = `alliance-${state.alliances.length + 1}-${Date.now()}`;
-      const newAlliance: Alliance = {
-        id: allianceId,
-        tag,
-        name,
-        color,
-        members: [state.currentPlayerId],
-        ranks:
-          state.alliances[0]?.ranks.map((rank) => ({ ...rank, permissions: { ...rank.permissions } })) ?? [],
-        pacts: [],
-        notes: ['* Frisch gegründete Bande – strukturiert eure Kommandokette.'],
-      };
-      const alliancesWithoutMember = state.myAllianceId
-        ? removeMemberFromAlliance(state.alliances, state.myAllianceId, state.currentPlayerId)
-        : state.alliances;
-      updatePlayerAlliance(state.currentPlayerId, allianceId);
-      return {
-        alliances: [...alliancesWithoutMember, newAlliance],
-        invites: { ...state.invites, [`${tag}-JOIN`]: allianceId },
-        myAllianceId: allianceId,
-      };
-    });
-  },
-
-  joinAlliance: (inviteCode) => {
-    set((state) => {
-      const allianceId = state.invites[inviteCode];
-      if (!allianceId) {
-        return {};
-      }
-      const alliancesWithoutMember = state.myAllianceId
-        ? removeMemberFromAlliance(state.alliances, state.myAllianceId, state.currentPlayerId)
-        : state.alliances;
-      const alliances = addMemberToAlliance(alliancesWithoutMember, allianceId, state.currentPlayerId);
-      updatePlayerAlliance(state.currentPlayerId, allianceId);
-      return {
-        alliances,
-        myAllianceId: allianceId,
-      };
-    });
-  },
-
-  leaveAlliance: () => {
-    set((state) => {
-      if (!state.myAllianceId) {
-        return {};
-      }
-      const alliances = removeMemberFromAlliance(state.alliances, state.myAllianceId, state.currentPlayerId);
-      updatePlayerAlliance(state.currentPlayerId, undefined);
-      return {
-        alliances,
-        myAllianceId: undefined,
-      };
-    });
-  },
-
-  setAllianceColor: (color) => {
-    set((state) => {
-      if (!state.myAllianceId) {
-        return {};
-      }
-      const alliances = state.alliances.map((alliance) =>
-        alliance.id === state.myAllianceId ? { ...alliance, color } : alliance,
-      );
-      return { alliances };
-    });
-  },
-
-  addNote: (text) => {
-    set((state) => {
-      if (!state.myAllianceId || !text.trim()) {
-        return {};
-      }
-      const alliances = state.alliances.map((alliance) =>
-        alliance.id === state.myAllianceId
-          ? { ...alliance, notes: [...alliance.notes, text.trim()] }
-          : alliance,
-      );
-      return { alliances };
-    });
-  },
-
-  addPact: (type, targetAllianceId) => {
-    set((state) => {
-      if (!state.myAllianceId || !targetAllianceId) {
-        return {};
-      }
-      const alliances = state.alliances.map((alliance) =>
-        alliance.id === state.myAllianceId
-          ? {
-              ...alliance,
-              pacts: [
-                ...alliance.pacts,
-                {
-                  id: `pact-${alliance.id}-${Date.now()}`,
-                  type,
-                  targetAllianceId,
-                },
-              ],
-            }
-          : alliance,
-      );
-      return { alliances };
-    });
-  },
-}));
-/**
- * Lightweight client-side alliance store handling membership and notes.
- */
-export const useAllianceStore = create<AllianceState & AllianceActions>((set, _get) => {
+export const useAllianceStore = create<AllianceState & AllianceActions>((set, get) => {
   const initialAlliances = bootstrapAlliances();
   const currentPlayer = CURRENT_PLAYER_ID;
   const playerAlliance = initialAlliances.find((entry) => entry.members.includes(currentPlayer))?.id;
   return {
     alliances: initialAlliances,
     invites: buildInvites(initialAlliances),
+    operations: [],
     myAllianceId: playerAlliance,
     currentPlayerId: currentPlayer,
+    isLoading: false,
+    isReady: false,
+    error: undefined,
+
+    initialize: async () => {
+      if (get().isReady || get().isLoading) {
+        return;
+      }
+      await get().refresh();
+    },
+
+    refresh: async () => {
+      set({ isLoading: true, error: undefined });
+      const currentPlayerId = resolveCurrentPlayerId();
+      try {
+        const response = await fetchAllianceDirectory();
+        const alliances = response.alliances.map((alliance) => cloneAlliance(alliance));
+        const invites = Object.keys(response.invites ?? {}).length > 0 ? response.invites : buildInvites(alliances);
+        const myAllianceId = response.currentAllianceId
+          ? response.currentAllianceId
+          : alliances.find((entry) => entry.members.includes(currentPlayerId))?.id;
+        applyAllianceDirectory(set, alliances, invites, currentPlayerId, myAllianceId);
+      } catch (error) {
+        console.error('Alliance directory fallback active:', error);
+        const alliances = bootstrapAlliances();
+        const invites = buildInvites(alliances);
+        const myAllianceId = alliances.find((entry) => entry.members.includes(currentPlayerId))?.id;
+        applyAllianceDirectory(set, alliances, invites, currentPlayerId, myAllianceId);
+        set({ error: error instanceof Error ? error.message : 'Unbekannter Fehler beim Laden der Allianzen.' });
+      }
+    },
 
     createAlliance: ({ tag, name, color }) => {
       set((state) => {
@@ -356,5 +310,85 @@ export const useAllianceStore = create<AllianceState & AllianceActions>((set, _g
         return { alliances };
       });
     },
+
+    createOperation: ({ targetPlanetId, arrivalAt }) => {
+      const { pushToast } = useUiStore.getState();
+      const { alliances, myAllianceId, currentPlayerId } = get();
+      const alliance = alliances.find((entry) => entry.id === myAllianceId);
+      const directory = useDirectoryStore.getState();
+      const target = directory.getPlanetById(targetPlanetId);
+      const now = Date.now();
+      const issues =
+        alliance && target
+          ? [
+              ...validateOperationTarget(resolvePlanetRelation(target, currentPlayerId, myAllianceId, alliances)),
+              ...validateOperationArrival(arrivalAt, now),
+            ]
+          : ['Operationen plant nur eine Bande mit gültigem Zielplaneten.'];
+      if (!alliance || !target || issues.length > 0) {
+        pushToast({ title: 'Operation nicht möglich', description: issues.join(' '), variant: ToastVariant.Warning });
+        return null;
+      }
+      const operation: AllianceOperation = {
+        id: `operation-${now}-${Math.random().toString(36).slice(2, 6)}`,
+        allianceId: alliance.id,
+        createdBy: currentPlayerId,
+        targetPlanetId,
+        targetPlanetName: target.name,
+        arrivalAt,
+        participants: [],
+      };
+      // Other members answer right away with simulated commitments until the server relays real ones.
+      operation.participants = alliance.members
+        .filter((memberId) => memberId !== currentPlayerId)
+        .map((memberId) => announceMemberCommitment(operation, memberId, now))
+        .filter((participant): participant is OperationParticipant => Boolean(participant));
+      set((state) => ({ operations: [operation, ...state.operations] }));
+      pushToast({
+        title: `Operation gegen ${target.name} geplant`,
+        description: `${operation.participants.length} Mitglieder haben Flotten zugesagt.`,
+        variant: ToastVariant.Success,
+      });
+      return operation.id;
+    },
+
+    joinOperation: (operationId, { originPlanetId, fleet }) => {
+      const operation = get().operations.find((entry) => entry.id === operationId);
+      if (!operation) {
+        useUiStore.getState().pushToast({
+          title: 'Operation nicht gefunden',
+          description: 'Die Operation wurde aufgelöst oder gehört zu einer anderen Bande.',
+          variant: ToastVariant.Warning,
+        });
+        return false;
+      }
+      // The mission launches so that it lands together with every other participant.
+      const missionId = useMissionStore.getState().planMission({
+        targetPlanetId: operation.targetPlanetId,
+        missionType: MissionType.Angriff,
+        fleet,
+        originPlanetId,
+        operationId,
+        timing: { mode: 'arrival', at: operation.arrivalAt },
+      });
+      const mission = useMissionStore.getState().missions.find((entry) => entry.id === missionId);
+      if (!mission) {
+        return false;
+      }
+      const participant: OperationParticipant = {
+        playerId: get().currentPlayerId,
+        originPlanetId,
+        originPlanetName: mission.origin.planetName,
+        fleet: mission.fleet,
+        launchAt: mission.launchAt,
+        missionId: mission.id,
+      };
+      set((state) => ({
+        operations: state.operations.map((entry) =>
+          entry.id === operationId ? { ...entry, participants: [...entry.participants, participant] } : entry,
+        ),
+      }));
+      return true;
+    },
   };
 });
@@ -24,6 +24,7 @@ interface DirectoryActions {
   favoritePlanet: (planetId: string) => void;
   getPlanetById: (planetId: string) => GalaxyPlanet | undefined;
   getSystemById: (systemId: string) => GalaxySystem | undefined;
+  getPlanetsOwnedBy: (playerId: string) => GalaxyPlanet[];
   getAllianceColor: (allianceId?: string) => string | undefined;
   setPlanetOwner: (planetId: string, ownerId: string, allianceId?: string) => void;
 }
@@ -117,6 +118,9 @@ export const useDirectoryStore = create<DirectoryState & DirectoryActions>((set,
 
   getSystemById: (systemId) => get().systems.find((system) => system.id === systemId),
 
+  getPlanetsOwnedBy: (playerId) =>
+    get().systems.flatMap((system) => system.planets.filter((planet) => planet.ownerId === playerId)),
+
   getAllianceColor: (allianceId) => {
     if (!allianceId) {
       return undefined;
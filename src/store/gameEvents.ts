@@ -0,0 +1,92 @@
+import { SERVER_SPEED } from '@/constants';
+import {
+  GameEvent,
+  collectEconomyEvents,
+  collectHostileLaunchEvents,
+  collectIncomingEvents,
+  collectMissionEvents,
+  collectShipyardEvents,
+  createEventEngine,
+} from '@/lib/events';
+import { calculateSensorRange } from '@/lib/incoming';
+import { useGameStore } from '@/store/gameStore';
+import { useShipyardStore } from '@/store/shipyardStore';
+import { useMissionStore } from '@/store/missionStore';
+import { useIncomingStore } from '@/store/incomingStore';
+import { requestSimulationAdvance } from '@/store/simulationBridge';
+
+interface EventSource {
+  subscribe: (listener: () => void) => () => void;
+}
+
+/**
+ * Shared event queue of the client simulation. Stores derive their upcoming events from their state and
+ * advance exactly to the timestamp of every event they subscribed to; economy, shipyard and mission events
+ * are handed to the simulation worker.
+ */
+export const gameEvents = createEventEngine(Date.now());
+
+const syncSource = (source: string, derive: () => GameEvent[], stores: EventSource[], onChange?: () => void) => {
+  const sync = () => {
+    gameEvents.replaceSource(source, derive());
+    onChange?.();
+  };
+  sync();
+  const unsubscribes = stores.map((store) => store.subscribe(sync));
+  return () => unsubscribes.forEach((unsubscribe) => unsubscribe());
+};
+
+/**
+ * Keeps the event queue in sync with the stores and routes every event to the store that handles it.
+ * `onChange` runs whenever a store reschedules its events. Returns a function that disconnects everything again.
+ */
+export const connectGameEvents = (onChange?: () => void) => {
+  const disconnects = [
+    syncSource(
+      'economy',
+      () => {
+        const { colonies, research, researchQueue, lastTickAt } = useGameStore.getState();
+        return collectEconomyEvents({ colonies, research, researchQueue }, lastTickAt, SERVER_SPEED);
+      },
+      [useGameStore],
+      onChange,
+    ),
+    syncSource(
+      'shipyard',
+      () => collectShipyardEvents(useShipyardStore.getState().queue),
+      [useShipyardStore],
+      onChange,
+    ),
+    syncSource(
+      'missions',
+      () => collectMissionEvents(useMissionStore.getState().missions),
+      [useMissionStore],
+      onChange,
+    ),
+    syncSource(
+      'incoming',
+      () => {
+        const { incoming, warningThresholds } = useIncomingStore.getState();
+        const range = calculateSensorRange(useGameStore.getState().research.observatoriumsnetz ?? 0);
+        return collectIncomingEvents(incoming, warningThresholds, range);
+      },
+      [useIncomingStore, useGameStore],
+      onChange,
+    ),
+    syncSource(
+      'hostiles',
+      () => collectHostileLaunchEvents(useIncomingStore.getState().nextHostileLaunchAt),
+      [useIncomingStore],
+      onChange,
+    ),
+    gameEvents.subscribe('buildCompleted', (event) => requestSimulationAdvance(event.at)),
+    gameEvents.subscribe('resourceCapReached', (event) => requestSimulationAdvance(event.at)),
+    gameEvents.subscribe('shipCompleted', (event) => requestSimulationAdvance(event.at)),
+    gameEvents.subscribe('missionLaunched', (event) => requestSimulationAdvance(event.at)),
+    gameEvents.subscribe('missionArrived', (event) => requestSimulationAdvance(event.at)),
+    gameEvents.subscribe('missionReturned', (event) => requestSimulationAdvance(event.at)),
+    gameEvents.subscribe('incomingAlert', (event) => useIncomingStore.getState().advanceIncoming(event.at)),
+    gameEvents.subscribe('hostileLaunch', (event) => useIncomingStore.getState().launchHostileMission(event.at)),
+  ];
+  return () => disconnects.forEach((disconnect) => disconnect());
+};
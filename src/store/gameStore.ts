@@ -1,25 +1,15 @@
 import { create } from 'zustand';
 import { immer } from 'zustand/middleware/immer';
+import { createJSONStorage, persist } from 'zustand/middleware';
+import { ResourceType, Resources, View, Building, Research, BuildQueueItem, UpgradeKind } from '@/types';
 import {
-  ResourceType,
-  Resources,
-  Storage,
-  View,
-  Building,
-  Research,
-  BuildQueueItem,
-} from '@/types';
-import {
-  INITIAL_RESOURCES,
-  INITIAL_STORAGE,
   BUILDINGS,
   RESEARCH,
   SERVER_SPEED,
-  INITIAL_BUILDING_LEVELS,
-  INITIAL_RESEARCH_LEVELS,
   MAX_BUILD_QUEUE_LENGTH,
+  MAX_RESEARCH_QUEUE_LENGTH,
+  QUEUE_CANCEL_REFUND_RATIO,
 } from '@/constants';
-import { calculateKesseldruck, calculateResourceProductionPerTick } from '@/lib/economy';
 import {
   calculateBuildDuration,
   calculateUpgradeCost,
@@ -27,37 +17,63 @@ import {
   findMissingResources,
   formatMissingResourceSummary,
 } from '@/lib/progression';
-import { computeQueueSlotTiming, hasQueueCapacity, partitionBuildQueue } from '@/lib/buildQueue';
+import {
+  computeQueueSlotTiming,
+  hasQueueCapacity,
+  moveQueueItem,
+  projectQueuedLevels,
+  removeQueueItemCascade,
+  rescheduleQueue,
+} from '@/lib/buildQueue';
+import {
+  ColonyEconomy,
+  CompletedQueueItem,
+  EmpireEconomy,
+  createColonyEconomy,
+  projectColonyResources,
+} from '@/lib/simulation';
+import { resolveModifiers } from '@/lib/modifiers';
+import {
+  RequirementLevels,
+  findBlockedQueueItems,
+  findMissingRequirements,
+  formatRequirement,
+  projectLevelsAt,
+} from '@/lib/techTree';
+import {
+  GAME_STATE_VERSION,
+  GameStateContext,
+  PersistedGameState,
+  createDefaultGameState,
+  migrateGameState,
+} from '@/lib/saveGame';
 import { ToastVariant, useUiStore } from '@/store/uiStore';
+import { useDirectoryStore } from '@/store/directoryStore';
 
 interface GameState {
-  resources: Resources;
-  storage: Storage;
-  kesseldruck: {
-    capacity: number;
-    consumption: number;
-    net: number;
-    efficiency: number;
-  };
-  buildings: Record<string, number>;
+  colonies: Record<string, ColonyEconomy>;
+  activePlanetId: string;
   research: Record<string, number>;
+  researchQueue: BuildQueueItem[];
   activeView: View;
-  buildQueue: BuildQueueItem[];
+  lastTickAt: number;
 }
 
 interface GameActions {
   setView: (view: View) => void;
-  gameTick: () => void;
+  setActivePlanet: (planetId: string) => void;
+  reconcileColonies: () => void;
+  applyEconomyAdvance: (economy: EmpireEconomy, timestamp: number, completed: CompletedQueueItem[]) => void;
   canAfford: (cost: Resources) => boolean;
+  spendResources: (cost: Resources, planetId?: string) => boolean;
+  refundResources: (amount: Resources, planetId?: string) => void;
   getUpgradeCost: (entity: Building | Research, targetLevel: number) => Resources;
-  getBuildTime: (cost: Resources) => number;
-  startUpgrade: (entity: Building | Research) => void;
+  getBuildTime: (cost: Resources, kind?: UpgradeKind) => number;
+  startUpgrade: (entity: Building | Research, kind: UpgradeKind) => boolean;
+  cancelUpgrade: (kind: UpgradeKind, entityId: string, level: number) => void;
+  moveUpgrade: (kind: UpgradeKind, fromIndex: number, toIndex: number) => boolean;
 }
 
-const RESOURCE_TYPES = Object.values(ResourceType) as ResourceType[];
-
-const createInitialKesseldruck = () => calculateKesseldruck(INITIAL_BUILDING_LEVELS);
-
 interface ToastPayload {
   title: string;
   description: string;
@@ -65,127 +81,429 @@ interface ToastPayload {
 }
 
 /**
- * Central Zustand store that manages the client-side simulation and progression state.
+ * Derives the home planet and all owned planets of the current player from the directory.
+ * Falls back to the first known planet so the economy always has at least one colony.
  */
-export const useGameStore = create<GameState & GameActions>()(
-  immer((set, get) => ({
-    resources: { ...INITIAL_RESOURCES },
-    storage: { ...INITIAL_STORAGE },
-    kesseldruck: { ...createInitialKesseldruck() },
-    buildings: { ...INITIAL_BUILDING_LEVELS },
-    research: { ...INITIAL_RESEARCH_LEVELS },
-    activeView: View.Uebersicht,
-    buildQueue: [],
-
-    setView: (view) => set({ activeView: view }),
-
-    canAfford: (cost) => {
-      const { resources } = get();
-      return (
-        resources[ResourceType.Orichalkum] >= cost[ResourceType.Orichalkum] &&
-        resources[ResourceType.Fokuskristalle] >= cost[ResourceType.Fokuskristalle] &&
-        resources[ResourceType.Vitriol] >= cost[ResourceType.Vitriol]
-      );
-    },
+export const resolveColonyContext = (): GameStateContext => {
+  const directory = useDirectoryStore.getState();
+  const ownedPlanetIds = directory.getPlanetsOwnedBy(directory.currentPlayerId).map((planet) => planet.id);
+  const fallbackPlanetId = directory.systems[0]?.planets[0]?.id ?? 'home';
+  const homePlanetId = ownedPlanetIds[0] ?? fallbackPlanetId;
+  return { homePlanetId, ownedPlanetIds: ownedPlanetIds.length > 0 ? ownedPlanetIds : [homePlanetId] };
+};
 
-    getUpgradeCost: (entity, targetLevel) => calculateUpgradeCost(entity, targetLevel),
+/**
+ * Picks the economy fields that are written to local storage and save files.
+ */
+export const selectPersistedGameState = (state: GameState): PersistedGameState => ({
+  colonies: state.colonies,
+  activePlanetId: state.activePlanetId,
+  research: state.research,
+  researchQueue: state.researchQueue,
+  lastTickAt: state.lastTickAt,
+});
 
-    getBuildTime: (cost) => calculateBuildDuration(cost, SERVER_SPEED),
+/**
+ * Selects the economy of the colony that is currently shown and managed in the UI.
+ */
+export const selectActiveColony = (state: Pick<GameState, 'colonies' | 'activePlanetId'>): ColonyEconomy =>
+  state.colonies[state.activePlanetId];
 
-    startUpgrade: (entity) => {
-      const toasts: ToastPayload[] = [];
-      set((state) => {
-        const isBuilding = 'baseProduction' in entity || entity.id === 'dampfkraftwerk';
-        const currentLevel = isBuilding ? state.buildings[entity.id] || 0 : state.research[entity.id] || 0;
+/**
+ * Selects the stock of the active colony at the timestamp, including the production since the last
+ * simulation update.
+ */
+export const selectProjectedResources = (
+  state: Pick<GameState, 'colonies' | 'activePlanetId' | 'research' | 'lastTickAt'>,
+  timestamp: number,
+): Resources =>
+  projectColonyResources(
+    selectActiveColony(state),
+    state.research,
+    state.lastTickAt,
+    Math.max(timestamp, state.lastTickAt),
+  );
 
-        const nextLevel = determineNextTargetLevel(state.buildQueue, entity.id, currentLevel);
-        const cost = get().getUpgradeCost(entity, nextLevel);
-        const queueHasCapacity = hasQueueCapacity(state.buildQueue, MAX_BUILD_QUEUE_LENGTH);
+/**
+ * Books the production since the last simulation update into every colony, so a player action changes the
+ * stock the player sees and the storage caps apply to it.
+ */
+const settleProduction = (state: GameState, timestamp: number) => {
+  if (timestamp <= state.lastTickAt) {
+    return;
+  }
+  Object.values(state.colonies).forEach((colony) => {
+    colony.resources = projectColonyResources(colony, state.research, state.lastTickAt, timestamp);
+  });
+  state.lastTickAt = timestamp;
+};
 
-        if (!get().canAfford(cost)) {
-          const missingResources = findMissingResources(state.resources, cost);
-          toasts.push({
-            title: 'Ressourcen fehlen',
-            description: `Es fehlen ${formatMissingResourceSummary(missingResources)}.`,
-            variant: ToastVariant.Warning,
-          });
+/**
+ * Collects the building levels of the active colony and the empire-wide research levels for prerequisite checks.
+ * Queued upgrades count as reached by default, so dependent steps can be queued right behind their prerequisites.
+ */
+export const selectRequirementLevels = (
+  state: Pick<GameState, 'colonies' | 'activePlanetId' | 'research' | 'researchQueue'>,
+  includeQueued = true,
+): RequirementLevels => {
+  const colony = selectActiveColony(state);
+  if (!includeQueued) {
+    return { building: colony.buildings, research: state.research };
+  }
+  return {
+    building: projectQueuedLevels(colony.buildings, colony.buildQueue),
+    research: projectQueuedLevels(state.research, state.researchQueue),
+  };
+};
+
+/**
+ * Collects the levels the prerequisites of a new queue entry of the active colony are checked against: the
+ * finished levels plus the upgrades of both queues that are done by the time the entry starts.
+ */
+export const selectRequirementLevelsAt = (
+  state: Pick<GameState, 'colonies' | 'activePlanetId' | 'research' | 'researchQueue'>,
+  startTime: number,
+): RequirementLevels => {
+  const colony = selectActiveColony(state);
+  return projectLevelsAt(
+    { building: colony.buildings, research: state.research },
+    [...colony.buildQueue, ...state.researchQueue],
+    startTime,
+  );
+};
+
+/**
+ * Queue entries of every colony that no longer reach their prerequisites by the time they start. Research is
+ * checked against the buildings of the colony that paid for it.
+ */
+const findBlockedUpgrades = (
+  state: Pick<GameState, 'colonies' | 'activePlanetId' | 'research' | 'researchQueue'>,
+): BuildQueueItem[] =>
+  Object.entries(state.colonies).flatMap(([planetId, colony]) =>
+    findBlockedQueueItems(
+      { building: colony.buildings, research: state.research },
+      [...colony.buildQueue, ...state.researchQueue],
+      [
+        ...colony.buildQueue,
+        ...state.researchQueue.filter((item) => (item.paidByPlanetId ?? state.activePlanetId) === planetId),
+      ],
+    ),
+  );
+
+const findUpgradeEntity = (item: BuildQueueItem) =>
+  item.kind === 'building' ? BUILDINGS[item.entityId] : RESEARCH[item.entityId];
+
+/**
+ * Central Zustand store that manages the client-side simulation and progression state.
+ */
+export const useGameStore = create<GameState & GameActions>()(
+  persist(
+    immer((set, get) => ({
+      ...createDefaultGameState(resolveColonyContext()),
+      activeView: View.Uebersicht,
+
+      setView: (view) => set({ activeView: view }),
+
+      setActivePlanet: (planetId) => {
+        if (!get().colonies[planetId]) {
           return;
         }
+        set({ activePlanetId: planetId });
+      },
 
-        if (!queueHasCapacity) {
-          toasts.push({
-            title: 'Warteschlange voll',
-            description: `Maximal ${MAX_BUILD_QUEUE_LENGTH} Aufträge erlaubt.`,
-            variant: ToastVariant.Warning,
+      reconcileColonies: () => {
+        const directory = useDirectoryStore.getState();
+        const { homePlanetId, ownedPlanetIds } = resolveColonyContext();
+        const modifiers = resolveModifiers(get().research);
+        const allianceId = directory.players.find((player) => player.id === directory.currentPlayerId)?.allianceId;
+        // Conquered planets are not part of the generated universe, so restore their ownership from the colonies.
+        Object.keys(get().colonies).forEach((planetId) => {
+          const planet = directory.getPlanetById(planetId);
+          if (planet && planet.ownerId !== directory.currentPlayerId) {
+            directory.setPlanetOwner(planetId, directory.currentPlayerId, allianceId);
+          }
+        });
+        set((state) => {
+          ownedPlanetIds.forEach((planetId) => {
+            if (!state.colonies[planetId]) {
+              state.colonies[planetId] = createColonyEconomy(undefined, undefined, modifiers);
+            }
           });
-          return;
-        }
+          if (!state.colonies[state.activePlanetId]) {
+            state.activePlanetId = state.colonies[homePlanetId] ? homePlanetId : Object.keys(state.colonies)[0];
+          }
+        });
+      },
 
-        state.resources[ResourceType.Orichalkum] -= cost[ResourceType.Orichalkum];
-        state.resources[ResourceType.Fokuskristalle] -= cost[ResourceType.Fokuskristalle];
-        state.resources[ResourceType.Vitriol] -= cost[ResourceType.Vitriol];
+      canAfford: (cost) => {
+        const resources = selectProjectedResources(get(), Date.now());
+        return (
+          resources[ResourceType.Orichalkum] >= cost[ResourceType.Orichalkum] &&
+          resources[ResourceType.Fokuskristalle] >= cost[ResourceType.Fokuskristalle] &&
+          resources[ResourceType.Vitriol] >= cost[ResourceType.Vitriol]
+        );
+      },
 
-        const buildTime = get().getBuildTime(cost);
-        const now = Date.now();
-        const { startTime, endTime } = computeQueueSlotTiming(state.buildQueue, buildTime, now);
+      spendResources: (cost, planetId) => {
+        let spent = false;
+        set((state) => {
+          settleProduction(state, Date.now());
+          const colony = state.colonies[planetId ?? state.activePlanetId];
+          if (!colony || findMissingResources(colony.resources, cost).length > 0) {
+            return;
+          }
+          colony.resources[ResourceType.Orichalkum] -= cost[ResourceType.Orichalkum];
+          colony.resources[ResourceType.Fokuskristalle] -= cost[ResourceType.Fokuskristalle];
+          colony.resources[ResourceType.Vitriol] -= cost[ResourceType.Vitriol];
+          spent = true;
+        });
+        return spent;
+      },
+
+      refundResources: (amount, planetId) => {
+        set((state) => {
+          const colony = state.colonies[planetId ?? state.activePlanetId];
+          if (!colony) {
+            return;
+          }
+          settleProduction(state, Date.now());
+          // Refunds may exceed the storage cap; production simply pauses until the stock drops again.
+          colony.resources[ResourceType.Orichalkum] += amount[ResourceType.Orichalkum];
+          colony.resources[ResourceType.Fokuskristalle] += amount[ResourceType.Fokuskristalle];
+          colony.resources[ResourceType.Vitriol] += amount[ResourceType.Vitriol];
+        });
+      },
+
+      getUpgradeCost: (entity, targetLevel) => calculateUpgradeCost(entity, targetLevel),
+
+      getBuildTime: (cost, kind = 'building') =>
+        calculateBuildDuration(cost, SERVER_SPEED, resolveModifiers(get().research), kind),
+
+      startUpgrade: (entity, kind) => {
+        const toasts: ToastPayload[] = [];
+        let started = false;
+        set((state) => {
+          const now = Date.now();
+          settleProduction(state, now);
+          const colony = state.colonies[state.activePlanetId];
+          const isBuilding = kind === 'building';
+          const currentLevel = isBuilding ? colony.buildings[entity.id] || 0 : state.research[entity.id] || 0;
+
+          // Buildings queue per colony, research in one empire-wide queue that the active colony pays for.
+          const queue = isBuilding ? colony.buildQueue : state.researchQueue;
+          const maxLength = isBuilding ? MAX_BUILD_QUEUE_LENGTH : MAX_RESEARCH_QUEUE_LENGTH;
+          const nextLevel = determineNextTargetLevel(queue, entity.id, currentLevel);
+          const cost = get().getUpgradeCost(entity, nextLevel);
+          const queueHasCapacity = hasQueueCapacity(queue, maxLength);
+          const buildTime = get().getBuildTime(cost, kind);
+          const { startTime, endTime } = computeQueueSlotTiming(queue, buildTime, now);
+          const missingRequirements = findMissingRequirements(
+            entity.requirements,
+            selectRequirementLevelsAt(state, startTime),
+          );
+
+          // Building and research queues run side by side, so a queued prerequisite may finish too late.
+          if (
+            missingRequirements.length > 0 &&
+            findMissingRequirements(missingRequirements, selectRequirementLevels(state)).length === 0
+          ) {
+            toasts.push({
+              title: 'Voraussetzungen noch im Bau',
+              description: `${missingRequirements.map(formatRequirement).join(', ')} wird erst nach dem Start fertig.`,
+              variant: ToastVariant.Warning,
+            });
+            return;
+          }
+
+          if (missingRequirements.length > 0) {
+            toasts.push({
+              title: 'Voraussetzungen fehlen',
+              description: `Benötigt ${missingRequirements.map(formatRequirement).join(', ')}.`,
+              variant: ToastVariant.Warning,
+            });
+            return;
+          }
+
+          const missingResources = findMissingResources(colony.resources, cost);
+          if (missingResources.length > 0) {
+            toasts.push({
+              title: 'Ressourcen fehlen',
+              description: `Es fehlen ${formatMissingResourceSummary(missingResources)}.`,
+              variant: ToastVariant.Warning,
+            });
+            return;
+          }
+
+          if (!queueHasCapacity) {
+            toasts.push({
+              title: isBuilding ? 'Bauschleife voll' : 'Forschungsschleife voll',
+              description: `Maximal ${maxLength} Aufträge erlaubt.`,
+              variant: ToastVariant.Warning,
+            });
+            return;
+          }
+
+          colony.resources[ResourceType.Orichalkum] -= cost[ResourceType.Orichalkum];
+          colony.resources[ResourceType.Fokuskristalle] -= cost[ResourceType.Fokuskristalle];
+          colony.resources[ResourceType.Vitriol] -= cost[ResourceType.Vitriol];
 
-        state.buildQueue.push({ entityId: entity.id, level: nextLevel, startTime, endTime });
+          const paidByPlanetId = state.activePlanetId;
+          queue.push({ kind, entityId: entity.id, level: nextLevel, startTime, endTime, paidByPlanetId });
+          started = true;
 
-        toasts.push({
-          title: 'Bauauftrag gestartet',
-          description: `${entity.name} erreicht Stufe ${nextLevel}.`,
-          variant: ToastVariant.Success,
+          toasts.push({
+            title: isBuilding ? 'Bauauftrag gestartet' : 'Forschung gestartet',
+            description: `${entity.name} erreicht Stufe ${nextLevel}.`,
+            variant: ToastVariant.Success,
+          });
         });
-      });
-      const { pushToast } = useUiStore.getState();
-      toasts.forEach((toast) => pushToast(toast));
-    },
+        const { pushToast } = useUiStore.getState();
+        toasts.forEach((toast) => pushToast(toast));
+        return started;
+      },
 
-    gameTick: () => {
-      const completionToasts: ToastPayload[] = [];
-      set((state) => {
+      cancelUpgrade: (kind, entityId, level) => {
         const now = Date.now();
-        const { completed, pending } = partitionBuildQueue(state.buildQueue, now);
-
-        if (completed.length > 0) {
-          completed.forEach((item) => {
-            const entity = BUILDINGS[item.entityId] || RESEARCH[item.entityId];
-            if (!entity) {
-              console.error(`Could not find entity with ID: ${item.entityId} in build queue.`);
-              return;
-            }
-            const isBuilding = 'baseProduction' in entity || entity.id === 'dampfkraftwerk';
-            if (isBuilding) {
-              state.buildings[item.entityId] = item.level;
+        const entity = kind === 'building' ? BUILDINGS[entityId] : RESEARCH[entityId];
+        if (!entity) {
+          return;
+        }
+        const toasts: ToastPayload[] = [];
+        set((state) => {
+          const colony = state.colonies[state.activePlanetId];
+          const queue = kind === 'building' ? colony.buildQueue : state.researchQueue;
+          const { remaining, removed } = removeQueueItemCascade(queue, entityId, level);
+          // Entries that already ended are complete, the simulation only has yet to settle them.
+          if (removed.length === 0 || removed.some((item) => item.endTime <= now)) {
+            return;
+          }
+          settleProduction(state, now);
+          const rescheduled = rescheduleQueue(remaining, now);
+          if (kind === 'building') {
+            colony.buildQueue = rescheduled;
+          } else {
+            state.researchQueue = rescheduled;
+          }
+          // Entries that relied on a cancelled level, directly or through another dependent, go with it.
+          const dependents: BuildQueueItem[] = [];
+          for (let blocked = findBlockedUpgrades(state); blocked.length > 0; blocked = findBlockedUpgrades(state)) {
+            const [item] = blocked;
+            const owner = Object.values(state.colonies).find((entry) => entry.buildQueue.includes(item));
+            const cascade = removeQueueItemCascade(
+              owner ? owner.buildQueue : state.researchQueue,
+              item.entityId,
+              item.level,
+            );
+            dependents.push(...cascade.removed);
+            if (owner) {
+              owner.buildQueue = rescheduleQueue(cascade.remaining, now);
             } else {
-              state.research[item.entityId] = item.level;
+              state.researchQueue = rescheduleQueue(cascade.remaining, now);
             }
-            completionToasts.push({
-              title: 'Auftrag abgeschlossen',
-              description: `${entity.name} ist nun Stufe ${item.level}.`,
-              variant: ToastVariant.Info,
-            });
+          }
+          // Research has no home colony, so its refund goes back to the colony that paid for it.
+          [...removed, ...dependents].forEach((item) => {
+            const cost = calculateUpgradeCost(findUpgradeEntity(item) ?? entity, item.level);
+            const payer = (item.paidByPlanetId && state.colonies[item.paidByPlanetId]) || colony;
+            payer.resources[ResourceType.Orichalkum] += Math.floor(
+              cost[ResourceType.Orichalkum] * QUEUE_CANCEL_REFUND_RATIO,
+            );
+            payer.resources[ResourceType.Fokuskristalle] += Math.floor(
+              cost[ResourceType.Fokuskristalle] * QUEUE_CANCEL_REFUND_RATIO,
+            );
+            payer.resources[ResourceType.Vitriol] += Math.floor(cost[ResourceType.Vitriol] * QUEUE_CANCEL_REFUND_RATIO);
           });
-          state.buildQueue = pending;
-        }
-
-        const kesseldruckState = calculateKesseldruck(state.buildings);
-        state.kesseldruck.capacity = kesseldruckState.capacity;
-        state.kesseldruck.consumption = kesseldruckState.consumption;
-        state.kesseldruck.net = kesseldruckState.net;
-        state.kesseldruck.efficiency = kesseldruckState.efficiency;
+          const dependentNames = dependents.map(
+            (item) => `${findUpgradeEntity(item)?.name ?? item.entityId} Stufe ${item.level}`,
+          );
+          toasts.push({
+            title: kind === 'building' ? 'Bauauftrag abgebrochen' : 'Forschung abgebrochen',
+            description: `${entity.name} Stufe ${removed.map((item) => item.level).join(', ')} entfernt${
+              dependentNames.length > 0 ? `, ebenso ${dependentNames.join(', ')}` : ''
+            }, ${Math.round(QUEUE_CANCEL_REFUND_RATIO * 100)} % der Kosten erstattet.`,
+            variant: ToastVariant.Warning,
+          });
+        });
+        const { pushToast } = useUiStore.getState();
+        toasts.forEach((toast) => pushToast(toast));
+      },
 
-        const income = calculateResourceProductionPerTick(state.buildings, SERVER_SPEED, kesseldruckState.efficiency);
+      moveUpgrade: (kind, fromIndex, toIndex) => {
+        const now = Date.now();
+        let moved = false;
+        set((state) => {
+          const colony = state.colonies[state.activePlanetId];
+          const queue = kind === 'building' ? colony.buildQueue : state.researchQueue;
+          // Entries that already ended stay in front until the simulation settles them.
+          const ended = queue.filter((item) => item.endTime <= now).length;
+          const reordered =
+            fromIndex >= ended && toIndex >= ended
+              ? moveQueueItem(queue.slice(ended), fromIndex - ended, toIndex - ended, now)
+              : null;
+          if (!reordered) {
+            return;
+          }
+          const next = [...queue.slice(0, ended), ...reordered];
+          // A dependent entry may not move ahead of the prerequisite it waits for, in this queue or the other.
+          const candidate =
+            kind === 'building'
+              ? { ...state, colonies: { ...state.colonies, [state.activePlanetId]: { ...colony, buildQueue: next } } }
+              : { ...state, researchQueue: next };
+          if (findBlockedUpgrades(candidate).length > findBlockedUpgrades(state).length) {
+            return;
+          }
+          if (kind === 'building') {
+            colony.buildQueue = next;
+          } else {
+            state.researchQueue = next;
+          }
+          moved = true;
+        });
+        return moved;
+      },
 
-        RESOURCE_TYPES.forEach((resource) => {
-          const nextAmount = state.resources[resource] + income[resource];
-          state.resources[resource] = Math.min(state.storage[resource], nextAmount);
+      applyEconomyAdvance: (economy, timestamp, completed) => {
+        const directory = useDirectoryStore.getState();
+        const showPlanetName = Object.keys(economy.colonies).length > 1;
+        const completionToasts: ToastPayload[] = [];
+        completed.forEach(({ planetId, item }) => {
+          const entity = item.kind === 'building' ? BUILDINGS[item.entityId] : RESEARCH[item.entityId];
+          if (!entity) {
+            console.error(`Could not find entity with ID: ${item.entityId} in build queue.`);
+            return;
+          }
+          const planetName = planetId ? directory.getPlanetById(planetId)?.name : undefined;
+          const location = showPlanetName && planetName ? ` auf ${planetName}` : '';
+          completionToasts.push({
+            title: 'Auftrag abgeschlossen',
+            description: `${entity.name}${location} ist nun Stufe ${item.level}.`,
+            variant: ToastVariant.Info,
+          });
         });
-      });
-      if (completionToasts.length > 0) {
-        const { pushToast } = useUiStore.getState();
-        completionToasts.forEach((toast) => pushToast(toast));
-      }
+        set((state) => {
+          state.colonies = economy.colonies;
+          state.research = economy.research;
+          state.researchQueue = economy.researchQueue;
+          state.lastTickAt = timestamp;
+        });
+        if (completionToasts.length > 0) {
+          const { pushToast } = useUiStore.getState();
+          completionToasts.forEach((toast) => pushToast(toast));
+        }
+      },
+    })),
+    {
+      name: 'steam-war-raiders-game',
+      version: GAME_STATE_VERSION,
+      storage:
+        typeof window === 'undefined' ? undefined : createJSONStorage(() => window.localStorage),
+      partialize: (state) => selectPersistedGameState(state),
+      migrate: (persistedState, version) =>
+        migrateGameState(persistedState, version, resolveColonyContext()) as GameState & GameActions,
+      onRehydrateStorage: () => (state) => {
+        // The time the tab was closed is caught up by the event queue, in order with the other stores.
+        state?.reconcileColonies();
+      },
     },
-  })),
+  ),
 );
@@ -0,0 +1,225 @@
+import { create } from 'zustand';
+import { immer } from 'zustand/middleware/immer';
+import { HOSTILE_FLEET_SHARE, INCOMING_WARNING_THRESHOLDS, MAX_HOSTILE_MISSIONS } from '@/constants';
+import {
+  BattleReport,
+  GalaxyPlanet,
+  GalaxySystem,
+  IncomingMission,
+  MissionLocation,
+  MissionStatus,
+  MissionType,
+} from '@/types';
+import {
+  calculateDetectedAt,
+  calculateSensorRange,
+  composeHostileFleet,
+  drawHostileLaunchDelay,
+  findDueWarnings,
+  isMissionTypeRevealed,
+  normalizeWarningThresholds,
+  pickHostileMissionType,
+} from '@/lib/incoming';
+import { calculateMissionTravelDuration, getMissionTypeLabel } from '@/lib/missions';
+import { resolvePlanetRelation } from '@/lib/diplomacy';
+import { resolveHostileArrival } from '@/lib/combat';
+import { collectStationedFleets, countShips } from '@/lib/fleet';
+import { describeForeignPlanet } from '@/lib/foreignPlanets';
+import { computeHexDistance } from '@/lib/hex';
+import { resolveModifiers } from '@/lib/modifiers';
+import { RandomFn } from '@/lib/random';
+import { ToastVariant, useUiStore } from '@/store/uiStore';
+import { useDirectoryStore } from '@/store/directoryStore';
+import { useAllianceStore } from '@/store/allianceStore';
+import { useGameStore } from '@/store/gameStore';
+import { useMissionStore } from '@/store/missionStore';
+
+interface IncomingState {
+  incoming: IncomingMission[];
+  /** Milliseconds before arrival at which detected fleets raise another warning, most distant first. */
+  warningThresholds: number[];
+  /** Scheduled launch of the next hostile fleet from the stand-in generator. */
+  nextHostileLaunchAt: number | null;
+}
+
+interface IncomingActions {
+  advanceIncoming: (timestamp: number) => void;
+  launchHostileMission: (timestamp: number, random?: RandomFn) => void;
+  spawnHostileMission: (timestamp: number, random?: RandomFn) => boolean;
+  setWarningThresholds: (thresholds: number[]) => void;
+}
+
+const MINUTE = 60 * 1000;
+
+const toLocation = (planet: GalaxyPlanet, system: GalaxySystem): MissionLocation => ({
+  systemId: system.id,
+  planetId: planet.id,
+  slot: planet.slot,
+  planetName: planet.name,
+  ownerId: planet.ownerId,
+  allianceId: planet.allianceId,
+});
+
+/**
+ * Notification text for an incoming fleet; the mission type stays hidden below the sensor threshold.
+ */
+const describeIncoming = (mission: IncomingMission, typeKnown: boolean, remaining: number) => {
+  const attacker = useDirectoryStore.getState().players.find((player) => player.id === mission.attackerId);
+  const label = typeKnown ? getMissionTypeLabel(mission.type) : 'Unbekannte Mission';
+  const source = `${attacker?.name ?? mission.attackerId} (${mission.origin.planetName})`;
+  return `${label} von ${source} auf ${mission.target.planetName}, Ankunft in ${Math.ceil(remaining / MINUTE)} Min.`;
+};
+
+/**
+ * Zustand store for hostile fleets heading for the player's planets. Fleets appear in the feed once they
+ * enter sensor range and raise escalating warnings on their way in.
+ */
+export const useIncomingStore = create<IncomingState & IncomingActions>()(
+  immer((set, get) => ({
+    incoming: [],
+    warningThresholds: [...INCOMING_WARNING_THRESHOLDS],
+    nextHostileLaunchAt: Date.now() + drawHostileLaunchDelay(),
+
+    advanceIncoming: (timestamp) => {
+      const { pushToast } = useUiStore.getState();
+      const level = useGameStore.getState().research.observatoriumsnetz ?? 0;
+      const range = calculateSensorRange(level);
+      const typeKnown = isMissionTypeRevealed(level);
+      const { warningThresholds } = get();
+      const notices: { title: string; description: string }[] = [];
+
+      // Fleets stationed at the target, the player's own or an ally's, meet hostile attacks.
+      const battles = new Map<string, BattleReport>();
+      get()
+        .incoming.filter((mission) => timestamp >= mission.arrivalAt && mission.type === MissionType.Angriff)
+        .forEach((mission) => {
+          const { missions, foreignPlanets, applyGarrisonLosses } = useMissionStore.getState();
+          const { planetId } = mission.target;
+          const stationed = collectStationedFleets(
+            missions.filter((entry) => entry.status === MissionStatus.Stationiert),
+          )[planetId];
+          if (!stationed) {
+            return;
+          }
+          const attacker = describeForeignPlanet(
+            mission.origin.planetId,
+            mission.attackerId,
+            foreignPlanets[mission.origin.planetId],
+          );
+          const battle = resolveHostileArrival(mission, attacker.research, useGameStore.getState().research, stationed);
+          applyGarrisonLosses(planetId, battle.defender);
+          battles.set(mission.id, battle);
+        });
+
+      set((state) => {
+        if (state.incoming.some((mission) => timestamp >= mission.arrivalAt)) {
+          state.incoming = state.incoming.filter((mission) => {
+            if (timestamp < mission.arrivalAt) {
+              return true;
+            }
+            const battle = battles.get(mission.id);
+            if (battle) {
+              notices.push({
+                title: `Angriff auf ${mission.target.planetName} ${
+                  battle.outcome === 'defender' ? 'abgewehrt' : 'nicht abgewehrt'
+                }`,
+                description: [
+                  `Stationierte Flotten verlieren ${countShips(battle.defender.losses)} Schiffe,`,
+                  `der Angreifer ${countShips(battle.attacker.losses)}.`,
+                ].join(' '),
+              });
+              return false;
+            }
+            notices.push({
+              title: mission.detected ? 'Feindliche Flotte eingetroffen' : 'Unentdeckte Flotte eingetroffen',
+              description: `Eine Flotte von ${mission.origin.planetName} hat ${mission.target.planetName} erreicht.`,
+            });
+            return false;
+          });
+        }
+        state.incoming.forEach((mission) => {
+          const remaining = mission.arrivalAt - timestamp;
+          if (!mission.detected) {
+            if (timestamp < calculateDetectedAt(mission, range)) {
+              return;
+            }
+            // Thresholds the fleet passed before it was seen are covered by the detection notice.
+            mission.detected = true;
+            mission.warnedThresholds = warningThresholds.filter((threshold) => remaining <= threshold);
+            notices.push({
+              title: 'Feindliche Flotte entdeckt',
+              description: describeIncoming(mission, typeKnown, remaining),
+            });
+            return;
+          }
+          const due = findDueWarnings(warningThresholds, mission.warnedThresholds, remaining);
+          if (due.length > 0) {
+            mission.warnedThresholds.push(...due);
+            const isFinal = due[due.length - 1] === warningThresholds[warningThresholds.length - 1];
+            notices.push({
+              title: `${isFinal ? 'Letzte Warnung' : 'Warnung'}: ${mission.target.planetName}`,
+              description: describeIncoming(mission, typeKnown, remaining),
+            });
+          }
+        });
+      });
+      notices.forEach((notice) => pushToast({ ...notice, variant: ToastVariant.Warning }));
+    },
+
+    // The stand-in generator launches hostile fleets now and then until the server reports real ones.
+    launchHostileMission: (timestamp, random = Math.random) => {
+      if (get().incoming.length < MAX_HOSTILE_MISSIONS) {
+        get().spawnHostileMission(timestamp, random);
+      }
+      set({ nextHostileLaunchAt: timestamp + drawHostileLaunchDelay(random) });
+    },
+
+    spawnHostileMission: (timestamp, random = Math.random) => {
+      const directory = useDirectoryStore.getState();
+      const { alliances, myAllianceId } = useAllianceStore.getState();
+      const { currentPlayerId } = directory;
+      const targets = directory.getPlanetsOwnedBy(currentPlayerId);
+      // Only commanders without a pact or alliance bond send hostile fleets.
+      const origins = directory.systems
+        .flatMap((system) => system.planets)
+        .filter((planet) => resolvePlanetRelation(planet, currentPlayerId, myAllianceId, alliances) === 'foreign');
+      const pick = <T,>(list: T[]) => list[Math.floor(random() * list.length)];
+      const target = pick(targets);
+      const origin = pick(origins);
+      const targetSystem = target && directory.getSystemById(target.systemId);
+      const originSystem = origin && directory.getSystemById(origin.systemId);
+      if (!target || !origin?.ownerId || !targetSystem || !originSystem) {
+        return false;
+      }
+      const type = pickHostileMissionType(random);
+      const { foreignPlanets } = useMissionStore.getState();
+      const profile = describeForeignPlanet(origin.id, origin.ownerId, foreignPlanets[origin.id]);
+      const fleet = composeHostileFleet(profile.fleet, type, HOSTILE_FLEET_SHARE);
+      if (!fleet) {
+        return false;
+      }
+      const distance = computeHexDistance(originSystem.axial, targetSystem.axial);
+      const mission: IncomingMission = {
+        id: `incoming-${timestamp}-${Math.floor(random() * 1e6).toString(36)}`,
+        type,
+        attackerId: origin.ownerId,
+        origin: toLocation(origin, originSystem),
+        target: toLocation(target, targetSystem),
+        launchAt: timestamp,
+        arrivalAt: timestamp + calculateMissionTravelDuration(distance, type, resolveModifiers(profile.research)),
+        distance,
+        fleet,
+        detected: false,
+        warnedThresholds: [],
+      };
+      set((state) => {
+        state.incoming.push(mission);
+      });
+      return true;
+    },
+
+    setWarningThresholds: (thresholds) => {
+      set({ warningThresholds: normalizeWarningThresholds(thresholds) });
+    },
+  })),
+);
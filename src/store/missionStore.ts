@@ -1,14 +1,65 @@
 import { create } from 'zustand';
 import { immer } from 'zustand/middleware/immer';
-import { MISSION_PREPARATION_TIME } from '@/constants';
-import { buildMissionSchedule, getMissionTypeLabel } from '@/lib/missions';
-import { computeHexDistance, formatSystemCoordinate } from '@/lib/hex';
-import { Mission, MissionStatus, MissionType } from '@/types';
+import { createJSONStorage, persist } from 'zustand/middleware';
+import { ROUTE_TERRAIN_COSTS } from '@/constants';
+import {
+  buildMissionSchedule,
+  calculateMissionTravelDuration,
+  calculateRecallArrivalAt,
+  getMissionTypeLabel,
+  resolveLaunchAt,
+  validateLaunchAt,
+} from '@/lib/missions';
+import { formatSystemCoordinate } from '@/lib/hex';
+import { buildTerrainCost, findHexRoute, TerrainCostFn } from '@/lib/pathfinding';
+import { resolveModifiers } from '@/lib/modifiers';
+import {
+  countShips,
+  mergeFleets,
+  normalizeFleet,
+  sumResources,
+  validateCargo,
+  validateFleet,
+} from '@/lib/fleet';
+import { distributeSurvivors, getBattleOutcomeLabel } from '@/lib/combat';
+import {
+  resolvePlanetRelation,
+  validateAttackTarget,
+  validateStationTarget,
+  validateTransportTarget,
+} from '@/lib/diplomacy';
+import {
+  calculateColonyLimit,
+  countPendingColonizations,
+  getColonizationFailureMessage,
+  validateColonization,
+} from '@/lib/colonization';
+import { ForeignPlanetState, describeForeignPlanet } from '@/lib/foreignPlanets';
+import { FleetSnapshot, MissionResolution } from '@/lib/missionSimulation';
+import {
+  FleetComposition,
+  AxialCoordinates,
+  BattleSide,
+  GalaxyPlanet,
+  GalaxySystem,
+  Mission,
+  MissionStatus,
+  MissionTiming,
+  MissionType,
+  ReportType,
+  Resources,
+} from '@/types';
 import { ToastVariant, useUiStore } from '@/store/uiStore';
 import { useDirectoryStore } from '@/store/directoryStore';
+import { useGameStore } from '@/store/gameStore';
+import { useShipyardStore } from '@/store/shipyardStore';
+import { useReportStore } from '@/store/reportStore';
+import { useAllianceStore } from '@/store/allianceStore';
 
 interface MissionState {
   missions: Mission[];
+  /** Battle damage of foreign planets by planet id, so raided planets stay weakened and plundered. */
+  foreignPlanets: Record<string, ForeignPlanetState>;
   originPlanetId: string;
   originSystemId: string;
 }
@@ -16,12 +67,25 @@ interface MissionState {
 interface PlanMissionPayload {
   targetPlanetId: string;
   missionType: MissionType;
+  fleet: FleetComposition;
+  cargo?: Resources;
+  /** Departure request; without one the fleet leaves once preparation ends. */
+  timing?: MissionTiming;
+  /** Launch planet other than the selected origin, e.g. for alliance operations. */
+  originPlanetId?: string;
+  operationId?: string;
 }
 
 interface MissionActions {
-  planMission: (payload: PlanMissionPayload) => void;
+  planMission: (payload: PlanMissionPayload) => string | null;
+  estimateTravelDuration: (targetPlanetId: string, missionType: MissionType, originPlanetId?: string) => number | null;
   setOriginPlanet: (planetId: string) => void;
-  advanceMissions: (timestamp: number) => void;
+  applyMissionAdvance: (fleets: FleetSnapshot, resolution: MissionResolution) => void;
+  rescheduleMission: (missionId: string, timing: MissionTiming, timestamp?: number) => boolean;
+  cancelMission: (missionId: string, timestamp?: number) => boolean;
+  recallMission: (missionId: string, timestamp?: number) => boolean;
+  withdrawStationedFleet: (planetId: string) => boolean;
+  applyGarrisonLosses: (planetId: string, defender: Pick<BattleSide, 'initial' | 'survivors'>) => void;
 }
 
 const resolvePlanet = (planetId: string) => {
@@ -37,7 +101,76 @@ const resolvePlanet = (planetId: string) => {
   return { planet, system };
 };
 
+/**
+ * Location fields of a report about the mission target.
+ */
+const describeReportTarget = (mission: Mission) => {
+  const system = resolvePlanet(mission.target.planetId)?.system;
+  return {
+    missionId: mission.id,
+    systemId: mission.target.systemId,
+    planetId: mission.target.planetId,
+    planetName: mission.target.planetName,
+    coordinate: `${system ? formatSystemCoordinate(system) : mission.target.systemId}:${mission.target.slot}`,
+  };
+};
+
+/**
+ * Relation of the current commander to the owner of a planet, based on the live alliance pacts.
+ */
+const resolveRelation = (planet: Pick<GalaxyPlanet, 'ownerId' | 'allianceId'>) => {
+  const { alliances, myAllianceId } = useAllianceStore.getState();
+  return resolvePlanetRelation(planet, useDirectoryStore.getState().currentPlayerId, myAllianceId, alliances);
+};
+
+/**
+ * Waypoint fields of a planet as stored on a mission.
+ */
+const toMissionLocation = ({ planet, system }: NonNullable<ReturnType<typeof resolvePlanet>>) => ({
+  systemId: system.id,
+  planetId: planet.id,
+  slot: planet.slot,
+  planetName: planet.name,
+  ownerId: planet.ownerId,
+  allianceId: planet.allianceId,
+});
+
+const terrainCosts = new WeakMap<GalaxySystem[], TerrainCostFn>();
+
+/**
+ * Cheapest route between two systems over the terrain of the current galaxy snapshot.
+ */
+const planRoute = (from: AxialCoordinates, to: AxialCoordinates) => {
+  const { systems } = useDirectoryStore.getState();
+  let terrainCost = terrainCosts.get(systems);
+  if (!terrainCost) {
+    terrainCost = buildTerrainCost(systems, ROUTE_TERRAIN_COSTS);
+    terrainCosts.set(systems, terrainCost);
+  }
+  return findHexRoute(from, to, terrainCost);
+};
+
+const formatLaunchTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('de-DE', { dateStyle: 'short', timeStyle: 'short' });
+
+/**
+ * Scheduled mission that can still be edited: planned, not yet launched and no withdrawal, whose
+ * ships would otherwise have no place to go.
+ */
+const findEditableMission = (missions: Mission[], missionId: string, timestamp: number) =>
+  missions.find(
+    (mission) =>
+      mission.id === missionId &&
+      mission.status === MissionStatus.Geplant &&
+      timestamp < mission.launchAt &&
+      !mission.withdrawal,
+  );
+
 const deriveInitialOrigin = () => {
+  const active = resolvePlanet(useGameStore.getState().activePlanetId);
+  if (active) {
+    return { planetId: active.planet.id, systemId: active.system.id };
+  }
   const directory = useDirectoryStore.getState();
   for (const system of directory.systems) {
     for (const planet of system.planets) {
@@ -60,130 +193,454 @@ const initialOrigin = deriveInitialOrigin();
  * Zustand store that tracks client-side mission planning and resolves fleet travel timelines.
  */
 export const useMissionStore = create<MissionState & MissionActions>()(
-  immer((set, get) => ({
-    missions: [],
-    originPlanetId: initialOrigin.planetId,
-    originSystemId: initialOrigin.systemId,
-
-    planMission: ({ targetPlanetId, missionType }) => {
-      const directory = useDirectoryStore.getState();
-      const originContext = resolvePlanet(get().originPlanetId);
-      const targetContext = resolvePlanet(targetPlanetId);
-      if (!originContext || !targetContext) {
+  persist(
+    immer((set, get) => ({
+      missions: [],
+      foreignPlanets: {},
+      originPlanetId: initialOrigin.planetId,
+      originSystemId: initialOrigin.systemId,
+
+      planMission: ({ targetPlanetId, missionType, fleet, cargo, timing, originPlanetId, operationId }) => {
+        const directory = useDirectoryStore.getState();
         const { pushToast } = useUiStore.getState();
+        const originContext = resolvePlanet(originPlanetId ?? get().originPlanetId);
+        const targetContext = resolvePlanet(targetPlanetId);
+        if (!originContext || !targetContext) {
+          pushToast({
+            title: 'Mission konnte nicht geplant werden',
+            description: 'Quelle oder Zielplanet konnten nicht ermittelt werden.',
+            variant: ToastVariant.Warning,
+          });
+          return null;
+        }
+
+        const relation = resolveRelation(targetContext.planet);
+        const attackIssues = missionType === MissionType.Angriff ? validateAttackTarget(relation) : [];
+        if (attackIssues.length > 0) {
+          pushToast({
+            title: 'Angriff nicht möglich',
+            description: attackIssues.join(' '),
+            variant: ToastVariant.Warning,
+          });
+          return null;
+        }
+
+        const shipyard = useShipyardStore.getState();
+        const economy = useGameStore.getState();
+        const now = Date.now();
+        const route = planRoute(originContext.system.axial, targetContext.system.axial);
+        const schedule = buildMissionSchedule(missionType, route.cost, now, resolveModifiers(economy.research), timing);
+        const payload = cargo && sumResources(cargo) > 0 ? cargo : undefined;
+        const issues = [
+          ...validateLaunchAt(schedule.launchAt, now),
+          ...validateFleet(missionType, fleet, shipyard.inventory),
+          ...(cargo ? validateCargo(missionType, fleet, cargo) : []),
+          ...(payload && !economy.colonies[originContext.planet.id]
+            ? ['Ladung kann nur auf eigenen Kolonien aufgenommen werden.']
+            : []),
+          ...(missionType === MissionType.Transport ? validateTransportTarget(relation) : []),
+          ...(missionType === MissionType.Stationierung ? validateStationTarget(relation) : []),
+          ...(missionType === MissionType.Kolonisierung
+            ? validateColonization(
+                targetContext.planet.ownerId,
+                Object.keys(economy.colonies).length,
+                countPendingColonizations(get().missions),
+                calculateColonyLimit(economy.research.himmelsmechanik ?? 0),
+              )
+            : []),
+        ];
+        if (issues.length > 0) {
+          pushToast({
+            title: 'Flotte nicht einsatzbereit',
+            description: issues.join(' '),
+            variant: ToastVariant.Warning,
+          });
+          return null;
+        }
+        // Ships stay locked in the mission until the return leg ends; the cargo is only loaded at launch.
+        shipyard.deployFleet(fleet);
+
+        const mission: Mission = {
+          id: `mission-${now}-${Math.random().toString(36).slice(2, 6)}`,
+          type: missionType,
+          commanderId: directory.currentPlayerId,
+          origin: toMissionLocation(originContext),
+          target: toMissionLocation(targetContext),
+          status: MissionStatus.Geplant,
+          ...schedule,
+          route,
+          fleet: normalizeFleet(fleet),
+          ...(payload ? { cargo: payload } : {}),
+          ...(operationId ? { operationId } : {}),
+        };
+
+        set((state) => {
+          state.missions.unshift(mission);
+        });
+
+        const coordinate = formatSystemCoordinate(targetContext.system);
+        const launchLabel = timing
+          ? `Start am ${formatLaunchTime(schedule.launchAt)}`
+          : `Start in ${Math.round((schedule.launchAt - now) / 60000)} Min.`;
         pushToast({
-          title: 'Mission konnte nicht geplant werden',
-          description: 'Quelle oder Zielplanet konnten nicht ermittelt werden.',
-          variant: ToastVariant.Warning,
+          title: `${getMissionTypeLabel(missionType)} vorbereitet`,
+          description: `${launchLabel} zu ${coordinate}:${targetContext.planet.slot}`,
+          variant: ToastVariant.Info,
         });
-        return;
-      }
+        return mission.id;
+      },
 
-      const distance = computeHexDistance(originContext.system.axial, targetContext.system.axial);
-      const { plannedAt, launchAt, arrivalAt, travelDuration } = buildMissionSchedule(
-        missionType,
-        distance,
-        Date.now(),
-      );
-
-      const mission: Mission = {
-        id: `mission-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
-        type: missionType,
-        commanderId: directory.currentPlayerId,
-        origin: {
-          systemId: originContext.system.id,
-          planetId: originContext.planet.id,
-          slot: originContext.planet.slot,
-          planetName: originContext.planet.name,
-          ownerId: originContext.planet.ownerId,
-          allianceId: originContext.planet.allianceId,
-        },
-        target: {
-          systemId: targetContext.system.id,
-          planetId: targetContext.planet.id,
-          slot: targetContext.planet.slot,
-          planetName: targetContext.planet.name,
-          ownerId: targetContext.planet.ownerId,
-          allianceId: targetContext.planet.allianceId,
-        },
-        status: MissionStatus.Geplant,
-        plannedAt,
-        launchAt,
-        arrivalAt,
-        travelDuration,
-      };
-
-      set((state) => {
-        state.missions.unshift(mission);
-      });
-
-      const coordinate = formatSystemCoordinate(targetContext.system);
-      const { pushToast } = useUiStore.getState();
-      const preparationMinutes = Math.round(MISSION_PREPARATION_TIME / 60000);
-      pushToast({
-        title: `${getMissionTypeLabel(missionType)} vorbereitet`,
-        description: `Start in ${preparationMinutes} Min. zu ${coordinate}:${targetContext.planet.slot}`,
-        variant: ToastVariant.Info,
-      });
-    },
+      estimateTravelDuration: (targetPlanetId, missionType, originPlanetId = get().originPlanetId) => {
+        const originContext = resolvePlanet(originPlanetId);
+        const targetContext = resolvePlanet(targetPlanetId);
+        if (!originContext || !targetContext) {
+          return null;
+        }
+        // Fleets of other commanders fly with the simulated research of their planet.
+        const { ownerId } = originContext.planet;
+        const research =
+          ownerId && ownerId !== useDirectoryStore.getState().currentPlayerId
+            ? describeForeignPlanet(originContext.planet.id, ownerId).research
+            : useGameStore.getState().research;
+        const route = planRoute(originContext.system.axial, targetContext.system.axial);
+        return calculateMissionTravelDuration(route.cost, missionType, resolveModifiers(research));
+      },
 
-    setOriginPlanet: (planetId) => {
-      const context = resolvePlanet(planetId);
-      if (!context) {
-        return;
-      }
-      set({ originPlanetId: planetId, originSystemId: context.system.id });
-    },
+      setOriginPlanet: (planetId) => {
+        const context = resolvePlanet(planetId);
+        if (!context) {
+          return;
+        }
+        set({ originPlanetId: planetId, originSystemId: context.system.id });
+      },
 
-    advanceMissions: (timestamp) => {
-      const directory = useDirectoryStore.getState();
-      const { pushToast } = useUiStore.getState();
-      const currentAllianceId = directory.players.find((player) => player.id === directory.currentPlayerId)?.allianceId;
-      const completed: Mission[] = [];
-
-      set((state) => {
-        state.missions.forEach((mission) => {
-          const previousStatus = mission.status;
-          if (mission.status === MissionStatus.Geplant && timestamp >= mission.launchAt) {
-            mission.status = MissionStatus.Unterwegs;
+      applyMissionAdvance: (fleets, resolution) => {
+        const directory = useDirectoryStore.getState();
+        const { pushToast } = useUiStore.getState();
+        const { addReport } = useReportStore.getState();
+        const currentAllianceId = directory.players.find(
+          (player) => player.id === directory.currentPlayerId,
+        )?.allianceId;
+        set((state) => {
+          state.missions = fleets.missions;
+          state.foreignPlanets = fleets.foreignPlanets;
+        });
+
+        resolution.launched.forEach((mission) => {
+          const targetSystem = resolvePlanet(mission.target.planetId)?.system;
+          const coordinate = targetSystem ? formatSystemCoordinate(targetSystem) : mission.target.systemId;
+          pushToast({
+            title: `${getMissionTypeLabel(mission.type)} gestartet`,
+            description: `Flotte unterwegs nach ${coordinate}:${mission.target.slot}`,
+            variant: ToastVariant.Info,
+          });
+        });
+        resolution.aborted.forEach((mission) => {
+          pushToast({
+            title: `${getMissionTypeLabel(mission.type)} abgebrochen`,
+            description: [
+              `Die Vorräte von ${mission.origin.planetName} reichen beim Start nicht für die Ladung.`,
+              'Die Schiffe liegen wieder im Hangar.',
+            ].join(' '),
+            variant: ToastVariant.Warning,
+          });
+        });
+        resolution.arrivals.forEach(({ mission, battle, intel, delivery, colonizationFailure, claimed }) => {
+          const reportTarget = describeReportTarget(mission);
+          // Joint battles are reported once, with the contingent that opened them.
+          if (battle) {
+            addReport({ ...reportTarget, type: ReportType.Kampf, battle }, mission.arrivalAt);
+            const survivors = countShips(battle.attacker.survivors);
+            const losses = countShips(battle.attacker.losses);
+            const enemyLosses = countShips(battle.defender.losses);
+            const loot = sumResources(battle.loot);
+            pushToast({
+              title: `Schlacht um ${mission.target.planetName} ${getBattleOutcomeLabel(battle.outcome)}`,
+              description: [
+                `Verluste: ${losses} Schiffe, Gegner: ${enemyLosses} Einheiten.`,
+                survivors > 0 ? `Beute: ${loot.toLocaleString('de-DE')} Einheiten.` : 'Die Flotte wurde vernichtet.',
+              ].join(' '),
+              variant: battle.outcome === 'attacker' ? ToastVariant.Success : ToastVariant.Warning,
+            });
           }
-          if (mission.status === MissionStatus.Unterwegs && timestamp >= mission.arrivalAt) {
-            mission.status = MissionStatus.Abgeschlossen;
-            if (mission.type === MissionType.Angriff || mission.type === MissionType.Kolonisierung) {
-              mission.target.ownerId = directory.currentPlayerId;
-              mission.target.allianceId = currentAllianceId;
-            }
+          if (intel) {
+            addReport(
+              {
+                ...reportTarget,
+                type: ReportType.Spionage,
+                snapshot: intel.snapshot,
+                levelDifference: intel.levelDifference,
+                detected: intel.detected,
+              },
+              mission.arrivalAt,
+            );
+            pushToast({
+              title: `Spionagebericht ${mission.target.planetName}`,
+              description: intel.detected
+                ? 'Die Sonden wurden entdeckt und abgeschossen, ihr Bericht liegt vor.'
+                : 'Die Sonden sind unbemerkt geblieben und kehren zurück.',
+              variant: intel.detected ? ToastVariant.Warning : ToastVariant.Success,
+            });
           }
-          if (previousStatus !== mission.status) {
-            const targetSystem = resolvePlanet(mission.target.planetId)?.system;
-            const coordinate = targetSystem ? formatSystemCoordinate(targetSystem) : mission.target.systemId;
-            const label = getMissionTypeLabel(mission.type);
-            if (mission.status === MissionStatus.Unterwegs) {
+          if (mission.type === MissionType.Stationierung) {
+            if (!mission.withdrawal) {
               pushToast({
-                title: `${label} gestartet`,
-                description: `Flotte unterwegs nach ${coordinate}:${mission.target.slot}`,
-                variant: ToastVariant.Info,
-              });
-            }
-            if (mission.status === MissionStatus.Abgeschlossen) {
-              pushToast({
-                title: `${label} abgeschlossen`,
-                description: `${mission.target.planetName} erreicht.`,
+                title: 'Flotte stationiert',
+                description: `Die Schiffe verteidigen ab sofort ${mission.target.planetName}.`,
                 variant: ToastVariant.Success,
               });
-              completed.push({ ...mission });
             }
+          } else if (!mission.battle && !intel && mission.type !== MissionType.Kolonisierung) {
+            pushToast({
+              title: `${getMissionTypeLabel(mission.type)} abgeschlossen`,
+              description: `${mission.target.planetName} erreicht, die Flotte kehrt zurück.`,
+              variant: ToastVariant.Success,
+            });
+          }
+          if (delivery) {
+            addReport(
+              {
+                ...reportTarget,
+                type: ReportType.Transport,
+                delivered: delivery.accepted,
+                returned: delivery.overflow,
+              },
+              mission.arrivalAt,
+            );
+          }
+          if (colonizationFailure) {
+            addReport(
+              { ...reportTarget, type: ReportType.Kolonisierung, conquered: false, failure: colonizationFailure },
+              mission.arrivalAt,
+            );
+            pushToast({
+              title: `Kolonisierung von ${mission.target.planetName} gescheitert`,
+              description: `${getColonizationFailureMessage(colonizationFailure)} Die Flotte kehrt zurück.`,
+              variant: ToastVariant.Warning,
+            });
+          } else if (claimed) {
+            addReport(
+              { ...reportTarget, type: ReportType.Kolonisierung, conquered: Boolean(mission.battle?.conquered) },
+              mission.arrivalAt,
+            );
+            // The simulation already founded the colony; the directory learns the new owner here.
+            directory.setPlanetOwner(mission.target.planetId, directory.currentPlayerId, currentAllianceId);
+            pushToast({
+              title: 'Neue Kolonie',
+              description: `${mission.target.planetName} ist jetzt über den Kolonie-Wechsler erreichbar.`,
+              variant: ToastVariant.Success,
+            });
           }
         });
-      });
+        resolution.returned.forEach((mission) => {
+          pushToast({
+            title: 'Flotte zurück',
+            description: mission.withdrawal
+              ? `Die von ${mission.origin.planetName} abgezogenen Schiffe liegen wieder im Hangar.`
+              : `Die Schiffe der Mission nach ${mission.target.planetName} liegen wieder im Hangar.`,
+            variant: ToastVariant.Info,
+          });
+        });
+      },
 
-      if (completed.length > 0 && directory.setPlanetOwner) {
-        completed.forEach((mission) => {
-          if (mission.type === MissionType.Angriff || mission.type === MissionType.Kolonisierung) {
-            directory.setPlanetOwner(mission.target.planetId, directory.currentPlayerId, currentAllianceId);
+      rescheduleMission: (missionId, timing, timestamp = Date.now()) => {
+        const { pushToast } = useUiStore.getState();
+        const mission = findEditableMission(get().missions, missionId, timestamp);
+        if (!mission) {
+          pushToast({
+            title: 'Zeitplan nicht änderbar',
+            description: 'Nur Missionen vor ihrem Start lassen sich neu planen.',
+            variant: ToastVariant.Warning,
+          });
+          return false;
+        }
+        const launchAt = resolveLaunchAt(timestamp, mission.travelDuration, timing);
+        const issues = validateLaunchAt(launchAt, timestamp);
+        if (issues.length > 0) {
+          pushToast({
+            title: 'Zeitplan nicht änderbar',
+            description: issues.join(' '),
+            variant: ToastVariant.Warning,
+          });
+          return false;
+        }
+        set((state) => {
+          const entry = state.missions.find((candidate) => candidate.id === missionId);
+          if (entry) {
+            entry.launchAt = launchAt;
+            entry.arrivalAt = launchAt + entry.travelDuration;
           }
         });
-      }
+        pushToast({
+          title: 'Zeitplan angepasst',
+          description: `Die Flotte nach ${mission.target.planetName} startet am ${formatLaunchTime(launchAt)}.`,
+          variant: ToastVariant.Info,
+        });
+        return true;
+      },
+
+      cancelMission: (missionId, timestamp = Date.now()) => {
+        const { pushToast } = useUiStore.getState();
+        const mission = findEditableMission(get().missions, missionId, timestamp);
+        if (!mission) {
+          pushToast({
+            title: 'Abbruch nicht möglich',
+            description: 'Nur Missionen vor ihrem Start lassen sich abbrechen.',
+            variant: ToastVariant.Warning,
+          });
+          return false;
+        }
+        set((state) => {
+          const entry = state.missions.find((candidate) => candidate.id === missionId);
+          if (entry) {
+            entry.status = MissionStatus.Abgebrochen;
+            entry.cancelledAt = timestamp;
+          }
+        });
+        // The fleet never left and its cargo is only loaded at launch, so only the ships go back to the hangar.
+        useShipyardStore.getState().returnFleet(mission.fleet);
+        pushToast({
+          title: `${getMissionTypeLabel(mission.type)} abgebrochen`,
+          description: `Die Schiffe für ${mission.target.planetName} liegen wieder im Hangar.`,
+          variant: ToastVariant.Info,
+        });
+        return true;
+      },
+
+      recallMission: (missionId, timestamp = Date.now()) => {
+        const { pushToast } = useUiStore.getState();
+        const mission = get().missions.find((entry) => entry.id === missionId);
+        const returnArrivalAt = mission && !mission.withdrawal ? calculateRecallArrivalAt(mission, timestamp) : null;
+        if (!mission || returnArrivalAt === null) {
+          pushToast({
+            title: 'Rückruf nicht möglich',
+            description: 'Nur Flotten auf dem Hinflug zu ihrem Ziel können zurückgerufen werden.',
+            variant: ToastVariant.Warning,
+          });
+          return false;
+        }
+        set((state) => {
+          const entry = state.missions.find((candidate) => candidate.id === missionId);
+          if (entry) {
+            entry.status = MissionStatus.Rueckkehr;
+            entry.recalledAt = timestamp;
+            entry.returnArrivalAt = returnArrivalAt;
+          }
+        });
+        pushToast({
+          title: 'Flotte zurückgerufen',
+          description: `Die Flotte nach ${mission.target.planetName} hat gewendet und ist auf dem Rückflug.`,
+          variant: ToastVariant.Info,
+        });
+        return true;
+      },
+
+      applyGarrisonLosses: (planetId, defender) => {
+        // Stationed fleets share the losses of the defending side; garrisons without ships are closed.
+        set((state) => {
+          state.missions.forEach((mission) => {
+            if (mission.status !== MissionStatus.Stationiert || mission.target.planetId !== planetId) {
+              return;
+            }
+            mission.fleet = distributeSurvivors(mission.fleet, defender);
+            if (countShips(mission.fleet) === 0) {
+              mission.status = MissionStatus.Abgeschlossen;
+            }
+          });
+        });
+      },
+
+      withdrawStationedFleet: (planetId) => {
+        const { pushToast } = useUiStore.getState();
+        const garrisons = get().missions.filter(
+          (mission) => mission.status === MissionStatus.Stationiert && mission.target.planetId === planetId,
+        );
+        const stationContext = resolvePlanet(planetId);
+        if (garrisons.length === 0 || !stationContext) {
+          pushToast({
+            title: 'Abzug nicht möglich',
+            description: 'Auf diesem Planeten ist keine eigene Flotte stationiert.',
+            variant: ToastVariant.Warning,
+          });
+          return false;
+        }
+        const now = Date.now();
+        const modifiers = resolveModifiers(useGameStore.getState().research);
+        const commanderId = useDirectoryStore.getState().currentPlayerId;
+        // The stationed contingents end here; every contingent flies home to the planet it was sent from, and
+        // contingents of the same origin travel together as one new mission.
+        const homePlanetIds = [...new Set(garrisons.map((garrison) => garrison.origin.planetId))];
+        const withdrawals = homePlanetIds.flatMap((homePlanetId): Mission[] => {
+          const homeContext = resolvePlanet(homePlanetId);
+          if (!homeContext) {
+            return [];
+          }
+          const route = planRoute(stationContext.system.axial, homeContext.system.axial);
+          return [
+            {
+              id: `mission-${now}-${Math.random().toString(36).slice(2, 6)}`,
+              type: MissionType.Stationierung,
+              commanderId,
+              origin: toMissionLocation(stationContext),
+              target: toMissionLocation(homeContext),
+              status: MissionStatus.Geplant,
+              ...buildMissionSchedule(MissionType.Stationierung, route.cost, now, modifiers),
+              route,
+              fleet: mergeFleets(
+                ...garrisons
+                  .filter((garrison) => garrison.origin.planetId === homePlanetId)
+                  .map((garrison) => garrison.fleet),
+              ),
+              withdrawal: true,
+            },
+          ];
+        });
+        if (withdrawals.length === 0) {
+          pushToast({
+            title: 'Abzug nicht möglich',
+            description: 'Der Heimatplanet der stationierten Flotte konnte nicht ermittelt werden.',
+            variant: ToastVariant.Warning,
+          });
+          return false;
+        }
+        const withdrawnOrigins = new Set(withdrawals.map((withdrawal) => withdrawal.target.planetId));
+        set((state) => {
+          state.missions.forEach((entry) => {
+            if (
+              entry.status === MissionStatus.Stationiert &&
+              entry.target.planetId === planetId &&
+              withdrawnOrigins.has(entry.origin.planetId)
+            ) {
+              entry.status = MissionStatus.Abgeschlossen;
+              entry.fleet = {};
+            }
+          });
+          state.missions.unshift(...withdrawals);
+        });
+        const destinations = withdrawals.map((withdrawal) => withdrawal.target.planetName).join(', ');
+        pushToast({
+          title: 'Abzug vorbereitet',
+          description: `Die Flotte verlässt ${stationContext.planet.name} in Richtung ${destinations}.`,
+          variant: ToastVariant.Info,
+        });
+        return true;
+      },
+    })),
+    {
+      name: 'steam-war-raiders-missions',
+      version: 1,
+      storage:
+        typeof window === 'undefined' ? undefined : createJSONStorage(() => window.localStorage),
+      // Ships away on missions have left the shipyard inventory, so they are stored with their missions.
+      partialize: (state) => ({ missions: state.missions, foreignPlanets: state.foreignPlanets }),
     },
-  })),
+  ),
 );
+
+// New missions start from the colony shown in the UI. The game store never imports this store, so it is fully
+// set up before this subscription and the initial origin above are evaluated.
+useGameStore.subscribe((state, previous) => {
+  if (state.activePlanetId !== previous.activePlanetId) {
+    useMissionStore.getState().setOriginPlanet(state.activePlanetId);
+  }
+});
@@ -0,0 +1,92 @@
+import { create } from 'zustand';
+import { immer } from 'zustand/middleware/immer';
+import { createJSONStorage, persist } from 'zustand/middleware';
+import { Report } from '@/types';
+import { pruneReports } from '@/lib/reports';
+
+type InboxFields = 'id' | 'createdAt' | 'read' | 'archived';
+
+type WithoutInboxFields<Entry> = Entry extends Report ? Omit<Entry, InboxFields> : never;
+
+/**
+ * Report payload as produced by mission resolution; inbox metadata is filled in by the store.
+ */
+export type NewReport = WithoutInboxFields<Report>;
+
+interface ReportState {
+  reports: Report[];
+}
+
+interface ReportActions {
+  addReport: (report: NewReport, createdAt?: number) => void;
+  setRead: (reportId: string, read: boolean) => void;
+  markAllRead: () => void;
+  setArchived: (reportId: string, archived: boolean) => void;
+  deleteReport: (reportId: string) => void;
+}
+
+/**
+ * Persistent inbox for mission reports (combat, espionage, transport and colonization).
+ */
+export const useReportStore = create<ReportState & ReportActions>()(
+  persist(
+    immer((set) => ({
+      reports: [],
+
+      addReport: (report, createdAt = Date.now()) => {
+        const entry = {
+          ...report,
+          id: `report-${createdAt}-${Math.random().toString(36).slice(2, 6)}`,
+          createdAt,
+          read: false,
+          archived: false,
+        } as Report;
+        set((state) => {
+          state.reports = pruneReports([entry, ...state.reports]);
+        });
+      },
+
+      setRead: (reportId, read) => {
+        set((state) => {
+          const report = state.reports.find((entry) => entry.id === reportId);
+          if (report) {
+            report.read = read;
+          }
+        });
+      },
+
+      markAllRead: () => {
+        set((state) => {
+          state.reports.forEach((report) => {
+            if (!report.archived) {
+              report.read = true;
+            }
+          });
+        });
+      },
+
+      setArchived: (reportId, archived) => {
+        set((state) => {
+          const report = state.reports.find((entry) => entry.id === reportId);
+          if (report) {
+            report.archived = archived;
+            report.read = report.read || archived;
+          }
+        });
+      },
+
+      deleteReport: (reportId) => {
+        set((state) => {
+          state.reports = state.reports.filter((report) => report.id !== reportId);
+        });
+      },
+    })),
+    {
+      name: 'steam-war-raiders-reports',
+      version: 1,
+      storage:
+        typeof window === 'undefined' ? undefined : createJSONStorage(() => window.localStorage),
+      partialize: (state) => ({ reports: state.reports }),
+    },
+  ),
+);
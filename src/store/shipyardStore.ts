@@ -1,15 +1,24 @@
 import { create } from 'zustand';
 import { immer } from 'zustand/middleware/immer';
 import { createJSONStorage, persist } from 'zustand/middleware';
+import { INITIAL_FLEET_COMPOSITION, INITIAL_HANGAR_CAPACITY, MAX_SHIPYARD_QUEUE } from '@/constants';
+import { FleetComposition, Resources, ShipBuildOrder } from '@/types';
+import { selectRequirementLevels, useGameStore } from '@/store/gameStore';
+import { findMissingRequirements, formatRequirement } from '@/lib/techTree';
 import {
-  INITIAL_FLEET_COMPOSITION,
-  INITIAL_HANGAR_CAPACITY,
-  MAX_SHIPYARD_QUEUE,
-  SHIP_BLUEPRINTS,
-} from '@/constants';
-import { Resources, ResourceType, ShipBlueprint, ShipBuildOrder } from '@/types';
-import { useGameStore } from '@/store/gameStore';
+  calculateInventorySlots,
+  calculateReservedSlots,
+  calculateShipBuildDuration,
+  findBlueprint,
+  isOpenOrder,
+  isOrderRunning,
+  rescheduleShipOrders,
+  scaleCost,
+} from '@/lib/shipyard';
+import { ShipyardSnapshot } from '@/lib/simulationCore';
 import { ToastVariant, useUiStore } from '@/store/uiStore';
+import { useMissionStore } from '@/store/missionStore';
+import { collectDeployedFleet, detachFleet, mergeFleets } from '@/lib/fleet';
 
 interface ShipyardState {
   queue: ShipBuildOrder[];
@@ -20,65 +29,11 @@ interface ShipyardState {
 interface ShipyardActions {
   startOrder: (blueprintId: string, quantity?: number) => void;
   cancelOrder: (orderId: string) => void;
-  advance: (timestamp: number) => void;
+  applyShipyardAdvance: (shipyard: ShipyardSnapshot, completed: ShipBuildOrder[]) => void;
+  deployFleet: (fleet: FleetComposition) => boolean;
+  returnFleet: (fleet: FleetComposition) => void;
 }
 
-const findBlueprint = (blueprintId: string): ShipBlueprint | undefined =>
-  SHIP_BLUEPRINTS.find((entry) => entry.id === blueprintId);
-
-const scaleCost = (base: Resources, quantity: number): Resources => ({
-  [ResourceType.Orichalkum]: base[ResourceType.Orichalkum] * quantity,
-  [ResourceType.Fokuskristalle]: base[ResourceType.Fokuskristalle] * quantity,
-  [ResourceType.Vitriol]: base[ResourceType.Vitriol] * quantity,
-});
-
-const calculateDuration = (blueprint: ShipBlueprint, quantity: number) =>
-  blueprint.buildTimeSeconds * 1000 * quantity;
-
-const calculateReservedSlots = (orders: ShipBuildOrder[]) =>
-  orders.reduce((acc, order) => {
-    if (order.status === 'completed' || order.status === 'cancelled') {
-      return acc;
-    }
-    const blueprint = findBlueprint(order.blueprintId);
-    if (!blueprint) {
-      return acc;
-    }
-    return acc + blueprint.hangarSlots * order.quantity;
-  }, 0);
-
-const calculateInventorySlots = (inventory: Record<string, number>) =>
-  Object.entries(inventory).reduce((acc, [blueprintId, quantity]) => {
-    const blueprint = findBlueprint(blueprintId);
-    if (!blueprint) {
-      return acc;
-    }
-    return acc + blueprint.hangarSlots * quantity;
-  }, 0);
-
-const rebuildQueuedSchedule = (orders: ShipBuildOrder[]) => {
-  const now = Date.now();
-  let cursor = now;
-  const sorted = [...orders].sort((a, b) => a.startTime - b.startTime);
-  sorted.forEach((order) => {
-    const blueprint = findBlueprint(order.blueprintId);
-    if (!blueprint) {
-      return;
-    }
-    if (order.status === 'building') {
-      cursor = Math.max(cursor, order.endTime);
-      return;
-    }
-    if (order.status !== 'queued') {
-      return;
-    }
-    const duration = calculateDuration(blueprint, order.quantity);
-    order.startTime = Math.max(cursor, now);
-    order.endTime = order.startTime + duration;
-    cursor = order.endTime;
-  });
-};
-
 const initialInventory = { ...INITIAL_FLEET_COMPOSITION };
 
 /**
@@ -97,10 +52,26 @@ export const useShipyardStore = create<ShipyardState & ShipyardActions>()(
           return;
         }
         const { pushToast } = useUiStore.getState();
+        // Ships leave the dock right away, so only finished buildings and research unlock a blueprint.
+        const missingRequirements = findMissingRequirements(
+          blueprint.requirements,
+          selectRequirementLevels(useGameStore.getState(), false),
+        );
+        if (missingRequirements.length > 0) {
+          pushToast({
+            title: 'Bauplan gesperrt',
+            description: `Benötigt ${missingRequirements.map(formatRequirement).join(', ')}.`,
+            variant: ToastVariant.Warning,
+          });
+          return;
+        }
         const reservedSlots = calculateReservedSlots(get().queue);
-        const occupiedSlots = calculateInventorySlots(get().inventory);
+        // Ships away on missions keep their berth so they always find room when they return.
+        const occupiedSlots =
+          calculateInventorySlots(get().inventory) +
+          calculateInventorySlots(collectDeployedFleet(useMissionStore.getState().missions));
         const requiredSlots = blueprint.hangarSlots * quantity;
-        if (get().queue.filter((order) => order.status !== 'completed' && order.status !== 'cancelled').length >= MAX_SHIPYARD_QUEUE) {
+        if (get().queue.filter(isOpenOrder).length >= MAX_SHIPYARD_QUEUE) {
           pushToast({
             title: 'Werft belegt',
             description: `Maximal ${MAX_SHIPYARD_QUEUE} Aufträge möglich.`,
@@ -117,7 +88,8 @@ export const useShipyardStore = create<ShipyardState & ShipyardActions>()(
           return;
         }
         const cost = scaleCost(blueprint.baseCost, quantity);
-        const spent = useGameStore.getState().spendResources(cost);
+        const paidByPlanetId = useGameStore.getState().activePlanetId;
+        const spent = useGameStore.getState().spendResources(cost, paidByPlanetId);
         if (!spent) {
           pushToast({
             title: 'Ressourcen fehlen',
@@ -128,19 +100,20 @@ export const useShipyardStore = create<ShipyardState & ShipyardActions>()(
         }
         const now = Date.now();
         const activeOrders = get()
-          .queue.filter((order) => order.status !== 'completed' && order.status !== 'cancelled')
+          .queue.filter(isOpenOrder)
           .sort((a, b) => a.endTime - b.endTime);
         const lastEnd = activeOrders.length > 0 ? activeOrders[activeOrders.length - 1].endTime : now;
         const startTime = Math.max(now, lastEnd);
-        const duration = calculateDuration(blueprint, quantity);
+        const duration = calculateShipBuildDuration(blueprint, quantity);
         const endTime = startTime + duration;
         const order: ShipBuildOrder = {
-          id: `ship-${blueprintId}-${Date.now()}`,
+          id: `ship-${blueprintId}-${now}-${Math.random().toString(36).slice(2, 6)}`,
           blueprintId,
           quantity,
           startTime,
           endTime,
           status: 'queued',
+          paidByPlanetId,
         };
         set((state) => {
           state.queue.push(order);
@@ -154,12 +127,15 @@ export const useShipyardStore = create<ShipyardState & ShipyardActions>()(
 
       cancelOrder: (orderId) => {
         const { pushToast } = useUiStore.getState();
-        const { refundResources } = useGameStore.getState();
+        const { refundResources, colonies } = useGameStore.getState();
         let refund: Resources | null = null;
+        let payerId: string | undefined;
         let blueprintName = '';
+        const now = Date.now();
         set((state) => {
           const order = state.queue.find((entry) => entry.id === orderId);
-          if (!order || order.status !== 'queued') {
+          // Orders already on the slipway are built to the end.
+          if (!order || order.status !== 'queued' || isOrderRunning(order, now)) {
             return;
           }
           const blueprint = findBlueprint(order.blueprintId);
@@ -168,11 +144,15 @@ export const useShipyardStore = create<ShipyardState & ShipyardActions>()(
           }
           refund = scaleCost(blueprint.baseCost, order.quantity);
           blueprintName = blueprint.name;
-          state.queue = state.queue.filter((entry) => entry.id !== orderId);
-          rebuildQueuedSchedule(state.queue);
+          // The refund goes back to the colony that paid, unless it has been lost since.
+          payerId = order.paidByPlanetId && colonies[order.paidByPlanetId] ? order.paidByPlanetId : undefined;
+          state.queue = rescheduleShipOrders(
+            state.queue.filter((entry) => entry.id !== orderId),
+            now,
+          );
         });
         if (refund && blueprintName) {
-          refundResources(refund);
+          refundResources(refund, payerId);
           pushToast({
             title: `${blueprintName} gestoppt`,
             description: 'Ressourcen wurden erstattet.',
@@ -181,23 +161,13 @@ export const useShipyardStore = create<ShipyardState & ShipyardActions>()(
         }
       },
 
-      advance: (timestamp) => {
+      applyShipyardAdvance: (shipyard, completed) => {
         const { pushToast } = useUiStore.getState();
-        const completions: { blueprintId: string; quantity: number }[] = [];
         set((state) => {
-          state.queue.forEach((order) => {
-            if (order.status === 'queued' && timestamp >= order.startTime) {
-              order.status = 'building';
-            }
-            if (order.status === 'building' && timestamp >= order.endTime) {
-              order.status = 'completed';
-              state.inventory[order.blueprintId] = (state.inventory[order.blueprintId] ?? 0) + order.quantity;
-              completions.push({ blueprintId: order.blueprintId, quantity: order.quantity });
-            }
-          });
-          rebuildQueuedSchedule(state.queue);
+          state.queue = shipyard.queue;
+          state.inventory = shipyard.inventory;
         });
-        completions.forEach((completion) => {
+        completed.forEach((completion) => {
           const blueprint = findBlueprint(completion.blueprintId);
           if (!blueprint) {
             return;
@@ -209,6 +179,23 @@ export const useShipyardStore = create<ShipyardState & ShipyardActions>()(
           });
         });
       },
+
+      deployFleet: (fleet) => {
+        const remaining = detachFleet(get().inventory, fleet);
+        if (!remaining) {
+          return false;
+        }
+        set((state) => {
+          state.inventory = remaining;
+        });
+        return true;
+      },
+
+      returnFleet: (fleet) => {
+        set((state) => {
+          state.inventory = mergeFleets(state.inventory, fleet);
+        });
+      },
     })),
     {
       name: 'steam-war-raiders-shipyard',
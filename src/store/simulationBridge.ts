@@ -0,0 +1,172 @@
+import {
+  SimulationRequest,
+  SimulationResponse,
+  SimulationState,
+  applySimulationDiff,
+  createSimulationHost,
+} from '@/lib/simulationCore';
+import { MissionPlanet, MissionWorld } from '@/lib/missionSimulation';
+import { acceptsTransports, resolvePlanetRelation } from '@/lib/diplomacy';
+import { isMissionFinished } from '@/lib/missions';
+import { Mission } from '@/types';
+import { ToastVariant, useUiStore } from '@/store/uiStore';
+import { useDirectoryStore } from '@/store/directoryStore';
+import { useGameStore } from '@/store/gameStore';
+import { useShipyardStore } from '@/store/shipyardStore';
+import { useMissionStore } from '@/store/missionStore';
+import { useAllianceStore } from '@/store/allianceStore';
+
+let send: ((request: SimulationRequest) => void) | null = null;
+let revision = 0;
+let applying = false;
+
+/**
+ * Commander, alliance operations and the planets of every mission still under way, as mission resolution
+ * sees them.
+ */
+const selectMissionWorld = (missions: Mission[]): MissionWorld => {
+  const directory = useDirectoryStore.getState();
+  const { alliances, myAllianceId, operations } = useAllianceStore.getState();
+  const planets: Record<string, MissionPlanet> = {};
+  missions
+    .filter((mission) => !isMissionFinished(mission.status))
+    .flatMap((mission) => [mission.origin.planetId, mission.target.planetId])
+    .forEach((planetId) => {
+      const planet = directory.getPlanetById(planetId);
+      const system = planet ? directory.getSystemById(planet.systemId) : undefined;
+      if (!planet || !system) {
+        return;
+      }
+      const relation = resolvePlanetRelation(planet, directory.currentPlayerId, myAllianceId, alliances);
+      planets[planetId] = {
+        axial: system.axial,
+        ownerId: planet.ownerId,
+        acceptsTransports: acceptsTransports(relation),
+      };
+    });
+  return {
+    commanderId: directory.currentPlayerId,
+    allianceId: directory.players.find((player) => player.id === directory.currentPlayerId)?.allianceId,
+    operations,
+    planets,
+  };
+};
+
+const selectSimulationState = (): SimulationState => {
+  const { colonies, research, researchQueue, lastTickAt } = useGameStore.getState();
+  const { queue, inventory } = useShipyardStore.getState();
+  const { missions, foreignPlanets } = useMissionStore.getState();
+  return {
+    economy: { colonies, research, researchQueue },
+    lastTickAt,
+    shipyard: { queue, inventory },
+    fleets: { missions, foreignPlanets },
+    world: selectMissionWorld(missions),
+  };
+};
+
+// Store fields the simulation state is derived from; a new reference in any of them means a new sync.
+const selectSources = () => {
+  const { colonies, research, researchQueue, lastTickAt } = useGameStore.getState();
+  const { queue, inventory } = useShipyardStore.getState();
+  const { missions, foreignPlanets } = useMissionStore.getState();
+  const { systems, players, currentPlayerId } = useDirectoryStore.getState();
+  const { alliances, myAllianceId, operations } = useAllianceStore.getState();
+  return [
+    colonies,
+    research,
+    researchQueue,
+    lastTickAt,
+    queue,
+    inventory,
+    missions,
+    foreignPlanets,
+    systems,
+    players,
+    currentPlayerId,
+    alliances,
+    myAllianceId,
+    operations,
+  ];
+};
+
+const receive = (response: SimulationResponse) => {
+  // Player actions since the worker's last sync win; the worker replays time on top of them.
+  if (response.revision !== revision) {
+    return;
+  }
+  const next = applySimulationDiff(selectSimulationState(), response.diff);
+  // The worker already holds this outcome, including the planets the missions claimed, so none of it is
+  // synced back.
+  applying = true;
+  try {
+    useGameStore.getState().applyEconomyAdvance(next.economy, next.lastTickAt, response.completed);
+    useShipyardStore.getState().applyShipyardAdvance(next.shipyard, response.completedOrders);
+    useMissionStore.getState().applyMissionAdvance(next.fleets, response.missions);
+  } finally {
+    applying = false;
+  }
+  const directory = useDirectoryStore.getState();
+  response.filledStorages.forEach(({ planetId, resource }) => {
+    const planetName = directory.getPlanetById(planetId)?.name ?? planetId;
+    useUiStore.getState().pushToast({
+      title: 'Lager voll',
+      description: `${resource} auf ${planetName} hat die Lagergrenze erreicht.`,
+      variant: ToastVariant.Info,
+    });
+  });
+};
+
+/**
+ * Moves the economy, shipyard and mission simulation into a dedicated worker. The game, shipyard and mission
+ * stores become mirrors: player actions change them directly and are synced to the worker, time only moves
+ * forward through the diffs it sends back. Without worker support the same host runs inline.
+ * Returns a function that stops the worker again.
+ */
+export const connectSimulation = () => {
+  const worker =
+    typeof Worker === 'undefined'
+      ? null
+      : new Worker(new URL('../workers/simulation.worker.ts', import.meta.url), { type: 'module' });
+  const handleMessage = (event: MessageEvent<SimulationResponse>) => receive(event.data);
+  if (worker) {
+    worker.addEventListener('message', handleMessage);
+    send = (request) => worker.postMessage(request);
+  } else {
+    send = createSimulationHost(receive);
+  }
+
+  let synced = selectSources();
+  const sync = () => {
+    const current = selectSources();
+    if (current.every((source, index) => source === synced[index])) {
+      return;
+    }
+    synced = current;
+    if (!applying) {
+      revision += 1;
+      send?.({ type: 'sync', revision, state: selectSimulationState() });
+    }
+  };
+  revision += 1;
+  send({ type: 'sync', revision, state: selectSimulationState() });
+  const unsubscribes = [
+    useGameStore.subscribe(sync),
+    useShipyardStore.subscribe(sync),
+    useMissionStore.subscribe(sync),
+    useDirectoryStore.subscribe(sync),
+    useAllianceStore.subscribe(sync),
+  ];
+
+  return () => {
+    unsubscribes.forEach((unsubscribe) => unsubscribe());
+    worker?.removeEventListener('message', handleMessage);
+    worker?.terminate();
+    send = null;
+  };
+};
+
+/**
+ * Asks the simulation worker to advance the economy, shipyard and missions to the timestamp.
+ */
+export const requestSimulationAdvance = (timestamp: number) => send?.({ type: 'advance', timestamp });
@@ -7,18 +7,57 @@ export enum ResourceType {
 export type Resources = Record<ResourceType, number>;
 export type Storage = Resources;
 
+/**
+ * Prerequisite that must be reached before an entity can be upgraded or built.
+ */
+export interface Requirement {
+  kind: 'building' | 'research';
+  id: string;
+  level: number;
+}
+
 export interface Building {
   id: string;
   name: string;
   description: string;
   baseCost: Resources;
   costMultiplier: number;
-  baseProduction: Resources;
+  baseProduction?: Resources;
   productionMultiplier?: number;
   baseEnergyConsumption?: number;
   energyConsumptionMultiplier?: number;
   baseEnergySupply?: number;
   energySupplyMultiplier?: number;
+  baseStorageCapacity?: Partial<Resources>;
+  storageCapacityMultiplier?: number;
+  requirements?: Requirement[];
+}
+
+/**
+ * Formula values that research effects can scale.
+ */
+export enum ModifierTarget {
+  Production = 'production',
+  EnergySupply = 'energySupply',
+  EnergyConsumption = 'energyConsumption',
+  StorageCapacity = 'storageCapacity',
+  BuildTime = 'buildTime',
+  ResearchTime = 'researchTime',
+  TravelTime = 'travelTime',
+  Attack = 'attack',
+  Shield = 'shield',
+  Hull = 'hull',
+  Espionage = 'espionage',
+}
+
+/**
+ * Declarative research effect; the percentage is applied once per research level.
+ * Production effects may be limited to a single resource.
+ */
+export interface ResearchEffect {
+  target: ModifierTarget;
+  percentPerLevel: number;
+  resource?: ResourceType;
 }
 
 export interface Research {
@@ -27,34 +66,94 @@ export interface Research {
   description: string;
   baseCost: Resources;
   costMultiplier: number;
+  effects?: ResearchEffect[];
+  requirements?: Requirement[];
 }
 
-export interface ShipBlueprint {
+/**
+ * Tactical role of a ship class; mission types require ships of specific roles.
+ */
+export type ShipRole = 'Aufklärung' | 'Transport' | 'Angriff' | 'Unterstützung' | 'Kolonisierung';
+
+/**
+ * Combat values shared by ships and planetary defences, before research modifiers.
+ */
+export interface CombatStats {
+  attack: number;
+  shield: number;
+  hull: number;
+}
+
+export interface ShipBlueprint extends CombatStats {
   id: string;
   name: string;
   description: string;
-  role: 'Aufklärung' | 'Transport' | 'Angriff' | 'Unterstützung';
+  role: ShipRole;
   hangarSlots: number;
   baseCost: Resources;
   buildTimeSeconds: number;
   crew: number;
   cargo: number;
+  requirements?: Requirement[];
 }
 
+/**
+ * Stationary defence of a planet; it fights every attack but never leaves its planet.
+ */
+export interface DefenceBlueprint extends CombatStats {
+  id: string;
+  name: string;
+  description: string;
+}
+
+/**
+ * Lifecycle of a shipyard order from queuing to delivery into the hangar.
+ */
+export type ShipOrderStatus = 'queued' | 'building' | 'completed' | 'cancelled';
+
+/**
+ * Batch of identical ships ordered at the shipyard.
+ */
+export interface ShipBuildOrder {
+  id: string;
+  blueprintId: string;
+  quantity: number;
+  startTime: number;
+  endTime: number;
+  status: ShipOrderStatus;
+  /** Colony that paid for the order and receives the refund when it is cancelled. */
+  paidByPlanetId?: string;
+}
+
+/**
+ * Ship counts keyed by blueprint id, used for hangar inventories and mission fleets.
+ */
+export type FleetComposition = Record<string, number>;
+
 export enum View {
   Uebersicht = 'Uebersicht',
   Gebaeude = 'Gebaeude',
   Forschung = 'Forschung',
   Werft = 'Werft',
   Galaxie = 'Galaxie',
+  Berichte = 'Berichte',
+  Zeitplan = 'Zeitplan',
   Bande = 'Bande',
 }
 
+/**
+ * Distinguishes building upgrades from research projects; each kind runs in its own queue.
+ */
+export type UpgradeKind = 'building' | 'research';
+
 export interface BuildQueueItem {
+  kind: UpgradeKind;
   entityId: string;
   level: number;
   startTime: number;
   endTime: number;
+  /** Colony that paid for the entry and receives the refund when it is cancelled. */
+  paidByPlanetId?: string;
 }
 
 export enum PlanetBiome {
@@ -147,6 +246,34 @@ export interface Alliance {
   notes: string[];
 }
 
+/**
+ * Commitment of one alliance member to an operation: the planet its fleet starts from, the ships it
+ * brings and the launch that lands them at the operation's arrival time.
+ */
+export interface OperationParticipant {
+  playerId: string;
+  originPlanetId: string;
+  originPlanetName: string;
+  fleet: FleetComposition;
+  launchAt: number;
+  /** Mission flown by the current commander; commitments of other members are announced only. */
+  missionId?: string;
+}
+
+/**
+ * Joint attack of an alliance on a target planet. Every participant launches so that all fleets
+ * arrive at `arrivalAt` and fight as one.
+ */
+export interface AllianceOperation {
+  id: string;
+  allianceId: string;
+  createdBy: string;
+  targetPlanetId: string;
+  targetPlanetName: string;
+  arrivalAt: number;
+  participants: OperationParticipant[];
+}
+
 export interface MessageRoom {
   id: string;
   type: 'alliance' | 'direct';
@@ -179,7 +306,19 @@ export enum MissionType {
 export enum MissionStatus {
   Geplant = 'planned',
   Unterwegs = 'enroute',
+  Rueckkehr = 'returning',
+  Zurueckgekehrt = 'returned',
+  Stationiert = 'stationed',
   Abgeschlossen = 'completed',
+  Abgebrochen = 'cancelled',
+}
+
+/**
+ * Departure request for a mission: launch at the given time, or launch early enough to arrive at it.
+ */
+export interface MissionTiming {
+  mode: 'launch' | 'arrival';
+  at: number;
 }
 
 /**
@@ -194,6 +333,23 @@ export interface MissionLocation {
   allianceId?: string;
 }
 
+/**
+ * Hexes a fleet passes from origin to target and the terrain-weighted length of that path in hex steps.
+ */
+export interface MissionRoute {
+  path: AxialCoordinates[];
+  cost: number;
+}
+
+/**
+ * Travel cost multipliers for route planning: per dominant biome of a system hex and per sector,
+ * keyed by `sectorQ:sectorR`, for nebulae. Unlisted hexes cost one step.
+ */
+export interface TerrainCostConfig {
+  biomes?: Partial<Record<PlanetBiome, number>>;
+  sectors?: Record<string, number>;
+}
+
 /**
  * Mission entity tracked on the client to simulate travel and resolution of fleet orders.
  */
@@ -208,4 +364,141 @@ export interface Mission {
   launchAt: number;
   arrivalAt: number;
   travelDuration: number;
+  fleet: FleetComposition;
+  cargo?: Resources;
+  returnArrivalAt?: number;
+  recalledAt?: number;
+  cancelledAt?: number;
+  route?: MissionRoute;
+  /** Brings a stationed fleet home; it lands in the hangar instead of being stationed again. */
+  withdrawal?: boolean;
+  /** Alliance operation the mission flies for; its fleets fight the target together. */
+  operationId?: string;
+  battle?: BattleReport;
+}
+
+/**
+ * Fleet of another commander heading for one of the player's planets. It shows up in the incoming feed
+ * once it enters sensor range.
+ */
+export interface IncomingMission {
+  id: string;
+  type: MissionType;
+  attackerId: string;
+  origin: MissionLocation;
+  target: MissionLocation;
+  launchAt: number;
+  arrivalAt: number;
+  /** Hex steps between origin and target; sensors pick the fleet up within their range of the target. */
+  distance: number;
+  fleet: FleetComposition;
+  detected: boolean;
+  /** Warning thresholds, in milliseconds before arrival, that already raised a notification. */
+  warnedThresholds: number[];
+}
+
+/**
+ * Side that holds the field after a battle; a draw leaves both sides standing after the last round.
+ */
+export type BattleOutcome = 'attacker' | 'defender' | 'draw';
+
+/**
+ * Unit counts of one side over the course of a battle, keyed by ship or defence blueprint id.
+ */
+export interface BattleSide {
+  initial: FleetComposition;
+  losses: FleetComposition;
+  survivors: FleetComposition;
+}
+
+/**
+ * Remaining units and dealt damage after one exchange of fire.
+ */
+export interface BattleRound {
+  round: number;
+  attackerDamage: number;
+  defenderDamage: number;
+  attackerUnits: FleetComposition;
+  defenderUnits: FleetComposition;
+}
+
+/**
+ * Structured result of an attack mission, reproducible from its seed.
+ */
+export interface BattleReport {
+  seed: number;
+  outcome: BattleOutcome;
+  rounds: BattleRound[];
+  attacker: BattleSide;
+  defender: BattleSide;
+  loot: Resources;
+  conquered: boolean;
 }
+
+/**
+ * Categories of mission reports kept in the report inbox.
+ */
+export enum ReportType {
+  Kampf = 'combat',
+  Spionage = 'espionage',
+  Transport = 'transport',
+  Kolonisierung = 'colonization',
+}
+
+/**
+ * Fields shared by every report: the mission it stems from, where it happened and its inbox state.
+ */
+interface ReportBase {
+  id: string;
+  missionId: string;
+  createdAt: number;
+  systemId: string;
+  planetId: string;
+  planetName: string;
+  coordinate: string;
+  read: boolean;
+  archived: boolean;
+}
+
+export interface CombatReport extends ReportBase {
+  type: ReportType.Kampf;
+  battle: BattleReport;
+}
+
+/**
+ * Intelligence gathered about a planet. Sections stay undefined when the probes could not uncover them.
+ */
+export interface IntelSnapshot {
+  resources?: Resources;
+  buildings?: Record<string, number>;
+  research?: Record<string, number>;
+  fleet?: FleetComposition;
+  defences?: FleetComposition;
+}
+
+export interface EspionageReport extends ReportBase {
+  type: ReportType.Spionage;
+  snapshot: IntelSnapshot;
+  levelDifference: number;
+  detected: boolean;
+}
+
+export interface TransportReport extends ReportBase {
+  type: ReportType.Transport;
+  delivered: Resources;
+  returned: Resources;
+}
+
+/**
+ * Reason a colonization attempt came to nothing: the slot was taken before the settlers arrived,
+ * or the empire already governs as many colonies as its research allows.
+ */
+export type ColonizationFailure = 'occupied' | 'limit';
+
+export interface ColonizationReport extends ReportBase {
+  type: ReportType.Kolonisierung;
+  conquered: boolean;
+  failure?: ColonizationFailure;
+}
+
+export type Report = CombatReport | EspionageReport | TransportReport | ColonizationReport;
@@ -0,0 +1,8 @@
+import { SimulationRequest, createSimulationHost } from '@/lib/simulationCore';
+
+/**
+ * Dedicated worker that advances the economy, shipyard and missions off the main thread.
+ */
+const handleRequest = createSimulationHost((response) => self.postMessage(response));
+
+self.addEventListener('message', (event: MessageEvent<SimulationRequest>) => handleRequest(event.data));